@@ -54,6 +54,8 @@ export async function GET(request: NextRequest) {
         tx_hash,
         error_message,
         metadata,
+        user_op_hash,
+        tx_status,
         created_at
       FROM agent_actions
       WHERE user_id = ${userId}
@@ -103,6 +105,8 @@ export async function GET(request: NextRequest) {
       toProtocol: activity.to_protocol,
       amountUsdc: activity.amount_usdc,
       txHash: activity.tx_hash,
+      userOpHash: activity.user_op_hash,
+      txStatus: activity.tx_status,
       errorMessage: activity.error_message,
       metadata: activity.metadata,
       createdAt: activity.created_at,
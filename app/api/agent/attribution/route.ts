@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAggregateAttribution } from "@/lib/agent/attribution";
+import { verifyCronRequest } from "@/lib/security/cron-auth";
+
+const PERIOD_DAYS: Record<string, number | null> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365,
+  all: null,
+};
+
+/**
+ * GET /api/agent/attribution?period=month
+ * Agent performance attribution across all users: yield along the agent's
+ * rebalancing path vs. leaving funds in their original vault, with the
+ * per-user breakdown (operator view)
+ *
+ * Security: Verifies CRON_SECRET from request headers
+ * Query params:
+ * - period: day | week | month | year | all (default: all)
+ */
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const period = request.nextUrl.searchParams.get("period") || "all";
+    if (!Object.hasOwn(PERIOD_DAYS, period)) {
+      return NextResponse.json(
+        { error: `Invalid period. Expected one of: ${Object.keys(PERIOD_DAYS).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const until = new Date();
+    const days = PERIOD_DAYS[period];
+    const since = days ? new Date(until.getTime() - days * 24 * 60 * 60 * 1000) : undefined;
+
+    const { total, users } = await getAggregateAttribution({ since, until });
+
+    return NextResponse.json({ period, total, users });
+  } catch (error: any) {
+    console.error("[Attribution API] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to compute attribution",
+        details: process.env.NODE_ENV === "development" ? error.message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  JOB_STATUSES,
+  getCycleJobs,
+  getQueueProgress,
+  type JobStatus,
+} from "@/lib/agent/job-queue";
+import { verifyCronRequest } from "@/lib/security/cron-auth";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/agent/cron/jobs
+ * Per-job status for a rebalancing cycle (operator view)
+ *
+ * Security: Verifies CRON_SECRET from request headers
+ * Query params:
+ * - cycleId: cycle to inspect (default: most recent)
+ * - status: pending | running | succeeded | skipped | dead
+ */
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const cycleIdParam = request.nextUrl.searchParams.get("cycleId");
+    const status = request.nextUrl.searchParams.get("status");
+
+    if (cycleIdParam && !UUID_REGEX.test(cycleIdParam)) {
+      return NextResponse.json({ error: "Invalid cycleId" }, { status: 400 });
+    }
+
+    if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status. Expected one of: ${JOB_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const { cycleId, progress } = await getQueueProgress(cycleIdParam ?? undefined);
+    const jobs = cycleId ? await getCycleJobs(cycleId, (status as JobStatus) ?? undefined) : [];
+
+    return NextResponse.json({ cycleId, progress, jobs, count: jobs.length });
+  } catch (error: any) {
+    console.error("[Cron Jobs API] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch cron jobs",
+        details: process.env.NODE_ENV === "development" ? error.message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
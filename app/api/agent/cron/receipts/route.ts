@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { trackPendingUserOps } from "@/lib/agent/userop-tracker";
+import { verifyCronRequest } from "@/lib/security/cron-auth";
+
+/**
+ * GET /api/agent/cron/receipts
+ * Vercel Cron entry point (Vercel Cron sends GET with `Authorization: Bearer
+ * CRON_SECRET`); runs the same handler, secret check included, as POST.
+ */
+export async function GET(request: NextRequest) {
+  return POST(request);
+}
+
+/**
+ * POST /api/agent/cron/receipts
+ * Advances in-flight rebalance UserOps through submitted → included →
+ * confirmed/reverted by polling the bundler for their receipts
+ *
+ * Security: Verifies CRON_SECRET from request headers
+ * Records the real transaction hash, gas used and paymaster sponsorship cost
+ * on each agent_actions row, flags ops still unincluded after the stuck
+ * timeout and fails the ones that never land within a day.
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  if (!verifyCronRequest(request)) {
+    console.error("[Tracker] Unauthorized attempt - invalid secret");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await trackPendingUserOps();
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      duration: Date.now() - startTime,
+    });
+  } catch (error: any) {
+    console.error("[Tracker] Fatal error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || "Receipt tracking failed",
+      },
+      { status: 500 }
+    );
+  }
+}
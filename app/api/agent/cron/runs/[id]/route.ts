@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCronRun } from "@/lib/agent/cron-runs";
+import { verifyCronRequest } from "@/lib/security/cron-auth";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/agent/cron/runs/[id]
+ * A single cron run with its full per-user details
+ *
+ * Security: Verifies CRON_SECRET from request headers
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: "Invalid run id" }, { status: 400 });
+    }
+
+    const run = await getCronRun(id);
+    if (!run) {
+      return NextResponse.json({ error: "Cron run not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ run });
+  } catch (error: any) {
+    console.error("[Cron Runs API] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch cron run",
+        details: process.env.NODE_ENV === "development" ? error.message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidEvmAddress } from "@/lib/utils";
+import { listCronRuns, type CronRunType } from "@/lib/agent/cron-runs";
+import { verifyCronRequest } from "@/lib/security/cron-auth";
+
+const RUN_TYPES: CronRunType[] = ["enqueue", "worker"];
+
+/**
+ * GET /api/agent/cron/runs?limit=20&offset=0
+ * Paginated cron run history, newest first (admin view)
+ *
+ * Security: Verifies CRON_SECRET from request headers
+ * Query params:
+ * - type: enqueue | worker
+ * - address: only runs that touched this user, with that user's details
+ *   (why they were skipped, rebalanced or errored)
+ *
+ * Full per-user details for one run: GET /api/agent/cron/runs/[id]
+ */
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const limit = parseInt(request.nextUrl.searchParams.get("limit") || "20");
+    const offset = parseInt(request.nextUrl.searchParams.get("offset") || "0");
+    const type = request.nextUrl.searchParams.get("type");
+    const address = request.nextUrl.searchParams.get("address");
+
+    // Validate limits
+    if (!(limit >= 1 && limit <= 100)) {
+      return NextResponse.json({ error: "Limit must be between 1 and 100" }, { status: 400 });
+    }
+    if (!(offset >= 0)) {
+      return NextResponse.json({ error: "Offset must be 0 or greater" }, { status: 400 });
+    }
+
+    if (type && !RUN_TYPES.includes(type as CronRunType)) {
+      return NextResponse.json(
+        { error: `Invalid type. Expected one of: ${RUN_TYPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (address && !isValidEvmAddress(address)) {
+      return NextResponse.json({ error: "Invalid address format" }, { status: 400 });
+    }
+
+    const { runs, total } = await listCronRuns({
+      limit,
+      offset,
+      runType: (type as CronRunType) ?? undefined,
+      address: address ?? undefined,
+    });
+
+    return NextResponse.json({
+      runs,
+      total,
+      limit,
+      offset,
+      hasMore: offset + runs.length < total,
+    });
+  } catch (error: any) {
+    console.error("[Cron Runs API] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch cron runs",
+        details: process.env.NODE_ENV === "development" ? error.message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
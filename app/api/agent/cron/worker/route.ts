@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getQueueProgress } from "@/lib/agent/job-queue";
+import { runPendingWithdrawals, runRebalanceWorker } from "@/lib/agent/rebalance-worker";
+import { recordCronRun } from "@/lib/agent/cron-runs";
+import { verifyCronRequest } from "@/lib/security/cron-auth";
+
+/**
+ * GET /api/agent/cron/worker
+ * Vercel Cron entry point (Vercel Cron sends GET with `Authorization: Bearer
+ * CRON_SECRET`); runs the same handler, secret check included, as POST.
+ */
+export async function GET(request: NextRequest) {
+  return POST(request);
+}
+
+/**
+ * POST /api/agent/cron/worker
+ * Drains the rebalance job queue enqueued by /api/agent/cron
+ *
+ * Security: Verifies CRON_SECRET from request headers
+ * Claims due jobs with leases, processes them until the queue is empty or
+ * the time budget runs out, and reports this run plus overall cycle progress.
+ * Jobs left behind by a crashed or timed-out invocation are re-claimed once
+ * their lease expires. Runs that processed any job are recorded in cron_runs.
+ * Afterwards, exits queued by thin vault liquidity are continued.
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  if (!verifyCronRequest(request)) {
+    console.error("[Worker] Unauthorized attempt - invalid secret");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let safetyCheck: { safe: boolean; reason?: string } | null = null;
+
+  try {
+    // Pre-flight safety check: never execute while the USDC price feed is unhealthy
+    const { isRebalanceSafe } = await import("@/lib/oracles/chainlink");
+    safetyCheck = await isRebalanceSafe();
+    if (!safetyCheck.safe) {
+      console.error("[Worker] Safety check FAILED:", safetyCheck.reason);
+      await recordCronRun({
+        runType: "worker",
+        status: "blocked",
+        safetyCheck,
+        startedAt: new Date(startTime),
+      });
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Rebalancing blocked by safety check: ${safetyCheck.reason}`,
+        },
+        { status: 503 }
+      );
+    }
+
+    const summary = await runRebalanceWorker();
+    const withdrawals = await runPendingWithdrawals();
+    const { cycleId, progress } = await getQueueProgress();
+
+    const duration = Date.now() - startTime;
+    console.log(`[Worker] Run complete in ${duration}ms:`, {
+      processed: summary.processed,
+      rebalanced: summary.rebalanced,
+      skipped: summary.skipped,
+      errors: summary.errors,
+      deadLettered: summary.deadLettered,
+      withdrawals: {
+        processed: withdrawals.processed,
+        completed: withdrawals.completed,
+        waiting: withdrawals.waiting,
+      },
+    });
+
+    // Idle polls (empty queue) aren't worth a history row
+    if (summary.details.length > 0) {
+      await recordCronRun({
+        runType: "worker",
+        cycleId,
+        status: "completed",
+        safetyCheck,
+        summary,
+        startedAt: new Date(startTime),
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      withdrawals,
+      cycleId,
+      progress,
+      duration,
+    });
+  } catch (error: any) {
+    console.error("[Worker] Fatal error:", error);
+    await recordCronRun({
+      runType: "worker",
+      status: "failed",
+      safetyCheck,
+      errorMessage: error.message || "Worker execution failed",
+      startedAt: new Date(startTime),
+    });
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || "Worker execution failed",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * GET /api/agent/export?format=csv&from=2025-01-01&to=2026-01-01&report=ledger
+ * Exports the authenticated user's yield activity for tax and accounting tools
+ *
+ * Requires:
+ * - Privy JWT authentication
+ *
+ * Query:
+ * - format: "json" (default) | "csv"
+ * - from / to: ISO dates; `from` inclusive, `to` exclusive (default: all time)
+ * - year: shorthand for from=<year>-01-01&to=<year+1>-01-01 (UTC)
+ * - report: "ledger" (default) | "summary" — which table a CSV export contains
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, unauthorizedResponse } from "@/lib/auth/middleware";
+import { buildTaxExport, taxRowsToCsv, taxYearsToCsv } from "@/lib/agent/tax-export";
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authenticate request — exports are only ever for the caller's own wallet
+    const authResult = await authenticateRequest(request);
+    if (!authResult.authenticated) {
+      return unauthorizedResponse(authResult.error);
+    }
+
+    const userWalletAddress = authResult.walletAddress;
+    if (!userWalletAddress) {
+      return unauthorizedResponse("No wallet linked to account");
+    }
+
+    // 2. Parse query
+    const params = request.nextUrl.searchParams;
+    const format = params.get("format") || "json";
+    const report = params.get("report") || "ledger";
+
+    if (format !== "json" && format !== "csv") {
+      return NextResponse.json({ error: "format must be json or csv" }, { status: 400 });
+    }
+    if (report !== "ledger" && report !== "summary") {
+      return NextResponse.json({ error: "report must be ledger or summary" }, { status: 400 });
+    }
+
+    let from = parseDate(params.get("from"));
+    let to = parseDate(params.get("to"));
+    const year = params.get("year");
+    let taxYear: number | undefined;
+    if (year) {
+      const y = parseInt(year, 10);
+      if (isNaN(y) || y < 2000 || y > 9999) {
+        return NextResponse.json({ error: "Invalid year" }, { status: 400 });
+      }
+      taxYear = y;
+      from = new Date(Date.UTC(y, 0, 1));
+      to = new Date(Date.UTC(y + 1, 0, 1));
+    }
+
+    if (from === null || to === null) {
+      return NextResponse.json({ error: "Invalid from/to date" }, { status: 400 });
+    }
+    if (from && to && from >= to) {
+      return NextResponse.json({ error: "from must be before to" }, { status: 400 });
+    }
+
+    // 3. Build export
+    const data = await buildTaxExport(userWalletAddress, { from, to });
+
+    if (format === "json") {
+      return NextResponse.json(data);
+    }
+
+    const csv = report === "summary" ? taxYearsToCsv(data.years) : taxRowsToCsv(data.rows);
+    // Built from parsed values only — the raw query string never reaches the header
+    const suffix =
+      taxYear !== undefined
+        ? String(taxYear)
+        : [from?.toISOString().slice(0, 10), to?.toISOString().slice(0, 10)]
+            .filter(Boolean)
+            .join("_to_");
+    const filename = `yield-${report}${suffix ? `-${suffix}` : ""}.csv`;
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error: any) {
+    console.error("[Tax Export] Error:", error);
+    return NextResponse.json({ error: error.message || "Failed to export" }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { yieldDecisionEngine } from "@/lib/agent/decision-engine";
+import { verifyCronRequest } from "@/lib/security/cron-auth";
+
+/**
+ * GET /api/agent/exposure
+ * Platform-wide exposure: what all users hold per vault and per curator,
+ * from a snapshot of their live positions, against PLATFORM_EXPOSURE_LIMITS
+ * (operator view)
+ *
+ * Security: Verifies CRON_SECRET from request headers
+ * Query params:
+ * - held: "true" to list only vaults users currently hold (default: every vault)
+ */
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const report = await yieldDecisionEngine.getExposureReport();
+    const heldOnly = request.nextUrl.searchParams.get("held") === "true";
+
+    return NextResponse.json({
+      ...report,
+      vaults: heldOnly ? report.vaults.filter((v) => v.exposureUsd > 0) : report.vaults,
+      overLimit: {
+        vaults: report.vaults.filter((v) => v.overLimit).length,
+        curators: report.curators.filter((c) => c.overLimit).length,
+      },
+    });
+  } catch (error: any) {
+    console.error("[Exposure API] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to compute exposure",
+        details: process.env.NODE_ENV === "development" ? error.message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
 import { neon } from "@neondatabase/serverless";
-import { calculateTotalGains, formatApyPct, formatUsd } from "@/lib/yield-optimizer/apy-calculator";
+import { formatUnits } from "viem";
+import { formatApyPct, formatUsd } from "@/lib/yield-optimizer/apy-calculator";
+import { getYieldSummary } from "@/lib/agent/yield-ledger";
+import { getAgentAttribution } from "@/lib/agent/attribution";
 
 const sql = neon(process.env.DATABASE_URL!);
 
 type Period = "day" | "week" | "month" | "year" | "all";
 
+// USDC base units → display number
+const toUsd = (amount: bigint) => Number(formatUnits(amount, 6));
+
 /**
  * GET /api/agent/gains?address=0x...&period=week
- * Calculates historical APY gains for a user across all rebalances
+ * Realized and unrealized yield from the position ledger, plus the user's
+ * rebalances in the period. Realized yield is limited to exits in the period;
+ * unrealized yield is always as of now. `attribution` compares the agent's
+ * path in the period with leaving funds in their original vault.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -27,11 +36,14 @@ export async function GET(request: NextRequest) {
     if (users.length === 0) {
       return NextResponse.json({
         totalGain: 0,
+        realizedGain: 0,
+        unrealizedGain: 0,
         averageApyImprovement: 0,
         rebalanceCount: 0,
         periodStart: null,
         periodEnd: null,
         breakdown: [],
+        attribution: null,
       });
     }
 
@@ -78,50 +90,77 @@ export async function GET(request: NextRequest) {
       ORDER BY created_at DESC
     `;
 
-    // 4. Parse metadata and calculate gains
+    // 4. Parse rebalance metadata
     const breakdown = rebalances.map((action: any) => {
       const metadata = action.metadata || {};
-      const amount = parseFloat(action.amount_usdc || "0");
       const fromApy = metadata.fromApy || 0;
       const toApy = metadata.toApy || 0;
-      const apyImprovement = metadata.apyImprovement || toApy - fromApy;
-      const estimatedGain = metadata.estimatedYearlyGain || amount * apyImprovement;
 
       return {
         date: action.created_at,
         fromProtocol: action.from_protocol,
         toProtocol: action.to_protocol,
-        amount,
+        amount: parseFloat(action.amount_usdc || "0"),
         fromApy,
         toApy,
-        apyImprovement,
-        estimatedGain,
+        apyImprovement: metadata.apyImprovement || toApy - fromApy,
       };
     });
 
-    // 5. Calculate totals
-    const rebalanceData = breakdown.map((b) => ({
-      amount: b.amount,
-      fromApy: b.fromApy,
-      toApy: b.toApy,
-      timestamp: new Date(b.date).getTime(),
-    }));
+    const averageApyImprovement =
+      breakdown.length > 0
+        ? breakdown.reduce((sum, b) => sum + b.apyImprovement, 0) / breakdown.length
+        : 0;
 
-    const totals = calculateTotalGains(rebalanceData);
+    // 5. Realized/unrealized yield from the position ledger, and attribution
+    //    against the do-nothing counterfactual
+    const [ledger, attribution] = await Promise.all([
+      getYieldSummary(address as `0x${string}`, periodStart),
+      getAgentAttribution(address, { since: periodStart, until: now }),
+    ]);
+    const realizedGain = toUsd(ledger.periodRealizedYield);
+    const unrealizedGain = toUsd(ledger.unrealizedYield);
+    const totalGain = realizedGain + unrealizedGain;
 
     return NextResponse.json({
-      totalGain: totals.totalYearlyGain,
-      totalGainFormatted: formatUsd(totals.totalYearlyGain),
-      averageApyImprovement: totals.averageApyImprovement,
-      averageApyImprovementFormatted: formatApyPct(totals.averageApyImprovement),
+      totalGain,
+      totalGainFormatted: formatUsd(totalGain),
+      realizedGain,
+      unrealizedGain,
+      averageApyImprovement,
+      averageApyImprovementFormatted: formatApyPct(averageApyImprovement),
       rebalanceCount: rebalances.length,
       periodStart: periodStart.toISOString(),
       periodEnd: now.toISOString(),
       breakdown,
       summary: {
-        totalYearlyGain: totals.totalYearlyGain,
-        totalMonthlyGain: totals.totalMonthlyGain,
-        totalCompoundedGain: totals.totalCompoundedGain,
+        netPrincipal: toUsd(ledger.netPrincipal),
+        currentValue: toUsd(ledger.currentValue),
+        totalDeposited: toUsd(ledger.deposited),
+        totalWithdrawn: toUsd(ledger.withdrawn),
+        allTimeRealizedGain: toUsd(ledger.realizedYield),
+        // Withdrawals from holdings the ledger has no cost for; not counted as gain
+        unknownBasisWithdrawn: toUsd(ledger.unknownBasisProceeds),
+      },
+      vaults: ledger.vaults.map((v) => ({
+        vaultAddress: v.vaultAddress,
+        protocol: v.protocol,
+        shares: v.sharesHeld.toString(),
+        principal: toUsd(v.principal),
+        currentValue: toUsd(v.currentAssets),
+        realizedGain: toUsd(v.realizedYield),
+        unrealizedGain: toUsd(v.unrealizedYield),
+        unknownBasisWithdrawn: toUsd(v.unknownBasisProceeds),
+        priced: v.priced,
+      })),
+      attribution: {
+        agentYield: attribution.agentYieldUsd,
+        counterfactualYield: attribution.counterfactualYieldUsd,
+        attributedYield: attribution.attributedYieldUsd,
+        attributedYieldFormatted: formatUsd(attribution.attributedYieldUsd),
+        pricedSegments: attribution.pricedSegments,
+        unpricedSegments: attribution.unpricedSegments,
+        segments: attribution.segments,
       },
     });
   } catch (error: any) {
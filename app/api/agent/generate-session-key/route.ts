@@ -8,18 +8,27 @@
  * includes the session key, enable signature, policies, and EIP-7702 auth.
  *
  * The server encrypts and stores the serialized account for later
- * deserialization during execution.
+ * deserialization during execution. Storing a new key resolves any open
+ * renewal for the wallet (see lib/agent/session-renewal.ts), records the
+ * grant in the session key registry, and revokes the key it replaces.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { neon } from "@neondatabase/serverless";
-import { encryptAuthorization } from "@/lib/security/session-encryption";
+import {
+  encryptAuthorization,
+  type SessionKey7702Authorization,
+} from "@/lib/security/session-encryption";
 import {
   requireAuthForAddress,
   unauthorizedResponse,
   forbiddenResponse,
 } from "@/lib/auth/middleware";
 import { revokeSession } from "@/lib/security/session-revocation";
+import { recordSessionGrant } from "@/lib/security/session-registry";
+import { recordSessionRenewed } from "@/lib/agent/session-renewal";
+import { isUninstallCall } from "@/lib/zerodev/session-uninstall";
+import { PROTOCOLS } from "@/lib/yield-optimizer/config";
 
 const sql = neon(process.env.DATABASE_URL!);
 
@@ -29,7 +38,23 @@ interface StoreSessionRequest {
   sessionKeyAddress: string;
   serializedAccount: string; // Base64 serialized kernel account from client
   approvedVaults: string[];
+  approvedProtocols?: string[]; // Omitted by older clients → Morpho only
+  policyConfig?: SessionKey7702Authorization["policyConfig"]; // Gas/rate-limit policy, reused on renewal
   expiry: number;
+  renewal?: boolean; // Re-grant of an expiring key with the same scope
+  uninstallCallData?: string; // Kernel.uninstallValidation for this key's validator
+}
+
+function isValidPolicyConfig(policy: StoreSessionRequest["policyConfig"]): boolean {
+  if (policy === undefined) return true;
+  return (
+    typeof policy?.gasPolicy?.allowed === "string" &&
+    /^\d+$/.test(policy.gasPolicy.allowed) &&
+    Number.isInteger(policy.rateLimitPolicy?.count) &&
+    policy.rateLimitPolicy.count > 0 &&
+    Number.isInteger(policy.rateLimitPolicy?.interval) &&
+    policy.rateLimitPolicy.interval > 0
+  );
 }
 
 /**
@@ -39,7 +64,16 @@ interface StoreSessionRequest {
 export async function POST(request: NextRequest) {
   try {
     const body: StoreSessionRequest = await request.json();
-    const { address, sessionKeyAddress, serializedAccount, approvedVaults, expiry } = body;
+    const {
+      address,
+      sessionKeyAddress,
+      serializedAccount,
+      approvedVaults,
+      policyConfig,
+      expiry,
+      uninstallCallData,
+    } = body;
+    const approvedProtocols = body.approvedProtocols ?? ["morpho"];
 
     // Validate required fields
     if (!address) {
@@ -58,6 +92,21 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Missing or invalid approved vaults" }, { status: 400 });
     }
 
+    if (
+      !Array.isArray(approvedProtocols) ||
+      approvedProtocols.some((p) => !Object.hasOwn(PROTOCOLS, p))
+    ) {
+      return NextResponse.json({ error: "Invalid approved protocols" }, { status: 400 });
+    }
+
+    if (!isValidPolicyConfig(policyConfig)) {
+      return NextResponse.json({ error: "Invalid policy config" }, { status: 400 });
+    }
+
+    if (uninstallCallData !== undefined && !isUninstallCall(uninstallCallData)) {
+      return NextResponse.json({ error: "Invalid uninstall call data" }, { status: 400 });
+    }
+
     // SECURITY: Verify authenticated user owns the requested address
     const authResult = await requireAuthForAddress(request, address);
     if (!authResult.authenticated) {
@@ -76,6 +125,8 @@ export async function POST(request: NextRequest) {
       sessionKeyAddress: sessionKeyAddress as `0x${string}`,
       serializedAccount, // Will be encrypted
       approvedVaults: approvedVaults as `0x${string}`[],
+      approvedProtocols,
+      policyConfig,
       expiry,
       timestamp: Date.now(),
     };
@@ -85,6 +136,10 @@ export async function POST(request: NextRequest) {
 
     // Store encrypted session data in database
     const normalizedAddress = address.toLowerCase();
+    const previous = await sql`
+      SELECT authorization_7702->>'sessionKeyAddress' as session_key
+      FROM users WHERE wallet_address = ${normalizedAddress}
+    `;
     await sql`
       INSERT INTO users (wallet_address, agent_registered, authorization_7702)
       VALUES (${normalizedAddress}, true, ${authJson}::jsonb)
@@ -106,12 +161,43 @@ export async function POST(request: NextRequest) {
       SELECT id, 'delegation_set', 'success', ${JSON.stringify({
         sessionKeyAddress,
         approvedVaults,
+        approvedProtocols,
         expiry,
+        renewal: body.renewal === true,
         timestamp: Date.now(),
       })}::jsonb
       FROM users WHERE wallet_address = ${normalizedAddress}
     `;
 
+    // Resolve the renewal notice for the key this one replaces
+    try {
+      await recordSessionRenewed(normalizedAddress, "agent", sessionKeyAddress);
+    } catch (error) {
+      console.error("[Session Key] Failed to resolve session renewal:", error);
+    }
+
+    // Registry bookkeeping: the new grant, and the key it supersedes
+    try {
+      await recordSessionGrant({
+        walletAddress: normalizedAddress,
+        kind: "agent",
+        sessionKeyAddress,
+        accountAddress: address,
+        expiry,
+        uninstallCallData,
+      });
+      const previousKey: string | undefined = previous[0]?.session_key;
+      if (previousKey && previousKey.toLowerCase() !== sessionKeyAddress.toLowerCase()) {
+        await revokeSession(previousKey, {
+          walletAddress: normalizedAddress,
+          kind: "agent",
+          revokedBy: "rotation",
+        });
+      }
+    } catch (error) {
+      console.error("[Session Key] Failed to update session key registry:", error);
+    }
+
     // Ensure user has a strategy entry
     await sql`
       INSERT INTO user_strategies (user_id)
@@ -168,7 +254,11 @@ export async function DELETE(request: NextRequest) {
       FROM users WHERE LOWER(wallet_address) = LOWER(${address})
     `;
     if (existing[0]?.session_key) {
-      await revokeSession(existing[0].session_key);
+      await revokeSession(existing[0].session_key, {
+        walletAddress: address,
+        kind: "agent",
+        revokedBy: "user",
+      });
     }
 
     // Remove session key from database
@@ -0,0 +1,148 @@
+/**
+ * Session Key History & Uninstall API
+ *
+ * GET /api/agent/session-keys
+ * The user's session keys from the registry, newest first: when each was
+ * granted, revoked (and by whom), and whether its validator was uninstalled.
+ * Uninstalls still "submitted", or timed out, are reconciled against the
+ * bundler first.
+ *
+ * POST /api/agent/session-keys
+ * Uninstalls a revoked agent key's permission validator on-chain, in two steps
+ * (see lib/zerodev/session-uninstall.ts):
+ * - { step: "prepare", sessionKeyAddress } → { userOp, userOpHash } to sign
+ * - { step: "submit", sessionKeyAddress, userOp, signature } → relayed to the bundler
+ * A submitted uninstall that never lands times out (UNINSTALL_DROPPED_AFTER_MS
+ * after submission) and can then be prepared again.
+ *
+ * Requires:
+ * - Privy JWT authentication
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, unauthorizedResponse } from "@/lib/auth/middleware";
+import {
+  getSessionKeyHistory,
+  getUninstallTarget,
+  recordUninstall,
+} from "@/lib/security/session-registry";
+import {
+  prepareUninstallUserOp,
+  reconcileUninstall,
+  submitUninstallUserOp,
+} from "@/lib/zerodev/session-uninstall";
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.authenticated) {
+      return unauthorizedResponse(authResult.error);
+    }
+
+    const walletAddress = authResult.walletAddress;
+    if (!walletAddress) {
+      return unauthorizedResponse("No wallet linked to account");
+    }
+
+    const history = await getSessionKeyHistory(walletAddress);
+    const keys = await Promise.all(history.map((key) => reconcileUninstall(key)));
+    return NextResponse.json({ keys });
+  } catch (error: any) {
+    console.error("[Session Keys] Error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to load session keys" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.authenticated) {
+      return unauthorizedResponse(authResult.error);
+    }
+
+    const walletAddress = authResult.walletAddress;
+    if (!walletAddress) {
+      return unauthorizedResponse("No wallet linked to account");
+    }
+
+    const { step, sessionKeyAddress, userOp, signature } = await request.json();
+    if (typeof sessionKeyAddress !== "string" || !sessionKeyAddress) {
+      return NextResponse.json({ error: "Missing session key address" }, { status: 400 });
+    }
+
+    const found = await getUninstallTarget(walletAddress, sessionKeyAddress);
+    if (!found) {
+      return NextResponse.json({ error: "Session key not found" }, { status: 404 });
+    }
+    const target = await reconcileUninstall(found);
+    if (!target.revokedAt) {
+      return NextResponse.json({ error: "Revoke the session key first" }, { status: 409 });
+    }
+    if (!target.uninstallable || !target.uninstallCallData) {
+      return NextResponse.json(
+        { error: "This session key can't be uninstalled on-chain" },
+        { status: 409 }
+      );
+    }
+
+    const accountAddress = (target.accountAddress ?? walletAddress) as `0x${string}`;
+
+    if (step === "prepare") {
+      if (target.uninstallStatus === "submitted") {
+        return NextResponse.json({ error: "Uninstall already in progress" }, { status: 409 });
+      }
+
+      let prepared;
+      try {
+        prepared = await prepareUninstallUserOp(
+          accountAddress,
+          target.uninstallCallData as `0x${string}`
+        );
+      } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+
+      await recordUninstall(sessionKeyAddress, {
+        status: "prepared",
+        userOpHash: prepared.userOpHash,
+      });
+      return NextResponse.json(prepared);
+    }
+
+    if (step === "submit") {
+      if (target.uninstallStatus !== "prepared" || !target.uninstallUserOpHash) {
+        return NextResponse.json({ error: "Prepare the uninstall first" }, { status: 409 });
+      }
+      if (!userOp || typeof signature !== "string") {
+        return NextResponse.json({ error: "Missing signed UserOp" }, { status: 400 });
+      }
+
+      let result;
+      try {
+        result = await submitUninstallUserOp(
+          accountAddress,
+          userOp,
+          signature as `0x${string}`,
+          target.uninstallUserOpHash
+        );
+      } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+
+      await recordUninstall(sessionKeyAddress, result);
+      console.log("[Session Keys] Uninstall", result.status, "for", sessionKeyAddress);
+      return NextResponse.json(result);
+    }
+
+    return NextResponse.json({ error: "Invalid step" }, { status: 400 });
+  } catch (error: any) {
+    console.error("[Session Keys] Uninstall error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to uninstall session key" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Session Key Renewal API
+ *
+ * GET /api/agent/session-renewal
+ * The user's agent and transfer session states plus open renewal notices.
+ * The agent entry carries the scope a one-signature renewal reuses
+ * (approvedVaults, approvedProtocols, policyConfig) — never key material.
+ *
+ * PATCH /api/agent/session-renewal
+ * Dismisses a renewal notice. Body: { id }
+ *
+ * Requires:
+ * - Privy JWT authentication
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { neon } from "@neondatabase/serverless";
+import { authenticateRequest, unauthorizedResponse } from "@/lib/auth/middleware";
+import {
+  classifySession,
+  dismissRenewal,
+  getOpenRenewals,
+  type SessionRenewal,
+} from "@/lib/agent/session-renewal";
+
+const sql = neon(process.env.DATABASE_URL!);
+
+function sessionSummary(auth: any, renewals: SessionRenewal[]) {
+  if (!auth?.sessionKeyAddress || typeof auth.expiry !== "number") return null;
+  const renewal = renewals.find(
+    (r) => r.sessionKeyAddress === String(auth.sessionKeyAddress).toLowerCase()
+  );
+  return {
+    sessionKeyAddress: auth.sessionKeyAddress,
+    expiry: auth.expiry,
+    state: classifySession(auth.expiry, renewal?.status ?? null),
+    renewalId: renewal?.id ?? null,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.authenticated) {
+      return unauthorizedResponse(authResult.error);
+    }
+
+    const walletAddress = authResult.walletAddress;
+    if (!walletAddress) {
+      return unauthorizedResponse("No wallet linked to account");
+    }
+
+    const [user] = await sql`
+      SELECT authorization_7702, transfer_authorization
+      FROM users
+      WHERE wallet_address = ${walletAddress.toLowerCase()}
+    `;
+    if (!user) {
+      return NextResponse.json({ agent: null, transfer: null, notices: [] });
+    }
+
+    const renewals = await getOpenRenewals(walletAddress);
+    const agentAuth = user.authorization_7702;
+    const agent = sessionSummary(agentAuth, renewals);
+
+    return NextResponse.json({
+      agent: agent && {
+        ...agent,
+        approvedVaults: agentAuth.approvedVaults ?? [],
+        approvedProtocols: agentAuth.approvedProtocols ?? ["morpho"],
+        policyConfig: agentAuth.policyConfig ?? null,
+      },
+      transfer: sessionSummary(user.transfer_authorization, renewals),
+      notices: renewals
+        .filter((r) => !r.dismissedAt)
+        .map((r) => ({
+          id: r.id,
+          sessionKind: r.sessionKind,
+          status: r.status,
+          expiresAt: r.expiresAt,
+          notifiedAt: r.notifiedAt,
+        })),
+    });
+  } catch (error: any) {
+    console.error("[Session Renewal] Error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to load session renewal state" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.authenticated) {
+      return unauthorizedResponse(authResult.error);
+    }
+
+    const walletAddress = authResult.walletAddress;
+    if (!walletAddress) {
+      return unauthorizedResponse("No wallet linked to account");
+    }
+
+    const { id } = await request.json();
+    if (typeof id !== "string" || !id) {
+      return NextResponse.json({ error: "Missing renewal id" }, { status: 400 });
+    }
+
+    const dismissed = await dismissRenewal(walletAddress, id);
+    if (!dismissed) {
+      return NextResponse.json({ error: "Renewal not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("[Session Renewal] Dismiss error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to dismiss renewal" },
+      { status: 500 }
+    );
+  }
+}
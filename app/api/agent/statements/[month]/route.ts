@@ -0,0 +1,87 @@
+/**
+ * GET /api/agent/statements/2026-03?format=pdf
+ * Monthly account statement: opening/closing balance, deposits, withdrawals,
+ * transfers, yield per vault and agent rebalances with their reasons
+ *
+ * Requires one of:
+ * - Privy JWT authentication — statement for the caller's own wallet
+ * - CRON_SECRET plus `address` — compliance/support access to any wallet
+ *
+ * Query:
+ * - format: "pdf" (default) | "json"
+ * - address: wallet to report on (CRON_SECRET callers only)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, unauthorizedResponse } from "@/lib/auth/middleware";
+import { verifyCronRequest } from "@/lib/security/cron-auth";
+import { isValidEvmAddress } from "@/lib/utils";
+import { buildMonthlyStatement, parseStatementMonth } from "@/lib/agent/statement";
+import { renderStatementPdf } from "@/lib/agent/statement-pdf";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ month: string }> }
+) {
+  try {
+    const { month } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const format = searchParams.get("format") || "pdf";
+    const address = searchParams.get("address");
+
+    // 1. Resolve whose statement this is
+    let walletAddress: string;
+    if (address) {
+      if (!verifyCronRequest(request)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+      if (!isValidEvmAddress(address)) {
+        return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+      }
+      walletAddress = address;
+    } else {
+      const authResult = await authenticateRequest(request);
+      if (!authResult.authenticated) {
+        return unauthorizedResponse(authResult.error);
+      }
+      if (!authResult.walletAddress) {
+        return unauthorizedResponse("No wallet linked to account");
+      }
+      walletAddress = authResult.walletAddress;
+    }
+
+    // 2. Validate month and format
+    if (format !== "pdf" && format !== "json") {
+      return NextResponse.json({ error: "format must be pdf or json" }, { status: 400 });
+    }
+    const period = parseStatementMonth(month);
+    if (!period) {
+      return NextResponse.json({ error: "Invalid month, expected YYYY-MM" }, { status: 400 });
+    }
+    if (period.start > new Date()) {
+      return NextResponse.json({ error: "Statement month has not started yet" }, { status: 400 });
+    }
+
+    // 3. Build statement
+    const statement = await buildMonthlyStatement(walletAddress as `0x${string}`, month);
+
+    if (format === "json") {
+      return NextResponse.json(statement);
+    }
+
+    return new NextResponse(Buffer.from(renderStatementPdf(statement)), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="statement-${month}.pdf"`,
+        // Past months are final; the current month changes until it closes
+        "Cache-Control": statement.partial ? "private, no-store" : "private, max-age=86400",
+      },
+    });
+  } catch (error: any) {
+    console.error("[Statement] Error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to generate statement" },
+      { status: 500 }
+    );
+  }
+}
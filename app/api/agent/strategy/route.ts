@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { neon } from "@neondatabase/serverless";
+import {
+  requireAuthForAddress,
+  unauthorizedResponse,
+  forbiddenResponse,
+} from "@/lib/auth/middleware";
+import {
+  DEFAULT_USER_STRATEGY,
+  parseUserStrategy,
+  toStrategySettings,
+  validateStrategySettings,
+} from "@/lib/agent/user-strategy";
+
+const sql = neon(process.env.DATABASE_URL!);
+
+/**
+ * GET /api/agent/strategy?address=0x...
+ * Returns the user's rebalancing strategy (percent units)
+ *
+ * Requires:
+ * - Privy JWT authentication for the requested address
+ */
+export async function GET(request: NextRequest) {
+  const address = request.nextUrl.searchParams.get("address");
+
+  if (!address) {
+    return NextResponse.json({ error: "Missing address parameter" }, { status: 400 });
+  }
+
+  try {
+    // SECURITY: Verify authenticated user owns the requested address
+    const authResult = await requireAuthForAddress(request, address);
+    if (!authResult.authenticated) {
+      if (authResult.error === "Address does not belong to authenticated user") {
+        return forbiddenResponse(authResult.error);
+      }
+      return unauthorizedResponse(authResult.error);
+    }
+
+    const rows = await sql`
+      SELECT s.min_apy_gain_threshold, s.max_slippage_tolerance, s.risk_level
+      FROM users u
+      LEFT JOIN user_strategies s ON u.id = s.user_id
+      WHERE u.wallet_address = ${address.toLowerCase()}
+    `;
+
+    const strategy = rows.length > 0 ? parseUserStrategy(rows[0]) : DEFAULT_USER_STRATEGY;
+
+    return NextResponse.json({
+      strategy: toStrategySettings(strategy),
+      isDefault: rows.length === 0 || rows[0].min_apy_gain_threshold === null,
+    });
+  } catch (error: any) {
+    console.error("[Agent Strategy] Fetch error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch strategy" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/agent/strategy
+ * Updates the user's rebalancing strategy
+ *
+ * Body: { address, minApyGainThreshold?, maxSlippageTolerance?, riskLevel? }
+ * Thresholds are percentages (e.g. 0.5 = 0.5%)
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { address, minApyGainThreshold, maxSlippageTolerance, riskLevel } = body;
+
+    if (!address) {
+      return NextResponse.json({ error: "Missing wallet address" }, { status: 400 });
+    }
+
+    // SECURITY: Verify authenticated user owns the requested address
+    const authResult = await requireAuthForAddress(request, address);
+    if (!authResult.authenticated) {
+      if (authResult.error === "Address does not belong to authenticated user") {
+        return forbiddenResponse(authResult.error);
+      }
+      return unauthorizedResponse(authResult.error);
+    }
+
+    const validation = validateStrategySettings({
+      minApyGainThreshold,
+      maxSlippageTolerance,
+      riskLevel,
+    });
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const normalizedAddress = address.toLowerCase();
+    const users = await sql`
+      SELECT id FROM users WHERE wallet_address = ${normalizedAddress}
+    `;
+
+    if (users.length === 0) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const userId = users[0].id;
+
+    // Upsert — omitted fields keep their current value (or the column default on insert)
+    const rows = await sql`
+      INSERT INTO user_strategies (user_id, min_apy_gain_threshold, max_slippage_tolerance, risk_level)
+      VALUES (
+        ${userId},
+        COALESCE(${minApyGainThreshold ?? null}::decimal, 0.5),
+        COALESCE(${maxSlippageTolerance ?? null}::decimal, 0.5),
+        COALESCE(${riskLevel ?? null}::text, 'medium')
+      )
+      ON CONFLICT (user_id)
+      DO UPDATE SET
+        min_apy_gain_threshold = COALESCE(${minApyGainThreshold ?? null}::decimal, user_strategies.min_apy_gain_threshold),
+        max_slippage_tolerance = COALESCE(${maxSlippageTolerance ?? null}::decimal, user_strategies.max_slippage_tolerance),
+        risk_level = COALESCE(${riskLevel ?? null}::text, user_strategies.risk_level),
+        updated_at = NOW()
+      RETURNING min_apy_gain_threshold, max_slippage_tolerance, risk_level
+    `;
+
+    console.log("[Agent Strategy] Updated strategy for", normalizedAddress);
+
+    return NextResponse.json({
+      message: "Strategy updated successfully",
+      strategy: toStrategySettings(parseUserStrategy(rows[0])),
+    });
+  } catch (error: any) {
+    console.error("[Agent Strategy] Update error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update strategy" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidEvmAddress } from "@/lib/utils";
+import { HISTORY_RANGES, getVaultHistory, isHistoryRange } from "@/lib/morpho/vault-history";
+
+/**
+ * GET /api/morpho/vaults/[address]/history
+ * Downsampled APY/TVL history for a vault from vault_snapshots
+ *
+ * Query params:
+ * - range: 24h | 7d | 30d | 90d | 1y (default: 7d)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  try {
+    const { address } = await params;
+    const range = request.nextUrl.searchParams.get("range") || "7d";
+
+    if (!isValidEvmAddress(address)) {
+      return NextResponse.json({ error: "Invalid vault address format" }, { status: 400 });
+    }
+
+    if (!isHistoryRange(range)) {
+      return NextResponse.json(
+        { error: `Invalid range. Expected one of: ${Object.keys(HISTORY_RANGES).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const points = await getVaultHistory(address, range);
+
+    return NextResponse.json({
+      address: address.toLowerCase(),
+      range,
+      bucket: HISTORY_RANGES[range].bucket,
+      points,
+      count: points.length,
+    });
+  } catch (error: any) {
+    console.error("[Vault History API] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to fetch vault history",
+        details: process.env.NODE_ENV === "development" ? error.message : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,14 @@
 // Auto-Optimization API Endpoint
 import { NextRequest, NextResponse } from "next/server";
-import { optimize, getAllOpportunities, getCurrentPosition } from "@/lib/yield-optimizer";
+import {
+  optimize,
+  getAllOpportunities,
+  getCurrentPosition,
+  getClaimableRewards,
+  type ClaimableReward,
+} from "@/lib/yield-optimizer";
 import { calculateAccruedRewards } from "@/lib/yield-optimizer/rewards-calculator";
+import { getYieldSummary, type VaultYield } from "@/lib/agent/yield-ledger";
 
 // Transform opportunity to include legacy compatibility fields
 function transformOpportunity(o: any) {
@@ -25,8 +32,11 @@ function transformOpportunity(o: any) {
       name: o.name,
       description: o.metadata?.description || `Earn yield on USDC via ${o.protocol}`,
     },
+    // total already includes incentive emissions; split out for net APY comparisons
     rewardRate: {
       total: o.apy,
+      base: o.metadata?.apyBase ?? o.apy,
+      incentives: o.metadata?.apyReward ?? 0,
     },
     status: {
       enter: true,
@@ -38,13 +48,37 @@ function transformOpportunity(o: any) {
   };
 }
 
+function transformClaimableReward(r: ClaimableReward) {
+  return {
+    protocol: r.protocol,
+    token: r.token,
+    symbol: r.symbol,
+    amount: (Number(r.amount) / 10 ** r.decimals).toString(),
+    valueUsd: r.valueUsd.toFixed(2),
+    vaultAddress: r.vaultAddress,
+  };
+}
+
 // Transform position to include legacy compatibility fields, rewards, and vault info
-function transformPosition(p: any, opportunities?: any[]) {
+function transformPosition(
+  p: any,
+  opportunities?: any[],
+  claimable: ClaimableReward[] = [],
+  ledgerVaults: VaultYield[] = []
+) {
   if (!p) return null;
 
   // Calculate rewards for this position
   const rewards = calculateAccruedRewards(p);
 
+  // Actual earnings from the position ledger replace the constant-APY estimate
+  const ledger = ledgerVaults.find(
+    (v) => v.priced && v.vaultAddress === p.vaultAddress?.toLowerCase()
+  );
+  const totalEarned = ledger
+    ? Number(ledger.realizedYield + ledger.unrealizedYield) / 1e6
+    : rewards.totalEarned;
+
   // Match position to its yield opportunity by vault address for name/description
   const matchedYield = opportunities?.find(
     (o: any) =>
@@ -52,6 +86,11 @@ function transformPosition(p: any, opportunities?: any[]) {
       o.address?.toLowerCase() === p.vaultAddress?.toLowerCase()
   );
 
+  // Incentives that accrued on this specific position (e.g. Moonwell market emissions)
+  const incentives = claimable.filter(
+    (r) => r.vaultAddress?.toLowerCase() === p.vaultAddress?.toLowerCase()
+  );
+
   return {
     protocol: p.protocol,
     vaultAddress: p.vaultAddress,
@@ -67,13 +106,18 @@ function transformPosition(p: any, opportunities?: any[]) {
     amountUsd: (Number(p.assets) / 1e6).toFixed(2),
     createdAt: new Date(p.enteredAt).toISOString(),
     rewards: {
-      totalEarned: rewards.totalEarned.toFixed(2),
+      totalEarned: totalEarned.toFixed(2),
+      realized: ledger ? (Number(ledger.realizedYield) / 1e6).toFixed(2) : undefined,
+      unrealized: ledger ? (Number(ledger.unrealizedYield) / 1e6).toFixed(2) : undefined,
+      source: ledger ? "ledger" : "estimate",
       earnedThisMonth: (
         rewards.currentMonthlyRate *
         (Math.min(rewards.daysActive, 30) / 30)
       ).toFixed(2),
       monthlyRate: rewards.currentMonthlyRate.toFixed(2),
       daysActive: rewards.daysActive,
+      claimable: incentives.map(transformClaimableReward),
+      claimableUsd: incentives.reduce((sum, r) => sum + r.valueUsd, 0).toFixed(2),
     },
   };
 }
@@ -93,13 +137,21 @@ export async function GET(request: NextRequest) {
         decision: null,
         opportunities: transformedOpportunities,
         positions: [],
+        claimableRewards: [],
         timestamp: Date.now(),
       });
     }
 
     const usdcBalance = balance ? BigInt(balance) : BigInt(0);
     const decision = await optimize(address, usdcBalance);
-    const currentPositions = await getCurrentPosition(address);
+    const [currentPositions, claimableRewards, ledger] = await Promise.all([
+      getCurrentPosition(address),
+      getClaimableRewards(address),
+      getYieldSummary(address).catch((error) => {
+        console.error("Failed to load yield ledger:", error);
+        return null;
+      }),
+    ]);
 
     return NextResponse.json({
       decision: {
@@ -112,7 +164,10 @@ export async function GET(request: NextRequest) {
         to: decision.to ? transformOpportunity(decision.to) : null,
       },
       opportunities: transformedOpportunities,
-      positions: currentPositions.map((p) => transformPosition(p, opportunities)),
+      positions: currentPositions.map((p) =>
+        transformPosition(p, opportunities, claimableRewards, ledger?.vaults)
+      ),
+      claimableRewards: claimableRewards.map(transformClaimableReward),
       timestamp: Date.now(),
     });
   } catch (error) {
@@ -0,0 +1,119 @@
+/**
+ * POST /api/rewards/claim
+ * Claims pending incentive rewards (Morpho URD, Moonwell) into the user's account via ZeroDev
+ *
+ * Requires:
+ * - Privy JWT authentication
+ * - User must have registered agent with session key authorization
+ *
+ * Body (optional):
+ * - protocols: string[] (only claim rewards from these protocols)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { neon } from "@neondatabase/serverless";
+import {
+  decryptAuthorization,
+  SessionKey7702Authorization,
+} from "@/lib/security/session-encryption";
+import { authenticateRequest, unauthorizedResponse } from "@/lib/auth/middleware";
+import { executeRewardsClaim } from "@/lib/zerodev/rewards-executor";
+import { incrementUserOpCount } from "@/lib/redis/rate-limiter";
+
+const sql = neon(process.env.DATABASE_URL!);
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate request
+    const authResult = await authenticateRequest(request);
+    if (!authResult.authenticated) {
+      return unauthorizedResponse(authResult.error);
+    }
+
+    const userWalletAddress = authResult.walletAddress;
+    if (!userWalletAddress) {
+      return unauthorizedResponse("No wallet linked to account");
+    }
+
+    // 2. Parse request body
+    const body = await request.json().catch(() => ({}));
+    const protocols: string[] | undefined = body.protocols;
+
+    if (protocols !== undefined && !Array.isArray(protocols)) {
+      return NextResponse.json({ error: "protocols must be an array" }, { status: 400 });
+    }
+
+    // 3. Fetch user authorization from database
+    const users = await sql`
+      SELECT authorization_7702
+      FROM users
+      WHERE wallet_address = ${userWalletAddress}
+    `;
+
+    if (users.length === 0) {
+      return NextResponse.json(
+        { error: "User not found. Please register agent first." },
+        { status: 404 }
+      );
+    }
+
+    const authorizationData = users[0].authorization_7702 as SessionKey7702Authorization | null;
+
+    if (!authorizationData || authorizationData.type !== "zerodev-7702-session") {
+      return NextResponse.json(
+        { error: "Agent not registered. Please register your agent to claim rewards." },
+        { status: 400 }
+      );
+    }
+
+    // 4. Check if session key is expired
+    const now = Math.floor(Date.now() / 1000);
+    if (authorizationData.expiry && authorizationData.expiry < now) {
+      return NextResponse.json(
+        { error: "Session key expired. Please re-register agent." },
+        { status: 400 }
+      );
+    }
+
+    // 5. Decrypt session key — claims need the serialized kernel account
+    const decryptedAuth = decryptAuthorization(authorizationData);
+    if (!decryptedAuth.serializedAccount) {
+      return NextResponse.json(
+        { error: "Legacy session key cannot claim rewards. Please re-register agent." },
+        { status: 400 }
+      );
+    }
+
+    // 6. Claim every pending reward in one UserOp
+    const result = await executeRewardsClaim({
+      smartAccountAddress: decryptedAuth.eoaAddress,
+      serializedAccount: decryptedAuth.serializedAccount,
+      protocols,
+    });
+
+    if (!result.success) {
+      const status = result.error === "No rewards to claim" ? 400 : 500;
+      console.error("[Rewards Claim] Execution failed:", result.error);
+      return NextResponse.json({ error: result.error }, { status });
+    }
+
+    console.log("[Rewards Claim] Success:", result.txHash);
+    await incrementUserOpCount(userWalletAddress);
+
+    return NextResponse.json({
+      success: true,
+      txHash: result.txHash,
+      userOpHash: result.userOpHash,
+      claimed: result.claimed.map((r) => ({
+        protocol: r.protocol,
+        token: r.token,
+        symbol: r.symbol,
+        amount: r.amount.toString(),
+        valueUsd: r.valueUsd,
+      })),
+    });
+  } catch (error: any) {
+    console.error("[Rewards Claim] Error:", error);
+    return NextResponse.json({ error: error.message || "Internal server error" }, { status: 500 });
+  }
+}
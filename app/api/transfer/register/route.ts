@@ -5,17 +5,27 @@
  * - POST /api/transfer/register - Create transfer session key
  * - GET /api/transfer/register?address=0x... - Check transfer session status
  * - DELETE /api/transfer/register - Revoke transfer session
+ *
+ * Grants and revocations are recorded in the session key registry
+ * (lib/security/session-registry.ts).
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { neon } from "@neondatabase/serverless";
 import {
   createTransferSessionKey,
+  isSameTransferPolicy,
+  resolveTransferPolicy,
   validateTransferSession,
+  type TransferLimits,
+  type TransferPolicy,
   type TransferSessionAuthorization,
   type PrivyWalletProvider,
 } from "@/lib/zerodev/transfer-session";
 import { encryptAuthorization } from "@/lib/security/session-encryption";
+import { revokeSession } from "@/lib/security/session-revocation";
+import { recordSessionGrant } from "@/lib/security/session-registry";
+import { classifySession, recordSessionRenewed } from "@/lib/agent/session-renewal";
 import {
   requireAuthForAddress,
   unauthorizedResponse,
@@ -75,6 +85,7 @@ export async function GET(request: NextRequest) {
       sessionKeyAddress: transferAuth.sessionKeyAddress,
       expiry: transferAuth.expiry,
       createdAt: transferAuth.createdAt,
+      policy: transferAuth.policy ?? null,
     });
   } catch (error: any) {
     console.error("[API] Transfer status check failed:", error);
@@ -88,11 +99,14 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/transfer/register
  * Create transfer session key for gasless transfers
+ * Body: { address, privyWallet, limits?: Partial<TransferLimits> }
+ * Changing limits (including allowedRecipients) re-grants a new session key
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { address, privyWallet } = body;
+    const limits: Partial<TransferLimits> = body.limits ?? {};
 
     if (!address) {
       return NextResponse.json({ error: "Address required" }, { status: 400 });
@@ -113,6 +127,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Privy wallet required" }, { status: 400 });
     }
 
+    let policy: TransferPolicy;
+    try {
+      policy = resolveTransferPolicy(limits);
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.log("[API] Creating transfer session for:", address);
 
     // Check if user exists
@@ -128,24 +149,31 @@ export async function POST(request: NextRequest) {
 
     const existingAuth = users[0].transfer_authorization as TransferSessionAuthorization | null;
 
-    // Check if valid session already exists
+    // Check if valid session already exists — one inside the renewal window,
+    // or encoding different limits, is replaced
     if (existingAuth) {
       const validation = validateTransferSession(existingAuth);
-      if (validation.valid) {
+      if (
+        validation.valid &&
+        classifySession(existingAuth.expiry, null) === "active" &&
+        isSameTransferPolicy(existingAuth.policy, policy)
+      ) {
         console.log("[API] Valid transfer session already exists");
         return NextResponse.json({
           success: true,
           smartAccountAddress: existingAuth.smartAccountAddress,
           expiry: existingAuth.expiry,
+          policy: existingAuth.policy,
           message: "Transfer session already active",
         });
       }
     }
 
-    // Create new transfer session key
+    // Create new transfer session key with the limits encoded as policies
     const authorization = await createTransferSessionKey(
       privyWallet as PrivyWalletProvider,
-      address as `0x${string}`
+      address as `0x${string}`,
+      limits
     );
 
     // Encrypt authorization before storing
@@ -159,6 +187,33 @@ export async function POST(request: NextRequest) {
       WHERE LOWER(wallet_address) = LOWER(${address})
     `;
 
+    // Resolve the renewal notice for the key this one replaces
+    try {
+      await recordSessionRenewed(address, "transfer", authorization.sessionKeyAddress);
+    } catch (error) {
+      console.error("[API] Failed to resolve transfer session renewal:", error);
+    }
+
+    // Registry bookkeeping: the new grant, and the key it supersedes
+    try {
+      await recordSessionGrant({
+        walletAddress: address,
+        kind: "transfer",
+        sessionKeyAddress: authorization.sessionKeyAddress,
+        accountAddress: authorization.smartAccountAddress,
+        expiry: authorization.expiry,
+      });
+      if (existingAuth?.sessionKeyAddress) {
+        await revokeSession(existingAuth.sessionKeyAddress, {
+          walletAddress: address,
+          kind: "transfer",
+          revokedBy: "rotation",
+        });
+      }
+    } catch (error) {
+      console.error("[API] Failed to update session key registry:", error);
+    }
+
     console.log("[API] ✓ Transfer session created:", authorization.smartAccountAddress);
 
     return NextResponse.json({
@@ -166,6 +221,7 @@ export async function POST(request: NextRequest) {
       smartAccountAddress: authorization.smartAccountAddress,
       sessionKeyAddress: authorization.sessionKeyAddress,
       expiry: authorization.expiry,
+      policy: authorization.policy,
     });
   } catch (error: any) {
     console.error("[API] Transfer session creation failed:", error);
@@ -200,19 +256,31 @@ export async function DELETE(request: NextRequest) {
 
     console.log("[API] Revoking transfer session for:", address);
 
+    const existing = await sql`
+      SELECT transfer_authorization->>'sessionKeyAddress' as session_key
+      FROM users WHERE LOWER(wallet_address) = LOWER(${address})
+    `;
+
+    if (existing.length === 0) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (existing[0].session_key) {
+      await revokeSession(existing[0].session_key, {
+        walletAddress: address,
+        kind: "transfer",
+        revokedBy: "user",
+      });
+    }
+
     // Remove transfer authorization from database
-    const result = await sql`
+    await sql`
       UPDATE users
       SET transfer_authorization = NULL,
           updated_at = NOW()
       WHERE LOWER(wallet_address) = LOWER(${address})
-      RETURNING id
     `;
 
-    if (result.length === 0) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
-    }
-
     console.log("[API] ✓ Transfer session revoked");
 
     return NextResponse.json({
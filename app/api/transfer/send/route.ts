@@ -12,11 +12,17 @@ import {
   type GaslessTransferParams,
 } from "@/lib/zerodev/transfer-executor";
 import {
+  isRecipientAllowed,
   validateTransferSession,
   type TransferSessionAuthorization,
 } from "@/lib/zerodev/transfer-session";
-import { checkTransferRateLimit, recordTransferAttempt } from "@/lib/rate-limiter";
+import {
+  checkTransferRateLimit,
+  recordTransferAttempt,
+  transferRateLimitConfig,
+} from "@/lib/rate-limiter";
 import { decryptAuthorization } from "@/lib/security/session-encryption";
+import { isSessionRevoked } from "@/lib/security/session-revocation";
 import {
   requireAuthForAddress,
   unauthorizedResponse,
@@ -91,9 +97,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 3. Check rate limits
+    if (await isSessionRevoked(transferAuth.sessionKeyAddress)) {
+      return NextResponse.json({ error: "Transfer session has been revoked" }, { status: 403 });
+    }
+
+    // Recipient allowlist — the session key's call policy rejects anyone else
+    if (!isRecipientAllowed(transferAuth.policy, recipient)) {
+      return NextResponse.json(
+        {
+          error: "Recipient not allowed",
+          reason: "Recipient is not on your gasless transfer allowlist",
+        },
+        { status: 403 }
+      );
+    }
+
+    // 3. Check rate limits (mirrors the policy encoded in the session key)
     const amountNum = parseFloat(amount);
-    const rateLimitCheck = checkTransferRateLimit(address, amountNum);
+    const rateLimitConfig = transferRateLimitConfig(transferAuth.policy);
+    const rateLimitCheck = checkTransferRateLimit(address, amountNum, rateLimitConfig);
 
     if (!rateLimitCheck.allowed) {
       return NextResponse.json(
@@ -9,12 +9,14 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { neon } from "@neondatabase/serverless";
+import { parseUnits } from "viem";
 import {
   decryptAuthorization,
   SessionKey7702Authorization,
 } from "@/lib/security/session-encryption";
 import { authenticateRequest, unauthorizedResponse } from "@/lib/auth/middleware";
 import { executeGaslessDeposit } from "@/lib/zerodev/deposit-executor";
+import { recordVaultEntry, seedOpeningLots } from "@/lib/agent/yield-ledger";
 
 const sql = neon(process.env.DATABASE_URL!);
 
@@ -62,7 +64,7 @@ export async function POST(request: NextRequest) {
 
     // 3. Fetch user authorization from database
     const users = await sql`
-      SELECT authorization_7702
+      SELECT id, authorization_7702
       FROM users
       WHERE wallet_address = ${userWalletAddress}
     `;
@@ -119,6 +121,15 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Give holdings from before the ledger an opening lot before this changes them
+    if (process.env.AGENT_SIMULATION_MODE !== "true") {
+      await seedOpeningLots({
+        userId: users[0].id,
+        walletAddress: userWalletAddress as `0x${string}`,
+        vaults: [{ vaultAddress: vaultAddress as `0x${string}` }],
+      });
+    }
+
     // 8. Execute gasless deposit (approve + deposit batched atomically)
     console.log("[Vault Deposit] Calling executeGaslessDeposit with:", {
       smartAccountAddress: decryptedAuth.eoaAddress,
@@ -148,6 +159,18 @@ export async function POST(request: NextRequest) {
 
     console.log("[Vault Deposit] Success after", depositDuration, "ms:", result.txHash);
 
+    // 9. Record the deposit in the yield ledger (skipped for simulated runs)
+    if (process.env.AGENT_SIMULATION_MODE !== "true") {
+      await recordVaultEntry({
+        userId: users[0].id,
+        walletAddress: userWalletAddress,
+        vaultAddress: vaultAddress as `0x${string}`,
+        entryType: "deposit",
+        assets: parseUnits(String(amount), 6),
+        txHash: result.txHash,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       txHash: result.txHash,
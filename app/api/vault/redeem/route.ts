@@ -5,17 +5,26 @@
  * Requires:
  * - Privy JWT authentication
  * - User must have registered agent with session key authorization
+ *
+ * When the vault can't pay out every share right now (maxRedeem below the
+ * request), the available part is redeemed and the rest is queued as a
+ * pending withdrawal that the cron worker continues on later cycles. If the
+ * remainder can't be queued, the response carries pendingWithdrawalError.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { neon } from "@neondatabase/serverless";
+import { parseAbi } from "viem";
 import {
   decryptAuthorization,
   SessionKey7702Authorization,
 } from "@/lib/security/session-encryption";
 import { authenticateRequest, unauthorizedResponse } from "@/lib/auth/middleware";
+import { baseClient } from "@/lib/shared/rpc-client";
 import { executeVaultRedeem } from "@/lib/zerodev/vault-executor";
 import { incrementUserOpCount } from "@/lib/redis/rate-limiter";
+import { recordVaultEntry, seedOpeningLots } from "@/lib/agent/yield-ledger";
+import { queuePendingWithdrawal } from "@/lib/agent/pending-withdrawals";
 
 const sql = neon(process.env.DATABASE_URL!);
 
@@ -57,7 +66,7 @@ export async function POST(request: NextRequest) {
 
     // 3. Fetch user authorization from database
     const users = await sql`
-      SELECT authorization_7702
+      SELECT id, authorization_7702
       FROM users
       WHERE wallet_address = ${userWalletAddress}
     `;
@@ -114,6 +123,15 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Give holdings from before the ledger an opening lot before this changes them
+    if (process.env.AGENT_SIMULATION_MODE !== "true") {
+      await seedOpeningLots({
+        userId: users[0].id,
+        walletAddress: userWalletAddress as `0x${string}`,
+        vaults: [{ vaultAddress: vaultAddress as `0x${string}` }],
+      });
+    }
+
     // 8. Execute vault redeem
     const result = await executeVaultRedeem({
       smartAccountAddress: decryptedAuth.eoaAddress,
@@ -145,13 +163,63 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: userMessage }, { status: 500 });
     }
 
-    console.log("[Vault Redeem] Success:", result.txHash);
-    await incrementUserOpCount(userWalletAddress);
+    const redeemedShares = result.redeemedShares ?? BigInt(shares);
+    const remainingShares = result.remainingShares ?? 0n;
+    console.log("[Vault Redeem] Success:", result.txHash, { redeemedShares, remainingShares });
+    if (result.txHash) {
+      await incrementUserOpCount(userWalletAddress);
+    }
+
+    // 9. Record the exit in the yield ledger (skipped for simulated runs)
+    if (process.env.AGENT_SIMULATION_MODE !== "true" && redeemedShares > 0n) {
+      await recordVaultEntry({
+        userId: users[0].id,
+        walletAddress: userWalletAddress,
+        vaultAddress: vaultAddress as `0x${string}`,
+        entryType: "withdraw",
+        shares: redeemedShares,
+        txHash: result.txHash,
+      });
+    }
+
+    // 10. Queue whatever the vault couldn't pay out yet
+    let pendingWithdrawalId: string | null = null;
+    let pendingWithdrawalError: string | null = null;
+    if (remainingShares > 0n) {
+      try {
+        const remainingAssets = await baseClient.readContract({
+          address: vaultAddress as `0x${string}`,
+          abi: parseAbi(["function previewRedeem(uint256 shares) view returns (uint256)"]),
+          functionName: "previewRedeem",
+          args: [remainingShares],
+        });
+        pendingWithdrawalId = await queuePendingWithdrawal({
+          userId: users[0].id,
+          walletAddress: userWalletAddress,
+          source: "redeem",
+          remainder: {
+            vault: vaultAddress as `0x${string}`,
+            shares: remainingShares,
+            assets: remainingAssets,
+          },
+          totalShares: BigInt(shares),
+          txHash: result.txHash,
+        });
+      } catch (error: any) {
+        // The redeemed part already went through — report the remainder either way
+        console.error("[Vault Redeem] Failed to queue remainder:", error);
+        pendingWithdrawalError = error.message || "Failed to queue the remaining shares";
+      }
+    }
 
     return NextResponse.json({
       success: true,
-      txHash: result.txHash,
-      userOpHash: result.userOpHash,
+      txHash: result.txHash ?? null,
+      userOpHash: result.userOpHash ?? null,
+      redeemedShares: redeemedShares.toString(),
+      remainingShares: remainingShares.toString(),
+      pendingWithdrawalId,
+      pendingWithdrawalError,
     });
   } catch (error: any) {
     console.error("[Vault Redeem] Error:", error);
@@ -0,0 +1,57 @@
+/**
+ * GET /api/vault/withdrawals
+ * Vault exits queued because the vault's liquidity was thin, with progress
+ *
+ * Requires:
+ * - Privy JWT authentication
+ *
+ * Lists pending withdrawals plus those finished in the last 7 days.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { formatUnits } from "viem";
+import { authenticateRequest, unauthorizedResponse } from "@/lib/auth/middleware";
+import { getPendingWithdrawals, withdrawalProgress } from "@/lib/agent/pending-withdrawals";
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.authenticated) {
+      return unauthorizedResponse(authResult.error);
+    }
+
+    const userWalletAddress = authResult.walletAddress;
+    if (!userWalletAddress) {
+      return unauthorizedResponse("No wallet linked to account");
+    }
+
+    const withdrawals = await getPendingWithdrawals(userWalletAddress);
+
+    return NextResponse.json({
+      withdrawals: withdrawals.map((w) => ({
+        id: w.id,
+        source: w.source,
+        vaultAddress: w.vaultAddress,
+        protocol: w.protocol,
+        targetVaultAddress: w.targetVaultAddress,
+        status: w.status,
+        progress: withdrawalProgress(w),
+        totalShares: w.totalShares.toString(),
+        remainingShares: w.remainingShares.toString(),
+        remainingUsd: formatUnits(w.remainingAssets, 6),
+        redeemedUsd: formatUnits(w.redeemedAssets, 6),
+        lastError: w.lastError,
+        lastTxHash: w.lastTxHash,
+        createdAt: w.createdAt,
+        updatedAt: w.updatedAt,
+        completedAt: w.completedAt,
+      })),
+    });
+  } catch (error: any) {
+    console.error("[Pending Withdrawals] Error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch withdrawals" },
+      { status: 500 }
+    );
+  }
+}
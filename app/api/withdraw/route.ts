@@ -10,7 +10,7 @@ import { CHAIN_CONFIG } from "@/lib/yield-optimizer/config";
  * Build withdrawal transaction for exiting a yield position
  *
  * Body:
- * - protocol: "morpho" | "aave" | "moonwell"
+ * - protocol: "morpho" | "aave" | "moonwell" | "compound" | an ERC4626_PROTOCOLS id
  * - userAddress: `0x${string}`
  * - vaultAddress?: `0x${string}` (vault address for ERC4626 vaults like Morpho)
  * - shares?: string (amount of shares to withdraw)
@@ -77,7 +77,7 @@ export function AgentStats({ address }: AgentStatsProps) {
           valueColor="text-green-600"
         />
         <StatCard
-          title="Est. Yearly Gain"
+          title="Total Yield"
           value={`$${gains.totalGain.toFixed(2)}`}
           icon="💰"
           valueColor="text-green-600"
@@ -108,6 +108,44 @@ export function AgentStats({ address }: AgentStatsProps) {
         </div>
       </div>
 
+      {/* Attribution vs. leaving funds in the original vault */}
+      {gainsData?.attribution && gainsData.attribution.pricedSegments > 0 && (
+        <div className="space-y-3 rounded-lg border p-4">
+          <h4 className="text-sm font-medium text-gray-700">Agent vs. Doing Nothing</h4>
+
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <div className="text-gray-600">Agent path</div>
+              <div className="font-medium">${gainsData.attribution.agentYield.toFixed(2)}</div>
+            </div>
+            <div>
+              <div className="text-gray-600">Original vault</div>
+              <div className="font-medium">
+                ${gainsData.attribution.counterfactualYield.toFixed(2)}
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-600">Added by agent</div>
+              <div
+                className={`font-medium ${
+                  gainsData.attribution.attributedYield >= 0 ? "text-green-600" : "text-red-600"
+                }`}
+              >
+                {gainsData.attribution.attributedYield >= 0 ? "+" : "-"}$
+                {Math.abs(gainsData.attribution.attributedYield).toFixed(2)}
+              </div>
+            </div>
+          </div>
+
+          {gainsData.attribution.unpricedSegments > 0 && (
+            <p className="text-xs text-gray-500">
+              {gainsData.attribution.unpricedSegments} move(s) excluded — no APY history for the
+              vaults involved.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Performance Breakdown */}
       {gainsData?.breakdown && gainsData.breakdown.length > 0 && (
         <div className="rounded-lg border p-4">
@@ -1,9 +1,10 @@
-import { useYieldPositions } from "../../hooks/useOptimizer";
+import { useClaimRewards, useYieldPositions } from "../../hooks/useOptimizer";
 import { useWallet } from "@/hooks/useWallet";
 
 export function RewardsBalance() {
   const { wallet } = useWallet();
-  const { positions, isLoading } = useYieldPositions(wallet?.address);
+  const { positions, claimableRewards, isLoading } = useYieldPositions(wallet?.address);
+  const claimRewards = useClaimRewards();
 
   // Calculate total rewards across all positions
   const totalRewards = positions.reduce((sum, position) => {
@@ -13,6 +14,13 @@ export function RewardsBalance() {
     return sum;
   }, 0);
 
+  // Pending incentive tokens (MORPHO, WELL) that haven't been claimed yet
+  const claimableUsd = claimableRewards.reduce(
+    (sum, reward) => sum + parseFloat(reward.valueUsd),
+    0
+  );
+  const claimableSymbols = Array.from(new Set(claimableRewards.map((r) => r.symbol))).join(", ");
+
   const positionCount = positions.length;
 
   if (isLoading || positionCount === 0) {
@@ -28,6 +36,23 @@ export function RewardsBalance() {
           across {positionCount} {positionCount === 1 ? "vault" : "vaults"}
         </span>
       </div>
+      {claimableRewards.length > 0 && (
+        <div className="mt-1 flex items-center gap-2 text-sm">
+          <span className="text-gray-600">
+            +${claimableUsd.toFixed(2)} in {claimableSymbols} to claim
+          </span>
+          <button
+            onClick={() => claimRewards.mutate(undefined)}
+            disabled={claimRewards.isPending}
+            className="font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+          >
+            {claimRewards.isPending ? "Claiming..." : "Claim"}
+          </button>
+        </div>
+      )}
+      {claimRewards.error && (
+        <span className="text-xs text-red-500">{claimRewards.error.message}</span>
+      )}
     </div>
   );
 }
@@ -1,13 +1,28 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import {
   useOptimizer,
   useRebalance,
   useAgent,
+  useStrategy,
+  useSessionRenewal,
   formatApy,
   getProtocolColor,
+  type StrategySettings,
 } from "@/hooks/useOptimizer";
-import { Loader2, TrendingUp, ArrowRight, Zap, AlertCircle } from "lucide-react";
+import {
+  Loader2,
+  TrendingUp,
+  ArrowRight,
+  Zap,
+  AlertCircle,
+  Settings2,
+  KeyRound,
+  X,
+} from "lucide-react";
+import { Collapsible, CollapsibleTrigger, CollapsibleContent } from "../common/Collapsible";
+import { SessionKeyHistory } from "./SessionKeyHistory";
 
 interface AutoOptimizeProps {
   usdcBalance: bigint;
@@ -100,6 +115,15 @@ export function AutoOptimize({ usdcBalance }: AutoOptimizeProps) {
         </button>
       </div>
 
+      {/* Session Key Renewal */}
+      {hasAuthorization && <SessionRenewalBanner />}
+
+      {/* Strategy Settings */}
+      {hasAuthorization && <StrategySettingsPanel />}
+
+      {/* Session Key History */}
+      <SessionKeyHistory />
+
       {/* Error States */}
       {error && (
         <div className="flex items-center gap-2 rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-600">
@@ -172,3 +196,161 @@ export function AutoOptimize({ usdcBalance }: AutoOptimizeProps) {
     </div>
   );
 }
+
+const RISK_OPTIONS: Array<{ value: StrategySettings["riskLevel"]; label: string }> = [
+  { value: "low", label: "Low" },
+  { value: "medium", label: "Medium" },
+  { value: "high", label: "High" },
+];
+
+function StrategySettingsPanel() {
+  const { strategy, isLoading, updateStrategy, isUpdating, updateError } = useStrategy();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<StrategySettings | null>(null);
+
+  // Sync form with server state whenever it changes
+  useEffect(() => {
+    if (strategy) setForm(strategy);
+  }, [strategy]);
+
+  const isDirty =
+    !!form &&
+    !!strategy &&
+    (form.minApyGainThreshold !== strategy.minApyGainThreshold ||
+      form.maxSlippageTolerance !== strategy.maxSlippageTolerance ||
+      form.riskLevel !== strategy.riskLevel);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div className="rounded-xl border border-gray-200 bg-gray-50">
+        <CollapsibleTrigger className="flex w-full items-center justify-between p-4 text-left">
+          <div className="flex items-center gap-2">
+            <Settings2 className="h-4 w-4 text-gray-500" />
+            <span className="text-sm font-medium text-gray-900">Strategy Settings</span>
+          </div>
+          {strategy && (
+            <span className="text-xs text-gray-500">
+              ≥{strategy.minApyGainThreshold}% gain · {strategy.riskLevel} risk
+            </span>
+          )}
+        </CollapsibleTrigger>
+        <CollapsibleContent className="space-y-4 px-4 pb-4">
+          {isLoading || !form ? (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span>Loading strategy...</span>
+            </div>
+          ) : (
+            <>
+              <label className="block">
+                <span className="text-xs font-medium text-gray-600">Minimum APY gain (%)</span>
+                <input
+                  type="number"
+                  min={0.1}
+                  max={10}
+                  step={0.1}
+                  value={form.minApyGainThreshold}
+                  onChange={(e) =>
+                    setForm({ ...form, minApyGainThreshold: parseFloat(e.target.value) })
+                  }
+                  className="mt-1 w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs font-medium text-gray-600">Max slippage (%)</span>
+                <input
+                  type="number"
+                  min={0.05}
+                  max={5}
+                  step={0.05}
+                  value={form.maxSlippageTolerance}
+                  onChange={(e) =>
+                    setForm({ ...form, maxSlippageTolerance: parseFloat(e.target.value) })
+                  }
+                  className="mt-1 w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm"
+                />
+              </label>
+              <div>
+                <span className="text-xs font-medium text-gray-600">Risk level</span>
+                <div className="mt-1 grid grid-cols-3 gap-2">
+                  {RISK_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setForm({ ...form, riskLevel: option.value })}
+                      className={`rounded-lg border px-3 py-2 text-sm ${
+                        form.riskLevel === option.value
+                          ? "border-emerald-500 bg-emerald-50 text-emerald-700"
+                          : "border-gray-200 bg-white text-gray-600"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {updateError && <p className="text-xs text-red-600">{updateError.message}</p>}
+              <button
+                onClick={() => updateStrategy(form)}
+                disabled={!isDirty || isUpdating}
+                className="w-full rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-50"
+              >
+                {isUpdating ? "Saving..." : "Save Strategy"}
+              </button>
+            </>
+          )}
+        </CollapsibleContent>
+      </div>
+    </Collapsible>
+  );
+}
+
+function SessionRenewalBanner() {
+  const { agent, notices, renew, isRenewing, renewError, dismiss } = useSessionRenewal();
+
+  if (!agent || agent.state === "active") return null;
+  // A dismissed notice stays hidden until the key is renewed
+  if (agent.renewalId && !notices.some((n) => n.id === agent.renewalId)) return null;
+
+  const daysLeft = Math.max(Math.ceil((agent.expiry * 1000 - Date.now()) / 86_400_000), 0);
+  const message =
+    agent.state === "expiring"
+      ? `Your agent's session expires in ${daysLeft} day${daysLeft === 1 ? "" : "s"}.`
+      : agent.state === "expired_pending"
+        ? "Your agent's session has expired — auto-optimize is paused until you renew."
+        : "Your agent's session expired a while ago and auto-optimize has stopped.";
+
+  return (
+    <div className="rounded-xl border border-amber-200 bg-amber-50 p-4">
+      <div className="flex items-start gap-3">
+        <KeyRound className="mt-0.5 h-5 w-5 text-amber-600" />
+        <div className="flex-1">
+          <h4 className="font-medium text-amber-800">Session Renewal</h4>
+          <p className="mt-1 text-sm text-gray-600">{message}</p>
+          <p className="mt-1 text-xs text-gray-500">
+            Renewing keeps your approved vaults and limits and needs a single signature.
+          </p>
+          {renewError && (
+            <p className="mt-2 text-xs text-red-600">Failed to renew: {renewError.message}</p>
+          )}
+          <button
+            onClick={() => renew()}
+            disabled={isRenewing}
+            className="mt-3 w-full rounded-lg bg-amber-600 px-4 py-2 text-sm font-medium text-white hover:bg-amber-700 disabled:opacity-50"
+          >
+            {isRenewing ? "Renewing..." : "Renew Session"}
+          </button>
+        </div>
+        {agent.renewalId && (
+          <button
+            onClick={() => dismiss(agent.renewalId!)}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Dismiss"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,9 @@ import { useWallet } from "@/hooks/useWallet";
 import {
   YieldOpportunity,
   YieldPosition,
+  PendingWithdrawalInfo,
   useVaultExit,
+  usePendingWithdrawals,
   getProtocolInfo,
 } from "@/hooks/useOptimizer";
 
@@ -49,7 +51,9 @@ export function PositionsList({ positions, yields, isLoading, onExitSuccess }: P
   const { wallet, isReady } = useWallet();
   const [exitingId, setExitingId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const vaultExit = useVaultExit();
+  const { data: withdrawals } = usePendingWithdrawals();
 
   // Find the yield opportunity for a position to get APY
   const getYieldForPosition = (yieldId: string) => {
@@ -63,13 +67,25 @@ export function PositionsList({ positions, yields, isLoading, onExitSuccess }: P
     }
 
     setError(null);
+    setNotice(null);
     setExitingId(position.id);
 
     try {
-      await vaultExit.mutateAsync({
+      const result = await vaultExit.mutateAsync({
         vaultAddress: position.vaultAddress,
         shares: position.shares.toString(),
       });
+      if (result.pendingWithdrawalError) {
+        setError(
+          "Part of your position was withdrawn, but the rest couldn't be queued. " +
+            "Please exit the remaining position again."
+        );
+      } else if (result.remainingShares && result.remainingShares !== "0") {
+        setNotice(
+          "The vault doesn't have enough liquidity to pay out your full position right now. " +
+            "The rest has been queued and will be withdrawn automatically as liquidity frees up."
+        );
+      }
       onExitSuccess();
     } catch (err: any) {
       console.error("[Yield] Exit error:", err);
@@ -117,6 +133,14 @@ export function PositionsList({ positions, yields, isLoading, onExitSuccess }: P
   return (
     <div className="flex w-full flex-col gap-4">
       {error && <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600">{error}</div>}
+      {notice && (
+        <div className="rounded-lg bg-yellow-50 p-3 text-sm text-yellow-700">{notice}</div>
+      )}
+
+      {/* Exits waiting on vault liquidity */}
+      {withdrawals?.map((withdrawal) => (
+        <QueuedWithdrawal key={withdrawal.id} withdrawal={withdrawal} />
+      ))}
 
       {/* Testnet disclaimer */}
       <div className="rounded-xl bg-blue-50 p-4">
@@ -207,3 +231,54 @@ export function PositionsList({ positions, yields, isLoading, onExitSuccess }: P
     </div>
   );
 }
+
+function QueuedWithdrawal({ withdrawal }: { withdrawal: PendingWithdrawalInfo }) {
+  const protocolInfo = getProtocolInfo(withdrawal.protocol);
+  const percent = Math.round(withdrawal.progress * 100);
+  const statusLabel =
+    withdrawal.status === "completed"
+      ? "Completed"
+      : withdrawal.status === "failed"
+        ? "Failed"
+        : "Waiting for liquidity";
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-semibold text-gray-900">
+            {withdrawal.source === "rebalance" ? "Queued rebalance" : "Queued withdrawal"}
+          </p>
+          <p className="text-sm text-gray-700">{protocolInfo.name}</p>
+        </div>
+        <span
+          className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+            withdrawal.status === "completed"
+              ? "bg-green-50 text-green-600"
+              : withdrawal.status === "failed"
+                ? "bg-red-50 text-red-600"
+                : "bg-yellow-50 text-yellow-700"
+          }`}
+        >
+          {statusLabel}
+        </span>
+      </div>
+
+      <div className="mt-3 h-2 w-full overflow-hidden rounded-full bg-gray-100">
+        <div className="h-full rounded-full bg-green-500" style={{ width: `${percent}%` }} />
+      </div>
+      <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+        <span>
+          {percent}% withdrawn (${formatUsdAmount(withdrawal.redeemedUsd, undefined)})
+        </span>
+        {withdrawal.status === "pending" && (
+          <span>${formatUsdAmount(withdrawal.remainingUsd, undefined)} remaining</span>
+        )}
+      </div>
+
+      {withdrawal.lastError && withdrawal.status !== "completed" && (
+        <p className="mt-2 text-xs text-red-500">{withdrawal.lastError}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useState } from "react";
+import { useSessionKeys } from "@/hooks/useOptimizer";
+import type { SessionKeyRecord } from "@/lib/security/session-registry";
+import { History, Loader2 } from "lucide-react";
+import { Collapsible, CollapsibleTrigger, CollapsibleContent } from "../common/Collapsible";
+
+function formatDate(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleDateString() : "—";
+}
+
+function keyStatus(key: SessionKeyRecord): { label: string; className: string } {
+  if (key.uninstallStatus === "confirmed") {
+    return { label: "Uninstalled", className: "bg-gray-200 text-gray-700" };
+  }
+  if (key.uninstallStatus === "submitted") {
+    return { label: "Uninstalling", className: "bg-blue-100 text-blue-700" };
+  }
+  if (key.revokedAt) {
+    return { label: "Revoked", className: "bg-red-100 text-red-700" };
+  }
+  if (key.expiresAt && new Date(key.expiresAt).getTime() < Date.now()) {
+    return { label: "Expired", className: "bg-amber-100 text-amber-700" };
+  }
+  return { label: "Active", className: "bg-emerald-100 text-emerald-700" };
+}
+
+const REVOKED_BY_LABEL: Record<NonNullable<SessionKeyRecord["revokedBy"]>, string> = {
+  user: "by you",
+  rotation: "replaced",
+  operator: "by support",
+};
+
+/**
+ * Grant/revoke/uninstall history of the user's session keys. A revoked agent
+ * key can also have its validator removed from the account on-chain.
+ */
+export function SessionKeyHistory() {
+  const { keys, isLoading, uninstall, uninstallingKey, uninstallError } = useSessionKeys();
+  const [open, setOpen] = useState(false);
+
+  if (isLoading || keys.length === 0) return null;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div className="rounded-xl border border-gray-200 bg-gray-50">
+        <CollapsibleTrigger className="flex w-full items-center justify-between p-4 text-left">
+          <div className="flex items-center gap-2">
+            <History className="h-4 w-4 text-gray-500" />
+            <span className="text-sm font-medium text-gray-900">Session Keys</span>
+          </div>
+          <span className="text-xs text-gray-500">{keys.length} total</span>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="space-y-2 px-4 pb-4">
+          {keys.map((key) => {
+            const status = keyStatus(key);
+            const canUninstall = !!key.revokedAt && key.uninstallable;
+            const isUninstalling = uninstallingKey === key.sessionKeyAddress;
+            return (
+              <div
+                key={key.id}
+                className="rounded-lg border border-gray-200 bg-white p-3 text-xs text-gray-600"
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-mono text-gray-900">
+                    {key.sessionKeyAddress.slice(0, 10)}…{key.sessionKeyAddress.slice(-6)}
+                  </span>
+                  <span className={`rounded px-2 py-0.5 font-medium ${status.className}`}>
+                    {key.sessionKind === "agent" ? "Agent" : "Transfers"} · {status.label}
+                  </span>
+                </div>
+                <div className="mt-2 space-y-0.5">
+                  <p>
+                    Granted {formatDate(key.grantedAt)} · expires {formatDate(key.expiresAt)}
+                  </p>
+                  {key.revokedAt && (
+                    <p>
+                      Revoked {formatDate(key.revokedAt)}
+                      {key.revokedBy && ` (${REVOKED_BY_LABEL[key.revokedBy]})`}
+                    </p>
+                  )}
+                  {key.uninstalledAt && <p>Removed on-chain {formatDate(key.uninstalledAt)}</p>}
+                  {key.uninstallStatus === "failed" && key.uninstallError && (
+                    <p className="text-red-600">Uninstall failed: {key.uninstallError}</p>
+                  )}
+                </div>
+                {canUninstall && (
+                  <button
+                    onClick={() => uninstall(key.sessionKeyAddress)}
+                    disabled={!!uninstallingKey || key.uninstallStatus === "submitted"}
+                    className="mt-2 flex w-full items-center justify-center gap-1.5 rounded-lg bg-gray-100 px-3 py-1.5 font-medium text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                  >
+                    {isUninstalling && <Loader2 className="h-3 w-3 animate-spin" />}
+                    {isUninstalling ? "Uninstalling..." : "Uninstall from wallet"}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          {uninstallError && (
+            <p className="text-xs text-red-600">Failed to uninstall: {uninstallError.message}</p>
+          )}
+        </CollapsibleContent>
+      </div>
+    </Collapsible>
+  );
+}
@@ -81,8 +81,8 @@ export function YieldList({ yields, isLoading, error, onSelectYield }: YieldList
         <div className="flex items-start gap-3">
           <Info className="mt-0.5 h-5 w-5 flex-shrink-0 text-blue-500" />
           <p className="text-xs text-blue-700">
-            Yields are provided by trusted DeFi protocols (Morpho, Aave, Moonwell). APY rates are
-            variable and may change based on market conditions.
+            Yields are provided by trusted DeFi protocols (Morpho, Aave, Moonwell, Compound). APY
+            rates are variable and may change based on market conditions.
           </p>
         </div>
       </div>
@@ -144,7 +144,11 @@ export function YieldList({ yields, isLoading, error, onSelectYield }: YieldList
                     <div className="text-lg font-semibold text-green-500">
                       {formatApy(yieldOpp.rewardRate?.total || 0)}
                     </div>
-                    <div className="text-muted-foreground text-xs">APY</div>
+                    <div className="text-muted-foreground text-xs">
+                      {yieldOpp.rewardRate?.incentives
+                        ? `APY incl. ${formatApy(yieldOpp.rewardRate.incentives)} rewards`
+                        : "APY"}
+                    </div>
                   </div>
                 </div>
               </button>
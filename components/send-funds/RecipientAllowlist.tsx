@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { cn, isValidAddress } from "@/lib/utils";
+import { MAX_ALLOWED_RECIPIENTS } from "@/lib/zerodev/transfer-session";
+import { ShieldCheck, Trash2 } from "lucide-react";
+
+interface RecipientAllowlistProps {
+  allowedRecipients: string[];
+  isSaving: boolean;
+  onSave: (recipients: string[]) => Promise<void>;
+}
+
+/**
+ * Manage the recipients the gasless transfer session key may pay.
+ * The list is encoded into the key's call policy, so saving a change
+ * re-grants the session (one new signature).
+ */
+export function RecipientAllowlist({
+  allowedRecipients,
+  isSaving,
+  onSave,
+}: RecipientAllowlistProps) {
+  const [draft, setDraft] = useState<string[]>(allowedRecipients);
+  const [input, setInput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(allowedRecipients);
+  }, [allowedRecipients]);
+
+  const normalized = (list: string[]) =>
+    list
+      .map((a) => a.toLowerCase())
+      .sort()
+      .join();
+  const isDirty = normalized(draft) !== normalized(allowedRecipients);
+
+  function handleAdd() {
+    setError(null);
+    const address = input.trim();
+    if (!isValidAddress(address)) {
+      setError("Enter a valid wallet address");
+      return;
+    }
+    if (draft.some((a) => a.toLowerCase() === address.toLowerCase())) {
+      setError("Address is already on the list");
+      return;
+    }
+    if (draft.length >= MAX_ALLOWED_RECIPIENTS) {
+      setError(`At most ${MAX_ALLOWED_RECIPIENTS} recipients`);
+      return;
+    }
+    setDraft([...draft, address]);
+    setInput("");
+  }
+
+  async function handleSave() {
+    setError(null);
+    try {
+      await onSave(draft);
+    } catch (err: any) {
+      setError(err.message || "Failed to update allowlist");
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-4">
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="h-4 w-4 text-blue-600" />
+        <span className="text-sm font-medium text-gray-900">Gasless recipients</span>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        {draft.length === 0
+          ? "Gasless transfers can go to any address. Add addresses to restrict them."
+          : "Gasless transfers can only go to these addresses."}
+      </p>
+
+      {draft.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {draft.map((address) => (
+            <li
+              key={address}
+              className="flex items-center justify-between rounded-md bg-gray-50 px-3 py-1.5"
+            >
+              <span className="font-mono text-xs text-gray-700">
+                {address.slice(0, 10)}…{address.slice(-8)}
+              </span>
+              <button
+                type="button"
+                onClick={() => setDraft(draft.filter((a) => a !== address))}
+                className="text-gray-400 hover:text-red-600"
+                aria-label="Remove recipient"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-3 flex gap-2">
+        <input
+          type="text"
+          placeholder="0x..."
+          className={cn(
+            "focus:border-primary h-9 flex-1 rounded-lg border border-gray-200 px-3 text-xs text-gray-900 placeholder:text-gray-400 focus:outline-none",
+            error && "border-red-600"
+          )}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="rounded-lg bg-gray-100 px-3 text-xs font-medium text-gray-700 hover:bg-gray-200"
+        >
+          Add
+        </button>
+      </div>
+      {error && <div className="mt-1.5 text-xs text-red-600">{error}</div>}
+
+      {isDirty && (
+        <>
+          <p className="mt-3 text-xs text-amber-700">
+            Saving creates a new gasless session key — you&apos;ll be asked to sign again.
+          </p>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="mt-2 w-full rounded-lg bg-blue-600 px-4 py-2 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? "Re-granting..." : "Save and re-grant"}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
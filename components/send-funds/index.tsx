@@ -1,12 +1,18 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useAuth, useWallet } from "@/hooks/useWallet";
 import { AmountInput } from "../common/AmountInput";
 import { OrderPreview } from "./OrderPreview";
 import { RecipientInput } from "./RecipientInput";
+import { RecipientAllowlist } from "./RecipientAllowlist";
 import { useBalance } from "@/hooks/useBalance";
 import { Dialog, DialogContent, DialogTitle, DialogClose } from "../common/Dialog";
 import { useActivityFeed } from "@/hooks/useActivityFeed";
 import { isEmail, isValidAddress } from "@/lib/utils";
+import {
+  isRecipientAllowed,
+  transferLimitsFromPolicy,
+  type TransferPolicy,
+} from "@/lib/zerodev/transfer-session";
 import { ArrowLeft, X, Zap } from "lucide-react";
 
 interface SendFundsModalProps {
@@ -26,6 +32,8 @@ export function SendFundsModal({ open, onClose }: SendFundsModalProps) {
   const [gaslessEnabled, setGaslessEnabled] = useState(false);
   const [gaslessLoading, setGaslessLoading] = useState(false);
   const [sessionExpiry, setSessionExpiry] = useState<number | null>(null);
+  const [transferPolicy, setTransferPolicy] = useState<TransferPolicy | undefined>(undefined);
+  const [allowlistSaving, setAllowlistSaving] = useState(false);
   const { displayableBalance, refetch: refetchBalance } = useBalance();
   const { refetch: refetchActivityFeed } = useActivityFeed();
 
@@ -41,6 +49,7 @@ export function SendFundsModal({ open, onClose }: SendFundsModalProps) {
         if (status.isEnabled) {
           setGaslessEnabled(true);
           setSessionExpiry(status.expiry);
+          setTransferPolicy(status.policy ?? undefined);
           setUseGasless(true); // Auto-enable if available
         } else {
           setGaslessEnabled(false);
@@ -72,6 +81,30 @@ export function SendFundsModal({ open, onClose }: SendFundsModalProps) {
     Number(amount) > 0 &&
     Number(amount) <= Number(displayableBalance);
   const canContinue = isRecipientValid && isAmountValid;
+  const allowedRecipients = useMemo(
+    () => transferPolicy?.allowedRecipients ?? [],
+    [transferPolicy]
+  );
+  // Recipients off the allowlist fall back to a regular transfer
+  const gaslessAllowed =
+    !isValidAddress(recipient) || isRecipientAllowed(transferPolicy, recipient);
+
+  async function handleAllowlistSave(recipients: string[]) {
+    if (!wallet?.enableGaslessTransfers) {
+      throw new Error("Gasless transfers not available");
+    }
+    setAllowlistSaving(true);
+    try {
+      const result = await wallet.enableGaslessTransfers({
+        ...transferLimitsFromPolicy(transferPolicy),
+        allowedRecipients: recipients,
+      });
+      setSessionExpiry(result.expiry);
+      setTransferPolicy(result.policy);
+    } finally {
+      setAllowlistSaving(false);
+    }
+  }
 
   async function handleContinue() {
     setError(null);
@@ -117,7 +150,7 @@ export function SendFundsModal({ open, onClose }: SendFundsModalProps) {
       }
 
       // Use gasless or regular transaction based on toggle
-      if (useGasless && gaslessEnabled) {
+      if (useGasless && gaslessEnabled && gaslessAllowed) {
         console.log("[SendFunds] Sending gasless transaction");
         await wallet.sendSponsored(recipient, "USDC", amount);
       } else {
@@ -232,6 +265,7 @@ export function SendFundsModal({ open, onClose }: SendFundsModalProps) {
                       const result = await wallet.enableGaslessTransfers();
                       setGaslessEnabled(true);
                       setSessionExpiry(result.expiry);
+                      setTransferPolicy(result.policy);
                       setUseGasless(true);
                     } catch (err: any) {
                       setError(err.message || "Failed to enable gasless transfers");
@@ -252,6 +286,21 @@ export function SendFundsModal({ open, onClose }: SendFundsModalProps) {
                 </button>
               )}
             </div>
+            {gaslessEnabled && (
+              <div className="mt-4 w-full space-y-2">
+                {useGasless && !gaslessAllowed && (
+                  <p className="text-xs text-amber-700">
+                    This recipient isn&apos;t on your gasless allowlist — it will be sent as a
+                    regular transaction.
+                  </p>
+                )}
+                <RecipientAllowlist
+                  allowedRecipients={allowedRecipients}
+                  isSaving={allowlistSaving}
+                  onSave={handleAllowlistSave}
+                />
+              </div>
+            )}
             <div className="mt-auto w-full pt-8">
               <button
                 disabled={!canContinue}
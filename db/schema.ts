@@ -8,6 +8,7 @@ import {
   decimal,
   index,
   uniqueIndex,
+  integer,
 } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 
@@ -37,9 +38,7 @@ export const users = pgTable(
     // Index for wallet address lookups (already has unique constraint, but explicit for clarity)
     index("idx_users_wallet_address").on(table.walletAddress),
     // Case-insensitive unique index to prevent duplicate users with different casing
-    uniqueIndex("users_wallet_address_lower_unique").on(
-      sql`lower(${table.walletAddress})`
-    ),
+    uniqueIndex("users_wallet_address_lower_unique").on(sql`lower(${table.walletAddress})`),
   ]
 );
 
@@ -72,6 +71,15 @@ export const agentActions = pgTable(
     txHash: text("tx_hash"),
     errorMessage: text("error_message"),
     metadata: jsonb("metadata"), // Store full decision data or simulation results
+    // UserOp confirmation tracking (see lib/agent/userop-tracker.ts)
+    userOpHash: text("user_op_hash"),
+    txStatus: text("tx_status"), // 'submitted', 'included', 'confirmed', 'reverted', 'stuck', 'dropped'
+    gasUsed: decimal("gas_used"),
+    sponsorshipCostWei: decimal("sponsorship_cost_wei"), // actualGasCost when a paymaster paid
+    paymaster: text("paymaster"),
+    submittedAt: timestamp("submitted_at", { withTimezone: true }),
+    includedAt: timestamp("included_at", { withTimezone: true }),
+    confirmedAt: timestamp("confirmed_at", { withTimezone: true }),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
   },
   (table) => [
@@ -79,5 +87,223 @@ export const agentActions = pgTable(
     index("idx_agent_actions_user_created").on(table.userId, table.createdAt),
     // Index for filtering by action type and status
     index("idx_agent_actions_type_status").on(table.actionType, table.status),
+    // Index for the receipt tracker's in-flight scan
+    index("idx_agent_actions_tx_status").on(table.txStatus, table.submittedAt),
+  ]
+);
+
+export const vaultSnapshots = pgTable(
+  "vault_snapshots",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    vaultAddress: text("vault_address").notNull(), // Lowercased
+    protocol: text("protocol").notNull().default("morpho"), // Any ProtocolId — every enabled protocol is snapshotted
+    apy: decimal("apy"), // Decimal, e.g. 0.05 = 5%
+    avgNetApy: decimal("avg_net_apy"),
+    tvlUsd: decimal("tvl_usd"),
+    liquidityUsd: decimal("liquidity_usd"),
+    riskScore: decimal("risk_score"), // 0-1, from calculateRiskScore
+    snapshotAt: timestamp("snapshot_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    // Index for per-vault history range queries
+    index("idx_vault_snapshots_vault_time").on(table.vaultAddress, table.snapshotAt),
+  ]
+);
+
+export const rebalanceJobs = pgTable(
+  "rebalance_jobs",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    cycleId: uuid("cycle_id").notNull(), // One cycle per cron enqueue
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    walletAddress: text("wallet_address").notNull(),
+    status: text("status").notNull().default("pending"), // 'pending', 'running', 'succeeded', 'skipped', 'dead'
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(5),
+    targetedVaults: jsonb("targeted_vaults"), // null = normal (full) evaluation
+    runAfter: timestamp("run_after", { withTimezone: true }).notNull().defaultNow(), // Backoff gate
+    leaseId: text("lease_id"),
+    leaseExpiresAt: timestamp("lease_expires_at", { withTimezone: true }),
+    result: jsonb("result"), // { action, reason, apyImprovement?, taskId? }
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+  },
+  (table) => [
+    // One job per user per cycle — re-enqueueing a cycle is idempotent
+    uniqueIndex("rebalance_jobs_cycle_user_unique").on(table.cycleId, table.userId),
+    // Index for workers claiming due jobs
+    index("idx_rebalance_jobs_status_run_after").on(table.status, table.runAfter),
+  ]
+);
+
+export const cronRuns = pgTable(
+  "cron_runs",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    runType: text("run_type").notNull(), // 'enqueue' (cycle start) or 'worker' (queue drain)
+    cycleId: uuid("cycle_id"), // Cycle enqueued, or most recent cycle for worker runs
+    triggerMode: text("trigger_mode"), // 'scheduled' or 'targeted' (enqueue runs only)
+    targetedVaults: jsonb("targeted_vaults"),
+    status: text("status").notNull(), // 'completed', 'blocked' (safety check), 'failed'
+    safetyCheck: jsonb("safety_check"), // { safe, reason? } from the USDC oracle check
+    enqueued: integer("enqueued").notNull().default(0),
+    processed: integer("processed").notNull().default(0),
+    rebalanced: integer("rebalanced").notNull().default(0),
+    skipped: integer("skipped").notNull().default(0),
+    errors: integer("errors").notNull().default(0),
+    deadLettered: integer("dead_lettered").notNull().default(0),
+    details: jsonb("details"), // Per-user CronSummary details
+    errorMessage: text("error_message"),
+    startedAt: timestamp("started_at", { withTimezone: true }).notNull(),
+    finishedAt: timestamp("finished_at", { withTimezone: true }).notNull(),
+    durationMs: integer("duration_ms").notNull(),
+  },
+  (table) => [
+    // Index for run history pagination
+    index("idx_cron_runs_started").on(table.startedAt),
+    index("idx_cron_runs_type_started").on(table.runType, table.startedAt),
+  ]
+);
+
+export const positionLedger = pgTable(
+  "position_ledger",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }),
+    walletAddress: text("wallet_address").notNull(), // Lowercased
+    vaultAddress: text("vault_address").notNull(), // Lowercased
+    protocol: text("protocol").notNull(),
+    entryType: text("entry_type").notNull(), // 'deposit', 'withdraw', 'rebalance_in', 'rebalance_out'
+    shares: decimal("shares").notNull(), // Raw share units (position token for non-ERC4626 markets)
+    assets: decimal("assets").notNull(), // Raw USDC units (6 decimals)
+    txHash: text("tx_hash"),
+    // Rebalance legs point at their agent_actions row; legs of reverted ops are ignored
+    agentActionId: uuid("agent_action_id").references(() => agentActions.id, {
+      onDelete: "cascade",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    // Index for replaying a wallet's ledger in order
+    index("idx_position_ledger_wallet_created").on(table.walletAddress, table.createdAt),
+  ]
+);
+
+export const pendingWithdrawals = pgTable(
+  "pending_withdrawals",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    walletAddress: text("wallet_address").notNull(), // Lowercased
+    source: text("source").notNull(), // 'redeem' (user exit) or 'rebalance' (agent move)
+    vaultAddress: text("vault_address").notNull(), // Vault being exited, lowercased
+    protocol: text("protocol").notNull(),
+    // Rebalance remainders are deposited here once redeemed; null for user exits
+    targetVaultAddress: text("target_vault_address"),
+    targetProtocol: text("target_protocol"),
+    totalShares: decimal("total_shares").notNull(), // Shares the exit was originally for
+    remainingShares: decimal("remaining_shares").notNull(),
+    // Raw USDC units still to withdraw — the amount lending markets (Aave, Moonwell,
+    // Compound) are called with; an estimate for ERC4626 vaults, which redeem shares
+    remainingAssets: decimal("remaining_assets").notNull(),
+    redeemedAssets: decimal("redeemed_assets").notNull().default("0"), // Raw USDC units so far
+    status: text("status").notNull().default("pending"), // 'pending', 'completed', 'failed'
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(50),
+    lastError: text("last_error"),
+    lastTxHash: text("last_tx_hash"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+  },
+  (table) => [
+    // Index for the cron follow-up scan and per-user progress
+    index("idx_pending_withdrawals_status_updated").on(table.status, table.updatedAt),
+    index("idx_pending_withdrawals_wallet").on(table.walletAddress, table.createdAt),
+  ]
+);
+
+export const sessionRenewals = pgTable(
+  "session_renewals",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    walletAddress: text("wallet_address").notNull(), // Lowercased
+    sessionKind: text("session_kind").notNull(), // 'agent' (authorization_7702) or 'transfer'
+    sessionKeyAddress: text("session_key_address").notNull(), // The key nearing expiry, lowercased
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    status: text("status").notNull().default("pending"), // 'pending', 'renewed', 'abandoned'
+    notifiedAt: timestamp("notified_at", { withTimezone: true }).notNull().defaultNow(),
+    dismissedAt: timestamp("dismissed_at", { withTimezone: true }), // User hid the in-app notice
+    renewedAt: timestamp("renewed_at", { withTimezone: true }),
+    renewedSessionKeyAddress: text("renewed_session_key_address"),
+    abandonedAt: timestamp("abandoned_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    // One renewal per expiring key
+    uniqueIndex("session_renewals_kind_key_unique").on(table.sessionKind, table.sessionKeyAddress),
+    // Index for the in-app notice and the cron's skip reason
+    index("idx_session_renewals_wallet_status").on(table.walletAddress, table.status),
+  ]
+);
+
+// Session key registry — source of truth for grants, revocations and
+// on-chain uninstalls (Redis only caches revocations)
+export const sessionKeys = pgTable(
+  "session_keys",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    walletAddress: text("wallet_address").notNull(), // Lowercased
+    sessionKind: text("session_kind").notNull(), // 'agent' or 'transfer'
+    sessionKeyAddress: text("session_key_address").notNull(), // Lowercased
+    accountAddress: text("account_address"), // Kernel account the validator is installed on
+    uninstallCallData: text("uninstall_call_data"), // Kernel.uninstallValidation calldata, from the grant
+    grantedAt: timestamp("granted_at", { withTimezone: true }), // Null for keys granted before the registry
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    revokedBy: text("revoked_by"), // 'user', 'rotation' (replaced by a new key), 'operator'
+    revokeReason: text("revoke_reason"),
+    uninstallStatus: text("uninstall_status"), // 'prepared', 'submitted', 'confirmed', 'failed'
+    uninstallUserOpHash: text("uninstall_user_op_hash"),
+    uninstallTxHash: text("uninstall_tx_hash"),
+    uninstallRequestedAt: timestamp("uninstall_requested_at", { withTimezone: true }),
+    uninstallSubmittedAt: timestamp("uninstall_submitted_at", { withTimezone: true }), // Drop timeout runs from here
+    uninstalledAt: timestamp("uninstalled_at", { withTimezone: true }),
+    uninstallError: text("uninstall_error"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("session_keys_key_unique").on(table.sessionKeyAddress),
+    // Index for the per-wallet status view
+    index("idx_session_keys_wallet").on(table.walletAddress, table.createdAt),
   ]
 );
@@ -0,0 +1,13 @@
+CREATE TABLE "vault_snapshots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"vault_address" text NOT NULL,
+	"protocol" text DEFAULT 'morpho' NOT NULL,
+	"apy" numeric,
+	"avg_net_apy" numeric,
+	"tvl_usd" numeric,
+	"liquidity_usd" numeric,
+	"risk_score" numeric,
+	"snapshot_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_vault_snapshots_vault_time" ON "vault_snapshots" USING btree ("vault_address","snapshot_at");
\ No newline at end of file
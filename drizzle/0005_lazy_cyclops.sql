@@ -0,0 +1,22 @@
+CREATE TABLE "rebalance_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"cycle_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"wallet_address" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 5 NOT NULL,
+	"targeted_vaults" jsonb,
+	"run_after" timestamp with time zone DEFAULT now() NOT NULL,
+	"lease_id" text,
+	"lease_expires_at" timestamp with time zone,
+	"result" jsonb,
+	"last_error" text,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now(),
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "rebalance_jobs" ADD CONSTRAINT "rebalance_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "rebalance_jobs_cycle_user_unique" ON "rebalance_jobs" USING btree ("cycle_id","user_id");--> statement-breakpoint
+CREATE INDEX "idx_rebalance_jobs_status_run_after" ON "rebalance_jobs" USING btree ("status","run_after");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "cron_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"run_type" text NOT NULL,
+	"cycle_id" uuid,
+	"trigger_mode" text,
+	"targeted_vaults" jsonb,
+	"status" text NOT NULL,
+	"safety_check" jsonb,
+	"enqueued" integer DEFAULT 0 NOT NULL,
+	"processed" integer DEFAULT 0 NOT NULL,
+	"rebalanced" integer DEFAULT 0 NOT NULL,
+	"skipped" integer DEFAULT 0 NOT NULL,
+	"errors" integer DEFAULT 0 NOT NULL,
+	"dead_lettered" integer DEFAULT 0 NOT NULL,
+	"details" jsonb,
+	"error_message" text,
+	"started_at" timestamp with time zone NOT NULL,
+	"finished_at" timestamp with time zone NOT NULL,
+	"duration_ms" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_cron_runs_started" ON "cron_runs" USING btree ("started_at");--> statement-breakpoint
+CREATE INDEX "idx_cron_runs_type_started" ON "cron_runs" USING btree ("run_type","started_at");
\ No newline at end of file
@@ -0,0 +1,9 @@
+ALTER TABLE "agent_actions" ADD COLUMN "user_op_hash" text;--> statement-breakpoint
+ALTER TABLE "agent_actions" ADD COLUMN "tx_status" text;--> statement-breakpoint
+ALTER TABLE "agent_actions" ADD COLUMN "gas_used" numeric;--> statement-breakpoint
+ALTER TABLE "agent_actions" ADD COLUMN "sponsorship_cost_wei" numeric;--> statement-breakpoint
+ALTER TABLE "agent_actions" ADD COLUMN "paymaster" text;--> statement-breakpoint
+ALTER TABLE "agent_actions" ADD COLUMN "submitted_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "agent_actions" ADD COLUMN "included_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "agent_actions" ADD COLUMN "confirmed_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "idx_agent_actions_tx_status" ON "agent_actions" USING btree ("tx_status","submitted_at");
\ No newline at end of file
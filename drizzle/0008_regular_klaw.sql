@@ -0,0 +1,17 @@
+CREATE TABLE "position_ledger" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid,
+	"wallet_address" text NOT NULL,
+	"vault_address" text NOT NULL,
+	"protocol" text NOT NULL,
+	"entry_type" text NOT NULL,
+	"shares" numeric NOT NULL,
+	"assets" numeric NOT NULL,
+	"tx_hash" text,
+	"agent_action_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "position_ledger" ADD CONSTRAINT "position_ledger_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "position_ledger" ADD CONSTRAINT "position_ledger_agent_action_id_agent_actions_id_fk" FOREIGN KEY ("agent_action_id") REFERENCES "public"."agent_actions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_position_ledger_wallet_created" ON "position_ledger" USING btree ("wallet_address","created_at");
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "pending_withdrawals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"wallet_address" text NOT NULL,
+	"source" text NOT NULL,
+	"vault_address" text NOT NULL,
+	"protocol" text NOT NULL,
+	"target_vault_address" text,
+	"target_protocol" text,
+	"total_shares" numeric NOT NULL,
+	"remaining_shares" numeric NOT NULL,
+	"remaining_assets" numeric NOT NULL,
+	"redeemed_assets" numeric DEFAULT '0' NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 50 NOT NULL,
+	"last_error" text,
+	"last_tx_hash" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now(),
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "pending_withdrawals" ADD CONSTRAINT "pending_withdrawals_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_pending_withdrawals_status_updated" ON "pending_withdrawals" USING btree ("status","updated_at");--> statement-breakpoint
+CREATE INDEX "idx_pending_withdrawals_wallet" ON "pending_withdrawals" USING btree ("wallet_address","created_at");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "session_renewals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"wallet_address" text NOT NULL,
+	"session_kind" text NOT NULL,
+	"session_key_address" text NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"notified_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"dismissed_at" timestamp with time zone,
+	"renewed_at" timestamp with time zone,
+	"renewed_session_key_address" text,
+	"abandoned_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "session_renewals" ADD CONSTRAINT "session_renewals_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "session_renewals_kind_key_unique" ON "session_renewals" USING btree ("session_kind","session_key_address");--> statement-breakpoint
+CREATE INDEX "idx_session_renewals_wallet_status" ON "session_renewals" USING btree ("wallet_address","status");
\ No newline at end of file
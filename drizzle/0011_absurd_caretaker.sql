@@ -0,0 +1,26 @@
+CREATE TABLE "session_keys" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"wallet_address" text NOT NULL,
+	"session_kind" text NOT NULL,
+	"session_key_address" text NOT NULL,
+	"account_address" text,
+	"uninstall_call_data" text,
+	"granted_at" timestamp with time zone,
+	"expires_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone,
+	"revoked_by" text,
+	"revoke_reason" text,
+	"uninstall_status" text,
+	"uninstall_user_op_hash" text,
+	"uninstall_tx_hash" text,
+	"uninstall_requested_at" timestamp with time zone,
+	"uninstalled_at" timestamp with time zone,
+	"uninstall_error" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "session_keys" ADD CONSTRAINT "session_keys_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "session_keys_key_unique" ON "session_keys" USING btree ("session_key_address");--> statement-breakpoint
+CREATE INDEX "idx_session_keys_wallet" ON "session_keys" USING btree ("wallet_address","created_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "session_keys" ADD COLUMN "uninstall_submitted_at" timestamp with time zone;
\ No newline at end of file
@@ -6,11 +6,13 @@ import { useWallet } from "./useWallet";
 import { useWallets, usePrivy, useSign7702Authorization } from "@privy-io/react-auth";
 import { createWalletClient, custom, type WalletClient } from "viem";
 import { base } from "viem/chains";
+import type { ProtocolId } from "@/lib/yield-optimizer/types";
+import type { SessionKeyRecord } from "@/lib/security/session-registry";
 
 // Types matching what components expect (compatible with legacy Yield.xyz types)
 export interface YieldOpportunity {
   id: string;
-  protocol: "morpho" | "aave" | "moonwell";
+  protocol: ProtocolId;
   name: string;
   asset: string;
   apy: number;
@@ -30,7 +32,9 @@ export interface YieldOpportunity {
     marketParams?: Record<string, unknown>;
   };
   rewardRate: {
-    total: number;
+    total: number; // Includes incentive emissions
+    base?: number;
+    incentives?: number;
   };
   status: {
     enter: boolean;
@@ -44,7 +48,7 @@ export interface YieldOpportunity {
 export interface YieldPosition {
   id: string;
   yieldId: string;
-  protocol: "morpho" | "aave" | "moonwell";
+  protocol: ProtocolId;
   vaultAddress: `0x${string}`;
   vaultName?: string;
   vaultDescription?: string;
@@ -62,9 +66,24 @@ export interface YieldPosition {
     earnedThisMonth: string; // Current month estimate
     monthlyRate: string; // Current monthly earning rate
     daysActive: number; // Days since entry
+    realized?: string; // Ledger-backed: yield booked on exits
+    unrealized?: string; // Ledger-backed: convertToAssets(shares) minus principal
+    source?: "ledger" | "estimate";
+    claimable?: ClaimableRewardInfo[]; // Incentives accrued on this position
+    claimableUsd?: string;
   };
 }
 
+// Pending incentive token rewards (MORPHO, WELL, ...)
+export interface ClaimableRewardInfo {
+  protocol: ProtocolId;
+  token: `0x${string}`;
+  symbol: string;
+  amount: string; // Display-friendly token amount
+  valueUsd: string;
+  vaultAddress?: `0x${string}`;
+}
+
 interface OptimizerDecision {
   shouldRebalance: boolean;
   from: YieldPosition | null;
@@ -79,6 +98,7 @@ interface OptimizerResponse {
   decision: OptimizerDecision;
   opportunities: YieldOpportunity[];
   positions: YieldPosition[];
+  claimableRewards?: ClaimableRewardInfo[];
   timestamp: number;
 }
 
@@ -132,6 +152,7 @@ export function useYieldPositions(address?: string) {
   return {
     positions: query.data?.positions ?? [],
     positionCount: query.data?.positions?.length ?? 0,
+    claimableRewards: query.data?.claimableRewards ?? [],
     isLoading: query.isLoading,
     refetch: query.refetch,
   };
@@ -360,6 +381,74 @@ export function useAgent() {
   };
 }
 
+export interface StrategySettings {
+  minApyGainThreshold: number; // Percent, e.g. 0.5 = 0.5%
+  maxSlippageTolerance: number; // Percent
+  riskLevel: "low" | "medium" | "high";
+}
+
+// Per-user rebalancing strategy hook (reads/writes user_strategies)
+export function useStrategy() {
+  const { wallet } = useWallet();
+  const queryClient = useQueryClient();
+  const { getAccessToken } = usePrivy();
+  const address = wallet?.address;
+
+  const query = useQuery<{ strategy: StrategySettings; isDefault: boolean }>({
+    queryKey: ["agent-strategy", address],
+    queryFn: async () => {
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
+        throw new Error("Failed to get access token");
+      }
+
+      const res = await fetch(`/api/agent/strategy?address=${address}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (!res.ok) throw new Error("Failed to fetch strategy");
+      return res.json();
+    },
+    enabled: !!address,
+  });
+
+  const update = useMutation({
+    mutationFn: async (settings: Partial<StrategySettings>) => {
+      if (!address) throw new Error("No wallet connected");
+
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
+        throw new Error("Failed to get access token");
+      }
+
+      const res = await fetch("/api/agent/strategy", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ address, ...settings }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to update strategy");
+      }
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["agent-strategy", address] });
+    },
+  });
+
+  return {
+    strategy: query.data?.strategy ?? null,
+    isLoading: query.isLoading,
+    updateStrategy: update.mutate,
+    isUpdating: update.isPending,
+    updateError: update.error,
+  };
+}
+
 // Vault exit hook - for exiting Morpho vault positions
 export function useVaultExit() {
   const { wallet } = useWallet();
@@ -396,6 +485,280 @@ export function useVaultExit() {
       // Invalidate positions query to trigger refetch
       queryClient.invalidateQueries({ queryKey: ["optimizer"] });
       queryClient.invalidateQueries({ queryKey: ["balance"] });
+      queryClient.invalidateQueries({ queryKey: ["pending-withdrawals"] });
+    },
+  });
+}
+
+// Exit remainder queued because the vault's liquidity was thin
+export interface PendingWithdrawalInfo {
+  id: string;
+  source: "redeem" | "rebalance";
+  vaultAddress: `0x${string}`;
+  protocol: ProtocolId;
+  targetVaultAddress: `0x${string}` | null;
+  status: "pending" | "completed" | "failed";
+  progress: number; // 0-1
+  totalShares: string;
+  remainingShares: string;
+  remainingUsd: string;
+  redeemedUsd: string;
+  lastError: string | null;
+  lastTxHash: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+// Queued withdrawals hook - polls while any exit is still waiting on liquidity
+export function usePendingWithdrawals() {
+  const { wallet } = useWallet();
+  const { getAccessToken } = usePrivy();
+
+  return useQuery({
+    queryKey: ["pending-withdrawals", wallet?.address],
+    queryFn: async (): Promise<PendingWithdrawalInfo[]> => {
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
+        throw new Error("Failed to get access token");
+      }
+
+      const res = await fetch("/api/vault/withdrawals", {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to fetch withdrawals");
+      }
+
+      return data.withdrawals;
+    },
+    enabled: !!wallet?.address,
+    refetchInterval: (query) =>
+      query.state.data?.some((w) => w.status === "pending") ? 60_000 : false,
+  });
+}
+
+export type SessionState = "active" | "expiring" | "expired_pending" | "abandoned";
+
+export interface SessionRenewalInfo {
+  agent: {
+    sessionKeyAddress: string;
+    expiry: number;
+    state: SessionState;
+    renewalId: string | null;
+  } | null;
+  transfer: {
+    sessionKeyAddress: string;
+    expiry: number;
+    state: SessionState;
+    renewalId: string | null;
+  } | null;
+  notices: Array<{
+    id: string;
+    sessionKind: "agent" | "transfer";
+    status: "pending" | "abandoned";
+    expiresAt: string;
+    notifiedAt: string;
+  }>;
+}
+
+// Session key renewal hook - expiry state, one-signature agent renewal and notice dismissal
+export function useSessionRenewal() {
+  const { wallet } = useWallet();
+  const queryClient = useQueryClient();
+  const address = wallet?.address;
+  const { wallets } = useWallets();
+  const { getAccessToken } = usePrivy();
+
+  const status = useQuery({
+    queryKey: ["session-renewal", address],
+    queryFn: async (): Promise<SessionRenewalInfo> => {
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
+        throw new Error("Failed to get access token");
+      }
+
+      const res = await fetch("/api/agent/session-renewal", {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to fetch session state");
+      }
+
+      return data;
+    },
+    enabled: !!address,
+  });
+
+  const renew = useMutation({
+    mutationFn: async () => {
+      if (!address) throw new Error("No wallet connected");
+
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
+        throw new Error("Failed to get access token");
+      }
+
+      // The EOA is already delegated, so only the enable signature is requested
+      const provider = await wallets[0].getEthereumProvider();
+      const privyWalletClient = createWalletClient({
+        account: address as `0x${string}`,
+        chain: base,
+        transport: custom(provider),
+      });
+
+      const { renewAgentSession } = await import("@/lib/zerodev/client-secure");
+      return renewAgentSession(address as `0x${string}`, accessToken, privyWalletClient);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["agent-status", address] });
+      queryClient.invalidateQueries({ queryKey: ["session-renewal", address] });
+    },
+  });
+
+  const dismiss = useMutation({
+    mutationFn: async (id: string) => {
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
+        throw new Error("Failed to get access token");
+      }
+
+      const res = await fetch("/api/agent/session-renewal", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ id }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to dismiss notice");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["session-renewal", address] });
+    },
+  });
+
+  return {
+    agent: status.data?.agent ?? null,
+    transfer: status.data?.transfer ?? null,
+    notices: status.data?.notices ?? [],
+    isLoading: status.isLoading,
+    renew: renew.mutate,
+    isRenewing: renew.isPending,
+    renewError: renew.error,
+    dismiss: dismiss.mutate,
+  };
+}
+
+// Session key history - grants, revocations and on-chain uninstalls
+export function useSessionKeys() {
+  const { wallet } = useWallet();
+  const queryClient = useQueryClient();
+  const address = wallet?.address;
+  const { wallets } = useWallets();
+  const { getAccessToken } = usePrivy();
+
+  const history = useQuery({
+    queryKey: ["session-keys", address],
+    queryFn: async (): Promise<SessionKeyRecord[]> => {
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
+        throw new Error("Failed to get access token");
+      }
+
+      const res = await fetch("/api/agent/session-keys", {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to fetch session keys");
+      }
+
+      return data.keys;
+    },
+    enabled: !!address,
+  });
+
+  const uninstall = useMutation({
+    mutationFn: async (sessionKeyAddress: string) => {
+      if (!address) throw new Error("No wallet connected");
+
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
+        throw new Error("Failed to get access token");
+      }
+
+      // The EOA signs the uninstall UserOp as the account's root validator
+      const provider = await wallets[0].getEthereumProvider();
+      const privyWalletClient = createWalletClient({
+        account: address as `0x${string}`,
+        chain: base,
+        transport: custom(provider),
+      });
+
+      const { uninstallSessionKey } = await import("@/lib/zerodev/client-secure");
+      return uninstallSessionKey(
+        address as `0x${string}`,
+        sessionKeyAddress,
+        accessToken,
+        privyWalletClient
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["session-keys", address] });
+    },
+  });
+
+  return {
+    keys: history.data ?? [],
+    isLoading: history.isLoading,
+    uninstall: uninstall.mutate,
+    uninstallingKey: uninstall.isPending ? uninstall.variables : null,
+    uninstallError: uninstall.error,
+  };
+}
+
+// Rewards claim hook - claims pending MORPHO/WELL incentives via the agent session key
+export function useClaimRewards() {
+  const queryClient = useQueryClient();
+  const { getAccessToken } = usePrivy();
+
+  return useMutation({
+    mutationFn: async (protocols?: ProtocolId[]) => {
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
+        throw new Error("Failed to get access token");
+      }
+
+      const res = await fetch("/api/rewards/claim", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ protocols }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to claim rewards");
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["optimizer"] });
     },
   });
 }
@@ -410,6 +773,7 @@ export function getProtocolColor(protocol: string): string {
     morpho: "#00D395",
     aave: "#B6509E",
     moonwell: "#7B3FE4",
+    compound: "#0E9F6E",
   };
   return colors[protocol] || "#888";
 }
@@ -419,6 +783,7 @@ export function getProtocolInfo(protocol: string) {
     morpho: { name: "Morpho", color: "#00D395", icon: "🔷" },
     aave: { name: "Aave", color: "#B6509E", icon: "👻" },
     moonwell: { name: "Moonwell", color: "#7B3FE4", icon: "🌙" },
+    compound: { name: "Compound", color: "#0E9F6E", icon: "🟢" },
   };
   return info[protocol] || { name: protocol, color: "#888", icon: "💰" };
 }
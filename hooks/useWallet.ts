@@ -13,6 +13,7 @@ import {
 } from "viem";
 import { base } from "viem/chains";
 import { useMemo, useCallback } from "react";
+import type { TransferLimits, TransferPolicy } from "@/lib/zerodev/transfer-session";
 
 // USDC on Base
 const USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as const;
@@ -238,8 +239,9 @@ export function useWallet() {
       /**
        * Enable gasless transfers by creating transfer session key
        * Must be called before using sendSponsored()
+       * Optional limits are encoded into the session key's on-chain policies
        */
-      async enableGaslessTransfers() {
+      async enableGaslessTransfers(limits?: Partial<TransferLimits>) {
         if (!address) throw new Error("Wallet address not yet available");
         if (!wallet) throw new Error("Wallet not available");
 
@@ -262,6 +264,7 @@ export function useWallet() {
               address: wallet.address,
               getEthereumProvider: wallet.getEthereumProvider.bind(wallet),
             },
+            limits,
           }),
         });
 
@@ -274,6 +277,7 @@ export function useWallet() {
         return {
           smartAccountAddress: result.smartAccountAddress,
           expiry: result.expiry,
+          policy: result.policy as TransferPolicy,
         };
       },
 
@@ -0,0 +1,421 @@
+/**
+ * Agent Performance Attribution
+ *
+ * Measures what the autonomous agent earned compared with doing nothing.
+ * Every successful rebalance opens a segment per deposit leg: its share of
+ * the redeemed funds sits in that vault until the agent moves it again (or
+ * until now). The agent path earns the destination vault's APY over the
+ * segment; the counterfactual earns the APY of the vault the funds started
+ * in before the agent's first move in that chain. Both sides are integrated
+ * over `vault_snapshots` APY history, which the APY monitor records for every
+ * enabled protocol.
+ *
+ * Segments accrue simple interest on the rebalanced amount, which includes
+ * yield carried over from earlier segments, so both sides compound per move.
+ * A segment whose vaults have no APY history is reported as unpriced.
+ */
+
+import { neon } from "@neondatabase/serverless";
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+export interface AttributionLeg {
+  vault: string;
+  amountUsd: number;
+}
+
+export interface AttributionRebalance {
+  createdAt: string;
+  redeems: AttributionLeg[]; // Funds that left each vault
+  deposits: AttributionLeg[]; // Where they went — split pro rata across the redeemed funds
+}
+
+export interface AttributionSegment {
+  vault: string; // Vault the agent held
+  originVault: string; // Vault the funds would have stayed in
+  amountUsd: number;
+  start: string;
+  end: string;
+  agentYieldUsd: number | null;
+  counterfactualYieldUsd: number | null;
+}
+
+export interface AttributionReport {
+  since: string | null;
+  until: string;
+  agentYieldUsd: number; // Realized along the agent-managed path
+  counterfactualYieldUsd: number; // Had the funds stayed in their original vault
+  attributedYieldUsd: number; // agent - counterfactual
+  rebalanceCount: number;
+  pricedSegments: number;
+  unpricedSegments: number;
+  segments: AttributionSegment[];
+}
+
+export interface UserAttribution extends AttributionReport {
+  walletAddress: string;
+}
+
+export interface AttributionRange {
+  since?: Date;
+  until?: Date;
+}
+
+/** Daily average APY per vault (decimal, e.g. 0.05 = 5%) */
+export type ApyHistory = Map<string, Array<{ at: number; apy: number }>>;
+
+function getSql() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is not configured");
+  }
+  return neon(databaseUrl);
+}
+
+/**
+ * Turn a user's chronological rebalances into holding segments. A redeem leg
+ * takes funds out of the segments open in its vault pro rata, leaving the
+ * rest open; redeeming more than they hold carries the growth along with
+ * them. A vault with no open segments starts a new chain. The redeemed funds
+ * are split across the deposit legs, each part keeping its chain's original
+ * vault as its counterfactual.
+ */
+export function buildAttributionSegments(
+  rebalances: AttributionRebalance[],
+  until: Date
+): Array<Omit<AttributionSegment, "agentYieldUsd" | "counterfactualYieldUsd">> {
+  const segments: Array<Omit<AttributionSegment, "agentYieldUsd" | "counterfactualYieldUsd">> = [];
+  const open = new Map<string, number[]>(); // vault → indexes of open segments held there
+
+  const openSegment = (vault: string, originVault: string, amountUsd: number, at: string) => {
+    segments.push({ vault, originVault, amountUsd, start: at, end: until.toISOString() });
+    open.set(vault, [...(open.get(vault) ?? []), segments.length - 1]);
+  };
+
+  const sorted = [...rebalances].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+  for (const rebalance of sorted) {
+    const at = new Date(rebalance.createdAt).toISOString();
+
+    // Funds in flight, by the vault their chain started in
+    const moved = new Map<string, number>();
+    for (const redeem of rebalance.redeems) {
+      const from = redeem.vault.toLowerCase();
+      const closing = open.get(from) ?? [];
+      const openUsd = closing.reduce((sum, index) => sum + segments[index].amountUsd, 0);
+      if (openUsd <= 0) {
+        moved.set(from, (moved.get(from) ?? 0) + redeem.amountUsd);
+        continue;
+      }
+
+      const fraction = redeem.amountUsd / openUsd;
+      open.delete(from);
+      for (const index of closing) {
+        const segment = segments[index];
+        segment.end = at;
+        const taken = segment.amountUsd * fraction;
+        moved.set(segment.originVault, (moved.get(segment.originVault) ?? 0) + taken);
+        if (fraction < 1) openSegment(from, segment.originVault, segment.amountUsd - taken, at);
+      }
+    }
+
+    const depositedUsd = rebalance.deposits.reduce((sum, leg) => sum + leg.amountUsd, 0);
+    if (depositedUsd <= 0) continue;
+    for (const deposit of rebalance.deposits) {
+      const share = deposit.amountUsd / depositedUsd;
+      for (const [originVault, amountUsd] of moved) {
+        if (amountUsd * share > 0) {
+          openSegment(deposit.vault.toLowerCase(), originVault, amountUsd * share, at);
+        }
+      }
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * ∫ APY dt over [from, to), in years. Each daily point holds until the next;
+ * the first point also covers any time before it.
+ *
+ * @returns null when the vault has no history
+ */
+export function integrateApy(
+  series: Array<{ at: number; apy: number }> | undefined,
+  from: number,
+  to: number
+): number | null {
+  if (!series?.length) return null;
+  if (to <= from) return 0;
+
+  let total = 0;
+  for (let i = 0; i < series.length; i++) {
+    const pointStart = i === 0 ? -Infinity : series[i].at;
+    const pointEnd = i + 1 < series.length ? series[i + 1].at : Infinity;
+    const overlap = Math.min(to, pointEnd) - Math.max(from, pointStart);
+    if (overlap > 0) total += series[i].apy * overlap;
+  }
+  return total / MS_PER_YEAR;
+}
+
+/**
+ * Price segments against APY history, clipped to the reporting range
+ */
+export function attributeSegments(
+  segments: Array<Omit<AttributionSegment, "agentYieldUsd" | "counterfactualYieldUsd">>,
+  history: ApyHistory,
+  range: { since?: Date; until: Date },
+  rebalanceCount: number
+): AttributionReport {
+  const report: AttributionReport = {
+    since: range.since?.toISOString() ?? null,
+    until: range.until.toISOString(),
+    agentYieldUsd: 0,
+    counterfactualYieldUsd: 0,
+    attributedYieldUsd: 0,
+    rebalanceCount,
+    pricedSegments: 0,
+    unpricedSegments: 0,
+    segments: [],
+  };
+
+  for (const segment of segments) {
+    const from = Math.max(new Date(segment.start).getTime(), range.since?.getTime() ?? -Infinity);
+    const to = Math.min(new Date(segment.end).getTime(), range.until.getTime());
+    if (to <= from) continue;
+
+    const agentYears = integrateApy(history.get(segment.vault), from, to);
+    const counterfactualYears = integrateApy(history.get(segment.originVault), from, to);
+    const priced = agentYears !== null && counterfactualYears !== null;
+
+    const agentYieldUsd = agentYears !== null ? segment.amountUsd * agentYears : null;
+    const counterfactualYieldUsd =
+      counterfactualYears !== null ? segment.amountUsd * counterfactualYears : null;
+
+    report.segments.push({
+      ...segment,
+      start: new Date(from).toISOString(),
+      end: new Date(to).toISOString(),
+      agentYieldUsd,
+      counterfactualYieldUsd,
+    });
+
+    if (priced) {
+      report.pricedSegments++;
+      report.agentYieldUsd += agentYieldUsd!;
+      report.counterfactualYieldUsd += counterfactualYieldUsd!;
+    } else {
+      report.unpricedSegments++;
+    }
+  }
+
+  report.attributedYieldUsd = report.agentYieldUsd - report.counterfactualYieldUsd;
+  return report;
+}
+
+/**
+ * Daily average APY from vault_snapshots for the given vaults
+ */
+async function getApyHistory(vaults: string[], since: Date): Promise<ApyHistory> {
+  const history: ApyHistory = new Map();
+  if (vaults.length === 0) return history;
+
+  const sql = getSql();
+  // One day of lead-in so the first segment starts on a known rate
+  const from = new Date(since.getTime() - 24 * 60 * 60 * 1000);
+  const rows = await sql`
+    SELECT
+      vault_address,
+      date_bin('1 day'::interval, snapshot_at, TIMESTAMPTZ '2000-01-01') AS bucket,
+      AVG(apy) AS apy
+    FROM vault_snapshots
+    WHERE vault_address IN (SELECT jsonb_array_elements_text(${JSON.stringify(vaults)}::jsonb))
+      AND snapshot_at >= ${from.toISOString()}
+      AND apy IS NOT NULL
+    GROUP BY vault_address, bucket
+    ORDER BY bucket ASC
+  `;
+
+  for (const row of rows) {
+    const vault = String(row.vault_address).toLowerCase();
+    const series = history.get(vault) ?? [];
+    series.push({ at: new Date(row.bucket).getTime(), apy: Number(row.apy) });
+    history.set(vault, series);
+  }
+  return history;
+}
+
+/**
+ * Legs of a logged rebalance. Portfolio moves carry every leg in
+ * `metadata.legs`, less any exit remainder deferred to a pending withdrawal;
+ * single-vault moves carry `amount_usdc` from `fromVault` to `toVault`.
+ */
+function rebalanceLegs(
+  metadata: Record<string, any>,
+  amountUsd: number
+): Pick<AttributionRebalance, "redeems" | "deposits"> | null {
+  const toUsd = (assets: unknown) => Number(assets ?? 0) / 1e6;
+  if (metadata.legs?.redeems?.length) {
+    const deferred = new Map<string, number>();
+    for (const leg of metadata.deferred ?? []) {
+      const vault = String(leg.vault).toLowerCase();
+      deferred.set(vault, (deferred.get(vault) ?? 0) + toUsd(leg.assets));
+    }
+    return {
+      redeems: metadata.legs.redeems.map((leg: any) => ({
+        vault: leg.vault,
+        amountUsd: Math.max(
+          toUsd(leg.assets) - (deferred.get(String(leg.vault).toLowerCase()) ?? 0),
+          0
+        ),
+      })),
+      deposits: (metadata.legs.deposits ?? []).map((leg: any) => ({
+        vault: leg.vault,
+        amountUsd: toUsd(leg.assets),
+      })),
+    };
+  }
+
+  const { fromVault, toVault } = metadata;
+  if (!fromVault || !toVault) return null;
+  return {
+    redeems: [{ vault: fromVault, amountUsd }],
+    deposits: [{ vault: toVault, amountUsd }],
+  };
+}
+
+/**
+ * Successful rebalances with stored vault addresses, grouped by wallet.
+ * The full history is loaded so chains that began before `since` keep
+ * their original vault.
+ */
+async function getRebalancesByWallet(
+  walletAddress?: string
+): Promise<Map<string, AttributionRebalance[]>> {
+  const sql = getSql();
+  const rows = walletAddress
+    ? await sql`
+        SELECT u.wallet_address, a.amount_usdc, a.metadata, a.created_at
+        FROM agent_actions a
+        JOIN users u ON u.id = a.user_id
+        WHERE lower(u.wallet_address) = ${walletAddress.toLowerCase()}
+          AND a.action_type = 'rebalance'
+          AND a.status = 'success'
+        ORDER BY a.created_at ASC
+      `
+    : await sql`
+        SELECT u.wallet_address, a.amount_usdc, a.metadata, a.created_at
+        FROM agent_actions a
+        JOIN users u ON u.id = a.user_id
+        WHERE a.action_type = 'rebalance'
+          AND a.status = 'success'
+        ORDER BY a.created_at ASC
+      `;
+
+  const byWallet = new Map<string, AttributionRebalance[]>();
+  for (const row of rows) {
+    const legs = rebalanceLegs(row.metadata ?? {}, parseFloat(row.amount_usdc || "0"));
+    if (!legs) continue; // Rebalances logged before vault addresses were stored
+
+    const wallet = String(row.wallet_address).toLowerCase();
+    const list = byWallet.get(wallet) ?? [];
+    list.push({ createdAt: new Date(row.created_at).toISOString(), ...legs });
+    byWallet.set(wallet, list);
+  }
+  return byWallet;
+}
+
+async function attributeWallets(
+  byWallet: Map<string, AttributionRebalance[]>,
+  range: AttributionRange
+): Promise<UserAttribution[]> {
+  const until = range.until ?? new Date();
+  const segmentsByWallet = new Map(
+    Array.from(byWallet.entries()).map(([wallet, rebalances]) => [
+      wallet,
+      buildAttributionSegments(rebalances, until),
+    ])
+  );
+
+  const vaults = new Set<string>();
+  let earliest = until;
+  for (const segments of segmentsByWallet.values()) {
+    for (const segment of segments) {
+      vaults.add(segment.vault);
+      vaults.add(segment.originVault);
+      const start = new Date(segment.start);
+      if (start < earliest) earliest = start;
+    }
+  }
+  if (range.since && range.since > earliest) earliest = range.since;
+
+  const history = await getApyHistory(Array.from(vaults), earliest);
+
+  return Array.from(segmentsByWallet.entries()).map(([walletAddress, segments]) => {
+    const rebalanceCount = (byWallet.get(walletAddress) ?? []).filter((r) => {
+      const at = new Date(r.createdAt);
+      return (!range.since || at >= range.since) && at < until;
+    }).length;
+    return {
+      walletAddress,
+      ...attributeSegments(segments, history, { since: range.since, until }, rebalanceCount),
+    };
+  });
+}
+
+/**
+ * Attribution for one wallet over [since, until)
+ */
+export async function getAgentAttribution(
+  walletAddress: string,
+  range: AttributionRange = {}
+): Promise<AttributionReport> {
+  const byWallet = await getRebalancesByWallet(walletAddress);
+  const [report] = await attributeWallets(byWallet, range);
+  if (report) {
+    const { walletAddress: _wallet, ...rest } = report;
+    return rest;
+  }
+  return attributeSegments(
+    [],
+    new Map(),
+    { since: range.since, until: range.until ?? new Date() },
+    0
+  );
+}
+
+/**
+ * Attribution across every user, with the per-user breakdown (segments omitted)
+ */
+export async function getAggregateAttribution(range: AttributionRange = {}): Promise<{
+  total: Omit<AttributionReport, "segments"> & { users: number };
+  users: Array<Omit<UserAttribution, "segments">>;
+}> {
+  const perUser = await attributeWallets(await getRebalancesByWallet(), range);
+  const users = perUser
+    .map(({ segments: _segments, ...rest }) => rest)
+    .sort((a, b) => b.attributedYieldUsd - a.attributedYieldUsd);
+
+  const total = {
+    since: range.since?.toISOString() ?? null,
+    until: (range.until ?? new Date()).toISOString(),
+    agentYieldUsd: 0,
+    counterfactualYieldUsd: 0,
+    attributedYieldUsd: 0,
+    rebalanceCount: 0,
+    pricedSegments: 0,
+    unpricedSegments: 0,
+    users: users.length,
+  };
+  for (const user of users) {
+    total.agentYieldUsd += user.agentYieldUsd;
+    total.counterfactualYieldUsd += user.counterfactualYieldUsd;
+    total.attributedYieldUsd += user.attributedYieldUsd;
+    total.rebalanceCount += user.rebalanceCount;
+    total.pricedSegments += user.pricedSegments;
+    total.unpricedSegments += user.unpricedSegments;
+  }
+
+  return { total, users };
+}
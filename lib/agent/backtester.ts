@@ -0,0 +1,436 @@
+/**
+ * Strategy Backtester
+ *
+ * Replays a stored vault APY/TVL time series through the production decision
+ * logic — YieldDecisionEngine (agent) or evaluateRebalance (UI evaluator) —
+ * to measure how threshold changes would have performed, fully offline.
+ *
+ * The engine runs against an in-memory MorphoClient built from each
+ * snapshot. Yield accrues between snapshots at the held vault's APY, and
+ * every rebalance pays the two-leg slippage estimate.
+ */
+
+import type { MorphoClient, MorphoVault } from "../morpho/api-client";
+import { calculateRiskScore } from "../morpho/risk-scoring";
+import { REBALANCE_THRESHOLDS, type RebalanceThresholds } from "../yield-optimizer/config";
+import { evaluateRebalance } from "../yield-optimizer/strategy/evaluator";
+import type { Position, YieldOpportunity } from "../yield-optimizer/types";
+import { YieldDecisionEngine } from "./decision-engine";
+import { APY_CHANGE_THRESHOLD } from "./event-monitor";
+import { DEFAULT_USER_STRATEGY, type UserStrategy } from "./user-strategy";
+
+const BACKTEST_USER = "0x000000000000000000000000000000000000bac7" as `0x${string}`;
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+export interface BacktestVaultPoint {
+  address: `0x${string}`;
+  name: string;
+  protocol: Position["protocol"];
+  apy: number; // Decimal, e.g. 0.05 = 5%
+  tvlUsd: number;
+  liquidityUsd?: number;
+  curator?: string | null;
+  whitelisted?: boolean;
+}
+
+export interface BacktestSnapshot {
+  timestamp: number; // Unix seconds
+  vaults: BacktestVaultPoint[];
+}
+
+export type BacktestMode = "engine" | "evaluator";
+
+export interface BacktestConfig {
+  mode?: BacktestMode;
+  initialDepositUsd?: number;
+  startVault?: string; // Defaults to the highest-APY vault in the first snapshot
+  thresholds?: Partial<RebalanceThresholds>;
+  strategy?: Partial<UserStrategy>;
+  apyDropThreshold?: number; // APY monitor trigger (absolute drop between snapshots)
+  hitHorizon?: number; // Snapshots used to judge whether a targeted move paid off
+}
+
+export interface BacktestRebalance {
+  timestamp: number;
+  from: string;
+  to: string;
+  balanceUsd: number;
+  targeted: boolean;
+  hit?: boolean; // Targeted moves only: destination out-earned the source over the horizon
+  reason: string;
+}
+
+export interface BacktestReport {
+  mode: BacktestMode;
+  snapshots: number;
+  periodDays: number;
+  initialDepositUsd: number;
+  thresholds: RebalanceThresholds;
+  strategy: {
+    finalValueUsd: number;
+    realizedYieldUsd: number;
+    realizedApy: number; // Annualized
+    rebalanceCount: number;
+    turnoverUsd: number;
+    turnover: number; // turnoverUsd / average portfolio value
+    costsUsd: number;
+  };
+  targeted: {
+    triggers: number; // Snapshots where the held vault was flagged by the APY monitor
+    rebalances: number;
+    hits: number;
+    hitRate: number | null; // null when no targeted rebalance happened
+  };
+  baseline: {
+    vault: string;
+    finalValueUsd: number;
+    realizedYieldUsd: number;
+    realizedApy: number;
+  };
+  outperformanceUsd: number;
+  rebalances: BacktestRebalance[];
+}
+
+// ── Input parsing ─────────────────────────────────────────────
+
+function parseTimestamp(value: unknown): number {
+  if (typeof value === "number") {
+    // Accept both seconds and milliseconds
+    return value > 1e12 ? Math.floor(value / 1000) : value;
+  }
+  const numeric = Number(value);
+  if (!Number.isNaN(numeric) && String(value).trim() !== "") return parseTimestamp(numeric);
+  const parsed = Date.parse(String(value));
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+  return Math.floor(parsed / 1000);
+}
+
+function parseNumber(value: unknown, field: string): number {
+  const n = typeof value === "number" ? value : parseFloat(String(value));
+  if (!Number.isFinite(n)) {
+    throw new Error(`Invalid ${field}: ${value}`);
+  }
+  return n;
+}
+
+function toVaultPoint(row: Record<string, any>): BacktestVaultPoint {
+  const address = row.address ?? row.vaultAddress ?? row.vault_address;
+  if (!address) {
+    throw new Error("Vault row is missing an address");
+  }
+  const liquidity = row.liquidityUsd ?? row.liquidity_usd;
+  const whitelisted = row.whitelisted;
+  return {
+    address: address as `0x${string}`,
+    name: row.name || address,
+    protocol: row.protocol || "morpho",
+    apy: parseNumber(row.apy, "apy"),
+    tvlUsd: parseNumber(row.tvlUsd ?? row.tvl_usd, "tvlUsd"),
+    liquidityUsd:
+      liquidity != null && liquidity !== "" ? parseNumber(liquidity, "liquidityUsd") : undefined,
+    curator: row.curator || null,
+    whitelisted:
+      whitelisted == null || whitelisted === ""
+        ? undefined
+        : whitelisted === true || whitelisted === "true",
+  };
+}
+
+function groupRows(rows: Record<string, any>[]): BacktestSnapshot[] {
+  const byTimestamp = new Map<number, BacktestVaultPoint[]>();
+  for (const row of rows) {
+    const timestamp = parseTimestamp(row.timestamp);
+    const vaults = byTimestamp.get(timestamp) ?? [];
+    vaults.push(toVaultPoint(row));
+    byTimestamp.set(timestamp, vaults);
+  }
+  return Array.from(byTimestamp.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([timestamp, vaults]) => ({ timestamp, vaults }));
+}
+
+/**
+ * Parse JSON input — either snapshots (`[{ timestamp, vaults: [...] }]`) or
+ * flat rows (`[{ timestamp, address, apy, tvlUsd, ... }]`)
+ */
+export function parseBacktestJson(text: string): BacktestSnapshot[] {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data)) {
+    throw new Error("Backtest JSON must be an array of snapshots or rows");
+  }
+  if (data.length > 0 && Array.isArray(data[0].vaults)) {
+    return groupRows(
+      data.flatMap((snapshot: any) =>
+        snapshot.vaults.map((vault: any) => ({ ...vault, timestamp: snapshot.timestamp }))
+      )
+    );
+  }
+  return groupRows(data);
+}
+
+/**
+ * Parse CSV input with a header row. Required columns: timestamp,
+ * vault_address, apy, tvl_usd. Optional: name, protocol, liquidity_usd,
+ * curator, whitelisted. Fields must not contain commas.
+ */
+export function parseBacktestCsv(text: string): BacktestSnapshot[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"));
+  if (lines.length < 2) {
+    throw new Error("Backtest CSV must have a header and at least one row");
+  }
+
+  const unquote = (field: string) => field.trim().replace(/^"(.*)"$/, "$1");
+  const header = lines[0].split(",").map(unquote);
+  for (const required of ["timestamp", "vault_address", "apy", "tvl_usd"]) {
+    if (!header.includes(required)) {
+      throw new Error(`Backtest CSV is missing the ${required} column`);
+    }
+  }
+
+  const rows = lines.slice(1).map((line) => {
+    const fields = line.split(",").map(unquote);
+    return Object.fromEntries(header.map((column, i) => [column, fields[i] ?? ""]));
+  });
+  return groupRows(rows);
+}
+
+// ── Replay ────────────────────────────────────────────────────
+
+function toMorphoVault(point: BacktestVaultPoint): MorphoVault {
+  return {
+    address: point.address,
+    name: point.name,
+    avgNetApy: point.apy,
+    netApy: point.apy,
+    totalAssetsUsd: point.tvlUsd,
+    liquidityUsd: point.liquidityUsd ?? point.tvlUsd,
+    whitelisted: point.whitelisted ?? true,
+    warnings: [],
+    curators: { items: point.curator ? [{ name: point.curator }] : [] },
+  } as unknown as MorphoVault;
+}
+
+/**
+ * In-memory MorphoClient serving one snapshot and one holding
+ */
+function snapshotClient(
+  snapshot: BacktestSnapshot,
+  holding: { vault: string; balanceUsd: number }
+): MorphoClient {
+  const vaults = snapshot.vaults
+    .map(toMorphoVault)
+    .sort((a, b) => (b.avgNetApy ?? 0) - (a.avgNetApy ?? 0));
+  const units = BigInt(Math.round(holding.balanceUsd * 1e6)).toString();
+
+  return {
+    fetchUserPositions: async () => [
+      {
+        shares: units,
+        assets: units,
+        assetsUsd: holding.balanceUsd,
+        vault: { address: holding.vault },
+      },
+    ],
+    fetchVault: async (address: string) =>
+      vaults.find((v) => v.address.toLowerCase() === address.toLowerCase()) ?? null,
+    fetchVaults: async () => vaults,
+  } as unknown as MorphoClient;
+}
+
+function toOpportunity(point: BacktestVaultPoint): YieldOpportunity {
+  const tvl = BigInt(Math.round(point.tvlUsd * 1e6));
+  return {
+    id: `${point.protocol}-${point.address}`,
+    protocol: point.protocol,
+    name: point.name,
+    asset: "USDC",
+    apy: point.apy,
+    tvl,
+    address: point.address,
+    riskScore: calculateRiskScore(toMorphoVault(point)),
+    liquidityDepth: tvl,
+    metadata: { vaultAddress: point.address, curator: point.curator ?? undefined },
+  };
+}
+
+function findVault(snapshot: BacktestSnapshot | undefined, address: string) {
+  return snapshot?.vaults.find((v) => v.address.toLowerCase() === address.toLowerCase());
+}
+
+function annualize(initial: number, final: number, years: number): number {
+  if (years <= 0 || initial <= 0) return 0;
+  return Math.pow(final / initial, 1 / years) - 1;
+}
+
+/**
+ * Average APY of a vault over snapshots [from, to) — missing snapshots count as 0
+ */
+function averageApy(snapshots: BacktestSnapshot[], address: string, from: number, to: number) {
+  const window = snapshots.slice(from, to);
+  if (window.length === 0) return 0;
+  return window.reduce((sum, s) => sum + (findVault(s, address)?.apy ?? 0), 0) / window.length;
+}
+
+/**
+ * Replay a time series and report realized yield, rebalance count, turnover
+ * and targeted-trigger hit rate against a buy-and-hold baseline
+ */
+export async function runBacktest(
+  snapshots: BacktestSnapshot[],
+  config: BacktestConfig = {}
+): Promise<BacktestReport> {
+  if (snapshots.length < 2) {
+    throw new Error("Backtest needs at least two snapshots");
+  }
+
+  const mode = config.mode ?? "engine";
+  const initialDepositUsd = config.initialDepositUsd ?? 10_000;
+  const thresholds: RebalanceThresholds = { ...REBALANCE_THRESHOLDS, ...config.thresholds };
+  const strategy: UserStrategy = {
+    ...DEFAULT_USER_STRATEGY,
+    minApyGainThreshold: thresholds.minApyImprovement,
+    ...config.strategy,
+  };
+  const apyDropThreshold = config.apyDropThreshold ?? APY_CHANGE_THRESHOLD;
+  const hitHorizon = config.hitHorizon ?? 7;
+
+  const startVault =
+    config.startVault ?? [...snapshots[0].vaults].sort((a, b) => b.apy - a.apy)[0]?.address;
+  if (!startVault || !findVault(snapshots[0], startVault)) {
+    throw new Error(`Start vault ${startVault ?? "(none)"} is not in the first snapshot`);
+  }
+
+  let holding = startVault;
+  let balance = initialDepositUsd;
+  let baselineBalance = initialDepositUsd;
+  let turnoverUsd = 0;
+  let costsUsd = 0;
+  let balanceSum = 0;
+  let targetedTriggers = 0;
+  const rebalances: BacktestRebalance[] = [];
+
+  for (let i = 0; i < snapshots.length; i++) {
+    const snapshot = snapshots[i];
+    const previous = snapshots[i - 1];
+
+    // APY monitor: flag vaults whose APY dropped past the threshold since the last snapshot
+    const flagged = previous
+      ? snapshot.vaults
+          .filter((v) => {
+            const before = findVault(previous, v.address);
+            return before != null && before.apy - v.apy >= apyDropThreshold;
+          })
+          .map((v) => v.address)
+      : [];
+    const heldFlagged = flagged.some((v) => v.toLowerCase() === holding.toLowerCase());
+    if (heldFlagged) targetedTriggers++;
+
+    // Decide with the production logic
+    let target: string | null = null;
+    let reason = "";
+    if (mode === "engine") {
+      const engine = new YieldDecisionEngine(
+        snapshotClient(snapshot, { vault: holding, balanceUsd: balance }),
+        undefined,
+        thresholds
+      );
+      const decision = await engine.evaluateRebalancing(BACKTEST_USER, flagged, strategy);
+      if (decision.shouldRebalance && decision.targetVault) {
+        target = decision.targetVault.address;
+        reason = decision.reason;
+      }
+    } else {
+      const held = findVault(snapshot, holding);
+      const position: Position = {
+        protocol: held?.protocol ?? "morpho",
+        vaultAddress: holding as `0x${string}`,
+        shares: BigInt(Math.round(balance * 1e6)),
+        assets: BigInt(Math.round(balance * 1e6)),
+        apy: held?.apy ?? 0,
+        enteredAt: snapshot.timestamp * 1000,
+      };
+      const decision = evaluateRebalance(
+        position,
+        snapshot.vaults.map(toOpportunity),
+        0n,
+        thresholds
+      );
+      if (decision.shouldRebalance && decision.to) {
+        target = decision.to.address;
+        reason = decision.reason;
+      }
+    }
+
+    if (target && target.toLowerCase() !== holding.toLowerCase()) {
+      const cost = balance * thresholds.slippagePct * 2; // Redeem + deposit legs
+      const targeted = mode === "engine" && reason.startsWith("[TARGETED]");
+      rebalances.push({
+        timestamp: snapshot.timestamp,
+        from: holding,
+        to: target,
+        balanceUsd: balance,
+        targeted,
+        hit: targeted
+          ? averageApy(snapshots, target, i, i + hitHorizon) >
+            averageApy(snapshots, holding, i, i + hitHorizon)
+          : undefined,
+        reason,
+      });
+      turnoverUsd += balance;
+      costsUsd += cost;
+      balance -= cost;
+      holding = target;
+    }
+
+    balanceSum += balance;
+
+    // Accrue yield until the next snapshot at the current APYs
+    const next = snapshots[i + 1];
+    if (next) {
+      const years = (next.timestamp - snapshot.timestamp) / SECONDS_PER_YEAR;
+      balance *= Math.pow(1 + (findVault(snapshot, holding)?.apy ?? 0), years);
+      baselineBalance *= Math.pow(1 + (findVault(snapshot, startVault)?.apy ?? 0), years);
+    }
+  }
+
+  const periodSeconds = snapshots[snapshots.length - 1].timestamp - snapshots[0].timestamp;
+  const years = periodSeconds / SECONDS_PER_YEAR;
+  const targetedMoves = rebalances.filter((r) => r.targeted);
+  const hits = targetedMoves.filter((r) => r.hit).length;
+
+  return {
+    mode,
+    snapshots: snapshots.length,
+    periodDays: periodSeconds / 86400,
+    initialDepositUsd,
+    thresholds,
+    strategy: {
+      finalValueUsd: balance,
+      realizedYieldUsd: balance - initialDepositUsd,
+      realizedApy: annualize(initialDepositUsd, balance, years),
+      rebalanceCount: rebalances.length,
+      turnoverUsd,
+      turnover: turnoverUsd / (balanceSum / snapshots.length),
+      costsUsd,
+    },
+    targeted: {
+      triggers: targetedTriggers,
+      rebalances: targetedMoves.length,
+      hits,
+      hitRate: targetedMoves.length > 0 ? hits / targetedMoves.length : null,
+    },
+    baseline: {
+      vault: startVault,
+      finalValueUsd: baselineBalance,
+      realizedYieldUsd: baselineBalance - initialDepositUsd,
+      realizedApy: annualize(initialDepositUsd, baselineBalance, years),
+    },
+    outperformanceUsd: balance - baselineBalance,
+    rebalances,
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Cron Run History
+ *
+ * Persists every enqueue and worker run of the rebalancing cron into
+ * `cron_runs` — timing, trigger mode, oracle safety check, counts and
+ * per-user details — so runs can be compared over time and a user's skip
+ * reasons traced back to the run that produced them.
+ */
+
+import { neon } from "@neondatabase/serverless";
+import type { CronSummary } from "./rebalance-worker";
+
+export type CronRunType = "enqueue" | "worker";
+export type CronRunStatus = "completed" | "blocked" | "failed";
+export type CronTriggerMode = "scheduled" | "targeted";
+
+export interface CronRunRecord {
+  runType: CronRunType;
+  cycleId?: string | null;
+  triggerMode?: CronTriggerMode | null;
+  targetedVaults?: string[] | null;
+  status: CronRunStatus;
+  safetyCheck?: { safe: boolean; reason?: string } | null;
+  enqueued?: number;
+  summary?: CronSummary;
+  errorMessage?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+}
+
+export interface CronRun {
+  id: string;
+  runType: CronRunType;
+  cycleId: string | null;
+  triggerMode: CronTriggerMode | null;
+  targetedVaults: string[] | null;
+  status: CronRunStatus;
+  safetyCheck: { safe: boolean; reason?: string } | null;
+  enqueued: number;
+  processed: number;
+  rebalanced: number;
+  skipped: number;
+  errors: number;
+  deadLettered: number;
+  errorMessage: string | null;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  details?: CronSummary["details"]; // Full details (single run) or the filtered user's entries
+}
+
+export interface ListCronRunsOptions {
+  limit: number;
+  offset: number;
+  runType?: CronRunType;
+  address?: string; // Only runs that touched this user; details narrowed to that user
+}
+
+function getSql() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is not configured");
+  }
+  return neon(databaseUrl);
+}
+
+function toRun(row: Record<string, any>): CronRun {
+  return {
+    id: row.id,
+    runType: row.run_type,
+    cycleId: row.cycle_id ?? null,
+    triggerMode: row.trigger_mode ?? null,
+    targetedVaults: row.targeted_vaults ?? null,
+    status: row.status,
+    safetyCheck: row.safety_check ?? null,
+    enqueued: Number(row.enqueued),
+    processed: Number(row.processed),
+    rebalanced: Number(row.rebalanced),
+    skipped: Number(row.skipped),
+    errors: Number(row.errors),
+    deadLettered: Number(row.dead_lettered),
+    errorMessage: row.error_message ?? null,
+    startedAt: new Date(row.started_at).toISOString(),
+    finishedAt: new Date(row.finished_at).toISOString(),
+    durationMs: Number(row.duration_ms),
+    ...(row.details !== undefined && { details: row.details ?? [] }),
+  };
+}
+
+/**
+ * Persist one cron run.
+ * Best-effort — DB failures are caught and logged, never thrown, so history
+ * can't fail the run it describes.
+ *
+ * @returns The new run id, or null when it could not be recorded
+ */
+export async function recordCronRun(record: CronRunRecord): Promise<string | null> {
+  try {
+    const sql = getSql();
+    const finishedAt = record.finishedAt ?? new Date();
+    const summary = record.summary;
+
+    const rows = await sql`
+      INSERT INTO cron_runs (
+        run_type, cycle_id, trigger_mode, targeted_vaults, status, safety_check,
+        enqueued, processed, rebalanced, skipped, errors, dead_lettered,
+        details, error_message, started_at, finished_at, duration_ms
+      ) VALUES (
+        ${record.runType},
+        ${record.cycleId ?? null},
+        ${record.triggerMode ?? null},
+        ${record.targetedVaults ? JSON.stringify(record.targetedVaults) : null}::jsonb,
+        ${record.status},
+        ${record.safetyCheck ? JSON.stringify(record.safetyCheck) : null}::jsonb,
+        ${record.enqueued ?? 0},
+        ${summary?.processed ?? 0},
+        ${summary?.rebalanced ?? 0},
+        ${summary?.skipped ?? 0},
+        ${summary?.errors ?? 0},
+        ${summary?.deadLettered ?? 0},
+        ${JSON.stringify(summary?.details ?? [])}::jsonb,
+        ${record.errorMessage ?? null},
+        ${record.startedAt.toISOString()},
+        ${finishedAt.toISOString()},
+        ${finishedAt.getTime() - record.startedAt.getTime()}
+      )
+      RETURNING id
+    `;
+
+    return rows[0]?.id ?? null;
+  } catch (error) {
+    console.error("[Cron Runs] Failed to record run:", error);
+    return null;
+  }
+}
+
+/**
+ * Paginated run history, newest first. Details are omitted unless filtering
+ * by address, in which case only that user's entries are returned.
+ */
+export async function listCronRuns(
+  options: ListCronRunsOptions
+): Promise<{ runs: CronRun[]; total: number }> {
+  const sql = getSql();
+  const runType = options.runType ?? null;
+  const address = options.address?.toLowerCase() ?? null;
+
+  const rows = address
+    ? await sql`
+        SELECT
+          r.id, r.run_type, r.cycle_id, r.trigger_mode, r.targeted_vaults, r.status,
+          r.safety_check, r.enqueued, r.processed, r.rebalanced, r.skipped, r.errors,
+          r.dead_lettered, r.error_message, r.started_at, r.finished_at, r.duration_ms,
+          (
+            SELECT jsonb_agg(d) FROM jsonb_array_elements(r.details) d
+            WHERE lower(d->>'address') = ${address}
+          ) AS details
+        FROM cron_runs r
+        WHERE (${runType}::text IS NULL OR r.run_type = ${runType})
+          AND EXISTS (
+            SELECT 1 FROM jsonb_array_elements(r.details) d
+            WHERE lower(d->>'address') = ${address}
+          )
+        ORDER BY r.started_at DESC
+        LIMIT ${options.limit}
+        OFFSET ${options.offset}
+      `
+    : await sql`
+        SELECT
+          id, run_type, cycle_id, trigger_mode, targeted_vaults, status,
+          safety_check, enqueued, processed, rebalanced, skipped, errors,
+          dead_lettered, error_message, started_at, finished_at, duration_ms
+        FROM cron_runs
+        WHERE (${runType}::text IS NULL OR run_type = ${runType})
+        ORDER BY started_at DESC
+        LIMIT ${options.limit}
+        OFFSET ${options.offset}
+      `;
+
+  const countResult = address
+    ? await sql`
+        SELECT COUNT(*) AS total FROM cron_runs r
+        WHERE (${runType}::text IS NULL OR r.run_type = ${runType})
+          AND EXISTS (
+            SELECT 1 FROM jsonb_array_elements(r.details) d
+            WHERE lower(d->>'address') = ${address}
+          )
+      `
+    : await sql`
+        SELECT COUNT(*) AS total FROM cron_runs
+        WHERE (${runType}::text IS NULL OR run_type = ${runType})
+      `;
+
+  return { runs: rows.map(toRun), total: parseInt(countResult[0].total) };
+}
+
+/**
+ * A single run with its full per-user details
+ */
+export async function getCronRun(id: string): Promise<CronRun | null> {
+  const sql = getSql();
+  const rows = await sql`SELECT * FROM cron_runs WHERE id = ${id}`;
+  return rows.length > 0 ? toRun(rows[0]) : null;
+}
@@ -1,9 +1,78 @@
 import { MorphoClient, type MorphoVault, type MorphoUserPosition } from "../morpho/api-client";
-import { CHAIN_CONFIG, REBALANCE_THRESHOLDS } from "../yield-optimizer/config";
+import {
+  CHAIN_CONFIG,
+  PORTFOLIO_LIMITS,
+  PROTOCOLS,
+  REBALANCE_THRESHOLDS,
+  type RebalanceThresholds,
+} from "../yield-optimizer/config";
+import type { Position, YieldOpportunity } from "../yield-optimizer/types";
+import type { ProtocolRegistry } from "../protocols/adapter";
+import { calculateRiskScore, getRiskLevel } from "../morpho/risk-scoring";
+import { DEFAULT_USER_STRATEGY, isRiskAccepted, type UserStrategy } from "./user-strategy";
+import {
+  optimizeAllocation,
+  type DepositLeg,
+  type PlatformRoom,
+  type PortfolioCandidate,
+  type PortfolioHolding,
+  type RedeemLeg,
+  type TargetAllocation,
+} from "./portfolio-optimizer";
+import {
+  buildExposureReport,
+  getPlatformExposure,
+  platformRoomFor,
+  type ExposureReport,
+  type ExposureSource,
+  type ExposureVault,
+} from "./platform-exposure";
 
 const CHAIN_ID = CHAIN_CONFIG.chainId;
 const ASSET_SYMBOL = "USDC";
 
+type ProtocolId = Position["protocol"];
+
+function emptyPortfolioDecision(reason: string): PortfolioRebalanceDecision {
+  return {
+    shouldRebalance: false,
+    reason,
+    currentVault: null,
+    targetVault: null,
+    apyImprovement: 0,
+    estimatedAnnualGain: 0,
+    breakEvenDays: 0,
+    allocations: [],
+    legs: { redeems: [], deposits: [] },
+    currentPortfolioApy: 0,
+    targetPortfolioApy: 0,
+  };
+}
+
+/**
+ * Curator-cap grouping for cross-protocol holdings. Lending pools (Aave,
+ * Moonwell, Compound) are grouped under their protocol name so the curator cap also
+ * bounds exposure to a single pool; config-driven ERC-4626 vaults without a
+ * curator are grouped under their protocol id.
+ */
+function riskGroup(protocol: ProtocolId, curator: unknown): string | null {
+  if (protocol === "aave") return PROTOCOLS.aave.name;
+  if (protocol === "moonwell") return PROTOCOLS.moonwell.name;
+  if (protocol === "compound") return PROTOCOLS.compound.name;
+  if (typeof curator === "string") return curator;
+  return protocol === "morpho" ? null : protocol;
+}
+
+function toExposureVault(opportunity: YieldOpportunity): ExposureVault {
+  return {
+    vaultAddress: opportunity.address,
+    protocol: opportunity.protocol,
+    name: opportunity.name,
+    curator: riskGroup(opportunity.protocol, opportunity.metadata?.curator),
+    tvlUsd: Number(opportunity.tvl) / 1e6,
+  };
+}
+
 export interface RebalanceDecision {
   shouldRebalance: boolean;
   reason: string;
@@ -25,15 +94,92 @@ export interface RebalanceDecision {
   breakEvenDays: number; // Days to recover gas cost
 }
 
+/**
+ * Portfolio-level decision: target allocation across N vaults plus the
+ * redeem/deposit legs to reach it. currentVault/targetVault point at the
+ * largest redeem and deposit legs so existing logging keeps working.
+ */
+export interface PortfolioRebalanceDecision extends RebalanceDecision {
+  allocations: TargetAllocation[];
+  legs: {
+    redeems: RedeemLeg[];
+    deposits: DepositLeg[];
+  };
+  currentPortfolioApy: number;
+  targetPortfolioApy: number;
+}
+
+/**
+ * Limits cross-protocol evaluation to what the user's session key can
+ * execute. Keys registered before cross-protocol support only carry
+ * Morpho vault permissions.
+ */
+export interface CrossProtocolScope {
+  allowedProtocols?: ProtocolId[]; // Defaults to every enabled adapter
+  approvedVaults?: string[]; // Morpho vaults the session key may deposit into
+}
+
+interface PortfolioContext {
+  targetedVaults?: string[] | null;
+  strategy: UserStrategy;
+  portfolioValueUsd: number;
+  liquidityUsd: (address: `0x${string}`) => number;
+  platformRoom?: PlatformRoom;
+}
+
+interface StrategyGateResult {
+  passed: boolean;
+  threshold: number;
+  failureReason?: string;
+}
+
 /**
  * Yield Decision Engine
- * Evaluates if user should rebalance to a better Morpho vault
+ * Evaluates if user should rebalance to a better Morpho vault, or across
+ * protocols via the ProtocolRegistry
  */
 export class YieldDecisionEngine {
   private morphoClient: MorphoClient;
+  private registry?: ProtocolRegistry;
+  private thresholds: RebalanceThresholds;
+  private exposure?: ExposureSource;
 
-  constructor(morphoClient?: MorphoClient) {
+  /**
+   * @param morphoClient - Morpho API client (mocked in tests and backtests)
+   * @param registry - Protocol registry for cross-protocol evaluation (defaults to the singleton)
+   * @param thresholds - Rebalance thresholds (overridden by the backtester)
+   * @param exposure - Platform exposure source; when set, targets are held to PLATFORM_EXPOSURE_LIMITS
+   */
+  constructor(
+    morphoClient?: MorphoClient,
+    registry?: ProtocolRegistry,
+    thresholds: RebalanceThresholds = REBALANCE_THRESHOLDS,
+    exposure?: ExposureSource
+  ) {
     this.morphoClient = morphoClient || new MorphoClient();
+    this.registry = registry;
+    this.thresholds = thresholds;
+    this.exposure = exposure;
+  }
+
+  /**
+   * Resolve the protocol registry lazily — the singleton pulls in every
+   * adapter, which Morpho-only evaluations don't need
+   */
+  private async getRegistry(): Promise<ProtocolRegistry> {
+    if (!this.registry) {
+      const { protocolRegistry } = await import("../protocols/adapter");
+      this.registry = protocolRegistry;
+    }
+    return this.registry;
+  }
+
+  /**
+   * Platform exposure against the given vaults, or null when limits aren't enforced
+   */
+  private async exposureReport(vaults: ExposureVault[]): Promise<ExposureReport | null> {
+    if (!this.exposure) return null;
+    return buildExposureReport(await this.exposure(), vaults);
   }
 
   /**
@@ -41,11 +187,13 @@ export class YieldDecisionEngine {
    *
    * @param userAddress - User wallet address
    * @param targetedVaults - Optional list of vault addresses that should use lower threshold (APY monitor detected drops)
+   * @param strategy - Per-user strategy from user_strategies (threshold, slippage cap, risk level)
    * @returns Rebalancing decision with reasoning
    */
   async evaluateRebalancing(
     userAddress: `0x${string}`,
-    targetedVaults?: string[] | null
+    targetedVaults?: string[] | null,
+    strategy: UserStrategy = DEFAULT_USER_STRATEGY
   ): Promise<RebalanceDecision> {
     try {
       // 1. Fetch user's current positions
@@ -91,14 +239,50 @@ export class YieldDecisionEngine {
 
       const eligibleVaults = allVaults.filter(
         (vault) =>
-          (vault.totalAssetsUsd ?? 0) >= REBALANCE_THRESHOLDS.minLiquidityUsd && // Sufficient liquidity
-          vault.address.toLowerCase() !== currentVaultDetails.address.toLowerCase() // Different vault
+          (vault.totalAssetsUsd ?? 0) >= this.thresholds.minLiquidityUsd && // Sufficient liquidity
+          vault.address.toLowerCase() !== currentVaultDetails.address.toLowerCase() && // Different vault
+          isRiskAccepted(getRiskLevel(calculateRiskScore(vault)), strategy.riskLevel) // Within user's risk level
       );
 
-      if (eligibleVaults.length === 0) {
+      // Drop targets that can't take the whole position under the platform limits.
+      // The position leaves its current vault, so its curator gets that back.
+      const positionValueUsd = currentPosition.assetsUsd ?? 0;
+      const exposure = await this.exposureReport(
+        allVaults.map((vault) => ({
+          vaultAddress: vault.address,
+          name: vault.name,
+          curator: vault.curators?.items?.[0]?.name ?? null,
+          tvlUsd: vault.totalAssetsUsd ?? 0,
+        }))
+      );
+      const withinLimits = exposure
+        ? eligibleVaults.filter((vault) => {
+            const vaultStatus = exposure.vaults.find(
+              (v) => v.vaultAddress.toLowerCase() === vault.address.toLowerCase()
+            );
+            if (vaultStatus?.headroomUsd != null && vaultStatus.headroomUsd < positionValueUsd) {
+              return false;
+            }
+            const curator = vault.curators?.items?.[0]?.name?.toLowerCase();
+            const curatorStatus = curator
+              ? exposure.curators.find((c) => c.curator.toLowerCase() === curator)
+              : undefined;
+            if (!curatorStatus) return true;
+            const returning =
+              currentVaultDetails.curators?.items?.[0]?.name?.toLowerCase() === curator
+                ? positionValueUsd
+                : 0;
+            return curatorStatus.headroomUsd + returning >= positionValueUsd;
+          })
+        : eligibleVaults;
+
+      if (withinLimits.length === 0) {
         return {
           shouldRebalance: false,
-          reason: "No eligible alternative vaults found",
+          reason:
+            eligibleVaults.length === 0
+              ? `No eligible alternative vaults found for ${strategy.riskLevel} risk level`
+              : "Every eligible vault is at its platform exposure limit",
           currentVault: {
             address: currentVaultDetails.address,
             name: currentVaultDetails.name,
@@ -114,33 +298,28 @@ export class YieldDecisionEngine {
       }
 
       // 5. Find best vault by APY
-      const bestVault = eligibleVaults[0]; // Already sorted by APY descending
+      const bestVault = withinLimits[0]; // Already sorted by APY descending
 
       // 6. Calculate APY improvement and estimated gains
       const currentApy = currentVaultDetails.avgNetApy ?? currentVaultDetails.netApy ?? 0;
       const bestApy = bestVault.avgNetApy ?? bestVault.netApy ?? 0;
       const apyImprovement = bestApy - currentApy;
 
-      const positionValueUsd = currentPosition.assetsUsd ?? 0;
       const estimatedAnnualGain = positionValueUsd * apyImprovement;
 
       // 7. Break-even is effectively instant — gas is fully sponsored by ZeroDev paymaster
       const breakEvenDays = 0;
 
-      // 8. Make decision — gates on APY improvement threshold only
-      // Use lower threshold for targeted rebalances (APY monitor detected drops)
-      const isTargeted = targetedVaults?.some(
+      // 8. Make decision — gates on the user's APY threshold and slippage cap
+      const isTargeted = !!targetedVaults?.some(
         (v) => v.toLowerCase() === currentVaultDetails.address.toLowerCase()
       );
-      const effectiveThreshold = isTargeted
-        ? REBALANCE_THRESHOLDS.targetedApyImprovement
-        : REBALANCE_THRESHOLDS.minApyImprovement;
-
-      const shouldRebalance = apyImprovement >= effectiveThreshold;
+      const gate = this.applyStrategyGate(apyImprovement, isTargeted, strategy);
+      const shouldRebalance = gate.passed;
 
       const reason = shouldRebalance
         ? `${isTargeted ? "[TARGETED] " : ""}Found ${(apyImprovement * 100).toFixed(2)}% APY improvement (${(currentApy * 100).toFixed(2)}% → ${(bestApy * 100).toFixed(2)}%). Estimated gain: $${estimatedAnnualGain.toFixed(2)}/year.`
-        : `APY improvement too small (${(apyImprovement * 100).toFixed(2)}% < ${(effectiveThreshold * 100).toFixed(1)}% threshold)`;
+        : gate.failureReason!;
 
       return {
         shouldRebalance,
@@ -178,6 +357,324 @@ export class YieldDecisionEngine {
     }
   }
 
+  /**
+   * Evaluate the user's whole portfolio and compute a split allocation
+   *
+   * Unlike evaluateRebalancing (largest position only), this looks at every
+   * position and spreads funds across vaults subject to PORTFOLIO_LIMITS.
+   *
+   * @param userAddress - User wallet address
+   * @param targetedVaults - Optional list of vault addresses flagged by the APY monitor
+   * @param strategy - Per-user strategy from user_strategies
+   * @returns Portfolio decision with target allocation and legs
+   */
+  async evaluatePortfolio(
+    userAddress: `0x${string}`,
+    targetedVaults?: string[] | null,
+    strategy: UserStrategy = DEFAULT_USER_STRATEGY
+  ): Promise<PortfolioRebalanceDecision> {
+    try {
+      // 1. Fetch every position and its vault details
+      const positions = await this.morphoClient.fetchUserPositions(userAddress, CHAIN_ID);
+
+      if (positions.length === 0) {
+        return emptyPortfolioDecision("No active positions found");
+      }
+
+      const positionVaults = await Promise.all(
+        positions.map((pos) => this.morphoClient.fetchVault(pos.vault.address, CHAIN_ID))
+      );
+
+      if (positionVaults.some((v) => !v)) {
+        return emptyPortfolioDecision("Could not fetch current vault details");
+      }
+
+      const holdings: PortfolioHolding[] = positions.map((pos, i) => {
+        const vault = positionVaults[i]!;
+        return {
+          vaultAddress: vault.address,
+          name: vault.name,
+          curator: vault.curators?.items?.[0]?.name ?? null,
+          apy: vault.avgNetApy ?? vault.netApy ?? 0,
+          shares: BigInt(pos.shares),
+          assets: BigInt(pos.assets),
+        };
+      });
+
+      // 2. Candidate vaults — current vaults stay eligible if they pass the filters
+      const allVaults = await this.morphoClient.fetchVaults(CHAIN_ID, ASSET_SYMBOL, 50);
+      const candidates = allVaults
+        .filter(
+          (vault) =>
+            (vault.totalAssetsUsd ?? 0) >= this.thresholds.minLiquidityUsd &&
+            isRiskAccepted(getRiskLevel(calculateRiskScore(vault)), strategy.riskLevel)
+        )
+        .map((vault) => ({
+          vaultAddress: vault.address,
+          name: vault.name,
+          curator: vault.curators?.items?.[0]?.name ?? null,
+          apy: vault.avgNetApy ?? vault.netApy ?? 0,
+        }));
+
+      if (candidates.length === 0) {
+        return emptyPortfolioDecision(
+          `No eligible vaults found for ${strategy.riskLevel} risk level`
+        );
+      }
+
+      // 3. Compute target allocation, legs and gate
+      const portfolioValueUsd = positions.reduce((sum, pos) => sum + (pos.assetsUsd ?? 0), 0);
+      const exposure = await this.exposureReport(
+        allVaults.map((vault) => ({
+          vaultAddress: vault.address,
+          name: vault.name,
+          curator: vault.curators?.items?.[0]?.name ?? null,
+          tvlUsd: vault.totalAssetsUsd ?? 0,
+        }))
+      );
+      return this.decidePortfolio(holdings, candidates, {
+        targetedVaults,
+        strategy,
+        portfolioValueUsd,
+        liquidityUsd: (address) =>
+          allVaults.find((v) => v.address.toLowerCase() === address.toLowerCase())
+            ?.totalAssetsUsd ?? 0,
+        platformRoom: exposure ? platformRoomFor(exposure, holdings) : undefined,
+      });
+    } catch (error: any) {
+      console.error("Error evaluating portfolio rebalancing:", error);
+      return emptyPortfolioDecision(`Error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Evaluate the user's portfolio across every enabled protocol adapter
+   *
+   * Holdings and candidates come from the ProtocolRegistry (Morpho vaults,
+   * Aave, Moonwell, Compound), so funds can move between protocols — e.g. from Aave
+   * aUSDC into a Morpho vault. Legs carry their protocol so the executor
+   * builds calls through the matching adapter.
+   *
+   * @param userAddress - User wallet address
+   * @param targetedVaults - Optional list of vault addresses flagged by the APY monitor
+   * @param strategy - Per-user strategy from user_strategies
+   * @param scope - Protocols and vaults the user's session key can execute against
+   * @returns Portfolio decision with target allocation and protocol-tagged legs
+   */
+  async evaluateCrossProtocol(
+    userAddress: `0x${string}`,
+    targetedVaults?: string[] | null,
+    strategy: UserStrategy = DEFAULT_USER_STRATEGY,
+    scope: CrossProtocolScope = {}
+  ): Promise<PortfolioRebalanceDecision> {
+    try {
+      const registry = await this.getRegistry();
+      const allowed = new Set<ProtocolId>(
+        scope.allowedProtocols ?? registry.getEnabled().map((a) => a.protocol)
+      );
+      const approvedVaults = scope.approvedVaults?.map((v) => v.toLowerCase());
+
+      // 1. Positions and opportunities from every enabled adapter
+      const [positions, opportunities] = await Promise.all([
+        registry.getAllPositions(userAddress),
+        registry.getAllOpportunities(),
+      ]);
+
+      const movable = positions.filter((pos) => allowed.has(pos.protocol) && pos.assets > 0n);
+      if (movable.length === 0) {
+        return emptyPortfolioDecision("No active positions found");
+      }
+
+      const findOpportunity = (address: string) =>
+        opportunities.find((o) => o.address.toLowerCase() === address.toLowerCase());
+
+      const holdings: PortfolioHolding[] = movable.map((pos) => {
+        const opportunity = findOpportunity(pos.vaultAddress);
+        return {
+          vaultAddress: pos.vaultAddress,
+          protocol: pos.protocol,
+          name: opportunity?.name ?? registry.get(pos.protocol)?.name ?? pos.protocol,
+          curator: riskGroup(pos.protocol, opportunity?.metadata?.curator),
+          apy: opportunity?.apy ?? pos.apy,
+          shares: pos.shares,
+          assets: pos.assets,
+        };
+      });
+
+      // 2. Candidates — ERC-4626 entries (Morpho and config-driven vaults) must be
+      // vaults the session key may deposit into; bare Morpho markets are excluded
+      const isDepositable = (o: YieldOpportunity) =>
+        o.metadata?.vaultAddress
+          ? !approvedVaults?.length || approvedVaults.includes(o.address.toLowerCase())
+          : o.protocol !== "morpho";
+      const candidates: PortfolioCandidate[] = opportunities
+        .filter(
+          (o) =>
+            allowed.has(o.protocol) &&
+            Number(o.tvl) / 1e6 >= this.thresholds.minLiquidityUsd &&
+            isRiskAccepted(getRiskLevel(o.riskScore), strategy.riskLevel) &&
+            isDepositable(o)
+        )
+        .map((o) => ({
+          vaultAddress: o.address,
+          protocol: o.protocol,
+          name: o.name,
+          curator: riskGroup(o.protocol, o.metadata?.curator),
+          apy: o.apy,
+        }));
+
+      if (candidates.length === 0) {
+        return emptyPortfolioDecision(
+          `No eligible opportunities found for ${strategy.riskLevel} risk level`
+        );
+      }
+
+      // 3. Compute target allocation, legs and gate
+      const totalAssets = movable.reduce((sum, pos) => sum + pos.assets, 0n);
+      const exposure = await this.exposureReport(opportunities.map(toExposureVault));
+      return this.decidePortfolio(holdings, candidates, {
+        targetedVaults,
+        strategy,
+        portfolioValueUsd: Number(totalAssets) / 1e6,
+        liquidityUsd: (address) => Number(findOpportunity(address)?.tvl ?? 0n) / 1e6,
+        platformRoom: exposure ? platformRoomFor(exposure, holdings) : undefined,
+      });
+    } catch (error: any) {
+      console.error("Error evaluating cross-protocol rebalancing:", error);
+      return emptyPortfolioDecision(`Error: ${error.message}`);
+    }
+  }
+
+  /**
+   * Shared tail of the portfolio evaluations: optimize the allocation, pick
+   * the representative legs and gate on the user's strategy
+   */
+  private decidePortfolio(
+    holdings: PortfolioHolding[],
+    candidates: PortfolioCandidate[],
+    { targetedVaults, strategy, portfolioValueUsd, liquidityUsd, platformRoom }: PortfolioContext
+  ): PortfolioRebalanceDecision {
+    const plan = optimizeAllocation(holdings, candidates, PORTFOLIO_LIMITS, platformRoom);
+
+    const apyImprovement = plan.targetApy - plan.currentApy;
+    const estimatedAnnualGain = portfolioValueUsd * apyImprovement;
+
+    const largestRedeem = plan.redeems.reduce<RedeemLeg | null>(
+      (max, leg) => (!max || leg.assets > max.assets ? leg : max),
+      null
+    );
+    const largestDeposit = plan.deposits.reduce<DepositLeg | null>(
+      (max, leg) => (!max || leg.assets > max.assets ? leg : max),
+      null
+    );
+    const fromHolding = largestRedeem
+      ? holdings.find((h) => h.vaultAddress.toLowerCase() === largestRedeem.vault.toLowerCase())
+      : null;
+    const toAllocation = largestDeposit
+      ? plan.allocations.find(
+          (a) => a.vaultAddress.toLowerCase() === largestDeposit.vault.toLowerCase()
+        )
+      : null;
+
+    // Gate on the user's threshold and slippage cap
+    const isTargeted = holdings.some((h) =>
+      targetedVaults?.some((v) => v.toLowerCase() === h.vaultAddress.toLowerCase())
+    );
+    const hasLegs = plan.redeems.length > 0;
+    const gate = this.applyStrategyGate(apyImprovement, isTargeted, strategy);
+    const shouldRebalance = hasLegs && gate.passed;
+
+    let reason: string;
+    if (!hasLegs) {
+      reason = "Portfolio already at target allocation";
+    } else if (shouldRebalance) {
+      reason = `${isTargeted ? "[TARGETED] " : ""}Portfolio rebalance across ${plan.deposits.length} vault(s): ${(apyImprovement * 100).toFixed(2)}% APY improvement (${(plan.currentApy * 100).toFixed(2)}% → ${(plan.targetApy * 100).toFixed(2)}%). Estimated gain: $${estimatedAnnualGain.toFixed(2)}/year.`;
+    } else {
+      reason = gate.failureReason!;
+    }
+
+    return {
+      shouldRebalance,
+      reason,
+      currentVault:
+        fromHolding && largestRedeem
+          ? {
+              address: fromHolding.vaultAddress,
+              name: fromHolding.name,
+              apy: fromHolding.apy,
+              shares: largestRedeem.shares.toString(),
+              assets: largestRedeem.assets.toString(),
+            }
+          : null,
+      targetVault:
+        shouldRebalance && toAllocation
+          ? {
+              address: toAllocation.vaultAddress,
+              name: toAllocation.name,
+              apy: toAllocation.apy,
+              liquidityUsd: liquidityUsd(toAllocation.vaultAddress),
+            }
+          : null,
+      apyImprovement,
+      estimatedAnnualGain,
+      breakEvenDays: 0, // Gas is fully sponsored by ZeroDev paymaster
+      allocations: plan.allocations,
+      legs: shouldRebalance
+        ? { redeems: plan.redeems, deposits: plan.deposits }
+        : { redeems: [], deposits: [] },
+      currentPortfolioApy: plan.currentApy,
+      targetPortfolioApy: plan.targetApy,
+    };
+  }
+
+  /**
+   * Gate a candidate rebalance on the user's APY threshold and slippage cap.
+   * Targeted rebalances (APY monitor detected drops) use the lower targeted
+   * threshold, but never one higher than the user's own.
+   */
+  private applyStrategyGate(
+    apyImprovement: number,
+    isTargeted: boolean,
+    strategy: UserStrategy
+  ): StrategyGateResult {
+    const threshold = isTargeted
+      ? Math.min(this.thresholds.targetedApyImprovement, strategy.minApyGainThreshold)
+      : strategy.minApyGainThreshold;
+
+    if (apyImprovement < threshold) {
+      return {
+        passed: false,
+        threshold,
+        failureReason: `APY improvement too small (${(apyImprovement * 100).toFixed(2)}% < ${(threshold * 100).toFixed(1)}% threshold)`,
+      };
+    }
+
+    // Two legs (redeem + deposit), each with the stablecoin slippage estimate
+    const estimatedSlippage = this.thresholds.slippagePct * 2;
+    if (estimatedSlippage > strategy.maxSlippageTolerance) {
+      return {
+        passed: false,
+        threshold,
+        failureReason: `Estimated slippage ${(estimatedSlippage * 100).toFixed(2)}% exceeds max tolerance ${(strategy.maxSlippageTolerance * 100).toFixed(2)}%`,
+      };
+    }
+
+    return { passed: true, threshold };
+  }
+
+  /**
+   * Current platform exposure against PLATFORM_EXPOSURE_LIMITS for every
+   * enabled protocol's opportunities (operator view)
+   */
+  async getExposureReport(): Promise<ExposureReport> {
+    const registry = await this.getRegistry();
+    const [exposures, opportunities] = await Promise.all([
+      (this.exposure ?? getPlatformExposure)(),
+      registry.getAllOpportunities(),
+    ]);
+    return buildExposureReport(exposures, opportunities.map(toExposureVault));
+  }
+
   /**
    * Get all available vaults with APY data
    * Useful for UI display
@@ -1,11 +1,40 @@
 import { MorphoClient } from "../morpho/api-client";
 import { getCacheInterface } from "../redis/client";
+import { recordOpportunitySnapshots, recordVaultSnapshots } from "../morpho/vault-history";
 
 const CHAIN_ID = 8453;
 const ASSET_SYMBOL = "USDC";
-const APY_CHANGE_THRESHOLD = 0.01; // 1% absolute APY change triggers alert
+export const APY_CHANGE_THRESHOLD = 0.01; // 1% absolute APY change triggers alert
 const CACHE_KEY_PREFIX = "apy_baseline:";
 const BASELINE_TTL = 86400; // 24 hours - baseline refreshed daily
+const HISTORY_KEY_PREFIX = "apy_history:";
+const HISTORY_TTL = 7 * 86400; // Rolling detector state survives a week without polls
+const SIGNAL_KEY_PREFIX = "apy_signal:";
+const SIGNAL_TTL = 3600; // Targeted cron runs must follow the poll within an hour
+const MIN_STD_DEV = 0.0001; // 1bp floor so flat histories don't yield infinite z-scores
+
+// Combined confidence a signal needs before targeted mode acts on it
+export const ROBUST_SIGNAL_CONFIDENCE = 0.6;
+
+export type DetectorName = "threshold" | "ewma" | "zscore" | "sustained_drop";
+
+export interface DetectorSettings {
+  threshold: { enabled: boolean; minChange: number }; // Absolute delta vs last poll
+  ewma: { enabled: boolean; alpha: number; minSamples: number; minDeviation: number }; // Deviation from the EWMA
+  zscore: { enabled: boolean; window: number; minSamples: number; minZ: number };
+  sustainedDrop: { enabled: boolean; polls: number; minTotalDrop: number }; // N non-rising polls
+}
+
+export type DetectorOverrides = {
+  [K in keyof DetectorSettings]?: Partial<DetectorSettings[K]>;
+};
+
+export const DEFAULT_DETECTOR_SETTINGS: DetectorSettings = {
+  threshold: { enabled: true, minChange: APY_CHANGE_THRESHOLD },
+  ewma: { enabled: true, alpha: 0.3, minSamples: 3, minDeviation: 0.0075 },
+  zscore: { enabled: true, window: 24, minSamples: 6, minZ: 3 },
+  sustainedDrop: { enabled: true, polls: 6, minTotalDrop: 0.005 },
+};
 
 export interface ApyChangeEvent {
   vaultAddress: string;
@@ -15,6 +44,9 @@ export interface ApyChangeEvent {
   changeAbsolute: number; // Absolute change (e.g., -0.02 = -2%)
   changeRelative: number; // Relative change (e.g., -0.4 = -40%)
   direction: "up" | "down";
+  detector: DetectorName; // Strongest detector that fired
+  confidence: number; // 0-1, combined across every detector that fired
+  detectors: DetectorName[]; // All detectors that fired this poll
   timestamp: number;
 }
 
@@ -24,23 +56,198 @@ export interface MonitorResult {
   affectedVaults: string[];
 }
 
+export interface ApyMonitorOptions {
+  detectors?: DetectorOverrides;
+  vaultOverrides?: Record<string, DetectorOverrides>; // Keyed by vault address
+}
+
+export interface DetectorState {
+  ewma: number | null;
+  samples: number[]; // Previous polls, oldest first
+}
+
+export interface DetectorSignal {
+  detector: DetectorName;
+  direction: "up" | "down";
+  confidence: number;
+}
+
+/**
+ * Merge detector overrides onto a base configuration
+ */
+export function mergeDetectorSettings(
+  base: DetectorSettings,
+  overrides?: DetectorOverrides
+): DetectorSettings {
+  if (!overrides) return base;
+  return {
+    threshold: { ...base.threshold, ...overrides.threshold },
+    ewma: { ...base.ewma, ...overrides.ewma },
+    zscore: { ...base.zscore, ...overrides.zscore },
+    sustainedDrop: { ...base.sustainedDrop, ...overrides.sustainedDrop },
+  };
+}
+
+/**
+ * Map how far past its trigger a detector is (ratio >= 1) to a confidence.
+ * Reaching the trigger scores 0.5 and twice the trigger scores 1.
+ */
+function ratioConfidence(ratio: number): number {
+  return Math.min(1, ratio / 2);
+}
+
+/**
+ * Run every enabled detector for one vault poll.
+ *
+ * - threshold: |current - last poll| >= minChange. A lone delta is the
+ *   noisiest signal, so its confidence is capped at 0.5 and never clears
+ *   ROBUST_SIGNAL_CONFIDENCE without corroboration.
+ * - ewma: |current - EWMA of previous polls| >= minDeviation, once warmed up
+ *   (with a single sample it would just duplicate the threshold detector).
+ * - zscore: |z| >= minZ against the rolling window (needs minSamples).
+ * - sustained_drop: APY never rose over the last `polls` polls and fell by
+ *   at least minTotalDrop. Slow bleeds are robust by construction, so
+ *   confidence starts at 0.75.
+ *
+ * @returns Signals that fired and the detector state to persist
+ */
+export function runDetectors(
+  currentApy: number,
+  state: DetectorState,
+  settings: DetectorSettings
+): { signals: DetectorSignal[]; nextState: DetectorState } {
+  const signals: DetectorSignal[] = [];
+  const { samples, ewma } = state;
+  const last = samples[samples.length - 1];
+  const directionOf = (delta: number) => (delta > 0 ? "up" : "down") as "up" | "down";
+
+  if (settings.threshold.enabled && last !== undefined) {
+    const delta = currentApy - last;
+    if (Math.abs(delta) >= settings.threshold.minChange) {
+      signals.push({
+        detector: "threshold",
+        direction: directionOf(delta),
+        confidence: Math.min(0.5, Math.abs(delta) / settings.threshold.minChange / 4),
+      });
+    }
+  }
+
+  if (settings.ewma.enabled && ewma !== null && samples.length >= settings.ewma.minSamples) {
+    const deviation = currentApy - ewma;
+    if (Math.abs(deviation) >= settings.ewma.minDeviation) {
+      signals.push({
+        detector: "ewma",
+        direction: directionOf(deviation),
+        confidence: ratioConfidence(Math.abs(deviation) / settings.ewma.minDeviation),
+      });
+    }
+  }
+
+  const window = samples.slice(-settings.zscore.window);
+  if (settings.zscore.enabled && window.length >= settings.zscore.minSamples) {
+    const mean = window.reduce((sum, v) => sum + v, 0) / window.length;
+    const variance = window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / window.length;
+    const z = (currentApy - mean) / Math.max(Math.sqrt(variance), MIN_STD_DEV);
+    if (Math.abs(z) >= settings.zscore.minZ) {
+      signals.push({
+        detector: "zscore",
+        direction: directionOf(z),
+        confidence: ratioConfidence(Math.abs(z) / settings.zscore.minZ),
+      });
+    }
+  }
+
+  const run = [...samples.slice(-settings.sustainedDrop.polls), currentApy];
+  if (settings.sustainedDrop.enabled && run.length === settings.sustainedDrop.polls + 1) {
+    const neverRose = run.every((v, i) => i === 0 || v <= run[i - 1]);
+    const totalDrop = run[0] - currentApy;
+    if (neverRose && totalDrop >= settings.sustainedDrop.minTotalDrop) {
+      signals.push({
+        detector: "sustained_drop",
+        direction: "down",
+        confidence: Math.min(1, 0.75 * (totalDrop / settings.sustainedDrop.minTotalDrop)),
+      });
+    }
+  }
+
+  const historyLength = Math.max(settings.zscore.window, settings.sustainedDrop.polls);
+  return {
+    signals,
+    nextState: {
+      ewma:
+        ewma === null
+          ? currentApy
+          : settings.ewma.alpha * currentApy + (1 - settings.ewma.alpha) * ewma,
+      samples: [...samples, currentApy].slice(-historyLength),
+    },
+  };
+}
+
+/**
+ * Combine independent signals: 1 - Π(1 - confidence). Two corroborating
+ * detectors at 0.5 combine to 0.75.
+ */
+export function combineConfidence(signals: DetectorSignal[]): number {
+  return 1 - signals.reduce((remaining, s) => remaining * (1 - s.confidence), 1);
+}
+
+/**
+ * Keep only the targeted vaults with a recent, robust downward signal from
+ * the monitor. Used by the cron so targeted mode ignores noisy single reads.
+ */
+export async function filterRobustTargets(
+  vaultAddresses: string[],
+  minConfidence: number = ROBUST_SIGNAL_CONFIDENCE
+): Promise<string[]> {
+  const cache = await getCacheInterface();
+  const robust: string[] = [];
+
+  for (const address of vaultAddresses) {
+    const raw = await cache.get(`${SIGNAL_KEY_PREFIX}${address.toLowerCase()}`);
+    if (!raw) continue;
+    try {
+      const signal = JSON.parse(raw) as { direction: string; confidence: number };
+      if (signal.direction === "down" && signal.confidence >= minConfidence) {
+        robust.push(address);
+      }
+    } catch {
+      // Malformed entry — treat as no signal
+    }
+  }
+
+  return robust;
+}
+
 /**
  * APY Change Detector
  *
- * Polls Morpho vaults and detects significant APY movements.
- * Stores baseline APYs in Redis and compares on each poll.
+ * Polls Morpho vaults and runs configurable detectors (absolute threshold,
+ * EWMA deviation, rolling z-score, sustained drop) over each vault's recent
+ * APY history kept in Redis. Settings can be overridden per vault. Every
+ * poll is also persisted to vault_snapshots so history outlives the TTLs.
  */
 export class ApyEventMonitor {
   private morphoClient: MorphoClient;
-  private threshold: number;
+  private settings: DetectorSettings;
+  private vaultOverrides: Record<string, DetectorOverrides>;
 
-  constructor(threshold: number = APY_CHANGE_THRESHOLD) {
+  constructor(options: ApyMonitorOptions = {}) {
     this.morphoClient = new MorphoClient();
-    this.threshold = threshold;
+    this.settings = mergeDetectorSettings(DEFAULT_DETECTOR_SETTINGS, options.detectors);
+    this.vaultOverrides = Object.fromEntries(
+      Object.entries(options.vaultOverrides ?? {}).map(([address, o]) => [address.toLowerCase(), o])
+    );
+  }
+
+  /**
+   * Detector settings for a vault, including any per-vault override
+   */
+  getSettings(vaultAddress: string): DetectorSettings {
+    return mergeDetectorSettings(this.settings, this.vaultOverrides[vaultAddress.toLowerCase()]);
   }
 
   /**
-   * Check all vaults for APY changes against stored baselines.
+   * Check all vaults for APY changes against their rolling history.
    * Call this every 5 minutes via a fast-poll cron.
    */
   async detectChanges(): Promise<MonitorResult> {
@@ -50,36 +257,75 @@ export class ApyEventMonitor {
 
     for (const vault of vaults) {
       const cacheKey = `${CACHE_KEY_PREFIX}${vault.address}`;
-      const baselineStr = await cache.get(cacheKey);
+      const historyKey = `${HISTORY_KEY_PREFIX}${vault.address.toLowerCase()}`;
       const currentApy = vault.avgNetApy ?? vault.netApy ?? 0;
 
-      if (baselineStr) {
-        const baseline = parseFloat(baselineStr);
-        const changeAbsolute = currentApy - baseline;
-
-        if (Math.abs(changeAbsolute) >= this.threshold) {
-          changes.push({
-            vaultAddress: vault.address,
-            vaultName: vault.name,
-            previousApy: baseline,
-            currentApy,
-            changeAbsolute,
-            changeRelative: baseline > 0 ? changeAbsolute / baseline : 0,
-            direction: changeAbsolute > 0 ? "up" : "down",
-            timestamp: Date.now(),
-          });
+      const baselineStr = await cache.get(cacheKey);
+      const historyStr = await cache.get(historyKey);
+      let state: DetectorState = { ewma: null, samples: [] };
+      if (historyStr) {
+        try {
+          state = JSON.parse(historyStr);
+        } catch {
+          // Corrupt state — start a fresh history
         }
       }
+      // Seed from the legacy baseline so detection continues across deploys
+      if (state.samples.length === 0 && baselineStr) {
+        state = { ewma: parseFloat(baselineStr), samples: [parseFloat(baselineStr)] };
+      }
+
+      const { signals, nextState } = runDetectors(
+        currentApy,
+        state,
+        this.getSettings(vault.address)
+      );
+
+      if (signals.length > 0) {
+        const strongest = signals.reduce((best, s) => (s.confidence > best.confidence ? s : best));
+        const previousApy = state.samples[state.samples.length - 1] ?? currentApy;
+        const changeAbsolute = currentApy - previousApy;
+        const event: ApyChangeEvent = {
+          vaultAddress: vault.address,
+          vaultName: vault.name,
+          previousApy,
+          currentApy,
+          changeAbsolute,
+          changeRelative: previousApy > 0 ? changeAbsolute / previousApy : 0,
+          direction: strongest.direction,
+          detector: strongest.detector,
+          confidence: combineConfidence(signals),
+          detectors: signals.map((s) => s.detector),
+          timestamp: Date.now(),
+        };
+        changes.push(event);
+
+        await cache.set(
+          `${SIGNAL_KEY_PREFIX}${vault.address.toLowerCase()}`,
+          JSON.stringify({
+            detector: event.detector,
+            direction: event.direction,
+            confidence: event.confidence,
+            timestamp: event.timestamp,
+          }),
+          SIGNAL_TTL
+        );
+      }
 
-      // Update baseline (always keep latest)
+      // Update baseline (always keep latest) and rolling detector state
       await cache.set(cacheKey, currentApy.toString(), BASELINE_TTL);
+      await cache.set(historyKey, JSON.stringify(nextState), HISTORY_TTL);
     }
 
+    // Persist full history (best-effort — never blocks detection)
+    await recordVaultSnapshots(vaults);
+    await this.recordProtocolSnapshots();
+
     if (changes.length > 0) {
       console.log(`[APY Monitor] Detected ${changes.length} significant APY changes:`);
       for (const change of changes) {
         console.log(
-          `  ${change.vaultName}: ${(change.previousApy * 100).toFixed(2)}% → ${(change.currentApy * 100).toFixed(2)}% (${change.direction === "up" ? "+" : ""}${(change.changeAbsolute * 100).toFixed(2)}%)`
+          `  ${change.vaultName}: ${(change.previousApy * 100).toFixed(2)}% → ${(change.currentApy * 100).toFixed(2)}% (${change.direction === "up" ? "+" : ""}${(change.changeAbsolute * 100).toFixed(2)}%) [${change.detectors.join(", ")}; confidence ${change.confidence.toFixed(2)}]`
         );
       }
     }
@@ -91,6 +337,20 @@ export class ApyEventMonitor {
     };
   }
 
+  /**
+   * Snapshot every other enabled protocol's markets so attribution can price
+   * segments held outside Morpho. Best-effort, like recordVaultSnapshots.
+   */
+  private async recordProtocolSnapshots(): Promise<void> {
+    try {
+      const { protocolRegistry } = await import("../protocols/adapter");
+      const opportunities = await protocolRegistry.getAllOpportunities();
+      await recordOpportunitySnapshots(opportunities.filter((o) => o.protocol !== "morpho"));
+    } catch (error) {
+      console.error("[APY Monitor] Failed to snapshot protocol markets:", error);
+    }
+  }
+
   /**
    * Get vaults where APY dropped significantly.
    * These are candidates for moving funds OUT of.
@@ -100,6 +360,16 @@ export class ApyEventMonitor {
     return result.changes.filter((c) => c.direction === "down");
   }
 
+  /**
+   * Get drops corroborated strongly enough for targeted rebalancing.
+   */
+  async getRobustDrops(
+    minConfidence: number = ROBUST_SIGNAL_CONFIDENCE
+  ): Promise<ApyChangeEvent[]> {
+    const drops = await this.getDroppedVaults();
+    return drops.filter((c) => c.confidence >= minConfidence);
+  }
+
   /**
    * Get vaults where APY increased significantly.
    * These are candidates for moving funds INTO.
@@ -110,7 +380,7 @@ export class ApyEventMonitor {
   }
 
   /**
-   * Reset all baselines (force fresh detection cycle)
+   * Reset all baselines and rolling detector state (force fresh detection cycle)
    */
   async resetBaselines(): Promise<void> {
     const cache = await getCacheInterface();
@@ -121,6 +391,8 @@ export class ApyEventMonitor {
         (vault.avgNetApy ?? vault.netApy ?? 0).toString(),
         BASELINE_TTL
       );
+      await cache.del(`${HISTORY_KEY_PREFIX}${vault.address.toLowerCase()}`);
+      await cache.del(`${SIGNAL_KEY_PREFIX}${vault.address.toLowerCase()}`);
     }
     console.log(`[APY Monitor] Reset baselines for ${vaults.length} vaults`);
   }
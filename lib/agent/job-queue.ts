@@ -0,0 +1,334 @@
+/**
+ * Durable Rebalance Job Queue (Postgres)
+ *
+ * The cron enqueues one job per user per cycle into `rebalance_jobs`;
+ * workers claim due jobs with a time-bound lease, so a worker that dies or
+ * times out mid-cycle only delays its jobs until the lease expires. Failed
+ * jobs retry with exponential backoff and move to the `dead` state once
+ * they exhaust their attempts.
+ */
+
+import { neon } from "@neondatabase/serverless";
+import { randomUUID } from "crypto";
+
+export type JobStatus = "pending" | "running" | "succeeded" | "skipped" | "dead";
+
+export const JOB_STATUSES: JobStatus[] = ["pending", "running", "succeeded", "skipped", "dead"];
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+export const DEFAULT_LEASE_SECONDS = 300; // Matches the per-user rebalance lock TTL
+const BACKOFF_BASE_SECONDS = 60;
+const BACKOFF_MAX_SECONDS = 3600;
+export const DEFAULT_DEFER_SECONDS = 60;
+
+export interface JobResult {
+  action: "rebalanced" | "skipped" | "error";
+  reason: string;
+  apyImprovement?: number;
+  taskId?: string;
+}
+
+export interface RebalanceJob {
+  id: string;
+  cycleId: string;
+  userId: string;
+  walletAddress: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  targetedVaults: string[] | null;
+  runAfter: string;
+  leaseId: string | null;
+  leaseExpiresAt: string | null;
+  result: JobResult | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export type QueueProgress = Record<JobStatus, number> & { total: number };
+
+function getSql() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is not configured");
+  }
+  return neon(databaseUrl);
+}
+
+function toIso(value: unknown): string | null {
+  return value ? new Date(value as string).toISOString() : null;
+}
+
+function toJob(row: Record<string, any>): RebalanceJob {
+  return {
+    id: row.id,
+    cycleId: row.cycle_id,
+    userId: row.user_id,
+    walletAddress: row.wallet_address,
+    status: row.status,
+    attempts: Number(row.attempts),
+    maxAttempts: Number(row.max_attempts),
+    targetedVaults: row.targeted_vaults ?? null,
+    runAfter: toIso(row.run_after)!,
+    leaseId: row.lease_id ?? null,
+    leaseExpiresAt: toIso(row.lease_expires_at),
+    result: row.result ?? null,
+    lastError: row.last_error ?? null,
+    createdAt: toIso(row.created_at)!,
+    updatedAt: toIso(row.updated_at)!,
+    completedAt: toIso(row.completed_at),
+  };
+}
+
+/**
+ * Delay before the next attempt: 60s, 120s, 240s, ... capped at 1 hour
+ */
+export function computeBackoffSeconds(attempts: number): number {
+  return Math.min(BACKOFF_BASE_SECONDS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_SECONDS);
+}
+
+/**
+ * Enqueue one job per user for a new cycle.
+ * Idempotent per (cycle, user), so retrying an enqueue never duplicates work.
+ *
+ * @returns Number of jobs inserted
+ */
+export async function enqueueRebalanceJobs(
+  cycleId: string,
+  users: Array<{ id: string; wallet_address: string }>,
+  targetedVaults: string[] | null = null,
+  maxAttempts: number = DEFAULT_MAX_ATTEMPTS
+): Promise<number> {
+  if (users.length === 0) return 0;
+
+  const sql = getSql();
+  const rows = users.map((user) => ({
+    user_id: user.id,
+    wallet_address: user.wallet_address,
+  }));
+
+  // Single round trip for the whole cycle
+  const inserted = await sql`
+    INSERT INTO rebalance_jobs (cycle_id, user_id, wallet_address, targeted_vaults, max_attempts)
+    SELECT ${cycleId}::uuid, user_id, wallet_address, ${JSON.stringify(targetedVaults)}::jsonb, ${maxAttempts}
+    FROM jsonb_to_recordset(${JSON.stringify(rows)}::jsonb) AS r(user_id uuid, wallet_address text)
+    ON CONFLICT (cycle_id, user_id) DO NOTHING
+    RETURNING id
+  `;
+
+  return inserted.length;
+}
+
+/**
+ * Claim up to `limit` due jobs for this worker.
+ *
+ * A job is due when it is pending and past its backoff gate, or when it is
+ * running under an expired lease (its worker crashed or timed out) with
+ * attempts left. Claiming counts as an attempt. SKIP LOCKED keeps concurrent
+ * workers from claiming the same job.
+ */
+export async function claimRebalanceJobs(
+  limit: number,
+  leaseSeconds: number = DEFAULT_LEASE_SECONDS
+): Promise<RebalanceJob[]> {
+  const sql = getSql();
+  const leaseId = randomUUID();
+
+  const rows = await sql`
+    UPDATE rebalance_jobs
+    SET
+      status = 'running',
+      attempts = attempts + 1,
+      lease_id = ${leaseId},
+      lease_expires_at = NOW() + ${`${leaseSeconds} seconds`}::interval,
+      updated_at = NOW()
+    WHERE id IN (
+      SELECT id FROM rebalance_jobs
+      WHERE (status = 'pending' AND run_after <= NOW())
+         OR (status = 'running' AND lease_expires_at < NOW() AND attempts < max_attempts)
+      ORDER BY run_after
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+
+  return rows.map(toJob);
+}
+
+/**
+ * Dead-letter jobs whose lease expired on their final attempt. Their worker
+ * crashed or timed out and never recorded the failure, and claimRebalanceJobs
+ * won't re-claim them.
+ *
+ * @returns Number of jobs moved to `dead`
+ */
+export async function deadLetterExpiredJobs(): Promise<number> {
+  const sql = getSql();
+  const rows = await sql`
+    UPDATE rebalance_jobs
+    SET
+      status = 'dead',
+      last_error = COALESCE(last_error, 'Lease expired on final attempt'),
+      lease_id = NULL,
+      lease_expires_at = NULL,
+      updated_at = NOW(),
+      completed_at = NOW()
+    WHERE status = 'running'
+      AND lease_expires_at < NOW()
+      AND attempts >= max_attempts
+    RETURNING id
+  `;
+  return rows.length;
+}
+
+/**
+ * Mark a claimed job finished. Only applies while this worker still holds
+ * the lease, so a job re-claimed after lease expiry is never overwritten.
+ *
+ * @returns false when the lease was lost
+ */
+export async function completeRebalanceJob(
+  job: RebalanceJob,
+  status: "succeeded" | "skipped",
+  result: JobResult
+): Promise<boolean> {
+  const sql = getSql();
+  const rows = await sql`
+    UPDATE rebalance_jobs
+    SET
+      status = ${status},
+      result = ${JSON.stringify(result)}::jsonb,
+      lease_id = NULL,
+      lease_expires_at = NULL,
+      updated_at = NOW(),
+      completed_at = NOW()
+    WHERE id = ${job.id} AND lease_id = ${job.leaseId}
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Record a failed attempt. The job returns to `pending` behind an
+ * exponential backoff, or moves to `dead` once it has used every attempt.
+ *
+ * @returns The job's new status, or null when the lease was lost
+ */
+export async function failRebalanceJob(
+  job: RebalanceJob,
+  error: string,
+  result?: JobResult
+): Promise<"pending" | "dead" | null> {
+  const sql = getSql();
+  const status = job.attempts >= job.maxAttempts ? "dead" : "pending";
+  const backoff = `${computeBackoffSeconds(job.attempts)} seconds`;
+
+  const rows = await sql`
+    UPDATE rebalance_jobs
+    SET
+      status = ${status},
+      last_error = ${error},
+      result = ${result ? JSON.stringify(result) : null}::jsonb,
+      run_after = NOW() + ${backoff}::interval,
+      lease_id = NULL,
+      lease_expires_at = NULL,
+      updated_at = NOW(),
+      completed_at = ${status === "dead" ? new Date().toISOString() : null}
+    WHERE id = ${job.id} AND lease_id = ${job.leaseId}
+    RETURNING id
+  `;
+  return rows.length > 0 ? status : null;
+}
+
+/**
+ * Return a claimed job to `pending` without spending an attempt, for jobs
+ * that couldn't run yet rather than failed (e.g. the user's lock is held by
+ * another rebalance or a pending withdrawal). The claim's attempt is
+ * refunded, so a deferred job is never dead-lettered.
+ *
+ * @returns false when the lease was lost
+ */
+export async function deferRebalanceJob(
+  job: RebalanceJob,
+  result: JobResult,
+  delaySeconds: number = DEFAULT_DEFER_SECONDS
+): Promise<boolean> {
+  const sql = getSql();
+  const rows = await sql`
+    UPDATE rebalance_jobs
+    SET
+      status = 'pending',
+      attempts = GREATEST(attempts - 1, 0),
+      result = ${JSON.stringify(result)}::jsonb,
+      run_after = NOW() + ${`${delaySeconds} seconds`}::interval,
+      lease_id = NULL,
+      lease_expires_at = NULL,
+      updated_at = NOW()
+    WHERE id = ${job.id} AND lease_id = ${job.leaseId}
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Job counts per status for a cycle (defaults to the most recent cycle)
+ */
+export async function getQueueProgress(
+  cycleId?: string
+): Promise<{ cycleId: string | null; progress: QueueProgress }> {
+  const sql = getSql();
+  const resolvedCycleId = cycleId ?? (await getLatestCycleId());
+
+  const progress = Object.fromEntries(JOB_STATUSES.map((s) => [s, 0])) as QueueProgress;
+  progress.total = 0;
+  if (!resolvedCycleId) return { cycleId: null, progress };
+
+  const rows = await sql`
+    SELECT status, COUNT(*) AS count
+    FROM rebalance_jobs
+    WHERE cycle_id = ${resolvedCycleId}
+    GROUP BY status
+  `;
+
+  for (const row of rows) {
+    progress[row.status as JobStatus] = Number(row.count);
+    progress.total += Number(row.count);
+  }
+
+  return { cycleId: resolvedCycleId, progress };
+}
+
+/**
+ * Per-job status for a cycle, optionally filtered by status
+ */
+export async function getCycleJobs(cycleId: string, status?: JobStatus): Promise<RebalanceJob[]> {
+  const sql = getSql();
+  const rows = status
+    ? await sql`
+        SELECT * FROM rebalance_jobs
+        WHERE cycle_id = ${cycleId} AND status = ${status}
+        ORDER BY created_at, wallet_address
+      `
+    : await sql`
+        SELECT * FROM rebalance_jobs
+        WHERE cycle_id = ${cycleId}
+        ORDER BY created_at, wallet_address
+      `;
+  return rows.map(toJob);
+}
+
+/**
+ * Most recently enqueued cycle, if any
+ */
+export async function getLatestCycleId(): Promise<string | null> {
+  const sql = getSql();
+  const rows = await sql`
+    SELECT cycle_id FROM rebalance_jobs
+    ORDER BY created_at DESC
+    LIMIT 1
+  `;
+  return rows[0]?.cycle_id ?? null;
+}
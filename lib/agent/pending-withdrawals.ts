@@ -0,0 +1,320 @@
+/**
+ * Pending Withdrawals
+ *
+ * Exits the source vault couldn't fully pay out. When maxRedeem (or a lending
+ * market's cash) is below the requested amount, the executors redeem what
+ * they can and the remainder is queued here. The cron worker retries due
+ * rows on later cycles until the remainder is out, then marks them completed;
+ * the UI reads the same rows to show progress.
+ *
+ * Rows come from user exits (`redeem` — USDC returns to the wallet) and agent
+ * rebalances (`rebalance` — the remainder is deposited into the target vault).
+ * A newer exit from the same vault supersedes an older pending row, since it
+ * covers the same shares.
+ */
+
+import { neon } from "@neondatabase/serverless";
+import type { ProtocolId } from "@/lib/yield-optimizer/types";
+import type { RedeemLeg } from "./portfolio-optimizer";
+
+export type PendingWithdrawalSource = "redeem" | "rebalance";
+export type PendingWithdrawalStatus = "pending" | "completed" | "failed" | "cancelled";
+
+// Minimum time between attempts on the same row — about one cron cycle
+export const PENDING_WITHDRAWAL_RETRY_SECONDS = parseInt(
+  process.env.PENDING_WITHDRAWAL_RETRY_SECONDS || "600",
+  10
+);
+// Failed attempts (not liquidity waits) before a row is given up on
+const DEFAULT_MAX_ATTEMPTS = 50;
+
+export interface PendingWithdrawal {
+  id: string;
+  userId: string;
+  walletAddress: string;
+  source: PendingWithdrawalSource;
+  vaultAddress: `0x${string}`;
+  protocol: ProtocolId;
+  targetVaultAddress: `0x${string}` | null;
+  targetProtocol: ProtocolId | null;
+  totalShares: bigint;
+  remainingShares: bigint;
+  remainingAssets: bigint;
+  redeemedAssets: bigint;
+  status: PendingWithdrawalStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  lastTxHash: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+function getSql() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is not configured");
+  }
+  return neon(databaseUrl);
+}
+
+function toIso(value: unknown): string | null {
+  return value ? new Date(value as string).toISOString() : null;
+}
+
+function toWithdrawal(row: Record<string, any>): PendingWithdrawal {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    walletAddress: row.wallet_address,
+    source: row.source,
+    vaultAddress: row.vault_address,
+    protocol: row.protocol,
+    targetVaultAddress: row.target_vault_address ?? null,
+    targetProtocol: row.target_protocol ?? null,
+    totalShares: BigInt(row.total_shares),
+    remainingShares: BigInt(row.remaining_shares),
+    remainingAssets: BigInt(row.remaining_assets),
+    redeemedAssets: BigInt(row.redeemed_assets ?? 0),
+    status: row.status,
+    attempts: Number(row.attempts),
+    maxAttempts: Number(row.max_attempts),
+    lastError: row.last_error ?? null,
+    lastTxHash: row.last_tx_hash ?? null,
+    createdAt: toIso(row.created_at)!,
+    updatedAt: toIso(row.updated_at)!,
+    completedAt: toIso(row.completed_at),
+  };
+}
+
+/**
+ * Share of the original exit already redeemed, 0-1
+ */
+export function withdrawalProgress(withdrawal: PendingWithdrawal): number {
+  if (withdrawal.totalShares === 0n) return 1;
+  const done = withdrawal.totalShares - withdrawal.remainingShares;
+  return Number((done * 10_000n) / withdrawal.totalShares) / 10_000;
+}
+
+/**
+ * Queue the unredeemed remainder of an exit, superseding any pending row for
+ * the same wallet and vault.
+ *
+ * @param totalShares Shares the exit was originally for (defaults to the remainder)
+ * @returns The new row id
+ */
+export async function queuePendingWithdrawal(params: {
+  userId: string;
+  walletAddress: string;
+  source: PendingWithdrawalSource;
+  remainder: RedeemLeg;
+  totalShares?: bigint;
+  redeemedAssets?: bigint;
+  target?: { vault: `0x${string}`; protocol?: ProtocolId };
+  txHash?: string;
+}): Promise<string> {
+  const sql = getSql();
+  const wallet = params.walletAddress.toLowerCase();
+  const vault = params.remainder.vault.toLowerCase();
+
+  await sql`
+    UPDATE pending_withdrawals
+    SET status = 'cancelled', last_error = 'Superseded by a newer exit', updated_at = NOW()
+    WHERE wallet_address = ${wallet}
+      AND vault_address = ${vault}
+      AND status = 'pending'
+  `;
+
+  const rows = await sql`
+    INSERT INTO pending_withdrawals (
+      user_id, wallet_address, source, vault_address, protocol,
+      target_vault_address, target_protocol,
+      total_shares, remaining_shares, remaining_assets, redeemed_assets,
+      max_attempts, last_tx_hash
+    ) VALUES (
+      ${params.userId},
+      ${wallet},
+      ${params.source},
+      ${vault},
+      ${params.remainder.protocol ?? "morpho"},
+      ${params.target?.vault.toLowerCase() ?? null},
+      ${params.target ? (params.target.protocol ?? "morpho") : null},
+      ${(params.totalShares ?? params.remainder.shares).toString()},
+      ${params.remainder.shares.toString()},
+      ${params.remainder.assets.toString()},
+      ${(params.redeemedAssets ?? 0n).toString()},
+      ${DEFAULT_MAX_ATTEMPTS},
+      ${params.txHash ?? null}
+    )
+    RETURNING id
+  `;
+  return rows[0].id;
+}
+
+/**
+ * A wallet's active withdrawals plus those finished in the last week
+ */
+export async function getPendingWithdrawals(walletAddress: string): Promise<PendingWithdrawal[]> {
+  const rows = await getSql()`
+    SELECT * FROM pending_withdrawals
+    WHERE wallet_address = ${walletAddress.toLowerCase()}
+      AND (status = 'pending' OR updated_at >= NOW() - INTERVAL '7 days')
+      AND status <> 'cancelled'
+    ORDER BY created_at DESC
+  `;
+  return rows.map(toWithdrawal);
+}
+
+/**
+ * Whether the wallet has a user exit still in progress
+ */
+export async function hasPendingExit(walletAddress: string): Promise<boolean> {
+  const rows = await getSql()`
+    SELECT 1 FROM pending_withdrawals
+    WHERE wallet_address = ${walletAddress.toLowerCase()}
+      AND source = 'redeem'
+      AND status = 'pending'
+    LIMIT 1
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Claim up to `limit` rows not attempted in the last retry interval.
+ * Claiming stamps updated_at, which keeps concurrent workers off the row
+ * until the next interval.
+ */
+export async function claimDueWithdrawals(
+  limit: number,
+  retrySeconds: number = PENDING_WITHDRAWAL_RETRY_SECONDS
+): Promise<PendingWithdrawal[]> {
+  const rows = await getSql()`
+    UPDATE pending_withdrawals
+    SET updated_at = NOW()
+    WHERE id IN (
+      SELECT id FROM pending_withdrawals
+      WHERE status = 'pending'
+        AND updated_at <= NOW() - ${`${retrySeconds} seconds`}::interval
+      ORDER BY updated_at
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+  return rows.map(toWithdrawal);
+}
+
+/**
+ * Record a partial (or final) redeem of a row's remainder
+ *
+ * @returns The row's new status
+ */
+export async function recordWithdrawalProgress(
+  withdrawal: PendingWithdrawal,
+  progress: { redeemedShares: bigint; redeemedAssets: bigint; txHash?: string }
+): Promise<PendingWithdrawalStatus> {
+  const remainingShares =
+    progress.redeemedShares >= withdrawal.remainingShares
+      ? 0n
+      : withdrawal.remainingShares - progress.redeemedShares;
+  const remainingAssets =
+    remainingShares === 0n || progress.redeemedAssets >= withdrawal.remainingAssets
+      ? 0n
+      : withdrawal.remainingAssets - progress.redeemedAssets;
+  const status: PendingWithdrawalStatus = remainingShares === 0n ? "completed" : "pending";
+
+  await getSql()`
+    UPDATE pending_withdrawals
+    SET
+      remaining_shares = ${remainingShares.toString()},
+      remaining_assets = ${remainingAssets.toString()},
+      redeemed_assets = redeemed_assets + ${progress.redeemedAssets.toString()}::numeric,
+      status = ${status},
+      last_error = NULL,
+      last_tx_hash = ${progress.txHash ?? withdrawal.lastTxHash},
+      updated_at = NOW(),
+      completed_at = ${status === "completed" ? new Date().toISOString() : null}
+    WHERE id = ${withdrawal.id}
+  `;
+  return status;
+}
+
+/**
+ * Record a failed attempt; the row is given up on once it has used every attempt
+ *
+ * @returns The row's new status
+ */
+export async function recordWithdrawalFailure(
+  withdrawal: PendingWithdrawal,
+  error: string
+): Promise<PendingWithdrawalStatus> {
+  const attempts = withdrawal.attempts + 1;
+  const status: PendingWithdrawalStatus = attempts >= withdrawal.maxAttempts ? "failed" : "pending";
+
+  await getSql()`
+    UPDATE pending_withdrawals
+    SET
+      attempts = ${attempts},
+      last_error = ${error},
+      status = ${status},
+      updated_at = NOW(),
+      completed_at = ${status === "failed" ? new Date().toISOString() : null}
+    WHERE id = ${withdrawal.id}
+  `;
+  return status;
+}
+
+/**
+ * The part of a rebalance decision that actually executed once `deferred`
+ * remainders are taken out: redeem legs shrink by their deferred shares and
+ * assets, and deposit legs scale down with the redeemed total. Used so the
+ * action log and ledger record what moved, not what was planned.
+ */
+export function applyDeferredRedeems(decision: any, deferred: RedeemLeg[]): any {
+  if (deferred.length === 0) return decision;
+  const deferredFor = (vault: string) =>
+    deferred.find((leg) => leg.vault.toLowerCase() === vault.toLowerCase());
+
+  if (decision.legs?.redeems?.length > 0) {
+    const plannedAssets: bigint = decision.legs.redeems.reduce(
+      (sum: bigint, leg: RedeemLeg) => sum + BigInt(leg.assets),
+      0n
+    );
+    const redeems = decision.legs.redeems
+      .map((leg: RedeemLeg) => {
+        const cut = deferredFor(leg.vault);
+        return cut
+          ? {
+              ...leg,
+              shares: BigInt(leg.shares) - cut.shares,
+              assets: BigInt(leg.assets) - cut.assets,
+            }
+          : leg;
+      })
+      .filter((leg: RedeemLeg) => leg.shares > 0n);
+    const executedAssets: bigint = redeems.reduce(
+      (sum: bigint, leg: RedeemLeg) => sum + BigInt(leg.assets),
+      0n
+    );
+    const deposits = decision.legs.deposits.map((leg: { assets: bigint }) => ({
+      ...leg,
+      assets: plannedAssets > 0n ? (BigInt(leg.assets) * executedAssets) / plannedAssets : 0n,
+    }));
+    return { ...decision, legs: { redeems, deposits } };
+  }
+
+  const cut = deferredFor(decision.currentVault.address);
+  if (!cut) return decision;
+  const shares = BigInt(decision.currentVault.shares);
+  const executedShares = shares - cut.shares;
+  const assets = BigInt(decision.currentVault.assets);
+  return {
+    ...decision,
+    currentVault: {
+      ...decision.currentVault,
+      shares: executedShares,
+      assets: shares > 0n ? (assets * executedShares) / shares : 0n,
+    },
+  };
+}
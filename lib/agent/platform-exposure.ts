@@ -0,0 +1,364 @@
+/**
+ * Platform Exposure
+ *
+ * What the platform's users hold in aggregate, per vault and per curator, and
+ * how that compares with PLATFORM_EXPOSURE_LIMITS: our users together may hold
+ * at most `maxVaultTvlShare` of a vault's TVL, and at most
+ * `maxCuratorExposureUsd` with one curator. Without these the agent would
+ * steer every auto-optimizing user into the same top-APY vault.
+ *
+ * Holdings come from a snapshot of every user's live on-chain positions, so
+ * positions that predate the ledger or were opened outside the app count.
+ * The snapshot is taken once per worker cycle (refreshPlatformExposure) and
+ * reused by every evaluation in it. Moves made since — rebalances logged
+ * after the snapshot, or still in flight — and decisions this process is
+ * executing right now are applied on top, so jobs claimed in the same cycle
+ * don't all spend the same room.
+ */
+
+import { neon } from "@neondatabase/serverless";
+import { protocolRegistry } from "@/lib/protocols/adapter";
+import {
+  PLATFORM_EXPOSURE_LIMITS,
+  type PlatformExposureLimits,
+} from "@/lib/yield-optimizer/config";
+import type { ProtocolId } from "@/lib/yield-optimizer/types";
+import type { PlatformRoom } from "./portfolio-optimizer";
+
+export interface VaultExposure {
+  vaultAddress: string;
+  protocol: ProtocolId;
+  exposureUsd: number;
+  holders: number;
+}
+
+/** Vault metadata the limits are measured against */
+export interface ExposureVault {
+  vaultAddress: string;
+  protocol?: ProtocolId;
+  name?: string;
+  curator: string | null; // Risk group — see riskGroup in decision-engine
+  tvlUsd: number;
+}
+
+export interface VaultExposureStatus {
+  vaultAddress: string;
+  protocol: ProtocolId | null;
+  name: string | null;
+  curator: string | null;
+  exposureUsd: number;
+  holders: number;
+  tvlUsd: number | null;
+  tvlShare: number | null; // exposure / TVL
+  limitUsd: number | null; // null when the vault's TVL is unknown
+  headroomUsd: number | null;
+  overLimit: boolean;
+}
+
+export interface CuratorExposureStatus {
+  curator: string;
+  exposureUsd: number;
+  limitUsd: number;
+  headroomUsd: number;
+  overLimit: boolean;
+  vaults: string[];
+}
+
+export interface ExposureReport {
+  limits: PlatformExposureLimits;
+  totalExposureUsd: number;
+  vaults: VaultExposureStatus[];
+  curators: CuratorExposureStatus[];
+}
+
+/** Loads current platform exposure — injected into the decision engine */
+export type ExposureSource = () => Promise<VaultExposure[]>;
+
+/** A change to one vault's exposure, in USDC units (negative when funds leave) */
+export interface ExposureMove {
+  vaultAddress: string;
+  protocol?: ProtocolId;
+  assets: bigint;
+}
+
+interface ExposureSnapshot {
+  takenAt: Date;
+  exposures: VaultExposure[];
+}
+
+// Reused across evaluations until the next cycle refreshes it
+export const EXPOSURE_SNAPSHOT_TTL_MS = 10 * 60 * 1000;
+// Wallets whose positions are read at once while taking a snapshot
+const SNAPSHOT_CONCURRENCY = 10;
+
+let snapshot: ExposureSnapshot | null = null;
+let pendingSnapshot: Promise<ExposureSnapshot> | null = null;
+const reservations = new Map<number, ExposureMove[]>();
+let nextReservation = 0;
+
+function getSql() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is not configured");
+  }
+  return neon(databaseUrl);
+}
+
+/**
+ * Aggregate exposure per vault: the cycle's position snapshot, plus moves
+ * made since it was taken and decisions currently being executed
+ */
+export async function getPlatformExposure(): Promise<VaultExposure[]> {
+  const current = await getSnapshot();
+  const moves = [
+    ...(await movesSince(current.takenAt)),
+    ...Array.from(reservations.values()).flat(),
+  ];
+  return applyMoves(current.exposures, moves);
+}
+
+/**
+ * Take a fresh position snapshot — called once at the start of each worker cycle
+ */
+export async function refreshPlatformExposure(): Promise<void> {
+  snapshot = null;
+  await getSnapshot();
+}
+
+/**
+ * Count a decision's moves toward exposure while it executes. Call the
+ * returned release once its action is logged (or it failed) — from then on
+ * the logged action carries the move.
+ */
+export function reserveExposure(moves: ExposureMove[]): () => void {
+  const id = nextReservation++;
+  reservations.set(id, moves);
+  return () => {
+    reservations.delete(id);
+  };
+}
+
+/**
+ * Exposure moves of a rebalance decision or its logged metadata: every redeem
+ * leg leaves its vault and every deposit leg enters its target. Single-vault
+ * moves carry the whole current position across.
+ */
+export function decisionMoves(decision: Record<string, any>): ExposureMove[] {
+  const legs = decision.legs;
+  if (legs?.redeems?.length) {
+    return [
+      ...legs.redeems.map((leg: any) => ({
+        vaultAddress: leg.vault,
+        protocol: leg.protocol,
+        assets: -BigInt(leg.assets),
+      })),
+      ...(legs.deposits ?? []).map((leg: any) => ({
+        vaultAddress: leg.vault,
+        protocol: leg.protocol,
+        assets: BigInt(leg.assets),
+      })),
+    ];
+  }
+
+  const from = decision.currentVault?.address ?? decision.fromVault;
+  const to = decision.targetVault?.address ?? decision.toVault;
+  const assets = decision.currentVault?.assets ?? decision.assets;
+  if (!from || !to || assets === undefined || assets === null) return [];
+  return [
+    { vaultAddress: from, protocol: decision.currentVault?.protocol, assets: -BigInt(assets) },
+    { vaultAddress: to, protocol: decision.targetVault?.protocol, assets: BigInt(assets) },
+  ];
+}
+
+async function getSnapshot(): Promise<ExposureSnapshot> {
+  if (snapshot && Date.now() - snapshot.takenAt.getTime() < EXPOSURE_SNAPSHOT_TTL_MS) {
+    return snapshot;
+  }
+  // Concurrent evaluations share one load instead of each reading every wallet
+  pendingSnapshot ??= takeSnapshot().finally(() => {
+    pendingSnapshot = null;
+  });
+  snapshot = await pendingSnapshot;
+  return snapshot;
+}
+
+/**
+ * Read every user's live positions across the enabled protocols and sum
+ * them per vault
+ */
+async function takeSnapshot(): Promise<ExposureSnapshot> {
+  const takenAt = new Date();
+  const users = await getSql()`
+    SELECT DISTINCT wallet_address FROM users WHERE wallet_address IS NOT NULL
+  `;
+  const wallets = users.map((u: Record<string, any>) => u.wallet_address as `0x${string}`);
+
+  const totals = new Map<string, VaultExposure>();
+  for (let i = 0; i < wallets.length; i += SNAPSHOT_CONCURRENCY) {
+    const batch = await Promise.all(
+      wallets.slice(i, i + SNAPSHOT_CONCURRENCY).map(async (wallet) => {
+        try {
+          return await protocolRegistry.getAllPositions(wallet);
+        } catch (error) {
+          console.error(`[Exposure] Failed to read positions for ${wallet}:`, error);
+          return [];
+        }
+      })
+    );
+    for (const positions of batch) {
+      for (const position of positions) {
+        if (position.assets <= 0n) continue;
+        const key = position.vaultAddress.toLowerCase();
+        const total = totals.get(key) ?? {
+          vaultAddress: key,
+          protocol: position.protocol,
+          exposureUsd: 0,
+          holders: 0,
+        };
+        total.exposureUsd += Number(position.assets) / 1e6;
+        total.holders++;
+        totals.set(key, total);
+      }
+    }
+  }
+
+  console.log(`[Exposure] Snapshot of ${wallets.length} wallets across ${totals.size} vaults`);
+  return { takenAt, exposures: Array.from(totals.values()) };
+}
+
+/**
+ * Rebalances the snapshot can't see yet: logged after it was taken, or
+ * submitted and not yet included. Failed and simulated actions never moved funds.
+ */
+async function movesSince(takenAt: Date): Promise<ExposureMove[]> {
+  const rows = await getSql()`
+    SELECT metadata
+    FROM agent_actions
+    WHERE action_type = 'rebalance'
+      AND status <> 'failed'
+      AND (tx_hash IS NULL OR tx_hash NOT LIKE 'simulation_%')
+      AND (created_at >= ${takenAt.toISOString()} OR tx_status = 'submitted')
+  `;
+  return rows.flatMap((row: Record<string, any>) => decisionMoves(row.metadata ?? {}));
+}
+
+function applyMoves(exposures: VaultExposure[], moves: ExposureMove[]): VaultExposure[] {
+  const byVault = new Map(exposures.map((e) => [e.vaultAddress.toLowerCase(), { ...e }]));
+  for (const move of moves) {
+    const key = move.vaultAddress.toLowerCase();
+    const exposure = byVault.get(key) ?? {
+      vaultAddress: key,
+      protocol: move.protocol ?? "morpho",
+      exposureUsd: 0,
+      holders: 0,
+    };
+    exposure.exposureUsd = Math.max(exposure.exposureUsd + Number(move.assets) / 1e6, 0);
+    byVault.set(key, exposure);
+  }
+  return Array.from(byVault.values()).filter((e) => e.exposureUsd > 0);
+}
+
+/**
+ * Compare aggregate exposure with the limits. Every listed vault is
+ * reported (with its headroom) alongside held vaults missing from the list.
+ */
+export function buildExposureReport(
+  exposures: VaultExposure[],
+  vaults: ExposureVault[],
+  limits: PlatformExposureLimits = PLATFORM_EXPOSURE_LIMITS
+): ExposureReport {
+  const info = new Map(vaults.map((v) => [v.vaultAddress.toLowerCase(), v]));
+  const held = new Map(exposures.map((e) => [e.vaultAddress.toLowerCase(), e]));
+  const keys = new Set([...info.keys(), ...held.keys()]);
+
+  const vaultStatuses: VaultExposureStatus[] = [];
+  const curators = new Map<string, CuratorExposureStatus>();
+
+  for (const key of keys) {
+    const vault = info.get(key);
+    const exposure = held.get(key);
+    const exposureUsd = exposure?.exposureUsd ?? 0;
+    const tvlUsd = vault && vault.tvlUsd > 0 ? vault.tvlUsd : null;
+    const limitUsd = tvlUsd !== null ? tvlUsd * limits.maxVaultTvlShare : null;
+
+    vaultStatuses.push({
+      vaultAddress: vault?.vaultAddress ?? key,
+      protocol: exposure?.protocol ?? vault?.protocol ?? null,
+      name: vault?.name ?? null,
+      curator: vault?.curator ?? null,
+      exposureUsd,
+      holders: exposure?.holders ?? 0,
+      tvlUsd,
+      tvlShare: tvlUsd !== null ? exposureUsd / tvlUsd : null,
+      limitUsd,
+      headroomUsd: limitUsd !== null ? Math.max(limitUsd - exposureUsd, 0) : null,
+      overLimit: limitUsd !== null && exposureUsd > limitUsd,
+    });
+
+    if (vault?.curator) {
+      const group = vault.curator.toLowerCase();
+      const status = curators.get(group) ?? {
+        curator: vault.curator,
+        exposureUsd: 0,
+        limitUsd: limits.maxCuratorExposureUsd,
+        headroomUsd: 0,
+        overLimit: false,
+        vaults: [],
+      };
+      status.exposureUsd += exposureUsd;
+      if (exposureUsd > 0) status.vaults.push(vault.vaultAddress);
+      curators.set(group, status);
+    }
+  }
+
+  for (const status of curators.values()) {
+    status.headroomUsd = Math.max(status.limitUsd - status.exposureUsd, 0);
+    status.overLimit = status.exposureUsd > status.limitUsd;
+  }
+
+  return {
+    limits,
+    totalExposureUsd: exposures.reduce((sum, e) => sum + e.exposureUsd, 0),
+    vaults: vaultStatuses.sort((a, b) => b.exposureUsd - a.exposureUsd),
+    curators: Array.from(curators.values()).sort((a, b) => b.exposureUsd - a.exposureUsd),
+  };
+}
+
+/**
+ * Room one user has under the platform limits, in USDC units. The user's own
+ * holdings already count toward exposure, so they're added back: keeping
+ * funds where they are never breaches a limit it didn't already breach.
+ */
+export function platformRoomFor(
+  report: ExposureReport,
+  holdings: Array<{ vaultAddress: string; curator: string | null; assets: bigint }>
+): PlatformRoom {
+  const toUsdc = (usd: number) => BigInt(Math.floor(usd * 1e6));
+  const heldInVault = new Map<string, bigint>();
+  const heldWithCurator = new Map<string, bigint>();
+  for (const holding of holdings) {
+    const vault = holding.vaultAddress.toLowerCase();
+    heldInVault.set(vault, (heldInVault.get(vault) ?? 0n) + holding.assets);
+    if (holding.curator) {
+      const group = holding.curator.toLowerCase();
+      heldWithCurator.set(group, (heldWithCurator.get(group) ?? 0n) + holding.assets);
+    }
+  }
+
+  const vaults = new Map<string, bigint>();
+  for (const status of report.vaults) {
+    if (status.limitUsd === null) continue;
+    const key = status.vaultAddress.toLowerCase();
+    const room = toUsdc(status.limitUsd - status.exposureUsd) + (heldInVault.get(key) ?? 0n);
+    vaults.set(key, room > 0n ? room : 0n);
+  }
+
+  const curators = new Map<string, bigint>();
+  for (const status of report.curators) {
+    const key = status.curator.toLowerCase();
+    const room = toUsdc(status.limitUsd - status.exposureUsd) + (heldWithCurator.get(key) ?? 0n);
+    curators.set(key, room > 0n ? room : 0n);
+  }
+
+  return { vaults, curators };
+}
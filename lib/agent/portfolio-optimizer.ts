@@ -0,0 +1,242 @@
+/**
+ * Portfolio Optimizer
+ *
+ * Computes a target USDC allocation across N vaults for a user's whole
+ * portfolio, subject to per-vault and per-curator concentration caps, and
+ * derives the redeem/deposit legs needed to move from the current holdings
+ * to the target.
+ *
+ * All amounts are raw USDC units (6 decimals) as bigint.
+ */
+
+import type { Position } from "../yield-optimizer/types";
+
+// Protocol tag carried through to the legs so the executor can pick the
+// matching ProtocolAdapter. Omitted means a Morpho ERC-4626 vault.
+type ProtocolId = Position["protocol"];
+
+export interface PortfolioHolding {
+  vaultAddress: `0x${string}`;
+  protocol?: ProtocolId;
+  name: string;
+  curator: string | null;
+  apy: number;
+  shares: bigint;
+  assets: bigint;
+}
+
+export interface PortfolioCandidate {
+  vaultAddress: `0x${string}`;
+  protocol?: ProtocolId;
+  name: string;
+  curator: string | null;
+  apy: number;
+}
+
+export interface AllocationLimits {
+  maxVaultConcentration: number; // 0-1 share of portfolio per vault
+  maxCuratorConcentration: number; // 0-1 share of portfolio per curator
+  minLegUsdc: bigint; // Legs below this size are dropped
+}
+
+/**
+ * Platform-wide room left for this user, in USDC units: per vault (keyed by
+ * lowercase address) and per curator (keyed by lowercase curator name).
+ * Missing keys are unlimited. See lib/agent/platform-exposure.ts.
+ */
+export interface PlatformRoom {
+  vaults: Map<string, bigint>;
+  curators: Map<string, bigint>;
+}
+
+export interface TargetAllocation {
+  vaultAddress: `0x${string}`;
+  protocol?: ProtocolId;
+  name: string;
+  curator: string | null;
+  apy: number;
+  currentAssets: bigint;
+  targetAssets: bigint;
+  weight: number; // targetAssets / totalAssets
+}
+
+export interface RedeemLeg {
+  vault: `0x${string}`;
+  protocol?: ProtocolId;
+  shares: bigint;
+  assets: bigint; // Expected USDC out (estimate — executor re-checks via previewRedeem)
+}
+
+export interface DepositLeg {
+  vault: `0x${string}`;
+  protocol?: ProtocolId;
+  assets: bigint; // Planned USDC in (executor scales to actual redeemed amount)
+}
+
+export interface PortfolioPlan {
+  totalAssets: bigint;
+  allocations: TargetAllocation[];
+  redeems: RedeemLeg[];
+  deposits: DepositLeg[];
+  currentApy: number; // Asset-weighted APY of current holdings
+  targetApy: number; // Asset-weighted APY of target allocation
+}
+
+const BPS = 10_000n;
+
+function toBps(fraction: number): bigint {
+  return BigInt(Math.round(Math.min(Math.max(fraction, 0), 1) * Number(BPS)));
+}
+
+/**
+ * Curator grouping key — vaults without a known curator are grouped by
+ * their own address so they don't share a cap with unrelated vaults.
+ */
+function curatorKey(curator: string | null, vaultAddress: string): string {
+  return curator ? curator.toLowerCase() : `vault:${vaultAddress.toLowerCase()}`;
+}
+
+function weightedApy(entries: Array<{ assets: bigint; apy: number }>, total: bigint): number {
+  if (total === 0n) return 0;
+  return entries.reduce((sum, e) => sum + (Number(e.assets) / Number(total)) * e.apy, 0);
+}
+
+/**
+ * Compute the target allocation and the legs to reach it.
+ *
+ * Greedy fill: candidates are taken in APY order (ties favor vaults already
+ * held to reduce churn), each receiving as much as the vault and curator
+ * caps allow — and, when `platform` is given, no more than the room left
+ * under the platform-wide exposure limits. If the caps cannot place the
+ * whole portfolio (too few eligible vaults), the remainder stays in the
+ * current holdings.
+ */
+export function optimizeAllocation(
+  holdings: PortfolioHolding[],
+  candidates: PortfolioCandidate[],
+  limits: AllocationLimits,
+  platform?: PlatformRoom
+): PortfolioPlan {
+  const totalAssets = holdings.reduce((sum, h) => sum + h.assets, 0n);
+  const currentApy = weightedApy(holdings, totalAssets);
+
+  const current = new Map<string, PortfolioHolding>(
+    holdings.map((h) => [h.vaultAddress.toLowerCase(), h])
+  );
+  const target = new Map<string, bigint>();
+
+  const vaultCap = (totalAssets * toBps(limits.maxVaultConcentration)) / BPS;
+  const curatorCap = (totalAssets * toBps(limits.maxCuratorConcentration)) / BPS;
+  const curatorUsed = new Map<string, bigint>();
+
+  const ranked = [...candidates].sort((a, b) => {
+    if (b.apy !== a.apy) return b.apy - a.apy;
+    const aHeld = current.has(a.vaultAddress.toLowerCase()) ? 1 : 0;
+    const bHeld = current.has(b.vaultAddress.toLowerCase()) ? 1 : 0;
+    return bHeld - aHeld;
+  });
+
+  let remaining = totalAssets;
+  for (const candidate of ranked) {
+    if (remaining === 0n) break;
+    const key = candidate.vaultAddress.toLowerCase();
+    if (target.has(key)) continue; // Duplicate candidate
+
+    const group = curatorKey(candidate.curator, candidate.vaultAddress);
+    const curatorRoom = curatorCap - (curatorUsed.get(group) ?? 0n);
+    let room = vaultCap < curatorRoom ? vaultCap : curatorRoom;
+
+    const platformVaultRoom = platform?.vaults.get(key);
+    if (platformVaultRoom !== undefined && platformVaultRoom < room) room = platformVaultRoom;
+    const platformCurator = candidate.curator
+      ? platform?.curators.get(candidate.curator.toLowerCase())
+      : undefined;
+    if (platformCurator !== undefined) {
+      const platformCuratorRoom = platformCurator - (curatorUsed.get(group) ?? 0n);
+      if (platformCuratorRoom < room) room = platformCuratorRoom;
+    }
+    if (room <= 0n) continue;
+
+    const amount = remaining < room ? remaining : room;
+    target.set(key, amount);
+    curatorUsed.set(group, (curatorUsed.get(group) ?? 0n) + amount);
+    remaining -= amount;
+  }
+
+  // Caps could not place everything — leave the remainder where it is,
+  // preferring to keep it in the highest-APY current holdings
+  if (remaining > 0n) {
+    const byApy = [...holdings].sort((a, b) => b.apy - a.apy);
+    for (const holding of byApy) {
+      if (remaining === 0n) break;
+      const key = holding.vaultAddress.toLowerCase();
+      const alreadyTargeted = target.get(key) ?? 0n;
+      const keepable = holding.assets - alreadyTargeted;
+      if (keepable <= 0n) continue;
+      const keep = remaining < keepable ? remaining : keepable;
+      target.set(key, alreadyTargeted + keep);
+      remaining -= keep;
+    }
+  }
+
+  // Build allocation table over every vault that is held or targeted
+  const candidateByKey = new Map(candidates.map((c) => [c.vaultAddress.toLowerCase(), c]));
+  const keys = new Set([...current.keys(), ...target.keys()]);
+  const allocations: TargetAllocation[] = [];
+
+  for (const key of keys) {
+    const held = current.get(key);
+    const info = candidateByKey.get(key) ?? held!;
+    const targetAssets = target.get(key) ?? 0n;
+    allocations.push({
+      vaultAddress: info.vaultAddress,
+      protocol: info.protocol,
+      name: info.name,
+      curator: info.curator,
+      apy: info.apy,
+      currentAssets: held?.assets ?? 0n,
+      targetAssets,
+      weight: totalAssets === 0n ? 0 : Number(targetAssets) / Number(totalAssets),
+    });
+  }
+  allocations.sort((a, b) => (b.targetAssets > a.targetAssets ? 1 : -1));
+
+  // Derive legs, dropping moves too small to be worth a call
+  const redeems: RedeemLeg[] = [];
+  const deposits: DepositLeg[] = [];
+
+  for (const allocation of allocations) {
+    const delta = allocation.targetAssets - allocation.currentAssets;
+    const size = delta < 0n ? -delta : delta;
+    if (size < limits.minLegUsdc) continue;
+
+    if (delta < 0n) {
+      const held = current.get(allocation.vaultAddress.toLowerCase())!;
+      // Full exit redeems every share to avoid leaving dust behind
+      const shares =
+        allocation.targetAssets === 0n ? held.shares : (held.shares * size) / held.assets;
+      redeems.push({ vault: held.vaultAddress, protocol: held.protocol, shares, assets: size });
+    } else {
+      deposits.push({
+        vault: allocation.vaultAddress,
+        protocol: allocation.protocol,
+        assets: size,
+      });
+    }
+  }
+
+  // A plan with only one side is not executable
+  const executable = redeems.length > 0 && deposits.length > 0;
+
+  return {
+    totalAssets,
+    allocations,
+    redeems: executable ? redeems : [],
+    deposits: executable ? deposits : [],
+    currentApy,
+    targetApy: weightedApy(
+      allocations.map((a) => ({ assets: a.targetAssets, apy: a.apy })),
+      totalAssets
+    ),
+  };
+}
@@ -5,6 +5,11 @@ import {
   createSessionKernelClient,
 } from "../zerodev/kernel-client";
 import { checkSmartAccountActive } from "../zerodev/client-secure";
+import { PROTOCOLS } from "../yield-optimizer/config";
+import type { DepositLeg, RedeemLeg } from "./portfolio-optimizer";
+import { simulateRebalancePlan, type SimulationReport } from "./userop-simulation";
+import { DEFAULT_USER_STRATEGY } from "./user-strategy";
+import { summarizeReceipt, type UserOpReceiptSummary } from "./userop-tracker";
 
 const VAULT_ABI = parseAbi([
   "function redeem(uint256 shares, address receiver, address owner) returns (uint256 assets)",
@@ -13,8 +18,16 @@ const VAULT_ABI = parseAbi([
 
 const ERC20_ABI = parseAbi(["function approve(address spender, uint256 amount) returns (bool)"]);
 
+const LIQUIDITY_ABI = parseAbi([
+  "function maxRedeem(address owner) view returns (uint256)",
+  "function previewRedeem(uint256 shares) view returns (uint256)",
+  "function balanceOf(address account) view returns (uint256)",
+]);
+
 const USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as const;
 const MAX_UINT256 = BigInt("0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff");
+// How long executeRebalance waits for inclusion before handing off to the tracker
+const RECEIPT_WAIT_MS = 60_000;
 
 // Function selectors for scoped permissions
 const FUNCTION_SELECTORS = {
@@ -22,6 +35,16 @@ const FUNCTION_SELECTORS = {
   REDEEM: "0xba087652" as Hex, // redeem(uint256,address,address)
   DEPOSIT: "0x6e553f65" as Hex, // deposit(uint256,address)
   WITHDRAW: "0xb460af94" as Hex, // withdraw(uint256,address,address)
+  // Aave V3 pool operations
+  AAVE_SUPPLY: "0x617ba037" as Hex, // supply(address,uint256,address,uint16)
+  AAVE_WITHDRAW: "0x69328dec" as Hex, // withdraw(address,uint256,address)
+  // Moonwell mToken operations
+  MOONWELL_MINT: "0xa0712d68" as Hex, // mint(uint256)
+  MOONWELL_REDEEM: "0xdb006a75" as Hex, // redeem(uint256)
+  MOONWELL_REDEEM_UNDERLYING: "0x852a12e3" as Hex, // redeemUnderlying(uint256)
+  // Compound v3 Comet operations
+  COMET_SUPPLY: "0xf2b9fdb8" as Hex, // supply(address,uint256)
+  COMET_WITHDRAW: "0xf3fef3a3" as Hex, // withdraw(address,uint256)
   // ERC20 operations
   APPROVE: "0x095ea7b3" as Hex, // approve(address,uint256)
   TRANSFER: "0xa9059cbb" as Hex, // transfer(address,uint256)
@@ -32,6 +55,17 @@ export interface RebalanceParams {
   toVault: `0x${string}`;
   shares: bigint;
   userAddress: `0x${string}`;
+  assets?: bigint; // USDC the decision planned to redeem — the simulation's slippage baseline
+}
+
+/**
+ * Multi-leg rebalance produced by the portfolio optimizer.
+ * Every leg is batched into a single UserOp.
+ */
+export interface PortfolioRebalanceParams {
+  userAddress: `0x${string}`;
+  redeems: RedeemLeg[];
+  deposits: DepositLeg[];
 }
 
 export interface RebalanceCall {
@@ -40,22 +74,72 @@ export interface RebalanceCall {
   value: bigint;
 }
 
+/**
+ * Executable rebalance batch plus what it is expected to move.
+ * calls[0..withdrawCallCount) release USDC; the remaining calls deposit it.
+ */
+export interface RebalancePlan {
+  calls: RebalanceCall[];
+  withdrawCallCount: number;
+  expectedAssets: bigint; // USDC the withdraw legs should release (pre-buffer)
+  plannedAssets: bigint; // USDC the decision planned to redeem; previewRedeem when unknown
+  deposits: Array<{ vault: `0x${string}`; protocol: string; amount: bigint }>;
+}
+
 export interface RebalanceResult {
-  taskId: string;
+  taskId: string; // Transaction hash once included, "" otherwise
   success: boolean;
   error?: string;
+  simulation?: SimulationReport;
+  userOpHash?: string; // Set whenever the UserOp reached the bundler
+  receipt?: UserOpReceiptSummary; // Absent when not included within RECEIPT_WAIT_MS
+  deferred?: RedeemLeg[]; // Exits cut short by vault liquidity — queue for a later cycle
+}
+
+export interface ExitLiquidityCheck<P extends RebalanceParams | PortfolioRebalanceParams> {
+  params: P; // Exits capped to what the sources can pay out now
+  deferred: RedeemLeg[]; // The shortfall per source
+}
+
+export interface ExecuteRebalanceOptions {
+  maxSlippage?: number; // Decimal; user's maxSlippageTolerance (default 0.5%)
+  // Submit when only a revert check was possible (no eth_simulateV1).
+  // Defaults to AGENT_ALLOW_UNCHECKED_SIMULATION=true; off otherwise.
+  allowUncheckedBalances?: boolean;
+}
+
+function isPortfolioParams(
+  params: RebalanceParams | PortfolioRebalanceParams
+): params is PortfolioRebalanceParams {
+  return "redeems" in params;
 }
 
 /**
  * Build transaction calls for vault rebalancing
+ */
+export async function buildRebalanceCalls(
+  params: RebalanceParams | PortfolioRebalanceParams
+): Promise<RebalanceCall[]> {
+  return (await buildRebalancePlan(params)).calls;
+}
+
+/**
+ * Build the rebalance plan: batched calls plus expected asset movements
  * Three-step process:
  * 1. Redeem shares from source vault → receive USDC
  * 2. Approve destination vault to spend USDC
  * 3. Deposit USDC into destination vault
  *
  * Uses previewRedeem to calculate expected USDC output for accurate deposit amount.
+ * Portfolio params (multiple legs) are delegated to buildPortfolioRebalancePlan.
  */
-export async function buildRebalanceCalls(params: RebalanceParams): Promise<RebalanceCall[]> {
+export async function buildRebalancePlan(
+  params: RebalanceParams | PortfolioRebalanceParams
+): Promise<RebalancePlan> {
+  if (isPortfolioParams(params)) {
+    return buildPortfolioRebalancePlan(params);
+  }
+
   // Calculate expected USDC output from redeem via on-chain preview
   const publicClient = createPublicClient({ chain: base, transport: http() });
   const expectedAssets = await publicClient.readContract({
@@ -74,7 +158,7 @@ export async function buildRebalanceCalls(params: RebalanceParams): Promise<Reba
     );
   }
 
-  return [
+  const calls: RebalanceCall[] = [
     // Step 1: Redeem from source vault
     {
       to: params.fromVault,
@@ -106,6 +190,198 @@ export async function buildRebalanceCalls(params: RebalanceParams): Promise<Reba
       value: BigInt(0),
     },
   ];
+
+  return {
+    calls,
+    withdrawCallCount: 1,
+    expectedAssets,
+    plannedAssets: params.assets ?? expectedAssets,
+    deposits: [{ vault: params.toVault, protocol: "morpho", amount: depositAmount }],
+  };
+}
+
+/**
+ * Build batched calls for a multi-leg portfolio rebalance
+ * 1. Withdraw every source leg → receive USDC
+ * 2. For each destination: approve exact amount, then deposit
+ *
+ * Legs may span protocols, so calls come from each leg's ProtocolAdapter
+ * (untagged legs are Morpho vaults). ERC-4626 legs (Morpho and
+ * config-driven vaults) are valued via previewRedeem; Aave/Moonwell/Compound legs
+ * withdraw an exact asset amount. The
+ * total (minus the 0.5% buffer) is split across destinations in proportion
+ * to the planned leg sizes.
+ */
+async function buildPortfolioRebalancePlan(
+  params: PortfolioRebalanceParams
+): Promise<RebalancePlan> {
+  if (params.redeems.length === 0 || params.deposits.length === 0) {
+    throw new Error("Portfolio rebalance requires at least one redeem and one deposit leg");
+  }
+
+  const { protocolRegistry } = await import("../protocols/adapter");
+  const adapterFor = (protocol: string = "morpho") => {
+    const adapter = protocolRegistry.get(protocol);
+    if (!adapter || !adapter.enabled) {
+      throw new Error(`No enabled protocol adapter for ${protocol}`);
+    }
+    return adapter;
+  };
+
+  const publicClient = createPublicClient({ chain: base, transport: http() });
+  const previews = await Promise.all(
+    params.redeems.map((leg) =>
+      adapterFor(leg.protocol).erc4626
+        ? publicClient.readContract({
+            address: leg.vault,
+            abi: parseAbi(["function previewRedeem(uint256 shares) view returns (uint256)"]),
+            functionName: "previewRedeem",
+            args: [leg.shares],
+          })
+        : Promise.resolve(leg.assets)
+    )
+  );
+
+  const expectedAssets = previews.reduce((sum, assets) => sum + assets, 0n);
+  const totalDeposit = (expectedAssets * 995n) / 1000n;
+
+  if (totalDeposit === 0n) {
+    throw new Error("previewRedeem returned 0 for all portfolio redeem legs");
+  }
+
+  const plannedTotal = params.deposits.reduce((sum, leg) => sum + leg.assets, 0n);
+  const calls: RebalanceCall[] = [];
+  const deposits: RebalancePlan["deposits"] = [];
+
+  for (const leg of params.redeems) {
+    calls.push(
+      ...(await adapterFor(leg.protocol).buildWithdrawCalls(
+        params.userAddress,
+        leg.vault,
+        leg.shares,
+        leg.assets
+      ))
+    );
+  }
+
+  const withdrawCallCount = calls.length;
+
+  let allocated = 0n;
+  for (const [i, leg] of params.deposits.entries()) {
+    // Last leg takes the rounding remainder so the full amount is deposited
+    const isLast = i === params.deposits.length - 1;
+    const amount = isLast ? totalDeposit - allocated : (totalDeposit * leg.assets) / plannedTotal;
+    allocated += amount;
+
+    if (amount === 0n) continue;
+
+    calls.push(
+      ...(await adapterFor(leg.protocol).buildDepositCalls(amount, params.userAddress, leg.vault))
+    );
+    deposits.push({ vault: leg.vault, protocol: leg.protocol ?? "morpho", amount });
+  }
+
+  const plannedAssets = params.redeems.reduce((sum, leg) => sum + BigInt(leg.assets), 0n);
+  return { calls, withdrawCallCount, expectedAssets, plannedAssets, deposits };
+}
+
+/**
+ * Cap every exit to what its source can pay out right now. ERC4626 vaults
+ * report maxRedeem for the owner; lending markets (Aave, Moonwell, Compound)
+ * can only release the USDC they hold. Sources with nothing available are
+ * dropped; the shortfall comes back as deferred legs.
+ *
+ * @throws When no source has any withdrawable liquidity
+ */
+export async function checkExitLiquidity<P extends RebalanceParams | PortfolioRebalanceParams>(
+  params: P
+): Promise<ExitLiquidityCheck<P>> {
+  const publicClient = createPublicClient({ chain: base, transport: http() });
+
+  if (!isPortfolioParams(params)) {
+    const maxRedeem = await publicClient.readContract({
+      address: params.fromVault,
+      abi: LIQUIDITY_ABI,
+      functionName: "maxRedeem",
+      args: [params.userAddress],
+    });
+    if (maxRedeem >= params.shares) return { params, deferred: [] };
+    if (maxRedeem === 0n) {
+      throw new Error(`No withdrawable liquidity in ${params.fromVault}`);
+    }
+
+    const remainder = params.shares - maxRedeem;
+    const remainderAssets = await publicClient.readContract({
+      address: params.fromVault,
+      abi: LIQUIDITY_ABI,
+      functionName: "previewRedeem",
+      args: [remainder],
+    });
+    return {
+      params: {
+        ...params,
+        shares: maxRedeem,
+        assets:
+          params.assets !== undefined ? (params.assets * maxRedeem) / params.shares : undefined,
+      },
+      deferred: [
+        { vault: params.fromVault, protocol: "morpho", shares: remainder, assets: remainderAssets },
+      ],
+    };
+  }
+
+  const { protocolRegistry } = await import("../protocols/adapter");
+  const redeems: RedeemLeg[] = [];
+  const deferred: RedeemLeg[] = [];
+
+  for (const leg of params.redeems) {
+    const adapter = protocolRegistry.get(leg.protocol ?? "morpho");
+    const erc4626 = adapter ? adapter.erc4626 === true : true;
+    let available: RedeemLeg;
+    if (erc4626) {
+      const maxRedeem = await publicClient.readContract({
+        address: leg.vault,
+        abi: LIQUIDITY_ABI,
+        functionName: "maxRedeem",
+        args: [params.userAddress],
+      });
+      const shares = maxRedeem < leg.shares ? maxRedeem : leg.shares;
+      available = {
+        ...leg,
+        shares,
+        assets: leg.shares > 0n ? (leg.assets * shares) / leg.shares : 0n,
+      };
+    } else {
+      // The aToken holds Aave's USDC; mUSDC and the Comet hold their own
+      const cashHolder = leg.protocol === "aave" ? PROTOCOLS.aave.aUsdc : leg.vault;
+      const cash = await publicClient.readContract({
+        address: USDC_ADDRESS,
+        abi: LIQUIDITY_ABI,
+        functionName: "balanceOf",
+        args: [cashHolder],
+      });
+      const assets = cash < leg.assets ? cash : leg.assets;
+      available = {
+        ...leg,
+        assets,
+        shares: leg.assets > 0n ? (leg.shares * assets) / leg.assets : 0n,
+      };
+    }
+
+    if (available.shares > 0n && available.assets > 0n) redeems.push(available);
+    if (available.shares < leg.shares) {
+      deferred.push({
+        ...leg,
+        shares: leg.shares - available.shares,
+        assets: leg.assets - available.assets,
+      });
+    }
+  }
+
+  if (redeems.length === 0) {
+    throw new Error("No withdrawable liquidity in any source vault");
+  }
+  return { params: { ...params, redeems }, deferred };
 }
 
 /**
@@ -122,6 +398,27 @@ function buildScopedPermissions(approvedVaults: `0x${string}`[]) {
     );
   }
 
+  // Lending pools used by cross-protocol rebalances
+  if (PROTOCOLS.aave.enabled) {
+    permissions.push(
+      { target: PROTOCOLS.aave.pool, selector: FUNCTION_SELECTORS.AAVE_SUPPLY },
+      { target: PROTOCOLS.aave.pool, selector: FUNCTION_SELECTORS.AAVE_WITHDRAW }
+    );
+  }
+  if (PROTOCOLS.moonwell.enabled) {
+    permissions.push(
+      { target: PROTOCOLS.moonwell.mUsdc, selector: FUNCTION_SELECTORS.MOONWELL_MINT },
+      { target: PROTOCOLS.moonwell.mUsdc, selector: FUNCTION_SELECTORS.MOONWELL_REDEEM },
+      { target: PROTOCOLS.moonwell.mUsdc, selector: FUNCTION_SELECTORS.MOONWELL_REDEEM_UNDERLYING }
+    );
+  }
+  if (PROTOCOLS.compound.enabled) {
+    permissions.push(
+      { target: PROTOCOLS.compound.cUsdcV3, selector: FUNCTION_SELECTORS.COMET_SUPPLY },
+      { target: PROTOCOLS.compound.cUsdcV3, selector: FUNCTION_SELECTORS.COMET_WITHDRAW }
+    );
+  }
+
   permissions.push({
     target: USDC_ADDRESS,
     selector: FUNCTION_SELECTORS.APPROVE,
@@ -133,15 +430,29 @@ function buildScopedPermissions(approvedVaults: `0x${string}`[]) {
 /**
  * Execute rebalancing via ZeroDev Kernel account with session key
  * All gas fees sponsored via bundler paymaster
+ *
+ * The batch is simulated against the account first; execution is aborted
+ * if a call would revert, if balances couldn't be checked (unless
+ * options.allowUncheckedBalances), or if the withdraw legs would release
+ * fewer assets than the decision planned by more than options.maxSlippage. Exits are capped to the
+ * sources' current liquidity; the result's `deferred` legs carry the rest.
+ *
+ * Once the UserOp is submitted the result always carries its hash: if the
+ * receipt can't be read here the op is left 'submitted' for the receipt
+ * tracker rather than reported as failed (and retried).
  */
 export async function executeRebalance(
   smartAccountAddress: `0x${string}`,
-  params: RebalanceParams,
+  params: RebalanceParams | PortfolioRebalanceParams,
   sessionPrivateKey: `0x${string}`,
   approvedVaults?: `0x${string}`[],
   eip7702SignedAuth?: any,
-  serializedAccount?: string
+  serializedAccount?: string,
+  options: ExecuteRebalanceOptions = {}
 ): Promise<RebalanceResult> {
+  let simulation: SimulationReport | undefined;
+  let deferred: RedeemLeg[] | undefined;
+  let userOpHash: string | undefined;
   try {
     console.log("[Rebalance] Starting ZeroDev execution with scoped permissions...");
 
@@ -189,12 +500,48 @@ export async function executeRebalance(
       });
     }
 
+    // Redeem only what the sources can pay out now — the rest is deferred
+    const liquidity = await checkExitLiquidity(params);
+    deferred = liquidity.deferred.length > 0 ? liquidity.deferred : undefined;
+    if (deferred) {
+      console.warn("[Rebalance] Thin liquidity, deferring:", deferred);
+    }
+    params = liquidity.params;
+
     // Build rebalance calls
-    const calls = await buildRebalanceCalls(params);
+    const plan = await buildRebalancePlan(params);
+    const calls = plan.calls;
+
+    // PRE-SUBMISSION: Simulate the batch and check expected-vs-actual assets
+    const client = kernelClient;
+    simulation = await simulateRebalancePlan({
+      publicClient: createPublicClient({ chain: base, transport: http() }),
+      bundlerClient: {
+        estimateUserOperationGas: ({ calls }) => client.estimateUserOperationGas({ calls }),
+      },
+      account: smartAccountAddress,
+      plan,
+      maxSlippage: options.maxSlippage ?? DEFAULT_USER_STRATEGY.maxSlippageTolerance,
+      allowUncheckedBalances:
+        options.allowUncheckedBalances ?? process.env.AGENT_ALLOW_UNCHECKED_SIMULATION === "true",
+    });
+    if (!simulation.success) {
+      console.error("[Rebalance] Simulation failed — not submitting:", simulation.error);
+      return {
+        taskId: "",
+        success: false,
+        error: `Simulation failed: ${simulation.error}`,
+        simulation,
+      };
+    }
+    console.log("[Rebalance] Simulation passed:", {
+      method: simulation.method,
+      receivedAssets: simulation.receivedAssets,
+      slippage: simulation.slippage,
+    });
 
     console.log("[Rebalance] Executing batch transaction...");
 
-    let userOpHash: string;
     try {
       userOpHash = await kernelClient.sendUserOperation({
         calls: calls.map((call) => ({
@@ -209,51 +556,72 @@ export async function executeRebalance(
           taskId: "",
           success: false,
           error: "Gas sponsorship failed. Paymaster may be out of funds.",
+          simulation,
         };
       }
       if (sendError.message?.includes("nonce")) {
-        return { taskId: "", success: false, error: "UserOp nonce error. Retry may be needed." };
+        return {
+          taskId: "",
+          success: false,
+          error: "UserOp nonce error. Retry may be needed.",
+          simulation,
+        };
       }
       throw sendError;
     }
 
     console.log("[Rebalance] UserOp submitted:", userOpHash);
 
-    const receipt = await kernelClient.waitForUserOperationReceipt({
+    const rawReceipt = await kernelClient.waitForUserOperationReceipt({
       hash: userOpHash as `0x${string}`,
+      timeout: RECEIPT_WAIT_MS,
     });
+    const receipt = summarizeReceipt(rawReceipt);
 
     // Check UserOp execution status
     if (!receipt.success) {
       console.error("[Rebalance] UserOp REVERTED:", {
         hash: userOpHash,
         reason: receipt.reason,
-        txHash: receipt.receipt.transactionHash,
+        txHash: receipt.transactionHash,
       });
       return {
-        taskId: receipt.receipt.transactionHash,
+        taskId: receipt.transactionHash,
         success: false,
         error: `UserOp reverted on-chain: ${receipt.reason || "unknown reason"}`,
+        simulation,
+        userOpHash,
+        receipt,
       };
     }
 
-    console.log("[Rebalance] Transaction confirmed:", receipt.receipt.transactionHash);
+    console.log("[Rebalance] Transaction included:", receipt.transactionHash);
 
     // POST-EXECUTION: Verify delegation is still active on-chain
     const { verifyDelegationAfterExecution } = await import("../zerodev/kernel-client");
     const delegationConfirmed = await verifyDelegationAfterExecution(
       smartAccountAddress,
-      receipt.receipt.transactionHash
+      receipt.transactionHash
     );
     if (!delegationConfirmed) {
       console.error("[Rebalance] WARNING: Delegation not confirmed after execution");
     }
 
     return {
-      taskId: receipt.receipt.transactionHash,
+      taskId: receipt.transactionHash,
       success: true,
+      simulation,
+      userOpHash,
+      receipt,
+      deferred,
     };
   } catch (error: any) {
+    if (userOpHash) {
+      // Submitted but unconfirmed here (receipt timeout, bundler error) — the
+      // receipt tracker picks it up from here
+      console.warn("[Rebalance] UserOp outcome unknown, leaving to tracker:", userOpHash, error);
+      return { taskId: "", success: true, simulation, userOpHash, deferred };
+    }
     console.error("[Rebalance] Execution error:", error);
     return {
       taskId: "",
@@ -268,33 +636,23 @@ export async function executeRebalance(
  */
 export async function simulateRebalance(
   smartAccountAddress: `0x${string}`,
-  params: RebalanceParams,
-  sessionPrivateKey: `0x${string}`
-): Promise<{ success: boolean; error?: string }> {
+  params: RebalanceParams | PortfolioRebalanceParams,
+  maxSlippage: number = DEFAULT_USER_STRATEGY.maxSlippageTolerance
+): Promise<SimulationReport | { success: false; error: string }> {
   try {
-    const calls = await buildRebalanceCalls(params);
-
-    // Simulate each call using eth_call to detect reverts before execution
-    const publicClient = createPublicClient({ chain: base, transport: http() });
-
-    for (let i = 0; i < calls.length; i++) {
-      try {
-        await publicClient.call({
-          to: calls[i].to,
-          data: calls[i].data,
-          account: smartAccountAddress,
-        });
-      } catch (simError: any) {
-        const stepNames = ["redeem", "approve", "deposit"];
-        return {
-          success: false,
-          error: `Simulation failed at step ${i + 1} (${stepNames[i] || "unknown"}): ${simError.message}`,
-        };
-      }
-    }
+    const { params: executable } = await checkExitLiquidity(params);
+    const plan = await buildRebalancePlan(executable);
+    const report = await simulateRebalancePlan({
+      publicClient: createPublicClient({ chain: base, transport: http() }),
+      account: smartAccountAddress,
+      plan,
+      maxSlippage,
+    });
 
-    console.log("[Rebalance] Simulation passed:", calls.length, "calls");
-    return { success: true };
+    if (report.success) {
+      console.log("[Rebalance] Simulation passed:", plan.calls.length, "calls");
+    }
+    return report;
   } catch (error: any) {
     return {
       success: false,
@@ -0,0 +1,983 @@
+/**
+ * Rebalance Worker
+ *
+ * Drains the durable rebalance job queue. Each claimed job re-reads its user,
+ * takes the per-user rebalance lock, evaluates and (outside simulation mode)
+ * executes a rebalance, then records the outcome on the job. Thrown errors
+ * and failed executions go back to the queue with backoff.
+ *
+ * Exits cut short by thin vault liquidity are queued as pending withdrawals;
+ * runPendingWithdrawals continues them on later cycles.
+ */
+
+import { neon } from "@neondatabase/serverless";
+import { formatUnits } from "viem";
+import { YieldDecisionEngine } from "@/lib/agent/decision-engine";
+import {
+  decisionMoves,
+  getPlatformExposure,
+  refreshPlatformExposure,
+  reserveExposure,
+} from "@/lib/agent/platform-exposure";
+import { executeRebalance, type RebalanceResult } from "@/lib/agent/rebalance-executor";
+import type { RedeemLeg } from "@/lib/agent/portfolio-optimizer";
+import type { SimulationReport } from "@/lib/agent/userop-simulation";
+import { initialTxStatus } from "@/lib/agent/userop-tracker";
+import {
+  buildRebalanceLedgerEntries,
+  recordLedgerEntries,
+  recordVaultEntry,
+  seedOpeningLots,
+} from "@/lib/agent/yield-ledger";
+import {
+  applyDeferredRedeems,
+  claimDueWithdrawals,
+  hasPendingExit,
+  queuePendingWithdrawal,
+  recordWithdrawalFailure,
+  recordWithdrawalProgress,
+  type PendingWithdrawal,
+} from "@/lib/agent/pending-withdrawals";
+import { executeVaultRedeem } from "@/lib/zerodev/vault-executor";
+import { decryptAuthorization } from "@/lib/security/session-encryption";
+import { isSessionRevoked } from "@/lib/security/session-revocation";
+import { expiredSessionReason, getRenewalStatus } from "@/lib/agent/session-renewal";
+import { acquireUserLock, releaseUserLock } from "@/lib/redis/distributed-lock";
+import { getUserOpCount, incrementUserOpCount } from "@/lib/redis/rate-limiter";
+import { parseUserStrategy } from "@/lib/agent/user-strategy";
+import {
+  claimRebalanceJobs,
+  completeRebalanceJob,
+  deadLetterExpiredJobs,
+  deferRebalanceJob,
+  failRebalanceJob,
+  DEFAULT_LEASE_SECONDS,
+  type JobResult,
+  type RebalanceJob,
+} from "@/lib/agent/job-queue";
+
+const USEROP_DAILY_LIMIT = 90;
+const CRON_USEROP_RESERVE = 3;
+const DEFAULT_CONCURRENCY = parseInt(process.env.CRON_CONCURRENCY || "10", 10);
+// Stop claiming new jobs well before the lease on in-flight ones runs out
+const DEFAULT_TIME_BUDGET_MS = parseInt(process.env.CRON_WORKER_BUDGET_MS || "240000", 10);
+
+function getSql() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is not configured");
+  }
+  return neon(databaseUrl);
+}
+
+export function createCronSummary(): CronSummary {
+  return { processed: 0, rebalanced: 0, skipped: 0, errors: 0, deadLettered: 0, details: [] };
+}
+
+// Helper function to check if session key is still valid
+function isSessionValid(expiry: number): boolean {
+  return expiry > Math.floor(Date.now() / 1000);
+}
+
+export interface CronSummary {
+  processed: number;
+  rebalanced: number;
+  skipped: number;
+  errors: number;
+  deadLettered: number; // Jobs that exhausted their retries this run
+  details: Array<{
+    address: string;
+    action: "rebalanced" | "skipped" | "error";
+    reason: string;
+    apyImprovement?: number;
+    taskId?: string;
+  }>;
+}
+
+export interface WithdrawalSummary {
+  processed: number;
+  progressed: number; // Part of the remainder redeemed
+  completed: number; // Remainder fully redeemed
+  waiting: number; // Still no liquidity (or user locked) — retried next cycle
+  failed: number; // Attempt failed
+  details: Array<{
+    id: string;
+    address: string;
+    outcome: "progressed" | "completed" | "waiting" | "error";
+    reason?: string;
+    txHash?: string;
+  }>;
+}
+
+export interface WorkerOptions {
+  concurrency?: number;
+  timeBudgetMs?: number;
+  leaseSeconds?: number;
+}
+
+/**
+ * Claim and process due jobs until the queue is empty or the time budget
+ * runs out. Safe to run from several invocations at once.
+ */
+export async function runRebalanceWorker(options: WorkerOptions = {}): Promise<CronSummary> {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const leaseSeconds = options.leaseSeconds ?? DEFAULT_LEASE_SECONDS;
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+  const summary = createCronSummary();
+
+  // Jobs that crashed or timed out on their last attempt never reach failRebalanceJob
+  summary.deadLettered += await deadLetterExpiredJobs();
+
+  // One position snapshot per cycle — every evaluation below measures against it
+  await refreshPlatformExposure();
+
+  while (Date.now() < deadline) {
+    const jobs = await claimRebalanceJobs(concurrency, leaseSeconds);
+    if (jobs.length === 0) break;
+
+    console.log(`[Worker] Claimed ${jobs.length} rebalance jobs`);
+    await Promise.all(jobs.map((job) => processRebalanceJob(job, summary)));
+  }
+
+  return summary;
+}
+
+/**
+ * Process a single claimed job and record its outcome on the queue
+ */
+export async function processRebalanceJob(job: RebalanceJob, summary: CronSummary): Promise<void> {
+  let user: any;
+  let lock: Awaited<ReturnType<typeof acquireUserLock>>;
+  try {
+    user = await loadEligibleUser(job.userId);
+    // Acquire per-user lock to prevent concurrent rebalances
+    lock = user ? await acquireUserLock(user.wallet_address) : { acquired: false };
+  } catch (error: any) {
+    // A transient DB or Redis error fails this job, not the whole worker run
+    const reason = error.message || "Unknown error loading job";
+    summary.errors++;
+    summary.details.push({ address: job.walletAddress, action: "error", reason });
+    console.error(`[Worker] Error loading job ${job.id} for ${job.walletAddress}:`, reason);
+    await recordFailure(job, reason, summary).catch((recordError) =>
+      console.error(`[Worker] Could not record failure of job ${job.id}:`, recordError)
+    );
+    return;
+  }
+
+  // User opted out (or was removed) after the cycle was enqueued
+  if (!user) {
+    const result: JobResult = {
+      action: "skipped",
+      reason: "User no longer eligible for auto-optimization",
+    };
+    summary.skipped++;
+    summary.details.push({ address: job.walletAddress, ...result });
+    await completeRebalanceJob(job, "skipped", result);
+    return;
+  }
+
+  // Another rebalance or withdrawal holds the lock; retry shortly without using an attempt
+  if (!lock.acquired) {
+    const result: JobResult = {
+      action: "skipped",
+      reason: "Rebalance already in progress (locked)",
+    };
+    summary.skipped++;
+    summary.details.push({ address: user.wallet_address, ...result });
+    await deferRebalanceJob(job, result);
+    return;
+  }
+
+  const jobSummary = createCronSummary();
+  try {
+    jobSummary.processed++;
+    await processUserRebalance(user, jobSummary, job.targetedVaults);
+
+    const result: JobResult = jobSummary.details[jobSummary.details.length - 1] ?? {
+      action: "skipped",
+      reason: "No outcome recorded",
+    };
+    if (result.action === "error") {
+      await recordFailure(job, result.reason, jobSummary, result);
+    } else {
+      await completeRebalanceJob(
+        job,
+        result.action === "rebalanced" ? "succeeded" : "skipped",
+        result
+      );
+    }
+  } catch (error: any) {
+    const reason = error.message || "Unknown error during processing";
+    jobSummary.errors++;
+    jobSummary.details.push({ address: user.wallet_address, action: "error", reason });
+    console.error(`[Worker] Error processing user ${user.wallet_address}:`, reason);
+    await recordFailure(job, reason, jobSummary);
+  } finally {
+    await releaseUserLock(user.wallet_address, lock.lockId!);
+    mergeSummary(summary, jobSummary);
+  }
+}
+
+/**
+ * The job's user, or undefined if they are no longer eligible for auto-optimization
+ */
+async function loadEligibleUser(userId: string): Promise<any> {
+  const [user] = await getSql()`
+    SELECT
+      u.id,
+      u.wallet_address,
+      u.authorization_7702,
+      s.min_apy_gain_threshold,
+      s.max_slippage_tolerance,
+      s.risk_level
+    FROM users u
+    LEFT JOIN user_strategies s ON u.id = s.user_id
+    WHERE u.id = ${userId}
+      AND u.auto_optimize_enabled = true
+      AND u.authorization_7702 IS NOT NULL
+      AND u.agent_registered = true
+  `;
+  return user;
+}
+
+async function recordFailure(
+  job: RebalanceJob,
+  error: string,
+  summary: CronSummary,
+  result?: JobResult
+): Promise<void> {
+  const status = await failRebalanceJob(job, error, result);
+  if (status === "dead") {
+    summary.deadLettered++;
+    console.error(
+      `[Worker] Job ${job.id} for ${job.walletAddress} dead-lettered after ${job.attempts} attempts: ${error}`
+    );
+  }
+}
+
+function mergeSummary(target: CronSummary, source: CronSummary): void {
+  target.processed += source.processed;
+  target.rebalanced += source.rebalanced;
+  target.skipped += source.skipped;
+  target.errors += source.errors;
+  target.deadLettered += source.deadLettered;
+  target.details.push(...source.details);
+}
+
+/**
+ * Process rebalancing for a single user
+ */
+export async function processUserRebalance(
+  user: any,
+  summary: CronSummary,
+  targetedVaults?: string[] | null
+): Promise<void> {
+  const userAddress = user.wallet_address as `0x${string}`;
+  const userId = user.id;
+  const encryptedAuthorization = user.authorization_7702;
+
+  console.log(`[Worker] Processing ${userAddress}...`);
+
+  // 1. Validate session key
+  if (!encryptedAuthorization || encryptedAuthorization.type !== "zerodev-7702-session") {
+    summary.skipped++;
+    summary.details.push({
+      address: userAddress,
+      action: "skipped",
+      reason: "No valid ZeroDev session key found",
+    });
+    console.log(`[Worker] Skipped ${userAddress}: No session key`);
+    return;
+  }
+
+  // Decrypt authorization (only when needed for execution)
+  const authorization = decryptAuthorization(encryptedAuthorization);
+
+  // Check if session key expired — the reason tells a pending renewal from an abandoned one
+  if (!isSessionValid(authorization.expiry)) {
+    const renewalStatus = await getRenewalStatus("agent", authorization.sessionKeyAddress);
+    summary.skipped++;
+    summary.details.push({
+      address: userAddress,
+      action: "skipped",
+      reason: expiredSessionReason(renewalStatus),
+    });
+    console.log(`[Worker] Skipped ${userAddress}: Session expired (renewal ${renewalStatus})`);
+    return;
+  }
+
+  // Check if session key has been explicitly revoked
+  if (await isSessionRevoked(authorization.sessionKeyAddress)) {
+    summary.skipped++;
+    summary.details.push({
+      address: userAddress,
+      action: "skipped",
+      reason: "Session key has been revoked",
+    });
+    console.log(`[Worker] Skipped ${userAddress}: Session revoked`);
+    return;
+  }
+
+  // Leave funds alone while the user is withdrawing them
+  if (await hasPendingExit(userAddress)) {
+    summary.skipped++;
+    summary.details.push({
+      address: userAddress,
+      action: "skipped",
+      reason: "Queued withdrawal in progress",
+    });
+    console.log(`[Worker] Skipped ${userAddress}: Withdrawal in progress`);
+    return;
+  }
+
+  // 2. Evaluate rebalancing across every protocol the session key can execute against,
+  //    using the user's strategy settings
+  const strategy = parseUserStrategy(user);
+  // Held to platform-wide exposure limits across every user's positions
+  const decisionEngine = new YieldDecisionEngine(
+    undefined,
+    undefined,
+    undefined,
+    getPlatformExposure
+  );
+  const decision = await decisionEngine.evaluateCrossProtocol(
+    userAddress,
+    targetedVaults,
+    strategy,
+    {
+      allowedProtocols: authorization.approvedProtocols ?? ["morpho"],
+      approvedVaults: authorization.approvedVaults,
+    }
+  );
+
+  // 3. Check if should rebalance
+  if (!decision.shouldRebalance) {
+    summary.skipped++;
+    summary.details.push({
+      address: userAddress,
+      action: "skipped",
+      reason: decision.reason,
+      apyImprovement: decision.apyImprovement,
+    });
+    console.log(`[Worker] Skipped ${userAddress}: ${decision.reason}`);
+    return;
+  }
+
+  // 4. Check simulation mode
+  const simulationMode = process.env.AGENT_SIMULATION_MODE === "true";
+
+  if (simulationMode) {
+    // Simulation mode - just log
+    console.log("[SIMULATION] Would execute rebalance:", {
+      user: userAddress,
+      from: decision.currentVault?.name,
+      to: decision.targetVault?.name,
+      apyImprovement: `${(decision.apyImprovement * 100).toFixed(2)}%`,
+      estimatedGain: `$${decision.estimatedAnnualGain.toFixed(2)}/year`,
+    });
+    await logSimulatedAction(userId, userAddress, decision);
+    summary.skipped++;
+    summary.details.push({
+      address: userAddress,
+      action: "skipped",
+      reason: "[SIMULATION] Rebalance simulated only",
+      apyImprovement: decision.apyImprovement,
+    });
+    return;
+  }
+
+  const opsUsed = await getUserOpCount(userAddress);
+  if (opsUsed >= USEROP_DAILY_LIMIT - CRON_USEROP_RESERVE) {
+    summary.skipped++;
+    summary.details.push({
+      address: userAddress,
+      action: "skipped",
+      reason: `UserOp budget low (${opsUsed}/${USEROP_DAILY_LIMIT} used)`,
+    });
+    console.log(
+      `[Worker] Skipping rebalance for ${userAddress}: budget low (${opsUsed}/${USEROP_DAILY_LIMIT} used)`
+    );
+    return;
+  }
+
+  // 5. Real execution via ZeroDev (using session key - no agent wallet needed!)
+  //    Other jobs in this cycle see the move as soon as it's decided; once the
+  //    action is logged, the platform exposure query picks it up from there.
+  const releaseExposure = reserveExposure(decisionMoves(decision));
+  let result: Awaited<ReturnType<typeof executeRebalanceTransaction>>;
+  try {
+    result = await executeRebalanceTransaction(
+      userId,
+      userAddress,
+      authorization,
+      decision,
+      strategy.maxSlippageTolerance
+    );
+  } finally {
+    releaseExposure();
+  }
+
+  if (result.success) {
+    summary.rebalanced++;
+    summary.details.push({
+      address: userAddress,
+      action: "rebalanced",
+      reason: decision.reason,
+      apyImprovement: decision.apyImprovement,
+      taskId: result.taskId,
+    });
+    console.log(`[Worker] ✓ Rebalanced ${userAddress}: Task ${result.taskId}`);
+    await incrementUserOpCount(userAddress);
+  } else {
+    summary.errors++;
+    summary.details.push({
+      address: userAddress,
+      action: "error",
+      reason: result.error || "Execution failed",
+    });
+    console.error(`[Worker] ✗ Failed ${userAddress}:`, result.error);
+  }
+}
+
+/**
+ * Execute a rebalance transaction via ZeroDev with session keys
+ */
+async function executeRebalanceTransaction(
+  userId: string,
+  userAddress: `0x${string}`,
+  authorization: any,
+  decision: any,
+  maxSlippage: number
+): Promise<{ success: boolean; taskId?: string; error?: string }> {
+  let simulation: SimulationReport | undefined;
+  let execution: RebalanceResult | undefined;
+  try {
+    // Validate decision
+    if (!decision.currentVault || !decision.targetVault) {
+      throw new Error("Invalid rebalance decision - missing vault data");
+    }
+
+    console.log(
+      `[Rebalance] Executing: ${decision.currentVault.name} → ${decision.targetVault.name}`
+    );
+    console.log(
+      `[Rebalance] APY: ${(decision.currentVault.apy * 100).toFixed(2)}% → ${(decision.targetVault.apy * 100).toFixed(2)}%`
+    );
+
+    // 1. Get session data from stored authorization
+    const serializedAccount = authorization.serializedAccount;
+    const sessionPrivateKey = authorization.sessionPrivateKey;
+    // EIP-7702: eoaAddress IS the smart account address (single address model)
+    const smartAccountAddress = authorization.eoaAddress;
+
+    if (!serializedAccount && !sessionPrivateKey) {
+      throw new Error(
+        "No serializedAccount or sessionPrivateKey in authorization. User must re-register."
+      );
+    }
+
+    // 2. Build rebalance parameters — portfolio decisions batch every leg into one UserOp
+    const rebalanceParams =
+      decision.legs?.redeems?.length > 0
+        ? {
+            userAddress,
+            redeems: decision.legs.redeems,
+            deposits: decision.legs.deposits,
+          }
+        : {
+            fromVault: decision.currentVault.address,
+            toVault: decision.targetVault.address,
+            shares: BigInt(decision.currentVault.shares),
+            assets: BigInt(decision.currentVault.assets),
+            userAddress,
+          };
+
+    console.log(`[Rebalance] Executing for account: ${smartAccountAddress}`);
+    console.log(`[Rebalance] Params:`, rebalanceParams);
+
+    // 3. Give vaults held from before the ledger an opening lot, so this
+    //    rebalance's exits aren't booked against a zero basis
+    await seedOpeningLots({
+      userId,
+      walletAddress: userAddress,
+      vaults:
+        decision.legs?.redeems?.length > 0
+          ? [...decision.legs.redeems, ...decision.legs.deposits].map((leg: any) => ({
+              vaultAddress: leg.vault,
+              protocol: leg.protocol,
+            }))
+          : [
+              {
+                vaultAddress: decision.currentVault.address,
+                protocol: decision.currentVault.protocol,
+              },
+              {
+                vaultAddress: decision.targetVault.address,
+                protocol: decision.targetVault.protocol,
+              },
+            ],
+    });
+
+    // 4. Execute via ZeroDev — prefer serialized account (new pattern)
+    const approvedVaults = authorization.approvedVaults as `0x${string}`[] | undefined;
+    const eip7702SignedAuth = authorization.eip7702SignedAuth;
+    const executionResult = await executeRebalance(
+      smartAccountAddress,
+      rebalanceParams,
+      sessionPrivateKey as `0x${string}`,
+      approvedVaults,
+      eip7702SignedAuth,
+      serializedAccount,
+      { maxSlippage }
+    );
+    simulation = executionResult.simulation;
+    execution = executionResult;
+
+    // 5. Log result to database — stays 'pending' until the receipt tracker confirms it.
+    //    With thin liquidity only part of the exit ran: log and ledger that part
+    //    and queue the rest for later cycles.
+    if (executionResult.success) {
+      const deferred = executionResult.deferred ?? [];
+      const executed = applyDeferredRedeems(decision, deferred);
+      const actionId = await logRebalanceAction(
+        userId,
+        userAddress,
+        executed,
+        executionResult.taskId,
+        "pending",
+        undefined,
+        simulation,
+        executionResult
+      );
+      await recordRebalanceLedger(userId, userAddress, actionId, executed, simulation);
+      await queueDeferredRedeems(userId, userAddress, decision, deferred, executionResult.taskId);
+
+      return {
+        success: true,
+        taskId: executionResult.taskId || executionResult.userOpHash,
+      };
+    } else {
+      throw new Error(executionResult.error || "Execution failed");
+    }
+  } catch (error: any) {
+    // Log failure to database
+    await logRebalanceAction(
+      userId,
+      userAddress,
+      decision,
+      execution?.taskId,
+      "failed",
+      error.message,
+      simulation,
+      execution
+    );
+
+    return {
+      success: false,
+      error: error.message,
+    };
+  }
+}
+
+/**
+ * Log rebalance action to database
+ * @returns The agent_actions row id
+ */
+async function logRebalanceAction(
+  userId: string,
+  userAddress: string,
+  decision: any,
+  taskId: string | undefined,
+  status: "pending" | "success" | "failed",
+  errorMessage?: string,
+  simulation?: SimulationReport,
+  execution?: Pick<RebalanceResult, "userOpHash" | "receipt" | "deferred">
+): Promise<string | undefined> {
+  const metadata = {
+    fromVault: decision.currentVault?.address,
+    toVault: decision.targetVault?.address,
+    fromApy: decision.currentVault?.apy || 0,
+    toApy: decision.targetVault?.apy || 0,
+    apyImprovement: decision.apyImprovement,
+    estimatedAnnualGain: decision.estimatedAnnualGain,
+    breakEvenDays: decision.breakEvenDays,
+    reason: decision.reason,
+    shares: decision.currentVault?.shares,
+    assets: decision.currentVault?.assets,
+    legs: decision.legs
+      ? {
+          redeems: decision.legs.redeems.map((leg: any) => ({
+            vault: leg.vault,
+            protocol: leg.protocol,
+            shares: leg.shares.toString(),
+            assets: leg.assets.toString(),
+          })),
+          deposits: decision.legs.deposits.map((leg: any) => ({
+            vault: leg.vault,
+            protocol: leg.protocol,
+            assets: leg.assets.toString(),
+          })),
+        }
+      : undefined,
+    // Pre-submission simulation: expected vs received assets, balances, slippage
+    simulation,
+    // Exit remainders left behind by thin liquidity (queued as pending withdrawals)
+    deferred: execution?.deferred?.map((leg) => ({
+      vault: leg.vault,
+      protocol: leg.protocol,
+      shares: leg.shares.toString(),
+      assets: leg.assets.toString(),
+    })),
+  };
+
+  // Portfolio rebalances move the sum of all redeem legs
+  const movedAssets: string | undefined = decision.legs?.redeems?.length
+    ? decision.legs.redeems
+        .reduce((sum: bigint, leg: any) => sum + BigInt(leg.assets), 0n)
+        .toString()
+    : decision.currentVault?.assets;
+
+  // Receipt tracking columns — only for UserOps that reached the bundler
+  const userOpHash = execution?.userOpHash ?? null;
+  const receipt = execution?.receipt;
+  const txStatus = userOpHash ? initialTxStatus(receipt) : null;
+
+  const rows = await getSql()`
+    INSERT INTO agent_actions (
+      user_id,
+      action_type,
+      status,
+      from_protocol,
+      to_protocol,
+      amount_usdc,
+      tx_hash,
+      error_message,
+      metadata,
+      user_op_hash,
+      tx_status,
+      gas_used,
+      sponsorship_cost_wei,
+      paymaster,
+      submitted_at,
+      included_at
+    ) VALUES (
+      ${userId},
+      'rebalance',
+      ${status},
+      ${decision.currentVault?.name || null},
+      ${decision.targetVault?.name || null},
+      ${movedAssets ? formatUnits(BigInt(movedAssets), 6) : null},
+      ${taskId || null},
+      ${errorMessage || null},
+      ${JSON.stringify(metadata)}::jsonb,
+      ${userOpHash},
+      ${txStatus},
+      ${receipt?.gasUsed ?? null},
+      ${receipt?.paymaster ? receipt.gasCost : null},
+      ${receipt?.paymaster ?? null},
+      ${userOpHash ? new Date().toISOString() : null},
+      ${receipt ? new Date().toISOString() : null}
+    )
+    RETURNING id
+  `;
+  return rows[0]?.id;
+}
+
+/**
+ * Append the rebalance legs to the yield ledger, linked to their action so
+ * they drop out if the UserOp reverts. Ledger failures never fail a rebalance.
+ */
+async function recordRebalanceLedger(
+  userId: string,
+  userAddress: string,
+  actionId: string | undefined,
+  decision: any,
+  simulation?: SimulationReport
+): Promise<void> {
+  try {
+    const entries = await buildRebalanceLedgerEntries(decision, simulation);
+    await recordLedgerEntries(
+      entries.map((entry) => ({
+        ...entry,
+        userId,
+        walletAddress: userAddress,
+        agentActionId: actionId ?? null,
+      }))
+    );
+  } catch (error) {
+    console.error(`[Worker] Failed to record ledger for ${userAddress}:`, error);
+  }
+}
+
+/**
+ * Queue the deferred part of a rebalance exit. The remainder follows the
+ * decision to its target — the largest deposit leg for portfolio moves.
+ */
+async function queueDeferredRedeems(
+  userId: string,
+  userAddress: string,
+  decision: any,
+  deferred: RedeemLeg[],
+  txHash?: string
+): Promise<void> {
+  if (deferred.length === 0) return;
+
+  const deposits: Array<{ vault: `0x${string}`; protocol?: any; assets: bigint }> =
+    decision.legs?.deposits ?? [];
+  const target = deposits.length
+    ? deposits.reduce((a, b) => (BigInt(b.assets) > BigInt(a.assets) ? b : a))
+    : { vault: decision.targetVault.address, protocol: decision.targetVault.protocol };
+  const planned: RedeemLeg[] = decision.legs?.redeems ?? [
+    {
+      vault: decision.currentVault.address,
+      shares: BigInt(decision.currentVault.shares),
+      assets: BigInt(decision.currentVault.assets),
+    },
+  ];
+
+  for (const leg of deferred) {
+    const original = planned.find((p) => p.vault.toLowerCase() === leg.vault.toLowerCase());
+    try {
+      await queuePendingWithdrawal({
+        userId,
+        walletAddress: userAddress,
+        source: "rebalance",
+        remainder: leg,
+        totalShares: original ? BigInt(original.shares) : leg.shares,
+        redeemedAssets: original ? BigInt(original.assets) - leg.assets : 0n,
+        target: { vault: target.vault, protocol: target.protocol },
+        txHash,
+      });
+      console.log(
+        `[Worker] Queued ${leg.shares} deferred shares of ${leg.vault} for ${userAddress}`
+      );
+    } catch (error) {
+      console.error(`[Worker] Failed to queue deferred exit for ${userAddress}:`, error);
+    }
+  }
+}
+
+/**
+ * Continue queued exits whose retry interval has passed. Each row redeems
+ * whatever its vault can pay out now; rows still short stay queued.
+ */
+export async function runPendingWithdrawals(
+  limit: number = DEFAULT_CONCURRENCY
+): Promise<WithdrawalSummary> {
+  const summary: WithdrawalSummary = {
+    processed: 0,
+    progressed: 0,
+    completed: 0,
+    waiting: 0,
+    failed: 0,
+    details: [],
+  };
+
+  const withdrawals = await claimDueWithdrawals(limit);
+  if (withdrawals.length > 0) {
+    console.log(`[Worker] Continuing ${withdrawals.length} pending withdrawals`);
+  }
+  await Promise.all(withdrawals.map((w) => processPendingWithdrawal(w, summary)));
+
+  return summary;
+}
+
+/**
+ * Continue one queued exit under the user's session key and rebalance lock
+ */
+export async function processPendingWithdrawal(
+  withdrawal: PendingWithdrawal,
+  summary: WithdrawalSummary
+): Promise<void> {
+  summary.processed++;
+  const address = withdrawal.walletAddress;
+
+  const fail = async (reason: string) => {
+    await recordWithdrawalFailure(withdrawal, reason);
+    summary.failed++;
+    summary.details.push({ id: withdrawal.id, address, outcome: "error", reason });
+    console.error(`[Worker] Pending withdrawal ${withdrawal.id} failed: ${reason}`);
+  };
+  const wait = (reason: string) => {
+    summary.waiting++;
+    summary.details.push({ id: withdrawal.id, address, outcome: "waiting", reason });
+  };
+
+  const [user] = await getSql()`
+    SELECT
+      u.id,
+      u.wallet_address,
+      u.authorization_7702,
+      s.min_apy_gain_threshold,
+      s.max_slippage_tolerance,
+      s.risk_level
+    FROM users u
+    LEFT JOIN user_strategies s ON u.id = s.user_id
+    WHERE u.id = ${withdrawal.userId}
+  `;
+  const encryptedAuthorization = user?.authorization_7702;
+  if (!encryptedAuthorization || encryptedAuthorization.type !== "zerodev-7702-session") {
+    return fail("No valid ZeroDev session key found");
+  }
+  const authorization = decryptAuthorization(encryptedAuthorization);
+  if (!isSessionValid(authorization.expiry)) {
+    return fail("Session key expired");
+  }
+  if (await isSessionRevoked(authorization.sessionKeyAddress)) {
+    return fail("Session key has been revoked");
+  }
+
+  const userAddress = user.wallet_address as `0x${string}`;
+  const strategy = parseUserStrategy(user);
+
+  const opsUsed = await getUserOpCount(userAddress);
+  if (opsUsed >= USEROP_DAILY_LIMIT - CRON_USEROP_RESERVE) {
+    return wait(`UserOp budget low (${opsUsed}/${USEROP_DAILY_LIMIT} used)`);
+  }
+
+  const lock = await acquireUserLock(userAddress);
+  if (!lock.acquired) {
+    return wait("Rebalance already in progress (locked)");
+  }
+
+  try {
+    let redeemed: { shares: bigint; assets: bigint; txHash?: string };
+
+    if (withdrawal.source === "redeem") {
+      const result = await executeVaultRedeem({
+        smartAccountAddress: authorization.eoaAddress,
+        vaultAddress: withdrawal.vaultAddress,
+        shares: withdrawal.remainingShares,
+        receiver: authorization.eoaAddress,
+        serializedAccount: authorization.serializedAccount,
+        sessionPrivateKey: authorization.sessionPrivateKey as `0x${string}` | undefined,
+        approvedVaults: authorization.approvedVaults as `0x${string}`[] | undefined,
+      });
+      if (!result.success) return await fail(result.error || "Vault redeem failed");
+      if (!result.redeemedShares) return wait("No withdrawable liquidity yet");
+
+      redeemed = {
+        shares: result.redeemedShares,
+        assets: (withdrawal.remainingAssets * result.redeemedShares) / withdrawal.remainingShares,
+        txHash: result.txHash,
+      };
+      await recordVaultEntry({
+        userId: withdrawal.userId,
+        walletAddress: userAddress,
+        vaultAddress: withdrawal.vaultAddress,
+        entryType: "withdraw",
+        shares: redeemed.shares,
+        txHash: redeemed.txHash,
+      });
+    } else {
+      if (!withdrawal.targetVaultAddress) return await fail("Queued rebalance has no target vault");
+
+      const leg: RedeemLeg = {
+        vault: withdrawal.vaultAddress,
+        protocol: withdrawal.protocol,
+        shares: withdrawal.remainingShares,
+        assets: withdrawal.remainingAssets,
+      };
+      const decision = {
+        currentVault: {
+          address: withdrawal.vaultAddress,
+          name: withdrawal.protocol,
+          apy: 0,
+          shares: leg.shares.toString(),
+          assets: leg.assets.toString(),
+        },
+        targetVault: {
+          address: withdrawal.targetVaultAddress,
+          name: withdrawal.targetProtocol,
+          apy: 0,
+        },
+        legs: {
+          redeems: [leg],
+          deposits: [
+            {
+              vault: withdrawal.targetVaultAddress,
+              protocol: withdrawal.targetProtocol ?? "morpho",
+              assets: leg.assets,
+            },
+          ],
+        },
+        apyImprovement: 0,
+        reason: `Continuing exit from ${withdrawal.vaultAddress} delayed by thin liquidity`,
+      };
+
+      const result = await executeRebalance(
+        authorization.eoaAddress,
+        { userAddress, redeems: decision.legs.redeems, deposits: decision.legs.deposits },
+        authorization.sessionPrivateKey as `0x${string}`,
+        authorization.approvedVaults as `0x${string}`[] | undefined,
+        authorization.eip7702SignedAuth,
+        authorization.serializedAccount,
+        { maxSlippage: strategy.maxSlippageTolerance }
+      );
+      if (!result.success) {
+        if (result.error?.includes("No withdrawable liquidity")) {
+          return wait("No withdrawable liquidity yet");
+        }
+        return await fail(result.error || "Execution failed");
+      }
+
+      const executed = applyDeferredRedeems(decision, result.deferred ?? []);
+      const actionId = await logRebalanceAction(
+        withdrawal.userId,
+        userAddress,
+        executed,
+        result.taskId,
+        "pending",
+        undefined,
+        result.simulation,
+        result
+      );
+      await recordRebalanceLedger(
+        withdrawal.userId,
+        userAddress,
+        actionId,
+        executed,
+        result.simulation
+      );
+      const [executedLeg] = executed.legs.redeems as RedeemLeg[];
+      redeemed = {
+        shares: executedLeg?.shares ?? 0n,
+        assets: executedLeg?.assets ?? 0n,
+        txHash: result.taskId || result.userOpHash,
+      };
+    }
+
+    await incrementUserOpCount(userAddress);
+    const status = await recordWithdrawalProgress(withdrawal, {
+      redeemedShares: redeemed.shares,
+      redeemedAssets: redeemed.assets,
+      txHash: redeemed.txHash,
+    });
+    const outcome = status === "completed" ? "completed" : "progressed";
+    summary[outcome]++;
+    summary.details.push({ id: withdrawal.id, address, outcome, txHash: redeemed.txHash });
+    console.log(`[Worker] Pending withdrawal ${withdrawal.id} ${outcome}`);
+  } catch (error: any) {
+    await fail(error.message || "Unknown error continuing withdrawal");
+  } finally {
+    await releaseUserLock(userAddress, lock.lockId!);
+  }
+}
+
+/**
+ * Log simulated action (for testing)
+ */
+async function logSimulatedAction(
+  userId: string,
+  userAddress: string,
+  decision: any
+): Promise<void> {
+  await logRebalanceAction(
+    userId,
+    userAddress,
+    decision,
+    "simulation_" + Date.now(),
+    "success",
+    undefined
+  );
+}
@@ -0,0 +1,231 @@
+/**
+ * Session Key Renewal
+ *
+ * Session keys expire after SESSION_KEY_EXPIRY_DAYS. Once per cron cycle,
+ * scanExpiringSessions opens a `pending` renewal for every agent or transfer
+ * key inside the renewal window. That row is the user's in-app notice.
+ * Storing a new key for the same wallet and kind marks it `renewed`.
+ * Expired keys nobody renews for RENEWAL_ABANDON_AFTER_SECONDS become
+ * `abandoned`, so the cron can tell "expired, renewal pending" (worth
+ * nudging) from "abandoned" (stop enqueueing).
+ *
+ * Agent keys renew with a single enable signature. The EOA is already
+ * delegated to Kernel, and the previous approvedVaults, approvedProtocols and
+ * policyConfig are reused (see renewAgentSession in lib/zerodev/client-secure.ts).
+ */
+
+import { neon } from "@neondatabase/serverless";
+
+export type SessionKind = "agent" | "transfer";
+export type RenewalStatus = "pending" | "renewed" | "abandoned";
+
+/** How a session looks to the user and the cron */
+export type SessionState = "active" | "expiring" | "expired_pending" | "abandoned";
+
+// Open a renewal this long before expiry
+export const RENEWAL_WINDOW_SECONDS = parseInt(
+  process.env.SESSION_RENEWAL_WINDOW_SECONDS || String(2 * 24 * 60 * 60),
+  10
+);
+// Give up on a renewal this long after expiry
+export const RENEWAL_ABANDON_AFTER_SECONDS = parseInt(
+  process.env.SESSION_RENEWAL_ABANDON_AFTER_SECONDS || String(14 * 24 * 60 * 60),
+  10
+);
+
+export interface SessionRenewal {
+  id: string;
+  sessionKind: SessionKind;
+  sessionKeyAddress: string;
+  expiresAt: string;
+  status: RenewalStatus;
+  notifiedAt: string;
+  dismissedAt: string | null;
+  renewedAt: string | null;
+  abandonedAt: string | null;
+}
+
+export interface RenewalScanSummary {
+  opened: number;
+  abandoned: number;
+}
+
+function getSql() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is not configured");
+  }
+  return neon(databaseUrl);
+}
+
+function toIso(value: unknown): string | null {
+  return value ? new Date(value as string).toISOString() : null;
+}
+
+function toRenewal(row: Record<string, any>): SessionRenewal {
+  return {
+    id: row.id,
+    sessionKind: row.session_kind,
+    sessionKeyAddress: row.session_key_address,
+    expiresAt: toIso(row.expires_at)!,
+    status: row.status,
+    notifiedAt: toIso(row.notified_at)!,
+    dismissedAt: toIso(row.dismissed_at),
+    renewedAt: toIso(row.renewed_at),
+    abandonedAt: toIso(row.abandoned_at),
+  };
+}
+
+/**
+ * Classify a session from its expiry (unix seconds) and renewal status
+ */
+export function classifySession(
+  expiry: number,
+  renewalStatus: RenewalStatus | null,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): SessionState {
+  if (expiry > nowSeconds) {
+    return expiry - nowSeconds <= RENEWAL_WINDOW_SECONDS ? "expiring" : "active";
+  }
+  if (renewalStatus === "abandoned" || nowSeconds - expiry > RENEWAL_ABANDON_AFTER_SECONDS) {
+    return "abandoned";
+  }
+  return "expired_pending";
+}
+
+/**
+ * Open renewals for keys entering the renewal window and abandon those left
+ * expired too long. Idempotent — run once per cron cycle.
+ */
+export async function scanExpiringSessions(now: Date = new Date()): Promise<RenewalScanSummary> {
+  const sql = getSql();
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  const horizon = nowSeconds + RENEWAL_WINDOW_SECONDS;
+
+  const agent = await sql`
+    INSERT INTO session_renewals (
+      user_id, wallet_address, session_kind, session_key_address, expires_at
+    )
+    SELECT
+      id,
+      lower(wallet_address),
+      'agent',
+      lower(authorization_7702->>'sessionKeyAddress'),
+      to_timestamp((authorization_7702->>'expiry')::bigint)
+    FROM users
+    WHERE authorization_7702->>'type' = 'zerodev-7702-session'
+      AND authorization_7702->>'sessionKeyAddress' IS NOT NULL
+      AND (authorization_7702->>'expiry')::bigint <= ${horizon}
+    ON CONFLICT (session_kind, session_key_address) DO NOTHING
+    RETURNING id
+  `;
+
+  const transfer = await sql`
+    INSERT INTO session_renewals (
+      user_id, wallet_address, session_kind, session_key_address, expires_at
+    )
+    SELECT
+      id,
+      lower(wallet_address),
+      'transfer',
+      lower(transfer_authorization->>'sessionKeyAddress'),
+      to_timestamp((transfer_authorization->>'expiry')::bigint)
+    FROM users
+    WHERE transfer_authorization->>'type' = 'zerodev-transfer-session'
+      AND transfer_authorization->>'sessionKeyAddress' IS NOT NULL
+      AND (transfer_authorization->>'expiry')::bigint <= ${horizon}
+    ON CONFLICT (session_kind, session_key_address) DO NOTHING
+    RETURNING id
+  `;
+
+  const cutoff = new Date((nowSeconds - RENEWAL_ABANDON_AFTER_SECONDS) * 1000).toISOString();
+  const abandoned = await sql`
+    UPDATE session_renewals
+    SET status = 'abandoned', abandoned_at = NOW(), updated_at = NOW()
+    WHERE status = 'pending'
+      AND expires_at <= ${cutoff}
+    RETURNING id
+  `;
+
+  const summary = { opened: agent.length + transfer.length, abandoned: abandoned.length };
+  if (summary.opened > 0 || summary.abandoned > 0) {
+    console.log("[SessionRenewal] Scan:", summary);
+  }
+  return summary;
+}
+
+/**
+ * Resolve open (or abandoned) renewals once the wallet stores a new key of
+ * the same kind. Called wherever a session key is registered.
+ */
+export async function recordSessionRenewed(
+  walletAddress: string,
+  kind: SessionKind,
+  newSessionKeyAddress: string
+): Promise<number> {
+  const rows = await getSql()`
+    UPDATE session_renewals
+    SET
+      status = 'renewed',
+      renewed_at = NOW(),
+      renewed_session_key_address = ${newSessionKeyAddress.toLowerCase()},
+      updated_at = NOW()
+    WHERE wallet_address = ${walletAddress.toLowerCase()}
+      AND session_kind = ${kind}
+      AND status IN ('pending', 'abandoned')
+      AND session_key_address <> ${newSessionKeyAddress.toLowerCase()}
+    RETURNING id
+  `;
+  return rows.length;
+}
+
+/**
+ * Renewal status of one key, or null when none has been opened
+ */
+export async function getRenewalStatus(
+  kind: SessionKind,
+  sessionKeyAddress: string
+): Promise<RenewalStatus | null> {
+  const rows = await getSql()`
+    SELECT status FROM session_renewals
+    WHERE session_kind = ${kind}
+      AND session_key_address = ${sessionKeyAddress.toLowerCase()}
+  `;
+  return rows[0]?.status ?? null;
+}
+
+/**
+ * A wallet's unresolved renewals — the in-app notices
+ */
+export async function getOpenRenewals(walletAddress: string): Promise<SessionRenewal[]> {
+  const rows = await getSql()`
+    SELECT * FROM session_renewals
+    WHERE wallet_address = ${walletAddress.toLowerCase()}
+      AND status IN ('pending', 'abandoned')
+    ORDER BY expires_at ASC
+  `;
+  return rows.map(toRenewal);
+}
+
+/**
+ * Hide a renewal notice. The renewal stays open, so the cron still reports it.
+ */
+export async function dismissRenewal(walletAddress: string, id: string): Promise<boolean> {
+  const rows = await getSql()`
+    UPDATE session_renewals
+    SET dismissed_at = NOW(), updated_at = NOW()
+    WHERE id = ${id}
+      AND wallet_address = ${walletAddress.toLowerCase()}
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Cron skip reason for an expired key
+ */
+export function expiredSessionReason(renewalStatus: RenewalStatus | null): string {
+  if (renewalStatus === "abandoned") return "Session key expired (renewal abandoned)";
+  if (renewalStatus === "pending") return "Session key expired (renewal pending)";
+  return "Session key expired";
+}
@@ -0,0 +1,262 @@
+/**
+ * Statement PDF Renderer
+ *
+ * Lays a MonthlyStatement out as a plain A4 PDF. Text-only documents need
+ * nothing beyond the standard Helvetica fonts every PDF reader ships with,
+ * so the file is assembled directly: one content stream per page plus the
+ * cross-reference table. Output is deterministic (no creation timestamps)
+ * so a regenerated statement is byte-identical.
+ */
+
+import type { MonthlyStatement } from "./statement";
+
+const PAGE_WIDTH = 595; // A4, points
+const PAGE_HEIGHT = 842;
+const MARGIN = 48;
+const LINE_HEIGHT = 14;
+
+interface TextRun {
+  x: number;
+  y: number;
+  size: number;
+  bold: boolean;
+  text: string;
+}
+
+/**
+ * PDF string literal: Latin-1 printable characters only, with the
+ * delimiters escaped
+ */
+function pdfString(text: string): string {
+  const ascii = text
+    .replace(/→/g, "->")
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+  return `(${ascii})`;
+}
+
+/**
+ * Flows text runs down the page, starting new pages as needed
+ */
+class PageLayout {
+  readonly pages: TextRun[][] = [[]];
+  private y = PAGE_HEIGHT - MARGIN;
+
+  private ensureSpace(lines: number) {
+    if (this.y - lines * LINE_HEIGHT < MARGIN) {
+      this.pages.push([]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  line(columns: Array<[x: number, text: string]>, options: { size?: number; bold?: boolean } = {}) {
+    const size = options.size ?? 9;
+    this.ensureSpace(1);
+    for (const [x, text] of columns) {
+      this.pages[this.pages.length - 1].push({
+        x: MARGIN + x,
+        y: this.y,
+        size,
+        bold: options.bold ?? false,
+        text,
+      });
+    }
+    this.y -= Math.max(LINE_HEIGHT, size + 4);
+  }
+
+  heading(text: string) {
+    this.gap();
+    this.ensureSpace(3);
+    this.line([[0, text]], { size: 12, bold: true });
+  }
+
+  gap() {
+    this.y -= LINE_HEIGHT / 2;
+  }
+}
+
+/**
+ * Assemble pages of text runs into a PDF file
+ */
+function buildPdf(pages: TextRun[][]): Uint8Array {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body); // Returns the 1-based object number
+
+  add("<< /Type /Catalog /Pages 2 0 R >>");
+  add(""); // Pages tree, filled in once page objects are numbered
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+  const pageRefs: number[] = [];
+  for (const runs of pages) {
+    const content = runs
+      .map(
+        (run) =>
+          `BT /${run.bold ? "F2" : "F1"} ${run.size} Tf ${run.x} ${run.y} Td ${pdfString(run.text)} Tj ET`
+      )
+      .join("\n");
+    const contentRef = add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    pageRefs.push(
+      add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentRef} 0 R >>`
+      )
+    );
+  }
+  objects[1] =
+    `<< /Type /Pages /Kids [${pageRefs.map((ref) => `${ref} 0 R`).join(" ")}] ` +
+    `/Count ${pageRefs.length} >>`;
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  // Every byte is ASCII, so string offsets are byte offsets
+  return new TextEncoder().encode(pdf);
+}
+
+const money = (amount: string) => {
+  const value = Number(amount);
+  const sign = value < 0 ? "-" : "";
+  return `${sign}$${Math.abs(value).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+};
+
+const shortHash = (hash: string | null) =>
+  hash ? `${hash.slice(0, 10)}...${hash.slice(-6)}` : "-";
+
+const day = (iso: string) => iso.slice(0, 10);
+
+// Characters per line for the indented rebalance reason at 9pt Helvetica
+const REASON_WIDTH = 95;
+
+/**
+ * Greedy word wrap to `width` characters
+ */
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/)) {
+    if (current && current.length + word.length + 1 > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Render a monthly statement to PDF bytes
+ */
+export function renderStatementPdf(statement: MonthlyStatement): Uint8Array {
+  const layout = new PageLayout();
+
+  layout.line([[0, "Account Statement"]], { size: 18, bold: true });
+  layout.line([[0, `Period: ${day(statement.periodStart)} to ${day(statement.periodEnd)} (UTC)`]]);
+  layout.line([[0, `Account: ${statement.walletAddress}`]]);
+  layout.line([
+    [
+      0,
+      `Valued at Base blocks ${statement.openingBlock} and ${statement.closingBlock ?? "latest"}` +
+        (statement.partial ? " (month in progress)" : ""),
+    ],
+  ]);
+
+  layout.heading("Summary");
+  const summary: Array<[string, string]> = [
+    ["Opening balance", statement.openingBalance],
+    ["Deposits", statement.deposits],
+    ["Withdrawals", statement.withdrawals],
+    ["Transfers out", statement.transfersOut],
+    ["Yield earned", statement.yieldEarned],
+    ["Closing balance", statement.closingBalance],
+  ];
+  for (const [label, amount] of summary) {
+    layout.line([
+      [0, label],
+      [200, money(amount)],
+    ]);
+  }
+
+  layout.heading("Yield by Vault");
+  if (statement.vaults.length === 0) {
+    layout.line([[0, "No vault positions this month."]]);
+  } else {
+    layout.line(
+      [
+        [0, "Vault"],
+        [170, "Opening"],
+        [240, "In"],
+        [310, "Out"],
+        [380, "Closing"],
+        [450, "Yield"],
+      ],
+      { bold: true }
+    );
+    for (const vault of statement.vaults) {
+      layout.line([
+        [0, `${vault.protocol} ${shortHash(vault.vaultAddress)}`],
+        [170, money(vault.openingValue)],
+        [240, money(vault.inflows)],
+        [310, money(vault.outflows)],
+        [380, money(vault.closingValue)],
+        [450, money(vault.yieldEarned)],
+      ]);
+    }
+  }
+
+  layout.heading("Agent Rebalances");
+  if (statement.rebalances.length === 0) {
+    layout.line([[0, "The agent executed no rebalances this month."]]);
+  } else {
+    for (const rebalance of statement.rebalances) {
+      const apy =
+        rebalance.apyImprovement !== null
+          ? ` (+${(rebalance.apyImprovement * 100).toFixed(2)}% APY)`
+          : "";
+      layout.line(
+        [
+          [0, day(rebalance.date)],
+          [70, `${rebalance.fromProtocol ?? "-"} → ${rebalance.toProtocol ?? "-"}${apy}`],
+          [380, money(rebalance.amount)],
+          [450, shortHash(rebalance.txHash)],
+        ],
+        { bold: true }
+      );
+      for (const line of wrap(`Reason: ${rebalance.reason ?? "not recorded"}`, REASON_WIDTH)) {
+        layout.line([[70, line]]);
+      }
+    }
+  }
+
+  layout.heading("Transfers");
+  if (statement.transfers.length === 0) {
+    layout.line([[0, "No transfers this month."]]);
+  } else {
+    for (const transfer of statement.transfers) {
+      layout.line([
+        [0, day(transfer.date)],
+        [70, `To ${transfer.recipient ?? "unknown"}`],
+        [380, money(transfer.amount)],
+        [450, shortHash(transfer.txHash)],
+      ]);
+    }
+  }
+
+  return buildPdf(layout.pages);
+}
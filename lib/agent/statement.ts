@@ -0,0 +1,300 @@
+/**
+ * Monthly Account Statements
+ *
+ * Builds a calendar-month (UTC) statement for a wallet from the position
+ * ledger and agent_actions: opening and closing balance of the vault
+ * positions, deposits, withdrawals, transfers, yield per vault and every
+ * rebalance the agent executed with its stated reason.
+ *
+ * Balances are read at the Base block for each boundary, derived from the
+ * chain's fixed 2-second block time rather than "now", so regenerating a past
+ * month always values the same blocks. The current month closes at the latest
+ * block and is marked partial.
+ */
+
+import { neon } from "@neondatabase/serverless";
+import { formatUnits, parseAbi, parseUnits } from "viem";
+import { baseClient } from "@/lib/shared/rpc-client";
+import { ERC4626_PROTOCOLS, PROTOCOLS } from "@/lib/yield-optimizer/config";
+import type { ProtocolId } from "@/lib/yield-optimizer/types";
+import { getLedgerEntries, replayLedger, type VaultLedgerState } from "./yield-ledger";
+
+// Base mainnet genesis; blocks have been produced every 2 seconds since
+const BASE_GENESIS_TIMESTAMP = 1686789347;
+const BASE_BLOCK_TIME_SECONDS = 2;
+
+const MONTH_REGEX = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+const VALUATION_ABI = parseAbi([
+  "function convertToAssets(uint256 shares) view returns (uint256)",
+  "function exchangeRateStored() view returns (uint256)",
+  "function balanceOf(address account) view returns (uint256)",
+]);
+
+export interface StatementVaultLine {
+  vaultAddress: string;
+  protocol: ProtocolId;
+  openingValue: string;
+  closingValue: string;
+  inflows: string; // Deposits and rebalances in
+  outflows: string; // Withdrawals and rebalances out
+  yieldEarned: string; // closing - opening - inflows + outflows
+}
+
+export interface StatementRebalance {
+  date: string;
+  fromProtocol: string | null;
+  toProtocol: string | null;
+  amount: string;
+  apyImprovement: number | null;
+  reason: string | null;
+  txHash: string | null;
+}
+
+export interface StatementTransfer {
+  date: string;
+  recipient: string | null;
+  amount: string;
+  txHash: string | null;
+}
+
+export interface MonthlyStatement {
+  walletAddress: string;
+  month: string; // YYYY-MM
+  periodStart: string;
+  periodEnd: string;
+  partial: boolean; // Current month, closed at the latest block
+  openingBlock: string;
+  closingBlock: string | null; // null = latest
+  openingBalance: string;
+  closingBalance: string;
+  deposits: string;
+  withdrawals: string;
+  transfersOut: string;
+  yieldEarned: string;
+  vaults: StatementVaultLine[];
+  rebalances: StatementRebalance[];
+  transfers: StatementTransfer[];
+}
+
+function getSql() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is not configured");
+  }
+  return neon(databaseUrl);
+}
+
+const usdc = (amount: bigint) => formatUnits(amount, 6);
+
+/**
+ * [start, end) of a YYYY-MM month in UTC, or null if malformed
+ */
+export function parseStatementMonth(month: string): { start: Date; end: Date } | null {
+  const match = MONTH_REGEX.exec(month);
+  if (!match) return null;
+  const year = parseInt(match[1], 10);
+  const monthIndex = parseInt(match[2], 10) - 1;
+  return {
+    start: new Date(Date.UTC(year, monthIndex, 1)),
+    end: new Date(Date.UTC(year, monthIndex + 1, 1)),
+  };
+}
+
+/**
+ * Last Base block produced before `date`
+ */
+export function baseBlockAt(date: Date): bigint {
+  const seconds = Math.floor(date.getTime() / 1000) - BASE_GENESIS_TIMESTAMP;
+  return BigInt(Math.max(0, Math.floor((seconds - 1) / BASE_BLOCK_TIME_SECONDS)));
+}
+
+/**
+ * Value of one holding at a block: convertToAssets for ERC4626 vaults,
+ * mTokens × exchange rate for Moonwell, the rebasing aToken/Comet balance
+ * for Aave and Compound
+ */
+async function valueAt(
+  walletAddress: `0x${string}`,
+  state: VaultLedgerState,
+  blockNumber: bigint | undefined
+): Promise<bigint> {
+  if (state.sharesHeld === 0n) return 0n;
+
+  const vault = state.vaultAddress as `0x${string}`;
+  const { protocol } = state;
+
+  if (protocol === "morpho" || Object.hasOwn(ERC4626_PROTOCOLS, protocol)) {
+    return baseClient.readContract({
+      address: vault,
+      abi: VALUATION_ABI,
+      functionName: "convertToAssets",
+      args: [state.sharesHeld],
+      blockNumber,
+    });
+  }
+  if (protocol === "moonwell") {
+    const exchangeRate = await baseClient.readContract({
+      address: vault,
+      abi: VALUATION_ABI,
+      functionName: "exchangeRateStored",
+      blockNumber,
+    });
+    return (state.sharesHeld * exchangeRate) / 10n ** 18n;
+  }
+
+  const balanceToken = protocol === "aave" ? PROTOCOLS.aave.aUsdc : vault;
+  return baseClient.readContract({
+    address: balanceToken,
+    abi: VALUATION_ABI,
+    functionName: "balanceOf",
+    args: [walletAddress],
+    blockNumber,
+  });
+}
+
+/**
+ * Build the statement for one calendar month
+ */
+export async function buildMonthlyStatement(
+  walletAddress: `0x${string}`,
+  month: string,
+  now: Date = new Date()
+): Promise<MonthlyStatement> {
+  const period = parseStatementMonth(month);
+  if (!period) {
+    throw new Error("Invalid month, expected YYYY-MM");
+  }
+  if (period.start > now) {
+    throw new Error("Statement month has not started yet");
+  }
+
+  const partial = period.end > now;
+  const openingBlock = baseBlockAt(period.start);
+  const closingBlock = partial ? undefined : baseBlockAt(period.end);
+
+  const sql = getSql();
+  const [entries, actions] = await Promise.all([
+    getLedgerEntries(walletAddress),
+    sql`
+      SELECT
+        a.action_type,
+        a.from_protocol,
+        a.to_protocol,
+        a.amount_usdc,
+        a.tx_hash,
+        a.metadata,
+        a.created_at
+      FROM agent_actions a
+      JOIN users u ON u.id = a.user_id
+      WHERE lower(u.wallet_address) = ${walletAddress.toLowerCase()}
+        AND a.action_type IN ('rebalance', 'transfer')
+        AND a.status = 'success'
+        AND a.created_at >= ${period.start.toISOString()}
+        AND a.created_at < ${period.end.toISOString()}
+      ORDER BY a.created_at ASC
+    `,
+  ]);
+
+  const before = (date: Date) => entries.filter((e) => new Date(e.createdAt) < date);
+  const inPeriod = entries.filter((e) => {
+    const at = new Date(e.createdAt);
+    return at >= period.start && at < period.end;
+  });
+
+  // Exit proceeds the ledger has no basis for came from holdings the opening
+  // balance never included, so they are left out of yield
+  const unknownBasis = new Map<string, bigint>();
+  const opening = replayLedger(before(period.start));
+  const closing = replayLedger(
+    before(period.end),
+    undefined,
+    (entry, _cost, _realized, unknown) => {
+      if (unknown > 0n) unknownBasis.set(entry.id, unknown);
+    }
+  );
+
+  const vaults: StatementVaultLine[] = [];
+  let openingBalance = 0n;
+  let closingBalance = 0n;
+  let yieldEarned = 0n;
+
+  for (const closingState of closing) {
+    const openingState = opening.find((s) => s.vaultAddress === closingState.vaultAddress);
+    const flows = inPeriod.filter(
+      (e) => e.vaultAddress.toLowerCase() === closingState.vaultAddress
+    );
+    if (!flows.length && !openingState?.sharesHeld) continue;
+
+    const [openingValue, closingValue] = await Promise.all([
+      openingState ? valueAt(walletAddress, openingState, openingBlock) : Promise.resolve(0n),
+      valueAt(walletAddress, closingState, closingBlock),
+    ]);
+    const inflows = flows
+      .filter((e) => e.entryType === "deposit" || e.entryType === "rebalance_in")
+      .reduce((sum, e) => sum + e.assets, 0n);
+    const outflows = flows
+      .filter((e) => e.entryType === "withdraw" || e.entryType === "rebalance_out")
+      .reduce((sum, e) => sum + e.assets, 0n);
+    const unexplained = flows.reduce((sum, e) => sum + (unknownBasis.get(e.id) ?? 0n), 0n);
+    const earned = closingValue - openingValue - inflows + outflows - unexplained;
+
+    openingBalance += openingValue;
+    closingBalance += closingValue;
+    yieldEarned += earned;
+    vaults.push({
+      vaultAddress: closingState.vaultAddress,
+      protocol: closingState.protocol,
+      openingValue: usdc(openingValue),
+      closingValue: usdc(closingValue),
+      inflows: usdc(inflows),
+      outflows: usdc(outflows),
+      yieldEarned: usdc(earned),
+    });
+  }
+
+  const sumType = (type: string) =>
+    inPeriod.filter((e) => e.entryType === type).reduce((sum, e) => sum + e.assets, 0n);
+
+  const rebalances: StatementRebalance[] = actions
+    .filter((a: Record<string, any>) => a.action_type === "rebalance")
+    .map((a: Record<string, any>) => ({
+      date: new Date(a.created_at).toISOString(),
+      fromProtocol: a.from_protocol ?? null,
+      toProtocol: a.to_protocol ?? null,
+      amount: String(a.amount_usdc ?? "0"),
+      apyImprovement: a.metadata?.apyImprovement ?? null,
+      reason: a.metadata?.reason ?? null,
+      txHash: a.tx_hash ?? null,
+    }));
+
+  const transfers: StatementTransfer[] = actions
+    .filter((a: Record<string, any>) => a.action_type === "transfer")
+    .map((a: Record<string, any>) => ({
+      date: new Date(a.created_at).toISOString(),
+      recipient: a.metadata?.recipient ?? null,
+      amount: String(a.amount_usdc ?? "0"),
+      txHash: a.tx_hash ?? null,
+    }));
+
+  const transfersOut = transfers.reduce((sum, t) => sum + parseUnits(t.amount, 6), 0n);
+
+  return {
+    walletAddress: walletAddress.toLowerCase(),
+    month,
+    periodStart: period.start.toISOString(),
+    periodEnd: period.end.toISOString(),
+    partial,
+    openingBlock: openingBlock.toString(),
+    closingBlock: closingBlock?.toString() ?? null,
+    openingBalance: usdc(openingBalance),
+    closingBalance: usdc(closingBalance),
+    deposits: usdc(sumType("deposit")),
+    withdrawals: usdc(sumType("withdraw")),
+    transfersOut: usdc(transfersOut),
+    yieldEarned: usdc(yieldEarned),
+    vaults,
+    rebalances,
+    transfers,
+  };
+}
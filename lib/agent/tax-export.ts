@@ -0,0 +1,305 @@
+/**
+ * Tax Export
+ *
+ * Year-end records for a wallet: position ledger lots (vault deposits,
+ * redeems and rebalance legs, each with shares, cost basis and realized
+ * income), gasless USDC transfers, and settled rebalances that predate the
+ * ledger. Cost basis is always replayed over the full history so rows in a
+ * date range carry the same basis they would in an all-time export.
+ *
+ * Exits the ledger has no basis for (holdings from before it existed) and
+ * pre-ledger rebalances are flagged `basisUnknown` and their proceeds kept
+ * out of realized income, rather than reported with a zero basis.
+ */
+
+import { neon } from "@neondatabase/serverless";
+import { formatUnits, parseUnits } from "viem";
+import { getLedgerEntries, toCostBasisLots, type LedgerEntryType } from "./yield-ledger";
+
+export type TaxRowType = LedgerEntryType | "transfer" | "rebalance";
+
+export interface TaxRow {
+  date: string; // ISO timestamp
+  type: TaxRowType;
+  txHash: string | null;
+  protocol: string | null;
+  vaultAddress: string | null;
+  shares: string | null; // Raw share units
+  usdcAmount: string; // Decimal USDC
+  costBasis: string | null; // Decimal USDC; null when no part of the basis is known
+  realizedIncome: string | null; // Decimal USDC; null when no part of the basis is known
+  basisUnknown: boolean;
+  unknownBasisProceeds: string; // Decimal USDC of the amount with no recorded basis
+  counterparty: string | null; // Transfer recipient
+}
+
+export interface TaxYearSummary {
+  year: number;
+  deposits: string; // Principal contributed (deposits)
+  withdrawals: string; // Proceeds of vault exits (withdraws)
+  rebalanceVolume: string; // Proceeds moved between vaults
+  transfersOut: string;
+  costBasis: string; // Basis released by exits
+  realizedIncome: string;
+  unknownBasisProceeds: string; // Exit proceeds with no recorded basis; not income
+  unknownBasisRows: number;
+  transactions: number;
+}
+
+export interface TaxExport {
+  walletAddress: string;
+  from: string | null;
+  to: string | null;
+  rows: TaxRow[];
+  years: TaxYearSummary[];
+}
+
+export interface TaxExportRange {
+  from?: Date; // Inclusive
+  to?: Date; // Exclusive
+}
+
+function getSql() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is not configured");
+  }
+  return neon(databaseUrl);
+}
+
+const usdc = (amount: bigint) => formatUnits(amount, 6);
+
+/**
+ * Chronological tax rows for a wallet, limited to `range`
+ */
+export async function buildTaxExport(
+  walletAddress: string,
+  range: TaxExportRange = {}
+): Promise<TaxExport> {
+  const sql = getSql();
+  const [entries, actions] = await Promise.all([
+    getLedgerEntries(walletAddress),
+    sql`
+      SELECT
+        a.action_type,
+        a.amount_usdc,
+        a.tx_hash,
+        a.from_protocol,
+        a.to_protocol,
+        a.metadata,
+        a.created_at
+      FROM agent_actions a
+      JOIN users u ON u.id = a.user_id
+      WHERE lower(u.wallet_address) = ${walletAddress.toLowerCase()}
+        AND a.status = 'success'
+        AND (
+          a.action_type = 'transfer'
+          OR (
+            a.action_type = 'rebalance'
+            AND NOT EXISTS (SELECT 1 FROM position_ledger l WHERE l.agent_action_id = a.id)
+          )
+        )
+      ORDER BY a.created_at ASC
+    `,
+  ]);
+
+  const ledgerRows: TaxRow[] = toCostBasisLots(entries).map((lot) => {
+    const noKnownBasis = lot.unknownBasisProceeds > 0n && lot.unknownBasisProceeds === lot.assets;
+    return {
+      date: lot.createdAt,
+      type: lot.entryType,
+      txHash: lot.txHash,
+      protocol: lot.protocol,
+      vaultAddress: lot.vaultAddress,
+      shares: lot.shares.toString(),
+      usdcAmount: usdc(lot.assets),
+      costBasis: noKnownBasis ? null : usdc(lot.costBasis),
+      realizedIncome: noKnownBasis ? null : usdc(lot.realizedIncome),
+      basisUnknown: lot.unknownBasisProceeds > 0n,
+      unknownBasisProceeds: usdc(lot.unknownBasisProceeds),
+      counterparty: null,
+    };
+  });
+
+  // Transfers move USDC at par; rebalances without ledger legs have no share
+  // data or basis
+  const actionRows: TaxRow[] = actions.map((action: Record<string, any>) => {
+    const amount = usdc(parseUnits(String(action.amount_usdc ?? "0"), 6));
+    const isTransfer = action.action_type === "transfer";
+    return {
+      date: new Date(action.created_at).toISOString(),
+      type: isTransfer ? "transfer" : "rebalance",
+      txHash: action.tx_hash ?? null,
+      protocol: isTransfer ? null : `${action.from_protocol ?? ""} → ${action.to_protocol ?? ""}`,
+      vaultAddress: isTransfer ? null : (action.metadata?.toVault ?? null),
+      shares: null,
+      usdcAmount: amount,
+      costBasis: isTransfer ? amount : null,
+      realizedIncome: isTransfer ? "0" : null,
+      basisUnknown: !isTransfer,
+      unknownBasisProceeds: isTransfer ? "0" : amount,
+      counterparty: isTransfer ? (action.metadata?.recipient ?? null) : null,
+    };
+  });
+
+  const rows = [...ledgerRows, ...actionRows]
+    .filter((row) => {
+      const at = new Date(row.date);
+      return (!range.from || at >= range.from) && (!range.to || at < range.to);
+    })
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  return {
+    walletAddress: walletAddress.toLowerCase(),
+    from: range.from?.toISOString() ?? null,
+    to: range.to?.toISOString() ?? null,
+    rows,
+    years: summarizeTaxYears(rows),
+  };
+}
+
+/**
+ * Per calendar year (UTC) totals of the exported rows
+ */
+export function summarizeTaxYears(rows: TaxRow[]): TaxYearSummary[] {
+  const years = new Map<
+    number,
+    Record<
+      | "deposits"
+      | "withdrawals"
+      | "rebalanceVolume"
+      | "transfersOut"
+      | "costBasis"
+      | "income"
+      | "unknownBasis",
+      bigint
+    > & { transactions: number; unknownBasisRows: number }
+  >();
+
+  for (const row of rows) {
+    const year = new Date(row.date).getUTCFullYear();
+    let totals = years.get(year);
+    if (!totals) {
+      totals = {
+        deposits: 0n,
+        withdrawals: 0n,
+        rebalanceVolume: 0n,
+        transfersOut: 0n,
+        costBasis: 0n,
+        income: 0n,
+        unknownBasis: 0n,
+        transactions: 0,
+        unknownBasisRows: 0,
+      };
+      years.set(year, totals);
+    }
+
+    const amount = parseUnits(row.usdcAmount, 6);
+    totals.transactions++;
+    switch (row.type) {
+      case "deposit":
+        totals.deposits += amount;
+        break;
+      case "withdraw":
+        totals.withdrawals += amount;
+        break;
+      case "rebalance_out":
+      case "rebalance":
+        totals.rebalanceVolume += amount;
+        break;
+      case "transfer":
+        totals.transfersOut += amount;
+        continue; // At par — no basis released or income realized
+    }
+    if (row.basisUnknown) {
+      totals.unknownBasis += parseUnits(row.unknownBasisProceeds, 6);
+      totals.unknownBasisRows++;
+    }
+    if (row.type === "withdraw" || row.type === "rebalance_out") {
+      totals.costBasis += parseUnits(row.costBasis ?? "0", 6);
+      totals.income += parseUnits(row.realizedIncome ?? "0", 6);
+    }
+  }
+
+  return Array.from(years.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([year, totals]) => ({
+      year,
+      deposits: usdc(totals.deposits),
+      withdrawals: usdc(totals.withdrawals),
+      rebalanceVolume: usdc(totals.rebalanceVolume),
+      transfersOut: usdc(totals.transfersOut),
+      costBasis: usdc(totals.costBasis),
+      realizedIncome: usdc(totals.income),
+      unknownBasisProceeds: usdc(totals.unknownBasis),
+      unknownBasisRows: totals.unknownBasisRows,
+      transactions: totals.transactions,
+    }));
+}
+
+const CSV_COLUMNS: Array<[keyof TaxRow, string]> = [
+  ["date", "Date"],
+  ["type", "Type"],
+  ["txHash", "Tx Hash"],
+  ["protocol", "Protocol"],
+  ["vaultAddress", "Vault"],
+  ["shares", "Shares"],
+  ["usdcAmount", "USDC Amount"],
+  ["costBasis", "Cost Basis (USDC)"],
+  ["realizedIncome", "Realized Income (USDC)"],
+  ["basisUnknown", "Basis Unknown"],
+  ["unknownBasisProceeds", "Unknown Basis Amount (USDC)"],
+  ["counterparty", "Counterparty"],
+];
+
+function csvField(value: string | number | boolean | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Ledger rows as CSV, one row per transaction
+ */
+export function taxRowsToCsv(rows: TaxRow[]): string {
+  const lines = [CSV_COLUMNS.map(([, header]) => header).join(",")];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map(([key]) => csvField(row[key])).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Tax year summary as CSV
+ */
+export function taxYearsToCsv(years: TaxYearSummary[]): string {
+  const header = [
+    "Year",
+    "Deposits",
+    "Withdrawals",
+    "Rebalance Volume",
+    "Transfers Out",
+    "Cost Basis",
+    "Realized Income",
+    "Unknown Basis Proceeds",
+    "Unknown Basis Rows",
+    "Transactions",
+  ];
+  const lines = [header.join(",")];
+  for (const y of years) {
+    lines.push(
+      [
+        y.year,
+        y.deposits,
+        y.withdrawals,
+        y.rebalanceVolume,
+        y.transfersOut,
+        y.costBasis,
+        y.realizedIncome,
+        y.unknownBasisProceeds,
+        y.unknownBasisRows,
+        y.transactions,
+      ].join(",")
+    );
+  }
+  return lines.join("\n") + "\n";
+}
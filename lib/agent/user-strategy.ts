@@ -0,0 +1,141 @@
+/**
+ * Per-User Rebalancing Strategy
+ *
+ * Maps rows from the `user_strategies` table into the shape consumed by
+ * YieldDecisionEngine. Thresholds are stored as percentages in the database
+ * (e.g. "0.5" = 0.5%) and converted to decimals here (0.005).
+ */
+
+import { REBALANCE_THRESHOLDS } from "../yield-optimizer/config";
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export interface UserStrategy {
+  minApyGainThreshold: number; // Decimal, e.g. 0.005 = 0.5%
+  maxSlippageTolerance: number; // Decimal, e.g. 0.005 = 0.5%
+  riskLevel: RiskLevel;
+}
+
+export const RISK_LEVELS: readonly RiskLevel[] = ["low", "medium", "high"] as const;
+
+// Bounds for user-editable values (percent units, as stored in the DB)
+export const STRATEGY_LIMITS = {
+  minApyGainThresholdPct: { min: 0.1, max: 10 },
+  maxSlippageTolerancePct: { min: 0.05, max: 5 },
+} as const;
+
+export const DEFAULT_USER_STRATEGY: UserStrategy = {
+  minApyGainThreshold: REBALANCE_THRESHOLDS.minApyImprovement,
+  maxSlippageTolerance: 0.005,
+  riskLevel: "medium",
+};
+
+/**
+ * Check whether a vault risk level is acceptable for the user's risk level.
+ * A "medium" user accepts low and medium vaults, "high" accepts everything.
+ */
+export function isRiskAccepted(vaultRisk: RiskLevel, userRisk: RiskLevel): boolean {
+  return RISK_LEVELS.indexOf(vaultRisk) <= RISK_LEVELS.indexOf(userRisk);
+}
+
+function parsePct(value: unknown, fallback: number): number {
+  if (value === null || value === undefined || value === "") return fallback;
+  const parsed = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed / 100 : fallback;
+}
+
+/**
+ * Build a UserStrategy from a raw `user_strategies` row (snake_case columns).
+ * Missing or malformed values fall back to DEFAULT_USER_STRATEGY.
+ */
+export function parseUserStrategy(
+  row:
+    | {
+        min_apy_gain_threshold?: unknown;
+        max_slippage_tolerance?: unknown;
+        risk_level?: unknown;
+      }
+    | null
+    | undefined
+): UserStrategy {
+  if (!row) return { ...DEFAULT_USER_STRATEGY };
+
+  const riskLevel = RISK_LEVELS.includes(row.risk_level as RiskLevel)
+    ? (row.risk_level as RiskLevel)
+    : DEFAULT_USER_STRATEGY.riskLevel;
+
+  return {
+    minApyGainThreshold: parsePct(
+      row.min_apy_gain_threshold,
+      DEFAULT_USER_STRATEGY.minApyGainThreshold
+    ),
+    maxSlippageTolerance: parsePct(
+      row.max_slippage_tolerance,
+      DEFAULT_USER_STRATEGY.maxSlippageTolerance
+    ),
+    riskLevel,
+  };
+}
+
+/**
+ * Convert a UserStrategy to the percent-based representation used by the API and UI
+ */
+export function toStrategySettings(strategy: UserStrategy) {
+  return {
+    minApyGainThreshold: Number((strategy.minApyGainThreshold * 100).toFixed(4)),
+    maxSlippageTolerance: Number((strategy.maxSlippageTolerance * 100).toFixed(4)),
+    riskLevel: strategy.riskLevel,
+  };
+}
+
+export interface StrategyValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+/**
+ * Validate user-submitted strategy settings (percent units)
+ */
+export function validateStrategySettings(input: {
+  minApyGainThreshold?: unknown;
+  maxSlippageTolerance?: unknown;
+  riskLevel?: unknown;
+}): StrategyValidationResult {
+  const { minApyGainThresholdPct, maxSlippageTolerancePct } = STRATEGY_LIMITS;
+
+  if (input.minApyGainThreshold !== undefined) {
+    const value = input.minApyGainThreshold;
+    if (
+      typeof value !== "number" ||
+      !Number.isFinite(value) ||
+      value < minApyGainThresholdPct.min ||
+      value > minApyGainThresholdPct.max
+    ) {
+      return {
+        valid: false,
+        error: `minApyGainThreshold must be between ${minApyGainThresholdPct.min} and ${minApyGainThresholdPct.max} (%)`,
+      };
+    }
+  }
+
+  if (input.maxSlippageTolerance !== undefined) {
+    const value = input.maxSlippageTolerance;
+    if (
+      typeof value !== "number" ||
+      !Number.isFinite(value) ||
+      value < maxSlippageTolerancePct.min ||
+      value > maxSlippageTolerancePct.max
+    ) {
+      return {
+        valid: false,
+        error: `maxSlippageTolerance must be between ${maxSlippageTolerancePct.min} and ${maxSlippageTolerancePct.max} (%)`,
+      };
+    }
+  }
+
+  if (input.riskLevel !== undefined && !RISK_LEVELS.includes(input.riskLevel as RiskLevel)) {
+    return { valid: false, error: `riskLevel must be one of: ${RISK_LEVELS.join(", ")}` };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,236 @@
+/**
+ * Pre-Execution UserOp Simulation
+ *
+ * Runs a rebalance batch against the user's kernel account before it is
+ * submitted. The batch is replayed with eth_simulateV1 (sequential calls
+ * from the account, exactly as the kernel executes them) with USDC and
+ * destination share-token balance probes around it, so the assets actually
+ * released by the withdraw legs can be compared with what the decision
+ * planned to redeem. RPCs without eth_simulateV1 fall back to the bundler's
+ * simulateHandleOp-based gas estimation, which only detects reverts; that
+ * result fails closed unless the caller opts in to unchecked balances.
+ */
+
+import { encodeFunctionData, parseAbi, type PublicClient } from "viem";
+import { PROTOCOLS } from "../yield-optimizer/config";
+import type { RebalanceCall, RebalancePlan } from "./rebalance-executor";
+
+const USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as const;
+const BALANCE_ABI = parseAbi(["function balanceOf(address owner) view returns (uint256)"]);
+
+export interface SimulationReport {
+  method: "eth_simulateV1" | "bundler_estimate";
+  success: boolean;
+  balanceChecked: boolean; // false when only revert detection was possible
+  error?: string;
+  failedStep?: number; // 1-based index into plan.calls
+  maxSlippage: number;
+  expectedAssets: string; // previewRedeem of the withdraw legs
+  plannedAssets: string; // What the decision planned to redeem
+  receivedAssets?: string;
+  slippage?: number; // Shortfall of received vs planned assets, decimal
+  usdc?: { before: string; afterWithdraw: string; after: string };
+  shares?: Array<{ vault: string; token: string; before: string; after: string }>;
+}
+
+export interface SimulateRebalanceOptions {
+  publicClient: Pick<PublicClient, "simulateCalls">;
+  bundlerClient?: {
+    estimateUserOperationGas: (args: { calls: RebalanceCall[] }) => Promise<unknown>;
+  };
+  account: `0x${string}`;
+  plan: RebalancePlan;
+  maxSlippage: number; // Decimal, e.g. 0.005 = 0.5%
+  allowUncheckedBalances?: boolean; // Accept a revert-only bundler simulation
+}
+
+/**
+ * Token whose balance reflects a deposit into the destination position
+ */
+function shareTokenFor(protocol: string, vault: `0x${string}`): `0x${string}` {
+  if (protocol === "aave") return PROTOCOLS.aave.aUsdc;
+  if (protocol === "moonwell") return PROTOCOLS.moonwell.mUsdc;
+  return vault; // ERC-4626 vault shares, or the Comet's own balanceOf
+}
+
+function balanceProbe(token: `0x${string}`, account: `0x${string}`): RebalanceCall {
+  return {
+    to: token,
+    data: encodeFunctionData({ abi: BALANCE_ABI, functionName: "balanceOf", args: [account] }),
+    value: 0n,
+  };
+}
+
+function isUnsupportedMethod(error: any): boolean {
+  const message = `${error?.message ?? ""} ${error?.details ?? ""}`.toLowerCase();
+  return (
+    message.includes("eth_simulatev1") ||
+    message.includes("method not found") ||
+    message.includes("does not exist") ||
+    message.includes("not supported")
+  );
+}
+
+/**
+ * Simulate a rebalance batch and check expected-vs-actual assets.
+ *
+ * Fails when any call reverts, when the withdraw legs release less USDC
+ * than planned by more than maxSlippage, or when a deposit mints no shares.
+ */
+export async function simulateRebalancePlan(
+  options: SimulateRebalanceOptions
+): Promise<SimulationReport> {
+  const { publicClient, bundlerClient, account, plan, maxSlippage } = options;
+  const base = {
+    maxSlippage,
+    expectedAssets: plan.expectedAssets.toString(),
+    plannedAssets: plan.plannedAssets.toString(),
+  };
+
+  const depositTargets = plan.deposits
+    .filter((d) => d.amount > 0n)
+    .map((d) => ({ vault: d.vault, token: shareTokenFor(d.protocol, d.vault) }));
+  const shareProbes = depositTargets.map((d) => balanceProbe(d.token, account));
+  const usdcProbe = balanceProbe(USDC_ADDRESS, account);
+
+  // [usdc, shares...] [withdraws] [usdc] [deposits] [usdc, shares...]
+  const withdrawCalls = plan.calls.slice(0, plan.withdrawCallCount);
+  const depositCalls = plan.calls.slice(plan.withdrawCallCount);
+  const batch = [
+    usdcProbe,
+    ...shareProbes,
+    ...withdrawCalls,
+    usdcProbe,
+    ...depositCalls,
+    usdcProbe,
+    ...shareProbes,
+  ];
+  const probeOffset = 1 + shareProbes.length;
+  const midIndex = probeOffset + withdrawCalls.length;
+  const afterIndex = midIndex + 1 + depositCalls.length;
+
+  let results;
+  try {
+    ({ results } = await publicClient.simulateCalls({ account, calls: batch }));
+  } catch (error: any) {
+    if (!bundlerClient || !isUnsupportedMethod(error)) {
+      return {
+        ...base,
+        method: "eth_simulateV1",
+        success: false,
+        balanceChecked: false,
+        error: error.message,
+      };
+    }
+    return simulateWithBundler(bundlerClient, plan, base, options.allowUncheckedBalances ?? false);
+  }
+
+  // Map batch positions back to plan call indices for revert reporting
+  for (let i = 0; i < batch.length; i++) {
+    if (results[i]?.status === "success") continue;
+    const step =
+      i >= probeOffset && i < midIndex
+        ? i - probeOffset
+        : i > midIndex && i < afterIndex
+          ? withdrawCalls.length + (i - midIndex - 1)
+          : null;
+    return {
+      ...base,
+      method: "eth_simulateV1",
+      success: false,
+      balanceChecked: false,
+      ...(step !== null && { failedStep: step + 1 }),
+      error:
+        step !== null
+          ? `Call ${step + 1}/${plan.calls.length} reverted: ${results[i]?.error?.message ?? "unknown reason"}`
+          : `Balance probe failed: ${results[i]?.error?.message ?? "unknown reason"}`,
+    };
+  }
+
+  const balanceAt = (i: number) => BigInt(results[i].data === "0x" ? 0 : results[i].data);
+  const usdcBefore = balanceAt(0);
+  const usdcMid = balanceAt(midIndex);
+  const usdcAfter = balanceAt(afterIndex);
+  const receivedAssets = usdcMid - usdcBefore;
+  const shares = depositTargets.map((d, j) => ({
+    vault: d.vault,
+    token: d.token,
+    before: balanceAt(1 + j),
+    after: balanceAt(afterIndex + 1 + j),
+  }));
+
+  const shortfall =
+    plan.plannedAssets > 0n && receivedAssets < plan.plannedAssets
+      ? Number(plan.plannedAssets - receivedAssets) / Number(plan.plannedAssets)
+      : 0;
+
+  const report: SimulationReport = {
+    ...base,
+    method: "eth_simulateV1",
+    success: true,
+    balanceChecked: true,
+    receivedAssets: receivedAssets.toString(),
+    slippage: shortfall,
+    usdc: {
+      before: usdcBefore.toString(),
+      afterWithdraw: usdcMid.toString(),
+      after: usdcAfter.toString(),
+    },
+    shares: shares.map((s) => ({
+      vault: s.vault,
+      token: s.token,
+      before: s.before.toString(),
+      after: s.after.toString(),
+    })),
+  };
+
+  if (shortfall > maxSlippage) {
+    return {
+      ...report,
+      success: false,
+      error: `Received ${receivedAssets} assets vs ${plan.plannedAssets} planned (${(shortfall * 100).toFixed(2)}% slippage exceeds ${(maxSlippage * 100).toFixed(2)}% tolerance)`,
+    };
+  }
+
+  const unminted = shares.find((s) => s.after <= s.before);
+  if (unminted) {
+    return { ...report, success: false, error: `Deposit into ${unminted.vault} minted no shares` };
+  }
+
+  return report;
+}
+
+/**
+ * Revert-only fallback: the bundler simulates handleOps while estimating gas.
+ * Slippage can't be checked this way, so a clean run only passes when the
+ * caller allows unchecked balances.
+ */
+async function simulateWithBundler(
+  bundlerClient: NonNullable<SimulateRebalanceOptions["bundlerClient"]>,
+  plan: RebalancePlan,
+  base: Pick<SimulationReport, "maxSlippage" | "expectedAssets" | "plannedAssets">,
+  allowUncheckedBalances: boolean
+): Promise<SimulationReport> {
+  try {
+    await bundlerClient.estimateUserOperationGas({ calls: plan.calls });
+    if (!allowUncheckedBalances) {
+      return {
+        ...base,
+        method: "bundler_estimate",
+        success: false,
+        balanceChecked: false,
+        error: "eth_simulateV1 unavailable — balances and slippage could not be checked",
+      };
+    }
+    console.warn("[Simulation] eth_simulateV1 unavailable — checked reverts only, not balances");
+    return { ...base, method: "bundler_estimate", success: true, balanceChecked: false };
+  } catch (error: any) {
+    return {
+      ...base,
+      method: "bundler_estimate",
+      success: false,
+      balanceChecked: false,
+      error: `UserOp simulation reverted: ${error.shortMessage || error.message}`,
+    };
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * UserOp Receipt Tracker
+ *
+ * Follows submitted rebalance UserOps to finality. agent_actions rows carry
+ * the UserOp hash and move submitted → included → confirmed (or reverted) as
+ * the bundler's eth_getUserOperationReceipt and the chain head advance. The
+ * row's `status` stays 'pending' until the op is confirmed ('success') or
+ * reverted ('failed'), so gains and activity stats only count settled work.
+ *
+ * Operations the bundler hasn't landed after STUCK_AFTER_MS are flagged
+ * 'stuck' but still polled for a day in case they land late; after
+ * DROPPED_AFTER_MS they are 'dropped' and the action fails.
+ */
+
+import { neon } from "@neondatabase/serverless";
+import { createPublicClient, http, zeroAddress, type Hash } from "viem";
+import { base } from "viem/chains";
+import { createBundlerClient, UserOperationReceiptNotFoundError } from "viem/account-abstraction";
+import { getBundlerUrl } from "@/lib/zerodev/kernel-client";
+import { CHAIN_CONFIG } from "@/lib/yield-optimizer/config";
+
+export type TxStatus = "submitted" | "included" | "confirmed" | "reverted" | "stuck" | "dropped";
+
+export const REQUIRED_CONFIRMATIONS = parseInt(process.env.USEROP_CONFIRMATIONS || "5", 10);
+export const STUCK_AFTER_MS = parseInt(process.env.USEROP_STUCK_AFTER_MS || "900000", 10); // 15 min
+export const DROPPED_AFTER_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_BATCH_LIMIT = 50;
+
+/**
+ * JSON-safe subset of a UserOperationReceipt
+ */
+export interface UserOpReceiptSummary {
+  success: boolean;
+  reason?: string;
+  transactionHash: string;
+  blockNumber: string;
+  gasUsed: string; // actualGasUsed
+  gasCost: string; // actualGasCost in wei
+  paymaster: string | null; // null when the account paid its own gas
+}
+
+export interface TrackedAction {
+  id: string;
+  userOpHash: string;
+  txStatus: TxStatus;
+  submittedAt: Date | string;
+}
+
+export type TxTransition =
+  | {
+      txStatus: "included" | "confirmed" | "reverted";
+      receipt: UserOpReceiptSummary;
+      confirmations: number;
+    }
+  | { txStatus: "submitted" | "stuck" | "dropped"; receipt: null };
+
+export interface TrackerSummary {
+  checked: number;
+  included: number;
+  confirmed: number;
+  reverted: number;
+  stuck: number;
+  dropped: number;
+  errors: number;
+}
+
+export interface TrackerOptions {
+  limit?: number;
+  bundlerClient?: { getUserOperationReceipt: (args: { hash: Hash }) => Promise<any> };
+  publicClient?: { getBlockNumber: () => Promise<bigint> };
+}
+
+function getSql() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is not configured");
+  }
+  return neon(databaseUrl);
+}
+
+/**
+ * Normalize a bundler receipt. Falls back to the transaction's gasUsed for
+ * bundlers that omit actualGasUsed.
+ */
+export function summarizeReceipt(receipt: {
+  success: boolean;
+  reason?: string;
+  actualGasUsed?: bigint;
+  actualGasCost?: bigint;
+  paymaster?: string;
+  receipt: { transactionHash: string; blockNumber: bigint; gasUsed?: bigint };
+}): UserOpReceiptSummary {
+  const paymaster =
+    receipt.paymaster && receipt.paymaster.toLowerCase() !== zeroAddress ? receipt.paymaster : null;
+  return {
+    success: receipt.success,
+    ...(receipt.reason && { reason: receipt.reason }),
+    transactionHash: receipt.receipt.transactionHash,
+    blockNumber: receipt.receipt.blockNumber.toString(),
+    gasUsed: (receipt.actualGasUsed ?? receipt.receipt.gasUsed ?? 0n).toString(),
+    gasCost: (receipt.actualGasCost ?? 0n).toString(),
+    paymaster,
+  };
+}
+
+/**
+ * Initial tx_status for a freshly submitted UserOp
+ */
+export function initialTxStatus(receipt?: UserOpReceiptSummary): TxStatus {
+  if (!receipt) return "submitted";
+  return receipt.success ? "included" : "reverted";
+}
+
+/**
+ * Decide the next state for an in-flight action, or null when nothing changed.
+ *
+ * - A reverted receipt is final.
+ * - A successful receipt is 'included' until it is REQUIRED_CONFIRMATIONS
+ *   deep (its own block counts as one), then 'confirmed'.
+ * - No receipt: 'included' ops were reorged out and go back to 'submitted';
+ *   'submitted' ops older than STUCK_AFTER_MS become 'stuck', and 'stuck'
+ *   ops older than DROPPED_AFTER_MS are 'dropped' (final).
+ */
+export function nextTxState(
+  action: Pick<TrackedAction, "txStatus" | "submittedAt">,
+  receipt: UserOpReceiptSummary | null,
+  headBlock: bigint,
+  now: number = Date.now()
+): TxTransition | null {
+  if (!receipt) {
+    if (action.txStatus === "included") {
+      return { txStatus: "submitted", receipt: null };
+    }
+    const age = now - new Date(action.submittedAt).getTime();
+    if (action.txStatus === "submitted" && age >= STUCK_AFTER_MS) {
+      return { txStatus: "stuck", receipt: null };
+    }
+    if (action.txStatus === "stuck" && age >= DROPPED_AFTER_MS) {
+      return { txStatus: "dropped", receipt: null };
+    }
+    return null;
+  }
+
+  const confirmations = Math.max(0, Number(headBlock - BigInt(receipt.blockNumber)) + 1);
+  if (!receipt.success) {
+    return { txStatus: "reverted", receipt, confirmations };
+  }
+  if (confirmations >= REQUIRED_CONFIRMATIONS) {
+    return { txStatus: "confirmed", receipt, confirmations };
+  }
+  return action.txStatus === "included" ? null : { txStatus: "included", receipt, confirmations };
+}
+
+function createTrackerClients() {
+  return {
+    bundlerClient: createBundlerClient({ chain: base, transport: http(getBundlerUrl()) }),
+    publicClient: createPublicClient({ chain: base, transport: http(CHAIN_CONFIG.rpcUrl) }),
+  };
+}
+
+async function fetchReceipt(
+  bundlerClient: NonNullable<TrackerOptions["bundlerClient"]>,
+  hash: string
+): Promise<UserOpReceiptSummary | null> {
+  try {
+    const receipt = await bundlerClient.getUserOperationReceipt({ hash: hash as Hash });
+    return summarizeReceipt(receipt);
+  } catch (error) {
+    if (error instanceof UserOperationReceiptNotFoundError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Persist a transition. Guarded on the previous tx_status so concurrent
+ * tracker runs can't apply the same move twice.
+ */
+async function applyTransition(action: TrackedAction, transition: TxTransition): Promise<boolean> {
+  const receipt = transition.receipt;
+  const status =
+    transition.txStatus === "confirmed"
+      ? "success"
+      : transition.txStatus === "reverted" || transition.txStatus === "dropped"
+        ? "failed"
+        : "pending";
+  const errorMessage =
+    transition.txStatus === "reverted"
+      ? `UserOp reverted on-chain: ${receipt?.reason || "unknown reason"}`
+      : transition.txStatus === "stuck"
+        ? `UserOp not included after ${Math.round(STUCK_AFTER_MS / 60000)} minutes`
+        : transition.txStatus === "dropped"
+          ? `UserOp dropped: not included after ${Math.round(DROPPED_AFTER_MS / 3600000)} hours`
+          : null;
+
+  const rows = await getSql()`
+    UPDATE agent_actions
+    SET tx_status = ${transition.txStatus},
+        status = ${status},
+        tx_hash = ${receipt?.transactionHash ?? null},
+        gas_used = ${receipt?.gasUsed ?? null},
+        sponsorship_cost_wei = ${receipt?.paymaster ? receipt.gasCost : null},
+        paymaster = ${receipt?.paymaster ?? null},
+        error_message = ${errorMessage},
+        included_at = CASE WHEN ${receipt !== null}::boolean THEN COALESCE(included_at, NOW()) ELSE NULL END,
+        confirmed_at = CASE WHEN ${transition.txStatus}::text = 'confirmed' THEN NOW() ELSE NULL END
+    WHERE id = ${action.id}
+      AND tx_status = ${action.txStatus}
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Poll receipts for in-flight UserOps and advance their agent_actions rows
+ */
+export async function trackPendingUserOps(options: TrackerOptions = {}): Promise<TrackerSummary> {
+  const summary: TrackerSummary = {
+    checked: 0,
+    included: 0,
+    confirmed: 0,
+    reverted: 0,
+    stuck: 0,
+    dropped: 0,
+    errors: 0,
+  };
+
+  const rows = await getSql()`
+    SELECT id, user_op_hash, tx_status, submitted_at
+    FROM agent_actions
+    WHERE user_op_hash IS NOT NULL
+      AND tx_status IN ('submitted', 'included', 'stuck')
+    ORDER BY submitted_at ASC
+    LIMIT ${options.limit ?? DEFAULT_BATCH_LIMIT}
+  `;
+  if (rows.length === 0) return summary;
+
+  const clients =
+    options.bundlerClient && options.publicClient
+      ? { bundlerClient: options.bundlerClient, publicClient: options.publicClient }
+      : createTrackerClients();
+  const headBlock = await clients.publicClient.getBlockNumber();
+
+  for (const row of rows) {
+    const action: TrackedAction = {
+      id: row.id,
+      userOpHash: row.user_op_hash,
+      txStatus: row.tx_status,
+      submittedAt: row.submitted_at,
+    };
+    summary.checked++;
+
+    try {
+      const receipt = await fetchReceipt(clients.bundlerClient, action.userOpHash);
+      const transition = nextTxState(action, receipt, headBlock);
+      if (!transition || !(await applyTransition(action, transition))) continue;
+
+      if (transition.txStatus !== "submitted") summary[transition.txStatus]++;
+      console.log(
+        `[Tracker] ${action.userOpHash}: ${action.txStatus} → ${transition.txStatus}`,
+        transition.receipt ? { txHash: transition.receipt.transactionHash } : {}
+      );
+    } catch (error: any) {
+      summary.errors++;
+      console.error(`[Tracker] Failed to check ${action.userOpHash}:`, error.message);
+    }
+  }
+
+  return summary;
+}
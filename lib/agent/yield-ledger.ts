@@ -0,0 +1,574 @@
+/**
+ * Yield Ledger
+ *
+ * Records every deposit, withdraw and rebalance leg per vault with the shares
+ * and assets moved at the time, so earnings come from what actually happened
+ * rather than a constant-APY estimate. Replaying a wallet's ledger gives, per
+ * vault, the shares still held and the principal still invested (average
+ * cost). Exits book realized yield against the cost of the shares redeemed;
+ * unrealized yield is convertToAssets(shares held) minus remaining principal.
+ *
+ * Rebalance legs are written when the UserOp is submitted and linked to their
+ * agent_actions row, so legs of operations that later revert drop out.
+ *
+ * Positions opened before the ledger existed (or outside the app) get an
+ * opening `deposit` lot at their current value the first time the app touches
+ * the vault. Exits the ledger still can't explain are reported as unknown
+ * basis, never as yield.
+ */
+
+import { neon } from "@neondatabase/serverless";
+import { parseAbi } from "viem";
+import { baseClient } from "@/lib/shared/rpc-client";
+import { protocolRegistry } from "@/lib/protocols/adapter";
+import { ERC4626_PROTOCOLS } from "@/lib/yield-optimizer/config";
+import type { ProtocolId } from "@/lib/yield-optimizer/types";
+import type { SimulationReport } from "./userop-simulation";
+import type { DepositLeg, RedeemLeg } from "./portfolio-optimizer";
+
+export type LedgerEntryType = "deposit" | "withdraw" | "rebalance_in" | "rebalance_out";
+
+export interface LedgerEntryInput {
+  userId?: string | null;
+  walletAddress: string;
+  vaultAddress: string;
+  protocol: ProtocolId;
+  entryType: LedgerEntryType;
+  shares: bigint;
+  assets: bigint; // USDC, 6 decimals
+  txHash?: string | null;
+  agentActionId?: string | null;
+}
+
+export interface LedgerEntry {
+  id: string;
+  vaultAddress: string;
+  protocol: ProtocolId;
+  entryType: LedgerEntryType;
+  shares: bigint;
+  assets: bigint;
+  txHash: string | null;
+  agentActionId: string | null;
+  createdAt: string;
+}
+
+export interface VaultLedgerState {
+  vaultAddress: string;
+  protocol: ProtocolId;
+  sharesHeld: bigint;
+  principal: bigint; // Contributed principal still invested, at average cost
+  deposited: bigint; // Gross assets in (deposits + rebalance_in)
+  withdrawn: bigint; // Gross assets out (withdraws + rebalance_out)
+  realizedYield: bigint; // Exit proceeds minus the cost of the shares redeemed
+  periodRealizedYield: bigint; // Realized yield from exits on/after `since`
+  unknownBasisProceeds: bigint; // Exit proceeds for shares the ledger has no cost for
+}
+
+export interface VaultYield extends VaultLedgerState {
+  currentAssets: bigint;
+  unrealizedYield: bigint;
+  priced: boolean; // false when the current value could not be read
+}
+
+export interface LedgerLot extends LedgerEntry {
+  costBasis: bigint; // Assets paid in (entries) or the principal released (exits)
+  realizedIncome: bigint; // Exit proceeds minus cost basis; 0 for entries
+  unknownBasisProceeds: bigint; // Part of an exit's proceeds with no recorded basis
+}
+
+export interface YieldSummary {
+  deposited: bigint;
+  withdrawn: bigint;
+  netPrincipal: bigint;
+  currentValue: bigint;
+  realizedYield: bigint;
+  periodRealizedYield: bigint;
+  unrealizedYield: bigint;
+  totalYield: bigint; // realized + unrealized
+  unknownBasisProceeds: bigint; // Excluded from yield
+  vaults: VaultYield[];
+}
+
+const ERC4626_ABI = parseAbi([
+  "function balanceOf(address account) view returns (uint256)",
+  "function convertToAssets(uint256 shares) view returns (uint256)",
+  "function convertToShares(uint256 assets) view returns (uint256)",
+]);
+
+const MTOKEN_ABI = parseAbi(["function exchangeRateStored() view returns (uint256)"]);
+
+function getSql() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is not configured");
+  }
+  return neon(databaseUrl);
+}
+
+/**
+ * Morpho vaults and config-driven ERC4626 protocols price shares with
+ * convertToAssets; Aave, Moonwell and Compound positions are valued live
+ */
+function isErc4626(protocol: ProtocolId): boolean {
+  return protocol === "morpho" || Object.hasOwn(ERC4626_PROTOCOLS, protocol);
+}
+
+/**
+ * aToken and Comet balances grow in place, so an exit of more than the
+ * recorded balance is accrued interest rather than shares of unknown origin
+ */
+function isRebasing(protocol: ProtocolId): boolean {
+  return !isErc4626(protocol) && protocol !== "moonwell";
+}
+
+/**
+ * Position-token units minted for `assets`, in the same units as
+ * Position.shares (vault shares, mTokens, or USDC for rebasing markets)
+ */
+export async function sharesForAssets(
+  protocol: ProtocolId,
+  vaultAddress: `0x${string}`,
+  assets: bigint
+): Promise<bigint> {
+  if (isErc4626(protocol)) {
+    return baseClient.readContract({
+      address: vaultAddress,
+      abi: ERC4626_ABI,
+      functionName: "convertToShares",
+      args: [assets],
+    });
+  }
+  if (protocol === "moonwell") {
+    const exchangeRate = await baseClient.readContract({
+      address: vaultAddress,
+      abi: MTOKEN_ABI,
+      functionName: "exchangeRateStored",
+    });
+    return exchangeRate > 0n ? (assets * 10n ** 18n) / exchangeRate : 0n;
+  }
+  // aToken and Comet balances are denominated in USDC
+  return assets;
+}
+
+/**
+ * Convert ERC4626 shares to assets at the vault's current share price
+ */
+export async function convertToAssets(
+  vaultAddress: `0x${string}`,
+  shares: bigint
+): Promise<bigint> {
+  return baseClient.readContract({
+    address: vaultAddress,
+    abi: ERC4626_ABI,
+    functionName: "convertToAssets",
+    args: [shares],
+  });
+}
+
+/**
+ * Append entries to the ledger
+ */
+export async function recordLedgerEntries(entries: LedgerEntryInput[]): Promise<void> {
+  const sql = getSql();
+  for (const entry of entries) {
+    await sql`
+      INSERT INTO position_ledger (
+        user_id,
+        wallet_address,
+        vault_address,
+        protocol,
+        entry_type,
+        shares,
+        assets,
+        tx_hash,
+        agent_action_id
+      ) VALUES (
+        ${entry.userId ?? null},
+        ${entry.walletAddress.toLowerCase()},
+        ${entry.vaultAddress.toLowerCase()},
+        ${entry.protocol},
+        ${entry.entryType},
+        ${entry.shares.toString()},
+        ${entry.assets.toString()},
+        ${entry.txHash ?? null},
+        ${entry.agentActionId ?? null}
+      )
+    `;
+  }
+}
+
+/**
+ * Protocol id for an ERC4626 vault: a configured ERC4626_PROTOCOLS key, else Morpho
+ */
+function erc4626ProtocolFor(vaultAddress: string): ProtocolId {
+  const match = Object.entries(ERC4626_PROTOCOLS).find(([, config]) =>
+    config.vaults.some((v) => v.address.toLowerCase() === vaultAddress.toLowerCase())
+  );
+  return match?.[0] ?? "morpho";
+}
+
+/**
+ * Record a completed direct vault deposit or redeem (the /api/vault routes).
+ * Whichever of shares/assets the caller doesn't know is converted at the
+ * vault's current share price. Ledger failures never fail the operation.
+ */
+export async function recordVaultEntry(params: {
+  userId?: string | null;
+  walletAddress: string;
+  vaultAddress: `0x${string}`;
+  entryType: "deposit" | "withdraw";
+  shares?: bigint;
+  assets?: bigint;
+  txHash?: string;
+}): Promise<void> {
+  try {
+    const protocol = erc4626ProtocolFor(params.vaultAddress);
+    const assets = params.assets ?? (await convertToAssets(params.vaultAddress, params.shares!));
+    const shares =
+      params.shares ?? (await sharesForAssets(protocol, params.vaultAddress, params.assets!));
+
+    await recordLedgerEntries([
+      {
+        userId: params.userId,
+        walletAddress: params.walletAddress,
+        vaultAddress: params.vaultAddress,
+        protocol,
+        entryType: params.entryType,
+        shares,
+        assets,
+        txHash: params.txHash,
+      },
+    ]);
+  } catch (error) {
+    console.error(`[Yield Ledger] Failed to record ${params.entryType}:`, error);
+  }
+}
+
+/**
+ * Seed an opening `deposit` lot for each vault the wallet already holds but
+ * has no ledger history in, valued at the current share price (the live
+ * balance for lending markets). Call before the operation that first touches
+ * the vault, so its exits are measured against that value instead of a zero
+ * basis. Ledger failures never fail the operation.
+ */
+export async function seedOpeningLots(params: {
+  userId?: string | null;
+  walletAddress: `0x${string}`;
+  vaults: Array<{ vaultAddress: `0x${string}`; protocol?: ProtocolId }>;
+}): Promise<void> {
+  try {
+    const candidates = new Map<string, { vaultAddress: `0x${string}`; protocol: ProtocolId }>();
+    for (const vault of params.vaults) {
+      candidates.set(vault.vaultAddress.toLowerCase(), {
+        vaultAddress: vault.vaultAddress,
+        protocol: vault.protocol ?? erc4626ProtocolFor(vault.vaultAddress),
+      });
+    }
+    if (candidates.size === 0) return;
+
+    const tracked = await getSql()`
+      SELECT DISTINCT vault_address
+      FROM position_ledger
+      WHERE wallet_address = ${params.walletAddress.toLowerCase()}
+        AND vault_address = ANY(${Array.from(candidates.keys())})
+    `;
+    for (const row of tracked) candidates.delete(row.vault_address);
+    if (candidates.size === 0) return;
+
+    const untracked = Array.from(candidates.values());
+    const livePositions = untracked.some((v) => !isErc4626(v.protocol))
+      ? await protocolRegistry.getAllPositions(params.walletAddress)
+      : [];
+
+    const openings: LedgerEntryInput[] = [];
+    for (const vault of untracked) {
+      let shares: bigint;
+      let assets: bigint;
+      if (isErc4626(vault.protocol)) {
+        shares = await baseClient.readContract({
+          address: vault.vaultAddress,
+          abi: ERC4626_ABI,
+          functionName: "balanceOf",
+          args: [params.walletAddress],
+        });
+        assets = shares > 0n ? await convertToAssets(vault.vaultAddress, shares) : 0n;
+      } else {
+        const position = livePositions.find(
+          (p) => p.vaultAddress.toLowerCase() === vault.vaultAddress.toLowerCase()
+        );
+        shares = position?.shares ?? 0n;
+        assets = position?.assets ?? 0n;
+      }
+      if (shares === 0n) continue;
+
+      openings.push({
+        userId: params.userId,
+        walletAddress: params.walletAddress,
+        vaultAddress: vault.vaultAddress,
+        protocol: vault.protocol,
+        entryType: "deposit",
+        shares,
+        assets,
+      });
+    }
+
+    if (openings.length > 0) {
+      console.log(
+        `[Yield Ledger] Seeding ${openings.length} opening lot(s) for ${params.walletAddress}`
+      );
+      await recordLedgerEntries(openings);
+    }
+  } catch (error) {
+    console.error(`[Yield Ledger] Failed to seed opening lots:`, error);
+  }
+}
+
+/**
+ * Ledger legs for a submitted rebalance. Portfolio decisions carry one leg per
+ * vault; single-vault decisions move currentVault's full position into
+ * targetVault. Deposit shares come from the simulation's share balance deltas
+ * when it checked balances, otherwise from the protocol's current rate.
+ */
+export async function buildRebalanceLedgerEntries(
+  decision: any,
+  simulation?: SimulationReport
+): Promise<Omit<LedgerEntryInput, "walletAddress">[]> {
+  const simulatedShares = (vault: string): bigint | undefined => {
+    if (!simulation?.balanceChecked) return undefined;
+    const row = simulation.shares?.find((s) => s.vault.toLowerCase() === vault.toLowerCase());
+    return row ? BigInt(row.after) - BigInt(row.before) : undefined;
+  };
+
+  const isPortfolio = decision.legs?.redeems?.length > 0;
+  const redeems: RedeemLeg[] = isPortfolio
+    ? decision.legs.redeems
+    : [
+        {
+          vault: decision.currentVault.address,
+          shares: BigInt(decision.currentVault.shares),
+          assets: BigInt(decision.currentVault.assets),
+        },
+      ];
+  const deposits: DepositLeg[] = isPortfolio
+    ? decision.legs.deposits
+    : [{ vault: decision.targetVault.address, assets: BigInt(decision.currentVault.assets) }];
+
+  const entries: Omit<LedgerEntryInput, "walletAddress">[] = redeems.map((leg) => ({
+    vaultAddress: leg.vault,
+    protocol: leg.protocol ?? "morpho",
+    entryType: "rebalance_out",
+    shares: BigInt(leg.shares),
+    assets: BigInt(leg.assets),
+  }));
+
+  for (const leg of deposits) {
+    const protocol = leg.protocol ?? "morpho";
+    const assets = BigInt(leg.assets);
+    const shares =
+      simulatedShares(leg.vault) ?? (await sharesForAssets(protocol, leg.vault, assets));
+    entries.push({
+      vaultAddress: leg.vault,
+      protocol,
+      entryType: "rebalance_in",
+      shares,
+      assets,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * A wallet's ledger in order, skipping legs of failed (reverted) rebalances
+ */
+export async function getLedgerEntries(walletAddress: string): Promise<LedgerEntry[]> {
+  const rows = await getSql()`
+    SELECT
+      l.id,
+      l.vault_address,
+      l.protocol,
+      l.entry_type,
+      l.shares,
+      l.assets,
+      COALESCE(l.tx_hash, a.tx_hash) AS tx_hash,
+      l.agent_action_id,
+      l.created_at
+    FROM position_ledger l
+    LEFT JOIN agent_actions a ON a.id = l.agent_action_id
+    WHERE l.wallet_address = ${walletAddress.toLowerCase()}
+      AND (l.agent_action_id IS NULL OR a.status <> 'failed')
+    ORDER BY l.created_at ASC
+  `;
+
+  return rows.map((row: Record<string, any>) => ({
+    id: row.id,
+    vaultAddress: row.vault_address,
+    protocol: row.protocol,
+    entryType: row.entry_type,
+    shares: BigInt(row.shares),
+    assets: BigInt(row.assets),
+    txHash: row.tx_hash ?? null,
+    agentActionId: row.agent_action_id ?? null,
+    createdAt: new Date(row.created_at).toISOString(),
+  }));
+}
+
+/**
+ * Replay ledger entries into per-vault holdings. Partial exits remove the
+ * redeemed fraction of shares' principal (average cost). Exits from a vault
+ * with no recorded holding, and the excess of an exit larger than the recorded
+ * shares, have no basis: their proceeds are reported as unknown basis and
+ * never booked as yield. Rebasing balances are the exception — an exit larger
+ * than the recorded balance closes the vault out and the excess is interest.
+ */
+export function replayLedger(
+  entries: LedgerEntry[],
+  since?: Date,
+  onEntry?: (
+    entry: LedgerEntry,
+    costBasis: bigint,
+    realized: bigint,
+    unknownBasisProceeds: bigint
+  ) => void
+): VaultLedgerState[] {
+  const vaults = new Map<string, VaultLedgerState>();
+
+  for (const entry of entries) {
+    const key = entry.vaultAddress.toLowerCase();
+    let state = vaults.get(key);
+    if (!state) {
+      state = {
+        vaultAddress: key,
+        protocol: entry.protocol,
+        sharesHeld: 0n,
+        principal: 0n,
+        deposited: 0n,
+        withdrawn: 0n,
+        realizedYield: 0n,
+        periodRealizedYield: 0n,
+        unknownBasisProceeds: 0n,
+      };
+      vaults.set(key, state);
+    }
+
+    if (entry.entryType === "deposit" || entry.entryType === "rebalance_in") {
+      state.sharesHeld += entry.shares;
+      state.principal += entry.assets;
+      state.deposited += entry.assets;
+      onEntry?.(entry, entry.assets, 0n, 0n);
+      continue;
+    }
+
+    let unknownBasisProceeds = 0n;
+    if (state.sharesHeld === 0n) {
+      unknownBasisProceeds = entry.assets;
+    } else if (entry.shares > state.sharesHeld && !isRebasing(entry.protocol)) {
+      unknownBasisProceeds = (entry.assets * (entry.shares - state.sharesHeld)) / entry.shares;
+    }
+    const proceeds = entry.assets - unknownBasisProceeds;
+
+    const fullExit = entry.shares >= state.sharesHeld;
+    const cost = fullExit ? state.principal : (state.principal * entry.shares) / state.sharesHeld;
+    const realized = proceeds - cost;
+
+    state.sharesHeld = fullExit ? 0n : state.sharesHeld - entry.shares;
+    state.principal -= cost;
+    state.withdrawn += entry.assets;
+    state.realizedYield += realized;
+    state.unknownBasisProceeds += unknownBasisProceeds;
+    if (!since || new Date(entry.createdAt) >= since) {
+      state.periodRealizedYield += realized;
+    }
+    onEntry?.(entry, cost, realized, unknownBasisProceeds);
+  }
+
+  return Array.from(vaults.values());
+}
+
+/**
+ * Every ledger entry with the cost basis it carried in or released and the
+ * income it realized, using the same average-cost replay as the yield summary
+ */
+export function toCostBasisLots(entries: LedgerEntry[]): LedgerLot[] {
+  const lots: LedgerLot[] = [];
+  replayLedger(entries, undefined, (entry, costBasis, realizedIncome, unknownBasisProceeds) =>
+    lots.push({ ...entry, costBasis, realizedIncome, unknownBasisProceeds })
+  );
+  return lots;
+}
+
+/**
+ * Current value of each open holding: convertToAssets(shares) for ERC4626
+ * vaults, the live position balance for lending markets. Unpriced vaults are
+ * held at principal so they contribute no unrealized yield.
+ */
+async function valueHoldings(
+  walletAddress: `0x${string}`,
+  states: VaultLedgerState[]
+): Promise<VaultYield[]> {
+  const needsLivePositions = states.some((s) => s.sharesHeld > 0n && !isErc4626(s.protocol));
+  const livePositions = needsLivePositions
+    ? await protocolRegistry.getAllPositions(walletAddress)
+    : [];
+
+  return Promise.all(
+    states.map(async (state): Promise<VaultYield> => {
+      if (state.sharesHeld === 0n) {
+        return { ...state, currentAssets: 0n, unrealizedYield: 0n, priced: true };
+      }
+
+      try {
+        let currentAssets: bigint;
+        if (isErc4626(state.protocol)) {
+          currentAssets = await convertToAssets(
+            state.vaultAddress as `0x${string}`,
+            state.sharesHeld
+          );
+        } else {
+          const position = livePositions.find(
+            (p) => p.vaultAddress.toLowerCase() === state.vaultAddress
+          );
+          currentAssets = position?.assets ?? 0n;
+        }
+
+        return {
+          ...state,
+          currentAssets,
+          unrealizedYield: currentAssets - state.principal,
+          priced: true,
+        };
+      } catch (error) {
+        console.error(`[Yield Ledger] Failed to value ${state.vaultAddress}:`, error);
+        return { ...state, currentAssets: state.principal, unrealizedYield: 0n, priced: false };
+      }
+    })
+  );
+}
+
+/**
+ * Realized and unrealized yield for a wallet from its ledger
+ */
+export async function getYieldSummary(
+  walletAddress: `0x${string}`,
+  since?: Date
+): Promise<YieldSummary> {
+  const entries = await getLedgerEntries(walletAddress);
+  const vaults = await valueHoldings(walletAddress, replayLedger(entries, since));
+
+  const sum = (pick: (v: VaultYield) => bigint) => vaults.reduce((acc, v) => acc + pick(v), 0n);
+  const realizedYield = sum((v) => v.realizedYield);
+  const unrealizedYield = sum((v) => v.unrealizedYield);
+
+  return {
+    deposited: sum((v) => v.deposited),
+    withdrawn: sum((v) => v.withdrawn),
+    netPrincipal: sum((v) => v.principal),
+    currentValue: sum((v) => v.currentAssets),
+    realizedYield,
+    periodRealizedYield: sum((v) => v.periodRealizedYield),
+    unrealizedYield,
+    totalYield: realizedYield + unrealizedYield,
+    unknownBasisProceeds: sum((v) => v.unknownBasisProceeds),
+    vaults,
+  };
+}
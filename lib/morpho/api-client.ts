@@ -26,14 +26,17 @@ import type {
   GetVaultsQueryVariables,
   GetVaultQueryVariables,
   GetUserPositionsQueryVariables,
+  GetAssetQuery,
+  GetAssetQueryVariables,
 } from "./graphql-types";
-import { GET_VAULTS, GET_VAULT, GET_USER_POSITIONS } from "./queries";
+import { GET_VAULTS, GET_VAULT, GET_USER_POSITIONS, GET_ASSET } from "./queries";
 import { print } from "graphql";
 
 const MORPHO_API_URL = "https://api.morpho.org/graphql";
 
 // Extract types from the generated query types
 export type MorphoVault = NonNullable<NonNullable<GetVaultsQuery["vaultV2s"]["items"]>[number]>;
+export type MorphoAsset = GetAssetQuery["assetByAddress"];
 export type MorphoUserPosition = NonNullable<
   NonNullable<NonNullable<GetUserPositionsQuery["userByAddress"]>["vaultV2Positions"]>[number]
 >;
@@ -188,6 +191,22 @@ export class MorphoClient {
     );
   }
 
+  /**
+   * Fetch token metadata and USD price (used to value reward tokens)
+   *
+   * @param assetAddress - Token contract address
+   * @param chainId - Chain ID
+   * @returns Asset with symbol, decimals and priceUsd (null if unpriced)
+   */
+  async fetchAsset(assetAddress: string, chainId: number): Promise<MorphoAsset> {
+    const data = await this.query<GetAssetQuery>(print(GET_ASSET), {
+      address: assetAddress.toLowerCase(),
+      chainId,
+    } as GetAssetQueryVariables);
+
+    return data.assetByAddress;
+  }
+
   /**
    * Find best vault for an asset by APY
    * Uses Redis cache (5 min TTL) for best vault recommendation
@@ -5284,3 +5284,11 @@ export type GetUserPositionsQueryVariables = Exact<{
 
 
 export type GetUserPositionsQuery = { __typename?: 'Query', userByAddress: { __typename?: 'User', vaultV2Positions: Array<{ __typename?: 'VaultV2Position', shares: string, assets: string, assetsUsd: number | null, vault: { __typename?: 'VaultV2', address: any, name: string, symbol: string } }> } };
+
+export type GetAssetQueryVariables = Exact<{
+  address: Scalars['String']['input'];
+  chainId: Scalars['Int']['input'];
+}>;
+
+
+export type GetAssetQuery = { __typename?: 'Query', assetByAddress: { __typename?: 'Asset', address: any, symbol: string, decimals: number, priceUsd: number | null } };
@@ -110,3 +110,14 @@ export const GET_USER_POSITIONS = gql`
     }
   }
 `;
+
+export const GET_ASSET = gql`
+  query GetAsset($address: String!, $chainId: Int!) {
+    assetByAddress(address: $address, chainId: $chainId) {
+      address
+      symbol
+      decimals
+      priceUsd
+    }
+  }
+`;
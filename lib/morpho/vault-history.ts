@@ -0,0 +1,173 @@
+/**
+ * Vault APY/TVL History
+ *
+ * Persists a snapshot of every vault on each ApyEventMonitor run into the
+ * `vault_snapshots` table — Morpho vaults from the Morpho API, every other
+ * protocol from its adapter's opportunities — and serves downsampled series
+ * per vault for charts, backtesting, audits and agent attribution.
+ */
+
+import { neon } from "@neondatabase/serverless";
+import type { YieldOpportunity } from "@/lib/yield-optimizer/types";
+import type { MorphoVault } from "./api-client";
+import { calculateRiskScore } from "./risk-scoring";
+
+export type HistoryRange = "24h" | "7d" | "30d" | "90d" | "1y";
+
+// Lookback window and bucket size per range — keeps every series at ~24-90 points
+export const HISTORY_RANGES: Record<HistoryRange, { window: string; bucket: string }> = {
+  "24h": { window: "24 hours", bucket: "1 hour" },
+  "7d": { window: "7 days", bucket: "4 hours" },
+  "30d": { window: "30 days", bucket: "12 hours" },
+  "90d": { window: "90 days", bucket: "1 day" },
+  "1y": { window: "365 days", bucket: "7 days" },
+};
+
+export interface VaultHistoryPoint {
+  timestamp: string; // ISO start of the bucket
+  apy: number | null;
+  avgNetApy: number | null;
+  tvlUsd: number | null;
+  liquidityUsd: number | null;
+  riskScore: number | null;
+  samples: number; // Raw snapshots averaged into this point
+}
+
+export function isHistoryRange(value: string): value is HistoryRange {
+  return Object.hasOwn(HISTORY_RANGES, value);
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+interface SnapshotRow {
+  vault_address: string;
+  protocol: string;
+  apy: number | null;
+  avg_net_apy: number | null;
+  tvl_usd: number | null;
+  liquidity_usd: number | null;
+  risk_score: number | null;
+}
+
+/**
+ * Persist one snapshot row per vault.
+ * Best-effort — DB failures are caught and logged, never thrown.
+ *
+ * @returns Number of rows written (0 when the database is unavailable)
+ */
+export async function recordVaultSnapshots(
+  vaults: MorphoVault[],
+  protocol: string = "morpho"
+): Promise<number> {
+  return insertSnapshots(
+    vaults.map((vault) => ({
+      vault_address: vault.address.toLowerCase(),
+      protocol,
+      apy: vault.netApy ?? null,
+      avg_net_apy: vault.avgNetApy ?? null,
+      tvl_usd: vault.totalAssetsUsd ?? null,
+      liquidity_usd: vault.liquidityUsd ?? null,
+      risk_score: calculateRiskScore(vault),
+    }))
+  );
+}
+
+/**
+ * Persist one snapshot row per protocol opportunity (Aave, Moonwell,
+ * Compound, ERC-4626 vaults). Same best-effort contract as recordVaultSnapshots.
+ */
+export async function recordOpportunitySnapshots(
+  opportunities: YieldOpportunity[]
+): Promise<number> {
+  return insertSnapshots(
+    opportunities.map((opportunity) => ({
+      vault_address: opportunity.address.toLowerCase(),
+      protocol: opportunity.protocol,
+      apy: opportunity.apy,
+      avg_net_apy: null,
+      tvl_usd: Number(opportunity.tvl) / 1e6, // USDC units
+      liquidity_usd: Number(opportunity.liquidityDepth) / 1e6,
+      risk_score: opportunity.riskScore,
+    }))
+  );
+}
+
+async function insertSnapshots(rows: SnapshotRow[]): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  try {
+    const databaseUrl = process.env.DATABASE_URL;
+    if (!databaseUrl) return 0;
+
+    const sql = neon(databaseUrl);
+
+    // Single round trip for the whole batch
+    await sql`
+      INSERT INTO vault_snapshots (
+        vault_address, protocol, apy, avg_net_apy, tvl_usd, liquidity_usd, risk_score
+      )
+      SELECT vault_address, protocol, apy, avg_net_apy, tvl_usd, liquidity_usd, risk_score
+      FROM jsonb_to_recordset(${JSON.stringify(rows)}::jsonb) AS r(
+        vault_address text,
+        protocol text,
+        apy numeric,
+        avg_net_apy numeric,
+        tvl_usd numeric,
+        liquidity_usd numeric,
+        risk_score numeric
+      )
+    `;
+
+    return rows.length;
+  } catch (error) {
+    console.error("[Vault History] Failed to record snapshots:", error);
+    return 0;
+  }
+}
+
+/**
+ * Fetch a vault's downsampled history. Each point averages the snapshots
+ * in one bucket of the range.
+ */
+export async function getVaultHistory(
+  vaultAddress: string,
+  range: HistoryRange
+): Promise<VaultHistoryPoint[]> {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is not configured");
+  }
+
+  const sql = neon(databaseUrl);
+  const { window, bucket } = HISTORY_RANGES[range];
+
+  const rows = await sql`
+    SELECT
+      date_bin(${bucket}::interval, snapshot_at, TIMESTAMPTZ '2000-01-01') AS bucket,
+      AVG(apy) AS apy,
+      AVG(avg_net_apy) AS avg_net_apy,
+      AVG(tvl_usd) AS tvl_usd,
+      AVG(liquidity_usd) AS liquidity_usd,
+      AVG(risk_score) AS risk_score,
+      COUNT(*) AS samples
+    FROM vault_snapshots
+    WHERE vault_address = ${vaultAddress.toLowerCase()}
+      AND snapshot_at >= NOW() - ${window}::interval
+    GROUP BY bucket
+    ORDER BY bucket
+  `;
+
+  return rows.map((row) => ({
+    timestamp: new Date(row.bucket).toISOString(),
+    apy: toNumber(row.apy),
+    avgNetApy: toNumber(row.avg_net_apy),
+    tvlUsd: toNumber(row.tvl_usd),
+    liquidityUsd: toNumber(row.liquidity_usd),
+    riskScore: toNumber(row.risk_score),
+    samples: Number(row.samples),
+  }));
+}
@@ -1,12 +1,21 @@
-import type { YieldOpportunity, Position } from "../yield-optimizer/types";
+import type {
+  YieldOpportunity,
+  Position,
+  ProtocolId,
+  ClaimableReward,
+} from "../yield-optimizer/types";
+import { ERC4626_PROTOCOLS } from "../yield-optimizer/config";
 
 export interface ProtocolAdapter {
-  readonly protocol: "morpho" | "aave" | "moonwell";
+  readonly protocol: ProtocolId;
 
   readonly name: string;
 
   readonly enabled: boolean;
 
+  // Positions are ERC-4626 shares — redeem legs are sized with previewRedeem
+  readonly erc4626?: boolean;
+
   getOpportunities(): Promise<YieldOpportunity[]>;
 
   getPositions(userAddress: `0x${string}`): Promise<Position[]>;
@@ -23,6 +32,14 @@ export interface ProtocolAdapter {
     shares?: bigint,
     assets?: bigint
   ): Promise<{ to: `0x${string}`; data: `0x${string}`; value: bigint }[]>;
+
+  // Incentive rewards — only protocols that distribute them implement these
+  getClaimableRewards?(userAddress: `0x${string}`): Promise<ClaimableReward[]>;
+
+  buildClaimCalls?(
+    userAddress: `0x${string}`,
+    rewards: ClaimableReward[]
+  ): Promise<{ to: `0x${string}`; data: `0x${string}`; value: bigint }[]>;
 }
 
 export class ProtocolRegistry {
@@ -59,14 +76,29 @@ export class ProtocolRegistry {
       .filter((r): r is PromiseFulfilledResult<Position[]> => r.status === "fulfilled")
       .flatMap((r) => r.value);
   }
+
+  async getAllClaimableRewards(userAddress: `0x${string}`): Promise<ClaimableReward[]> {
+    const results = await Promise.allSettled(
+      this.getEnabled().map((a) => a.getClaimableRewards?.(userAddress) ?? [])
+    );
+    return results
+      .filter((r): r is PromiseFulfilledResult<ClaimableReward[]> => r.status === "fulfilled")
+      .flatMap((r) => r.value);
+  }
 }
 
 // Singleton registry with all protocol adapters
 import { MorphoAdapter } from "./morpho-adapter";
 import { AaveAdapter } from "./aave-adapter";
 import { MoonwellAdapter } from "./moonwell-adapter";
+import { CompoundAdapter } from "./compound-adapter";
+import { Erc4626Adapter } from "./erc4626-adapter";
 
 export const protocolRegistry = new ProtocolRegistry();
 protocolRegistry.register(new MorphoAdapter());
 protocolRegistry.register(new AaveAdapter());
 protocolRegistry.register(new MoonwellAdapter());
+protocolRegistry.register(new CompoundAdapter());
+for (const [protocol, config] of Object.entries(ERC4626_PROTOCOLS)) {
+  protocolRegistry.register(new Erc4626Adapter(protocol, config));
+}
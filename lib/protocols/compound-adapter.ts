@@ -0,0 +1,47 @@
+import type { ProtocolAdapter } from "./adapter";
+import type { YieldOpportunity, Position } from "../yield-optimizer/types";
+import {
+  getCompoundOpportunities,
+  getCompoundPosition,
+  buildCompoundDepositTx,
+  buildCompoundWithdrawTx,
+} from "../yield-optimizer/protocols/compound";
+import { PROTOCOLS } from "../yield-optimizer/config";
+
+/**
+ * Compound v3 Protocol Adapter for Base Mainnet
+ * Implements the ProtocolAdapter interface for the USDC Comet market
+ */
+export class CompoundAdapter implements ProtocolAdapter {
+  readonly protocol = "compound" as const;
+  readonly name = "Compound v3";
+  readonly enabled = PROTOCOLS.compound.enabled;
+
+  async getOpportunities(): Promise<YieldOpportunity[]> {
+    return getCompoundOpportunities();
+  }
+
+  async getPositions(userAddress: `0x${string}`): Promise<Position[]> {
+    const position = await getCompoundPosition(userAddress);
+    return position ? [position] : [];
+  }
+
+  async buildDepositCalls(
+    amount: bigint,
+    userAddress: `0x${string}`,
+    _vaultAddress: `0x${string}`
+  ): Promise<{ to: `0x${string}`; data: `0x${string}`; value: bigint }[]> {
+    const tx = buildCompoundDepositTx(amount, userAddress);
+    return [tx.approve, tx.supply];
+  }
+
+  async buildWithdrawCalls(
+    userAddress: `0x${string}`,
+    _vaultAddress: `0x${string}`,
+    _shares?: bigint,
+    assets?: bigint
+  ): Promise<{ to: `0x${string}`; data: `0x${string}`; value: bigint }[]> {
+    const tx = buildCompoundWithdrawTx(assets || 0n, userAddress);
+    return [tx];
+  }
+}
@@ -0,0 +1,66 @@
+import type { ProtocolAdapter } from "./adapter";
+import type { YieldOpportunity, Position, ProtocolId } from "../yield-optimizer/types";
+import type { Erc4626ProtocolConfig } from "../yield-optimizer/config";
+import {
+  getErc4626Opportunities,
+  getErc4626Positions,
+  buildErc4626DepositTx,
+  buildErc4626WithdrawTx,
+} from "../yield-optimizer/protocols/erc4626";
+
+/**
+ * Generic ERC-4626 Protocol Adapter
+ * One instance per ERC4626_PROTOCOLS entry; serves that protocol's configured
+ * USDC vaults entirely from on-chain ERC-4626 reads
+ */
+export class Erc4626Adapter implements ProtocolAdapter {
+  readonly erc4626 = true;
+  readonly name: string;
+
+  constructor(
+    readonly protocol: ProtocolId,
+    private readonly config: Erc4626ProtocolConfig
+  ) {
+    this.name = config.name;
+  }
+
+  get enabled(): boolean {
+    return this.config.vaults.some((v) => v.enabled);
+  }
+
+  async getOpportunities(): Promise<YieldOpportunity[]> {
+    return getErc4626Opportunities(this.protocol, this.config.vaults);
+  }
+
+  async getPositions(userAddress: `0x${string}`): Promise<Position[]> {
+    return getErc4626Positions(this.protocol, this.config.vaults, userAddress);
+  }
+
+  async buildDepositCalls(amount: bigint, userAddress: `0x${string}`, vaultAddress: `0x${string}`) {
+    this.assertConfigured(vaultAddress, true);
+    const tx = buildErc4626DepositTx(amount, userAddress, vaultAddress);
+    return [tx.approve, tx.deposit];
+  }
+
+  async buildWithdrawCalls(
+    userAddress: `0x${string}`,
+    vaultAddress: `0x${string}`,
+    shares?: bigint,
+    assets?: bigint
+  ) {
+    this.assertConfigured(vaultAddress, false);
+    return [buildErc4626WithdrawTx(userAddress, vaultAddress, shares, assets)];
+  }
+
+  /**
+   * Only configured vaults are callable; deposits additionally need the vault enabled
+   */
+  private assertConfigured(vaultAddress: `0x${string}`, requireEnabled: boolean): void {
+    const vault = this.config.vaults.find(
+      (v) => v.address.toLowerCase() === vaultAddress.toLowerCase()
+    );
+    if (!vault || (requireEnabled && !vault.enabled)) {
+      throw new Error(`${vaultAddress} is not an enabled ${this.name} vault`);
+    }
+  }
+}
@@ -1,10 +1,12 @@
 import type { ProtocolAdapter } from "./adapter";
-import type { YieldOpportunity, Position } from "../yield-optimizer/types";
+import type { YieldOpportunity, Position, ClaimableReward } from "../yield-optimizer/types";
 import {
   getMoonwellOpportunities,
   getMoonwellPosition,
   buildMoonwellDepositTx,
   buildMoonwellWithdrawTx,
+  getMoonwellClaimableRewards,
+  buildMoonwellClaimTx,
 } from "../yield-optimizer/protocols/moonwell";
 
 export class MoonwellAdapter implements ProtocolAdapter {
@@ -43,4 +45,16 @@ export class MoonwellAdapter implements ProtocolAdapter {
     const tx = buildMoonwellWithdrawTx(amount, userAddress);
     return [{ to: tx.to as `0x${string}`, data: tx.data as `0x${string}`, value: 0n }];
   }
+
+  async getClaimableRewards(userAddress: `0x${string}`): Promise<ClaimableReward[]> {
+    return getMoonwellClaimableRewards(userAddress);
+  }
+
+  async buildClaimCalls(
+    userAddress: `0x${string}`,
+    rewards: ClaimableReward[]
+  ): Promise<{ to: `0x${string}`; data: `0x${string}`; value: bigint }[]> {
+    // A single claimReward pays out every emission token on the market
+    return rewards.length > 0 ? [buildMoonwellClaimTx(userAddress)] : [];
+  }
 }
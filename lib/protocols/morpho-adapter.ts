@@ -1,16 +1,21 @@
 import type { ProtocolAdapter } from "./adapter";
-import type { YieldOpportunity, Position } from "../yield-optimizer/types";
+import type { YieldOpportunity, Position, ClaimableReward } from "../yield-optimizer/types";
 import {
   getMorphoOpportunities,
   getMorphoPosition,
   buildMorphoDepositTx,
   buildMorphoWithdrawTx,
 } from "../yield-optimizer/protocols/morpho";
+import {
+  getMorphoClaimableRewards,
+  buildMorphoClaimTx,
+} from "../yield-optimizer/protocols/morpho-rewards";
 
 export class MorphoAdapter implements ProtocolAdapter {
   readonly protocol = "morpho" as const;
   readonly name = "Morpho Blue";
   readonly enabled = true;
+  readonly erc4626 = true;
 
   async getOpportunities(): Promise<YieldOpportunity[]> {
     return getMorphoOpportunities();
@@ -41,4 +46,16 @@ export class MorphoAdapter implements ProtocolAdapter {
     const tx = buildMorphoWithdrawTx(userAddress, shares, assets, vaultAddress);
     return [{ to: tx.to as `0x${string}`, data: tx.data, value: 0n }];
   }
+
+  async getClaimableRewards(userAddress: `0x${string}`): Promise<ClaimableReward[]> {
+    return getMorphoClaimableRewards(userAddress);
+  }
+
+  async buildClaimCalls(
+    userAddress: `0x${string}`,
+    rewards: ClaimableReward[]
+  ): Promise<{ to: `0x${string}`; data: `0x${string}`; value: bigint }[]> {
+    // One URD claim per reward token
+    return rewards.map((reward) => buildMorphoClaimTx(userAddress, reward));
+  }
 }
@@ -1,8 +1,13 @@
 /**
  * Rate Limiting for Gasless Transfers
  * Prevents abuse of gasless transfer feature
+ *
+ * Transfer session keys carry the same limits as on-chain policies; build the
+ * config for a session with transferRateLimitConfig so both agree.
  */
 
+import { DEFAULT_TRANSFER_LIMITS, type TransferPolicy } from "@/lib/zerodev/transfer-session";
+
 interface TransferAttempt {
   timestamp: number;
   amount: number;
@@ -15,15 +20,34 @@ const transferAttempts = new Map<string, TransferAttempt[]>();
 export interface RateLimitConfig {
   maxTransfersPerDay: number;
   maxAmountPerTransfer: number;
+  maxDailySpend?: number; // Cumulative USDC per window
   windowMs: number; // Time window in milliseconds
 }
 
 const DEFAULT_CONFIG: RateLimitConfig = {
-  maxTransfersPerDay: 20,
-  maxAmountPerTransfer: 500,
+  maxTransfersPerDay: DEFAULT_TRANSFER_LIMITS.maxTransfersPerDay,
+  maxAmountPerTransfer: DEFAULT_TRANSFER_LIMITS.maxAmountPerTransfer,
+  maxDailySpend: DEFAULT_TRANSFER_LIMITS.maxDailySpend,
   windowMs: 24 * 60 * 60 * 1000, // 24 hours
 };
 
+/**
+ * Rate limit config matching the policy encoded in a transfer session key.
+ * Sessions created before policies were encoded fall back to the defaults.
+ *
+ * @param policy - Policy stored with the transfer session
+ * @returns Rate limit configuration
+ */
+export function transferRateLimitConfig(policy?: TransferPolicy): RateLimitConfig {
+  if (!policy) return DEFAULT_CONFIG;
+  return {
+    maxTransfersPerDay: policy.transfersPerDay,
+    maxAmountPerTransfer: policy.maxAmountPerTransfer,
+    maxDailySpend: policy.maxDailySpend,
+    windowMs: policy.interval * 1000,
+  };
+}
+
 export interface RateLimitResult {
   allowed: boolean;
   reason?: string;
@@ -83,6 +107,19 @@ export function checkTransferRateLimit(
     };
   }
 
+  // Check cumulative spend
+  if (config.maxDailySpend !== undefined) {
+    const spent = recentAttempts.filter((a) => a.success).reduce((sum, a) => sum + a.amount, 0);
+
+    if (spent + amount > config.maxDailySpend) {
+      return {
+        allowed: false,
+        reason: `Daily spend limit of $${config.maxDailySpend} reached ($${spent} sent)`,
+        attemptsRemaining: config.maxTransfersPerDay - successfulTransfers,
+      };
+    }
+  }
+
   // Calculate remaining attempts
   const attemptsRemaining = config.maxTransfersPerDay - successfulTransfers;
 
@@ -1,57 +1,112 @@
 import crypto from "crypto";
+import { getKeyProvider } from "./kms";
 
 /**
- * AES-256-GCM encryption for sensitive data in database
+ * AES-256-GCM envelope encryption for sensitive data in database
  *
- * Format: encrypted:v1:{iv_base64}:{ciphertext_base64}:{authTag_base64}
- * - v1: Version for future algorithm upgrades
+ * Format: encrypted:v2:{keyId}:{wrappedKey_base64}:{iv_base64}:{ciphertext_base64}:{authTag_base64}
+ * - keyId: Master key that wrapped the data key (see kms.ts)
+ * - wrappedKey: Per-value random data key, wrapped under the master key
  * - iv: Unique initialization vector per encryption
- * - ciphertext: AES-256-GCM encrypted data
+ * - ciphertext: AES-256-GCM encrypted data, under the data key
  * - authTag: Authentication tag for tamper detection
+ *
+ * Legacy format, still decrypted: encrypted:v1:{iv}:{ciphertext}:{authTag},
+ * encrypted directly under the master key now configured as "default".
+ * Rotating a master key only re-wraps data keys (rewrap); v1 values are
+ * re-encrypted as v2.
  */
 
 const ALGORITHM = "aes-256-gcm";
 const IV_LENGTH = 12; // 96 bits recommended for GCM
 const AUTH_TAG_LENGTH = 16; // 128 bits
-const VERSION = "v1";
+const DATA_KEY_LENGTH = 32; // 256 bits
+const VERSION = "v2";
+const LEGACY_VERSION = "v1";
+const LEGACY_KEY_ID = "default";
 const PREFIX = "encrypted";
 
+interface Envelope {
+  keyId: string;
+  wrappedKey: Buffer;
+  iv: Buffer;
+  encryptedData: string; // base64
+  authTag: Buffer;
+}
+
 /**
- * Get encryption key from environment variable
- * Throws if key is missing or invalid length
+ * Check if a value is already encrypted
+ * @param value - String to check
+ * @returns true if value starts with "encrypted:v2:" (or legacy "encrypted:v1:")
  */
-function getEncryptionKey(): Buffer {
-  const key = process.env.DATABASE_ENCRYPTION_KEY;
+export function isEncrypted(value: string): boolean {
+  return (
+    value.startsWith(`${PREFIX}:${VERSION}:`) || value.startsWith(`${PREFIX}:${LEGACY_VERSION}:`)
+  );
+}
 
-  if (!key) {
-    throw new Error("DATABASE_ENCRYPTION_KEY environment variable is not set");
-  }
+/**
+ * Master key ID an encrypted value depends on, or null for plaintext
+ */
+export function encryptionKeyId(value: string): string | null {
+  if (value.startsWith(`${PREFIX}:${VERSION}:`)) return value.split(":")[2];
+  if (value.startsWith(`${PREFIX}:${LEGACY_VERSION}:`)) return LEGACY_KEY_ID;
+  return null;
+}
 
-  // Key should be 64 hex characters (32 bytes)
-  if (key.length !== 64) {
-    throw new Error("DATABASE_ENCRYPTION_KEY must be 64 hex characters (32 bytes)");
-  }
+/**
+ * Whether an encrypted value is not yet under the active master key (or is legacy v1)
+ */
+export function needsRewrap(value: string): boolean {
+  return (
+    value.startsWith(`${PREFIX}:${LEGACY_VERSION}:`) ||
+    (isEncrypted(value) && encryptionKeyId(value) !== getKeyProvider().activeKeyId())
+  );
+}
 
-  try {
-    return Buffer.from(key, "hex");
-  } catch (error) {
-    throw new Error("DATABASE_ENCRYPTION_KEY must be a valid hex string");
+function formatEnvelope(envelope: Envelope): string {
+  return [
+    PREFIX,
+    VERSION,
+    envelope.keyId,
+    envelope.wrappedKey.toString("base64"),
+    envelope.iv.toString("base64"),
+    envelope.encryptedData,
+    envelope.authTag.toString("base64"),
+  ].join(":");
+}
+
+function parseEnvelope(ciphertext: string): Envelope {
+  const parts = ciphertext.split(":");
+  if (parts.length !== 7) {
+    throw new Error("Invalid encrypted format: expected 7 parts separated by colons");
   }
+  const [, , keyId, wrappedKeyBase64, ivBase64, encryptedData, authTagBase64] = parts;
+  return {
+    keyId,
+    wrappedKey: Buffer.from(wrappedKeyBase64, "base64"),
+    iv: Buffer.from(ivBase64, "base64"),
+    encryptedData,
+    authTag: Buffer.from(authTagBase64, "base64"),
+  };
 }
 
-/**
- * Check if a value is already encrypted
- * @param value - String to check
- * @returns true if value starts with "encrypted:v1:"
- */
-export function isEncrypted(value: string): boolean {
-  return value.startsWith(`${PREFIX}:${VERSION}:`);
+function toDecryptionError(error: unknown): Error {
+  if (error instanceof Error) {
+    // Auth tag verification failure indicates tampering
+    if (error.message.includes("auth")) {
+      return new Error("Decryption failed: data has been tampered with or corrupted");
+    }
+    return new Error(`Decryption failed: ${error.message}`);
+  }
+  return new Error("Decryption failed: unknown error");
 }
 
 /**
- * Encrypt plaintext string using AES-256-GCM
+ * Encrypt plaintext string using AES-256-GCM under a fresh data key,
+ * wrapped by the active master key
  * @param plaintext - String to encrypt
- * @returns Encrypted string in format: encrypted:v1:{iv}:{ciphertext}:{authTag}
+ * @returns Encrypted string in format: encrypted:v2:{keyId}:{wrappedKey}:{iv}:{ciphertext}:{authTag}
  */
 export function encrypt(plaintext: string): string {
   if (!plaintext) {
@@ -63,28 +118,32 @@ export function encrypt(plaintext: string): string {
     return plaintext;
   }
 
-  const key = getEncryptionKey();
+  const provider = getKeyProvider();
+  const keyId = provider.activeKeyId();
+  const dataKey = crypto.randomBytes(DATA_KEY_LENGTH);
 
   // Generate random IV for each encryption (ensures same plaintext → different ciphertext)
   const iv = crypto.randomBytes(IV_LENGTH);
 
   // Create cipher
-  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const cipher = crypto.createCipheriv(ALGORITHM, dataKey, iv);
 
   // Encrypt data
-  let ciphertext = cipher.update(plaintext, "utf8", "base64");
-  ciphertext += cipher.final("base64");
-
-  // Get authentication tag (for tamper detection)
-  const authTag = cipher.getAuthTag();
+  let encryptedData = cipher.update(plaintext, "utf8", "base64");
+  encryptedData += cipher.final("base64");
 
-  // Return versioned format
-  return `${PREFIX}:${VERSION}:${iv.toString("base64")}:${ciphertext}:${authTag.toString("base64")}`;
+  return formatEnvelope({
+    keyId,
+    wrappedKey: provider.wrapKey(keyId, dataKey),
+    iv,
+    encryptedData,
+    authTag: cipher.getAuthTag(), // For tamper detection
+  });
 }
 
 /**
  * Decrypt encrypted string using AES-256-GCM
- * @param ciphertext - Encrypted string in format: encrypted:v1:{iv}:{ciphertext}:{authTag}
+ * @param ciphertext - Encrypted string (v2 envelope or legacy v1)
  * @returns Decrypted plaintext string
  *
  * Backward compatible: If input doesn't start with "encrypted:", returns as-is (plaintext)
@@ -99,62 +158,111 @@ export function decrypt(ciphertext: string): string {
     return ciphertext;
   }
 
-  const key = getEncryptionKey();
+  if (ciphertext.startsWith(`${PREFIX}:${LEGACY_VERSION}:`)) {
+    return decryptLegacy(ciphertext);
+  }
+
+  const envelope = parseEnvelope(ciphertext);
+
+  // Validate lengths
+  if (envelope.iv.length !== IV_LENGTH) {
+    throw new Error(`Invalid IV length: expected ${IV_LENGTH} bytes, got ${envelope.iv.length}`);
+  }
+  if (envelope.authTag.length !== AUTH_TAG_LENGTH) {
+    throw new Error(
+      `Invalid auth tag length: expected ${AUTH_TAG_LENGTH} bytes, got ${envelope.authTag.length}`
+    );
+  }
+
+  const provider = getKeyProvider();
+  if (!provider.hasKey(envelope.keyId)) {
+    throw new Error(`Decryption failed: encryption key "${envelope.keyId}" is not configured`);
+  }
+
+  try {
+    const dataKey = provider.unwrapKey(envelope.keyId, envelope.wrappedKey);
+
+    // Create decipher
+    const decipher = crypto.createDecipheriv(ALGORITHM, dataKey, envelope.iv);
+    decipher.setAuthTag(envelope.authTag);
 
-  // Parse encrypted format
+    // Decrypt data
+    let plaintext = decipher.update(envelope.encryptedData, "base64", "utf8");
+    plaintext += decipher.final("utf8");
+
+    return plaintext;
+  } catch (error) {
+    throw toDecryptionError(error);
+  }
+}
+
+/**
+ * v1 values are iv | ciphertext | authTag under the master key itself —
+ * the same layout as a wrapped data key, so the provider unwraps them
+ */
+function decryptLegacy(ciphertext: string): string {
   const parts = ciphertext.split(":");
 
   if (parts.length !== 5) {
     throw new Error("Invalid encrypted format: expected 5 parts separated by colons");
   }
 
-  const [prefix, version, ivBase64, encryptedData, authTagBase64] = parts;
+  const [, , ivBase64, encryptedData, authTagBase64] = parts;
+  const iv = Buffer.from(ivBase64, "base64");
+  const authTag = Buffer.from(authTagBase64, "base64");
 
-  // Validate prefix
-  if (prefix !== PREFIX) {
-    throw new Error(`Invalid encrypted format: expected prefix "${PREFIX}", got "${prefix}"`);
+  // Validate lengths
+  if (iv.length !== IV_LENGTH) {
+    throw new Error(`Invalid IV length: expected ${IV_LENGTH} bytes, got ${iv.length}`);
+  }
+  if (authTag.length !== AUTH_TAG_LENGTH) {
+    throw new Error(
+      `Invalid auth tag length: expected ${AUTH_TAG_LENGTH} bytes, got ${authTag.length}`
+    );
   }
 
-  // Validate version
-  if (version !== VERSION) {
-    throw new Error(`Unsupported encryption version: ${version}`);
+  const provider = getKeyProvider();
+  if (!provider.hasKey(LEGACY_KEY_ID)) {
+    throw new Error(`Decryption failed: legacy key "${LEGACY_KEY_ID}" is not configured`);
   }
 
   try {
-    // Decode components
-    const iv = Buffer.from(ivBase64, "base64");
-    const authTag = Buffer.from(authTagBase64, "base64");
-
-    // Validate lengths
-    if (iv.length !== IV_LENGTH) {
-      throw new Error(`Invalid IV length: expected ${IV_LENGTH} bytes, got ${iv.length}`);
-    }
+    const blob = Buffer.concat([iv, Buffer.from(encryptedData, "base64"), authTag]);
+    return provider.unwrapKey(LEGACY_KEY_ID, blob).toString("utf8");
+  } catch (error) {
+    throw toDecryptionError(error);
+  }
+}
 
-    if (authTag.length !== AUTH_TAG_LENGTH) {
-      throw new Error(
-        `Invalid auth tag length: expected ${AUTH_TAG_LENGTH} bytes, got ${authTag.length}`
-      );
-    }
+/**
+ * Move an encrypted value under the active master key. v2 values keep their
+ * ciphertext — only the data key is re-wrapped. Plaintext and values already
+ * under the active key are returned unchanged.
+ */
+export function rewrap(value: string): string {
+  if (!needsRewrap(value)) {
+    return value;
+  }
 
-    // Create decipher
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-    decipher.setAuthTag(authTag);
+  if (value.startsWith(`${PREFIX}:${LEGACY_VERSION}:`)) {
+    return encrypt(decryptLegacy(value));
+  }
 
-    // Decrypt data
-    let plaintext = decipher.update(encryptedData, "base64", "utf8");
-    plaintext += decipher.final("utf8");
+  const provider = getKeyProvider();
+  const envelope = parseEnvelope(value);
+  if (!provider.hasKey(envelope.keyId)) {
+    throw new Error(`Rewrap failed: encryption key "${envelope.keyId}" is not configured`);
+  }
 
-    return plaintext;
+  let dataKey: Buffer;
+  try {
+    dataKey = provider.unwrapKey(envelope.keyId, envelope.wrappedKey);
   } catch (error) {
-    if (error instanceof Error) {
-      // Auth tag verification failure indicates tampering
-      if (error.message.includes("auth")) {
-        throw new Error("Decryption failed: data has been tampered with or corrupted");
-      }
-      throw new Error(`Decryption failed: ${error.message}`);
-    }
-    throw new Error("Decryption failed: unknown error");
+    throw toDecryptionError(error);
   }
+
+  const keyId = provider.activeKeyId();
+  return formatEnvelope({ ...envelope, keyId, wrappedKey: provider.wrapKey(keyId, dataKey) });
 }
 
 /**
@@ -0,0 +1,161 @@
+/**
+ * Encryption Key Rotation
+ *
+ * Re-wraps stored authorizations (authorization_7702, transfer_authorization)
+ * under the active master key, one batch of users at a time in id order.
+ * Each batch returns the cursor to resume from, so an interrupted rotation
+ * picks up where it stopped; re-running is harmless since values already
+ * under the active key are skipped.
+ *
+ * A row is only overwritten if it still holds what was read — a session
+ * re-granted mid-rotation is written under the active key anyway. Those rows
+ * are reported in conflictIds so the caller can re-scan them with
+ * rotateAuthorizations() before dropping the old key.
+ */
+
+import { neon } from "@neondatabase/serverless";
+import { getKeyProvider } from "./kms";
+import { rewrapAuthorization, type Authorization } from "./session-encryption";
+
+export const DEFAULT_ROTATION_BATCH_SIZE = 100;
+
+export interface RotationBatchResult {
+  cursor: string | null; // Last user id processed; null when the batch was empty
+  scanned: number;
+  rewrapped: number;
+  conflicts: number; // Rows changed concurrently, left as written
+  conflictIds: string[];
+  errors: Array<{ walletAddress: string; error: string }>;
+  done: boolean;
+}
+
+function getSql() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is not configured");
+  }
+  return neon(databaseUrl);
+}
+
+function toJson(auth: Authorization | null): string | null {
+  return auth ? JSON.stringify(auth) : null;
+}
+
+/**
+ * Re-wrap the next batch of users after `after` (exclusive)
+ *
+ * @param after - Cursor from the previous batch; null to start from the beginning
+ * @param options.dryRun - Count what would be re-wrapped without writing
+ */
+export async function rotateAuthorizationBatch(
+  after: string | null,
+  options: { batchSize?: number; dryRun?: boolean } = {}
+): Promise<RotationBatchResult> {
+  const sql = getSql();
+  const batchSize = options.batchSize ?? DEFAULT_ROTATION_BATCH_SIZE;
+
+  // Fail before touching anything if the active key can't wrap
+  getKeyProvider().activeKeyId();
+
+  const users = await sql`
+    SELECT id, wallet_address, authorization_7702, transfer_authorization
+    FROM users
+    WHERE (authorization_7702 IS NOT NULL OR transfer_authorization IS NOT NULL)
+      AND id > COALESCE(${after}::uuid, '00000000-0000-0000-0000-000000000000'::uuid)
+    ORDER BY id
+    LIMIT ${batchSize}
+  `;
+
+  const result: RotationBatchResult = {
+    cursor: users.length > 0 ? users[users.length - 1].id : null,
+    scanned: users.length,
+    rewrapped: 0,
+    conflicts: 0,
+    conflictIds: [],
+    errors: [],
+    done: users.length < batchSize,
+  };
+
+  await rewrapUsers(users, result, options.dryRun);
+  return result;
+}
+
+/**
+ * Re-scan specific users, e.g. rows that changed concurrently during a batch
+ *
+ * Rows already under the active key are skipped; any still holding an old
+ * key are re-wrapped. Rows that change again are reported in conflictIds.
+ */
+export async function rotateAuthorizations(
+  userIds: string[],
+  options: { dryRun?: boolean } = {}
+): Promise<RotationBatchResult> {
+  const sql = getSql();
+  getKeyProvider().activeKeyId();
+
+  const users = await sql`
+    SELECT id, wallet_address, authorization_7702, transfer_authorization
+    FROM users
+    WHERE id = ANY(${userIds}::uuid[])
+    ORDER BY id
+  `;
+
+  const result: RotationBatchResult = {
+    cursor: users.length > 0 ? users[users.length - 1].id : null,
+    scanned: users.length,
+    rewrapped: 0,
+    conflicts: 0,
+    conflictIds: [],
+    errors: [],
+    done: true,
+  };
+
+  await rewrapUsers(users, result, options.dryRun);
+  return result;
+}
+
+async function rewrapUsers(
+  users: Array<Record<string, any>>,
+  result: RotationBatchResult,
+  dryRun = false
+): Promise<void> {
+  const sql = getSql();
+
+  for (const user of users) {
+    try {
+      const agentAuth = user.authorization_7702 as Authorization | null;
+      const transferAuth = user.transfer_authorization as Authorization | null;
+      const newAgentAuth = agentAuth && rewrapAuthorization(agentAuth);
+      const newTransferAuth = transferAuth && rewrapAuthorization(transferAuth);
+      if (!newAgentAuth && !newTransferAuth) continue;
+
+      if (dryRun) {
+        result.rewrapped++;
+        continue;
+      }
+
+      const updated = await sql`
+        UPDATE users
+        SET
+          authorization_7702 = ${toJson(newAgentAuth ?? agentAuth)}::jsonb,
+          transfer_authorization = ${toJson(newTransferAuth ?? transferAuth)}::jsonb,
+          updated_at = NOW()
+        WHERE id = ${user.id}
+          AND authorization_7702 IS NOT DISTINCT FROM ${toJson(agentAuth)}::jsonb
+          AND transfer_authorization IS NOT DISTINCT FROM ${toJson(transferAuth)}::jsonb
+        RETURNING id
+      `;
+      if (updated.length > 0) {
+        result.rewrapped++;
+      } else {
+        result.conflicts++;
+        result.conflictIds.push(user.id);
+      }
+    } catch (error: any) {
+      result.errors.push({
+        walletAddress: user.wallet_address,
+        error: error.message || "Unknown error",
+      });
+    }
+  }
+}
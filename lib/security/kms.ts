@@ -0,0 +1,164 @@
+import crypto from "crypto";
+import fs from "fs";
+
+/**
+ * Master key management for envelope encryption (see encryption.ts)
+ *
+ * Each encrypted value carries its own random data key (DEK); a KeyProvider
+ * wraps that DEK under a versioned master key. Several master keys can be
+ * active for unwrapping at once, but only one wraps new DEKs — so a key is
+ * rotated by adding a new one, re-wrapping stored values
+ * (scripts/rotate-encryption-keys.ts), then retiring the old one.
+ *
+ * Providers are synchronous because decryption sits on synchronous paths
+ * (decryptAuthorization). A remote KMS adapter should fetch or unwrap its
+ * master keys once at startup and implement the interface from memory.
+ */
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_.-]+$/; // Embedded in ciphertext, so no ":"
+
+export interface KeyProvider {
+  /** Key ID that wraps new data keys */
+  activeKeyId(): string;
+  /** Whether a master key is available for unwrapping */
+  hasKey(keyId: string): boolean;
+  /** Wrap a data key under a master key: iv | ciphertext | authTag */
+  wrapKey(keyId: string, dataKey: Buffer): Buffer;
+  /** Unwrap a data key; throws if the key ID is unknown or the blob was tampered with */
+  unwrapKey(keyId: string, wrappedKey: Buffer): Buffer;
+}
+
+function parseMasterKey(keyId: string, hex: string): Buffer {
+  if (!KEY_ID_PATTERN.test(keyId)) {
+    throw new Error(`Invalid encryption key ID "${keyId}"`);
+  }
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error(`Encryption key "${keyId}" must be 64 hex characters (32 bytes)`);
+  }
+  return Buffer.from(hex, "hex");
+}
+
+/**
+ * KeyProvider over an in-memory set of master keys
+ */
+export class StaticKeyProvider implements KeyProvider {
+  private readonly keys: Map<string, Buffer>;
+
+  constructor(
+    keys: Record<string, string>,
+    private readonly active: string
+  ) {
+    this.keys = new Map(Object.entries(keys).map(([id, hex]) => [id, parseMasterKey(id, hex)]));
+    if (!this.keys.has(active)) {
+      throw new Error(`Active encryption key "${active}" is not configured`);
+    }
+  }
+
+  activeKeyId(): string {
+    return this.active;
+  }
+
+  hasKey(keyId: string): boolean {
+    return this.keys.has(keyId);
+  }
+
+  wrapKey(keyId: string, dataKey: Buffer): Buffer {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.masterKey(keyId), iv);
+    const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+    return Buffer.concat([iv, wrapped, cipher.getAuthTag()]);
+  }
+
+  unwrapKey(keyId: string, wrappedKey: Buffer): Buffer {
+    if (wrappedKey.length <= IV_LENGTH + AUTH_TAG_LENGTH) {
+      throw new Error("Invalid wrapped data key");
+    }
+    const iv = wrappedKey.subarray(0, IV_LENGTH);
+    const authTag = wrappedKey.subarray(wrappedKey.length - AUTH_TAG_LENGTH);
+    const decipher = crypto.createDecipheriv(ALGORITHM, this.masterKey(keyId), iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([
+      decipher.update(wrappedKey.subarray(IV_LENGTH, wrappedKey.length - AUTH_TAG_LENGTH)),
+      decipher.final(),
+    ]);
+  }
+
+  private masterKey(keyId: string): Buffer {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`Unknown encryption key ID "${keyId}"`);
+    }
+    return key;
+  }
+}
+
+/**
+ * Master keys from the environment:
+ * - DATABASE_ENCRYPTION_KEYS: "id:hex,id:hex" — every key usable for decryption
+ * - DATABASE_ENCRYPTION_KEY_ID: the active key (default: the last one listed)
+ * Without DATABASE_ENCRYPTION_KEYS, DATABASE_ENCRYPTION_KEY is the only key,
+ * under ID "default".
+ */
+export function envKeyProvider(): KeyProvider {
+  const list = process.env.DATABASE_ENCRYPTION_KEYS;
+  if (!list) {
+    const key = process.env.DATABASE_ENCRYPTION_KEY;
+    if (!key) {
+      throw new Error("DATABASE_ENCRYPTION_KEY environment variable is not set");
+    }
+    return new StaticKeyProvider({ default: key }, "default");
+  }
+
+  const entries = list
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [id, hex] = entry.split(":");
+      if (!id || !hex) {
+        throw new Error('DATABASE_ENCRYPTION_KEYS entries must be "id:hex"');
+      }
+      return [id, hex] as const;
+    });
+  if (entries.length === 0) {
+    throw new Error("DATABASE_ENCRYPTION_KEYS is empty");
+  }
+
+  const active = process.env.DATABASE_ENCRYPTION_KEY_ID || entries[entries.length - 1][0];
+  return new StaticKeyProvider(Object.fromEntries(entries), active);
+}
+
+/**
+ * Master keys from a JSON file: { "activeKeyId": "...", "keys": { "id": "hex" } }.
+ * Local development and tests only — the file holds raw key material.
+ */
+export function localFileKeyProvider(path: string): KeyProvider {
+  const { activeKeyId, keys } = JSON.parse(fs.readFileSync(path, "utf8"));
+  if (typeof activeKeyId !== "string" || !keys || typeof keys !== "object") {
+    throw new Error(`Key file ${path} must contain activeKeyId and keys`);
+  }
+  return new StaticKeyProvider(keys, activeKeyId);
+}
+
+let keyProvider: KeyProvider | null = null;
+
+/**
+ * The configured provider: DATABASE_ENCRYPTION_KEY_FILE if set, else the environment
+ */
+export function getKeyProvider(): KeyProvider {
+  if (!keyProvider) {
+    const file = process.env.DATABASE_ENCRYPTION_KEY_FILE;
+    keyProvider = file ? localFileKeyProvider(file) : envKeyProvider();
+  }
+  return keyProvider;
+}
+
+/**
+ * Plug in a provider (e.g. a KMS adapter); null resets to the configured default
+ */
+export function setKeyProvider(provider: KeyProvider | null): void {
+  keyProvider = provider;
+}
@@ -1,4 +1,4 @@
-import { encrypt, decrypt, isEncrypted } from "./encryption";
+import { encrypt, decrypt, isEncrypted, needsRewrap, rewrap } from "./encryption";
 
 /**
  * Session key authorization types
@@ -10,6 +10,7 @@ export interface SessionKey7702Authorization {
   sessionKeyAddress: `0x${string}`;
   serializedAccount?: string; // Base64 serialized kernel account (will be encrypted)
   approvedVaults: string[];
+  approvedProtocols?: string[]; // Cross-protocol permissions; absent on older keys (Morpho only)
   expiry: number;
   timestamp: number;
   policyConfig?: {
@@ -97,3 +98,28 @@ export function decryptAuthorization<T extends Authorization>(auth: T): T {
 export function isAuthorizationEncrypted(auth: Authorization): boolean {
   return !!auth.sessionPrivateKey && isEncrypted(auth.sessionPrivateKey);
 }
+
+/**
+ * Re-wrap an authorization's encrypted fields under the active master key
+ * (see encryption.ts). Ciphertext is kept; only data keys are re-wrapped.
+ *
+ * @param auth - Authorization object as stored
+ * @returns The re-wrapped authorization, or null if nothing needed re-wrapping
+ */
+export function rewrapAuthorization<T extends Authorization>(auth: T): T | null {
+  const cloned = { ...auth };
+  let changed = false;
+
+  if ("serializedAccount" in cloned && typeof (cloned as any).serializedAccount === "string") {
+    if (needsRewrap((cloned as any).serializedAccount)) {
+      (cloned as any).serializedAccount = rewrap((cloned as any).serializedAccount);
+      changed = true;
+    }
+  }
+  if (cloned.sessionPrivateKey && needsRewrap(cloned.sessionPrivateKey)) {
+    cloned.sessionPrivateKey = rewrap(cloned.sessionPrivateKey);
+    changed = true;
+  }
+
+  return changed ? cloned : null;
+}
@@ -0,0 +1,223 @@
+/**
+ * Session Key Registry
+ *
+ * Postgres record of every session key: when it was granted, revoked, and
+ * uninstalled on-chain. It is the source of truth for revocation — the Redis
+ * blacklist in session-revocation.ts only caches it, so a flushed cache can't
+ * bring a revoked key back.
+ *
+ * Revoking stops the agent immediately but leaves the permission validator
+ * installed on the kernel account until its expiry. Agent grants carry the
+ * Kernel.uninstallValidation calldata for their validator, so the owner can
+ * later remove it with one signed UserOp (see lib/zerodev/session-uninstall.ts).
+ */
+
+import { neon } from "@neondatabase/serverless";
+import type { SessionKind } from "@/lib/agent/session-renewal";
+
+export type RevokedBy = "user" | "rotation" | "operator";
+export type UninstallStatus = "prepared" | "submitted" | "confirmed" | "failed";
+
+export interface SessionGrant {
+  walletAddress: string;
+  kind: SessionKind;
+  sessionKeyAddress: string;
+  accountAddress: string;
+  expiry: number; // Unix seconds
+  uninstallCallData?: string | null;
+}
+
+export interface RevocationDetails {
+  walletAddress: string;
+  kind: SessionKind;
+  revokedBy: RevokedBy;
+  reason?: string;
+}
+
+export interface SessionKeyRecord {
+  id: string;
+  sessionKind: SessionKind;
+  sessionKeyAddress: string;
+  accountAddress: string | null;
+  grantedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  revokedBy: RevokedBy | null;
+  revokeReason: string | null;
+  uninstallable: boolean; // Agent grant with uninstall calldata, not yet uninstalled
+  uninstallStatus: UninstallStatus | null;
+  uninstallUserOpHash: string | null;
+  uninstallTxHash: string | null;
+  uninstallRequestedAt: string | null;
+  uninstallSubmittedAt: string | null;
+  uninstalledAt: string | null;
+  uninstallError: string | null;
+}
+
+function getSql() {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error("DATABASE_URL is not configured");
+  }
+  return neon(databaseUrl);
+}
+
+function toIso(value: unknown): string | null {
+  return value ? new Date(value as string).toISOString() : null;
+}
+
+function toRecord(row: Record<string, any>): SessionKeyRecord {
+  return {
+    id: row.id,
+    sessionKind: row.session_kind,
+    sessionKeyAddress: row.session_key_address,
+    accountAddress: row.account_address ?? null,
+    grantedAt: toIso(row.granted_at),
+    expiresAt: toIso(row.expires_at),
+    revokedAt: toIso(row.revoked_at),
+    revokedBy: row.revoked_by ?? null,
+    revokeReason: row.revoke_reason ?? null,
+    uninstallable: !!row.uninstall_call_data && row.uninstall_status !== "confirmed",
+    uninstallStatus: row.uninstall_status ?? null,
+    uninstallUserOpHash: row.uninstall_user_op_hash ?? null,
+    uninstallTxHash: row.uninstall_tx_hash ?? null,
+    uninstallRequestedAt: toIso(row.uninstall_requested_at),
+    uninstallSubmittedAt: toIso(row.uninstall_submitted_at),
+    uninstalledAt: toIso(row.uninstalled_at),
+    uninstallError: row.uninstall_error ?? null,
+  };
+}
+
+/**
+ * Record a newly stored session key. Idempotent per key.
+ */
+export async function recordSessionGrant(grant: SessionGrant): Promise<void> {
+  await getSql()`
+    INSERT INTO session_keys (
+      user_id, wallet_address, session_kind, session_key_address,
+      account_address, uninstall_call_data, granted_at, expires_at
+    )
+    SELECT
+      id,
+      ${grant.walletAddress.toLowerCase()},
+      ${grant.kind},
+      ${grant.sessionKeyAddress.toLowerCase()},
+      ${grant.accountAddress.toLowerCase()},
+      ${grant.uninstallCallData ?? null},
+      NOW(),
+      to_timestamp(${grant.expiry})
+    FROM users
+    WHERE wallet_address = ${grant.walletAddress.toLowerCase()}
+    ON CONFLICT (session_key_address) DO NOTHING
+  `;
+}
+
+/**
+ * Persist a revocation. Keys granted before the registry existed get a row
+ * without grant details. Re-revoking keeps the first revocation.
+ *
+ * @returns false when the wallet has no user row to attach the key to
+ */
+export async function persistRevocation(
+  sessionKeyAddress: string,
+  details: RevocationDetails
+): Promise<boolean> {
+  const rows = await getSql()`
+    INSERT INTO session_keys (
+      user_id, wallet_address, session_kind, session_key_address,
+      revoked_at, revoked_by, revoke_reason
+    )
+    SELECT
+      id,
+      ${details.walletAddress.toLowerCase()},
+      ${details.kind},
+      ${sessionKeyAddress.toLowerCase()},
+      NOW(),
+      ${details.revokedBy},
+      ${details.reason ?? null}
+    FROM users
+    WHERE wallet_address = ${details.walletAddress.toLowerCase()}
+    ON CONFLICT (session_key_address) DO UPDATE SET
+      revoked_at = COALESCE(session_keys.revoked_at, EXCLUDED.revoked_at),
+      revoked_by = COALESCE(session_keys.revoked_by, EXCLUDED.revoked_by),
+      revoke_reason = COALESCE(session_keys.revoke_reason, EXCLUDED.revoke_reason),
+      updated_at = NOW()
+    RETURNING id
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * Whether the registry has the key as revoked
+ */
+export async function isRevokedInRegistry(sessionKeyAddress: string): Promise<boolean> {
+  const rows = await getSql()`
+    SELECT 1 FROM session_keys
+    WHERE session_key_address = ${sessionKeyAddress.toLowerCase()}
+      AND revoked_at IS NOT NULL
+  `;
+  return rows.length > 0;
+}
+
+/**
+ * A wallet's session keys, newest first — the grant/revoke/uninstall history
+ */
+export async function getSessionKeyHistory(walletAddress: string): Promise<SessionKeyRecord[]> {
+  const rows = await getSql()`
+    SELECT * FROM session_keys
+    WHERE wallet_address = ${walletAddress.toLowerCase()}
+    ORDER BY COALESCE(granted_at, created_at) DESC
+  `;
+  return rows.map(toRecord);
+}
+
+/**
+ * One of the wallet's keys with its uninstall calldata, or null
+ */
+export async function getUninstallTarget(
+  walletAddress: string,
+  sessionKeyAddress: string
+): Promise<(SessionKeyRecord & { uninstallCallData: string | null }) | null> {
+  const rows = await getSql()`
+    SELECT * FROM session_keys
+    WHERE wallet_address = ${walletAddress.toLowerCase()}
+      AND session_key_address = ${sessionKeyAddress.toLowerCase()}
+  `;
+  if (rows.length === 0) return null;
+  return { ...toRecord(rows[0]), uninstallCallData: rows[0].uninstall_call_data ?? null };
+}
+
+/**
+ * Record progress of an on-chain uninstall
+ */
+export async function recordUninstall(
+  sessionKeyAddress: string,
+  update:
+    | { status: "prepared"; userOpHash: string }
+    | { status: "submitted"; userOpHash: string }
+    | { status: "confirmed"; userOpHash: string; txHash: string }
+    | { status: "failed"; userOpHash: string; error: string; txHash?: string }
+): Promise<void> {
+  const txHash = "txHash" in update ? (update.txHash ?? null) : null;
+  const error = update.status === "failed" ? update.error : null;
+  await getSql()`
+    UPDATE session_keys
+    SET
+      uninstall_status = ${update.status},
+      uninstall_user_op_hash = ${update.userOpHash},
+      uninstall_tx_hash = COALESCE(${txHash}, uninstall_tx_hash),
+      uninstall_requested_at = CASE
+        WHEN ${update.status} = 'prepared' THEN NOW()
+        ELSE uninstall_requested_at
+      END,
+      uninstall_submitted_at = CASE
+        WHEN ${update.status} = 'submitted' THEN NOW()
+        WHEN ${update.status} = 'prepared' THEN NULL
+        ELSE uninstall_submitted_at
+      END,
+      uninstalled_at = CASE WHEN ${update.status} = 'confirmed' THEN NOW() ELSE uninstalled_at END,
+      uninstall_error = ${error},
+      updated_at = NOW()
+    WHERE session_key_address = ${sessionKeyAddress.toLowerCase()}
+  `;
+}
@@ -1,37 +1,74 @@
 /**
- * Session Key Revocation via Redis Blacklist
+ * Session Key Revocation
  *
  * Provides immediate revocation of session keys before their on-chain expiry.
- * When a user revokes their session key, we add it to a Redis blacklist.
- * The cron job checks this blacklist before executing any UserOps.
+ * Revocations are persisted in the session key registry (Postgres, the source
+ * of truth) and cached in a Redis blacklist. The cron job checks them before
+ * executing any UserOps.
  *
- * TTL matches SESSION_KEY_EXPIRY_DAYS (7 days) — entries auto-expire
- * once the session key would have expired anyway.
+ * A cache miss falls through to the registry and re-caches a hit, so a Redis
+ * flush can't revive a revoked key. Cache TTL matches SESSION_KEY_EXPIRY_DAYS
+ * (7 days) — entries expire once the session key would have expired anyway.
  */
 
 import { getCacheInterface } from "@/lib/redis/client";
+import {
+  isRevokedInRegistry,
+  persistRevocation,
+  type RevocationDetails,
+} from "@/lib/security/session-registry";
 
 const REVOCATION_PREFIX = "session:revoked";
 const REVOCATION_TTL = 7 * 24 * 60 * 60; // 7 days (matches session key lifetime)
 
+async function cacheRevocation(sessionKeyAddress: string): Promise<void> {
+  try {
+    const cache = await getCacheInterface();
+    const key = `${REVOCATION_PREFIX}:${sessionKeyAddress.toLowerCase()}`;
+    await cache.set(key, Date.now().toString(), REVOCATION_TTL);
+  } catch (error) {
+    // The registry already has it — a cache miss just costs a query
+    console.error("[SessionRevocation] Failed to cache revocation:", error);
+  }
+}
+
 /**
- * Add a session key address to the revocation blacklist.
- * Called when a user explicitly revokes their session key.
+ * Revoke a session key: persist to the registry, then cache in Redis.
+ * Called when a user explicitly revokes their session key or replaces it.
  */
-export async function revokeSession(sessionKeyAddress: string): Promise<void> {
-  const cache = await getCacheInterface();
-  const key = `${REVOCATION_PREFIX}:${sessionKeyAddress.toLowerCase()}`;
-  await cache.set(key, Date.now().toString(), REVOCATION_TTL);
+export async function revokeSession(
+  sessionKeyAddress: string,
+  details: RevocationDetails
+): Promise<void> {
+  const persisted = await persistRevocation(sessionKeyAddress, details);
+  if (!persisted) {
+    console.warn("[SessionRevocation] No user row for", details.walletAddress);
+  }
+  await cacheRevocation(sessionKeyAddress);
   console.log("[SessionRevocation] Session key revoked:", sessionKeyAddress);
 }
 
 /**
  * Check if a session key has been revoked.
- * Returns true if the key is in the blacklist.
+ * Returns true if the key is in the blacklist or the registry.
+ * Fails closed: a registry error counts as revoked.
  */
 export async function isSessionRevoked(sessionKeyAddress: string): Promise<boolean> {
-  const cache = await getCacheInterface();
-  const key = `${REVOCATION_PREFIX}:${sessionKeyAddress.toLowerCase()}`;
-  const value = await cache.get(key);
-  return value !== null;
+  try {
+    const cache = await getCacheInterface();
+    const key = `${REVOCATION_PREFIX}:${sessionKeyAddress.toLowerCase()}`;
+    if ((await cache.get(key)) !== null) return true;
+  } catch (error) {
+    console.error("[SessionRevocation] Cache unavailable, checking registry:", error);
+  }
+
+  try {
+    if (!(await isRevokedInRegistry(sessionKeyAddress))) return false;
+  } catch (error) {
+    console.error("[SessionRevocation] Registry check failed, treating as revoked:", error);
+    return true;
+  }
+
+  await cacheRevocation(sessionKeyAddress);
+  return true;
 }
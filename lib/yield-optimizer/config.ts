@@ -46,8 +46,49 @@ export const PROTOCOLS = {
     comptroller: "0xfBb21d0380beE3312B33c4353c8936a0F13EF26C" as `0x${string}`,
     mUsdc: "0xEdc817A28E8B93B03976FBd4a3dDBc9f7D176c22" as `0x${string}`,
   },
+  compound: {
+    enabled: true,
+    name: "Compound",
+    cUsdcV3: "0xb125E6687d4313864e53df431d5425969c15Eb2F" as `0x${string}`, // USDC Comet
+  },
 } as const;
 
+// Config-driven ERC-4626 USDC vaults, served by Erc4626Adapter (lib/protocols/erc4626-adapter.ts).
+// Each key registers as its own protocol; adding a vault needs no adapter code.
+// APY is derived on-chain from the share price change over ERC4626_APY_WINDOW_DAYS.
+export interface Erc4626VaultConfig {
+  address: `0x${string}`;
+  name: string;
+  riskScore: number; // 0-1, higher = riskier
+  curator?: string; // Concentration-cap group (defaults to the protocol id)
+  enabled: boolean;
+}
+
+export interface Erc4626ProtocolConfig {
+  name: string;
+  vaults: readonly Erc4626VaultConfig[];
+}
+
+export const ERC4626_PROTOCOLS: Record<string, Erc4626ProtocolConfig> = {
+  fluid: {
+    name: "Fluid",
+    vaults: [
+      {
+        address: "0xf42f5795D9ac7e9D757dB633D693cD548Cfd9169",
+        name: "Fluid USDC",
+        riskScore: 0.3,
+        enabled: false,
+      },
+    ],
+  },
+};
+
+export const ERC4626_APY_WINDOW_DAYS = 7;
+
+// Aave/Moonwell APYs are read on-chain; DefiLlama is only a cross-check. A gap
+// wider than this (absolute, 0.01 = 1 percentage point) is flagged on the opportunity.
+export const APY_CROSS_CHECK_MAX_DEVIATION = 0.01;
+
 // Morpho USDC Market Parameters (Base Mainnet)
 // Default market params - actual vaults fetched dynamically via MorphoClient
 export const MORPHO_USDC_MARKET_PARAMS = {
@@ -79,6 +120,7 @@ export const ESTIMATED_APYS = {
   morpho: 0.045, // 4.5%
   aave: 0.038, // 3.8% - mainnet estimate
   moonwell: 0.042, // 4.2% - mainnet estimate
+  compound: 0.045, // 4.5% - mainnet estimate
 } as const;
 
 // Shared rebalance thresholds — used by both the UI evaluator and agent decision engine
@@ -92,3 +134,23 @@ export const REBALANCE_THRESHOLDS = {
   // Project cost tracked separately for monitoring, not used in rebalance decisions.
   projectGasCostUsd: 0.5, // Approximate project cost per UserOp (monitoring only)
 } as const;
+
+export type RebalanceThresholds = { [K in keyof typeof REBALANCE_THRESHOLDS]: number };
+
+// Portfolio-level allocation limits — used by the agent's multi-position optimizer
+export const PORTFOLIO_LIMITS = {
+  maxVaultConcentration: 0.6, // Max 60% of a user's portfolio in a single vault
+  maxCuratorConcentration: 0.8, // Max 80% of a user's portfolio with a single curator
+  minLegUsdc: 1_000_000n, // Ignore redeem/deposit legs smaller than $1 (6 decimals)
+} as const;
+
+// Platform-wide exposure limits — bound what all users hold together, so the agent
+// can't steer everyone into the same vault or curator
+export const PLATFORM_EXPOSURE_LIMITS = {
+  // Max share of a vault's TVL held by our users in aggregate
+  maxVaultTvlShare: parseFloat(process.env.PLATFORM_MAX_VAULT_TVL_SHARE || "0.1"),
+  // Max USD held by our users with a single curator (or lending pool)
+  maxCuratorExposureUsd: parseFloat(process.env.PLATFORM_MAX_CURATOR_EXPOSURE_USD || "5000000"),
+};
+
+export type PlatformExposureLimits = typeof PLATFORM_EXPOSURE_LIMITS;
@@ -7,10 +7,14 @@
  * Mirrors the Morpho GraphQL pattern in lib/morpho/api-client.ts —
  * API-based data fetching with Redis caching.
  *
+ * Aave and Moonwell APYs are derived on-chain; this is only a cross-check
+ * (see crossCheckApy), never the source of an opportunity's APY.
+ *
  * Caching: Uses Redis (or in-memory fallback) with 5 min TTL
  */
 
 import { getCacheInterface } from "@/lib/redis/client";
+import { APY_CROSS_CHECK_MAX_DEVIATION } from "./config";
 
 const DEFI_LLAMA_POOLS_URL = "https://yields.llama.fi/pools";
 const CACHE_KEY = "defillama:yields:base";
@@ -140,3 +144,35 @@ export async function getMoonwellUsdcPool(): Promise<{
     return null;
   }
 }
+
+export interface ApyCrossCheck {
+  defillamaApy: number;
+  deviation: number; // Absolute difference, on-chain minus DefiLlama
+  flagged: boolean; // True if |deviation| > APY_CROSS_CHECK_MAX_DEVIATION
+}
+
+/**
+ * Compare an on-chain APY against the DefiLlama figure for the same pool.
+ * Returns null when DefiLlama has no data; large disagreements are logged.
+ */
+export function crossCheckApy(
+  label: string,
+  onChainApy: number,
+  llamaPool: { apy: number } | null
+): ApyCrossCheck | null {
+  if (!llamaPool) {
+    return null;
+  }
+
+  const deviation = onChainApy - llamaPool.apy;
+  const flagged = Math.abs(deviation) > APY_CROSS_CHECK_MAX_DEVIATION;
+
+  if (flagged) {
+    console.warn(
+      `[DefiLlama] ${label} on-chain APY ${(onChainApy * 100).toFixed(2)}% disagrees with ` +
+        `DefiLlama ${(llamaPool.apy * 100).toFixed(2)}% (${(deviation * 100).toFixed(2)}pp)`
+    );
+  }
+
+  return { defillamaApy: llamaPool.apy, deviation, flagged };
+}
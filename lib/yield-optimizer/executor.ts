@@ -7,7 +7,9 @@ import {
   buildMorphoWithdrawTx,
   MORPHO_BLUE_ABI,
 } from "./protocols/morpho";
-import { PROTOCOLS, USDC_ADDRESS } from "./config";
+import { buildErc4626DepositTx, buildErc4626WithdrawTx } from "./protocols/erc4626";
+import { buildCompoundDepositTx, buildCompoundWithdrawTx } from "./protocols/compound";
+import { ERC4626_PROTOCOLS, PROTOCOLS, USDC_ADDRESS } from "./config";
 
 // ERC20 ABI for approvals
 const ERC20_ABI = [
@@ -75,11 +77,14 @@ export async function buildDepositTransaction(
 
   // Step 1: Approve USDC spend
   // If vault address provided, approve for vault; otherwise use protocol default
+  const isErc4626Vault = Object.hasOwn(ERC4626_PROTOCOLS, protocol) && !!vaultAddress;
   let targetAddress: `0x${string}`;
-  if (protocol === "morpho" && vaultAddress) {
+  if ((protocol === "morpho" || isErc4626Vault) && vaultAddress) {
     targetAddress = vaultAddress; // Approve vault for ERC4626 deposit
   } else if (protocol === "aave") {
     targetAddress = AAVE_POOL;
+  } else if (protocol === "compound") {
+    targetAddress = PROTOCOLS.compound.cUsdcV3;
   } else {
     targetAddress = MORPHO_BLUE_BASE; // Fallback to Morpho Core
   }
@@ -168,6 +173,37 @@ export async function buildDepositTransaction(
         stepIndex: 1,
       });
     }
+  } else if (isErc4626Vault) {
+    // Config-driven ERC-4626 vault (ERC4626_PROTOCOLS)
+    const vaultTxs = buildErc4626DepositTx(amountWei, userAddress, vaultAddress!);
+
+    transactions.push({
+      id: `supply-${Date.now()}`,
+      title: `Deposit to ${ERC4626_PROTOCOLS[protocol].name} Vault`,
+      type: "SUPPLY",
+      status: "CREATED",
+      unsignedTransaction: JSON.stringify({
+        to: vaultTxs.deposit.to,
+        data: vaultTxs.deposit.data,
+        value: "0x0",
+      }),
+      stepIndex: 1,
+    });
+  } else if (protocol === "compound") {
+    const cometTxs = buildCompoundDepositTx(amountWei, userAddress);
+
+    transactions.push({
+      id: `supply-${Date.now()}`,
+      title: "Supply to Compound",
+      type: "SUPPLY",
+      status: "CREATED",
+      unsignedTransaction: JSON.stringify({
+        to: cometTxs.supply.to,
+        data: cometTxs.supply.data,
+        value: "0x0",
+      }),
+      stepIndex: 1,
+    });
   } else if (protocol === "moonwell") {
     // Moonwell deposit - not deployed on testnet
     transactions.push({
@@ -309,6 +345,36 @@ export async function buildWithdrawTransaction(
       }),
       stepIndex: 0,
     });
+  } else if (protocol === "compound") {
+    const withdrawTx = buildCompoundWithdrawTx(assets || 0n, userAddress);
+
+    transactions.push({
+      id: `withdraw-${Date.now()}`,
+      title: "Withdraw from Compound",
+      type: "WITHDRAW",
+      status: "CREATED",
+      unsignedTransaction: JSON.stringify({
+        to: withdrawTx.to,
+        data: withdrawTx.data,
+        value: "0x0",
+      }),
+      stepIndex: 0,
+    });
+  } else if (Object.hasOwn(ERC4626_PROTOCOLS, protocol) && vaultAddress) {
+    const withdrawTx = buildErc4626WithdrawTx(userAddress, vaultAddress, shares, assets);
+
+    transactions.push({
+      id: `withdraw-${Date.now()}`,
+      title: `Withdraw from ${ERC4626_PROTOCOLS[protocol].name}`,
+      type: "WITHDRAW",
+      status: "CREATED",
+      unsignedTransaction: JSON.stringify({
+        to: withdrawTx.to,
+        data: withdrawTx.data,
+        value: "0x0",
+      }),
+      stepIndex: 0,
+    });
   } else {
     throw new Error(`Withdrawal not supported for protocol: ${protocol}`);
   }
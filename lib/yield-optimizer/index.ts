@@ -4,7 +4,8 @@ export * from "./strategy/evaluator";
 
 import { protocolRegistry } from "@/lib/protocols/adapter";
 import { evaluateRebalance } from "./strategy/evaluator";
-import type { YieldOpportunity, Position, RebalanceDecision } from "./types";
+import { ERC4626_PROTOCOLS } from "./config";
+import type { YieldOpportunity, Position, RebalanceDecision, ClaimableReward } from "./types";
 
 /**
  * Fetch all yield opportunities across protocols
@@ -22,6 +23,13 @@ export async function getCurrentPosition(userAddress: `0x${string}`): Promise<Po
   return protocolRegistry.getAllPositions(userAddress);
 }
 
+/**
+ * Get user's pending incentive rewards (MORPHO, WELL, ...) across all protocols
+ */
+export async function getClaimableRewards(userAddress: `0x${string}`): Promise<ClaimableReward[]> {
+  return protocolRegistry.getAllClaimableRewards(userAddress);
+}
+
 /**
  * Main optimization function - evaluates whether to rebalance
  */
@@ -52,6 +60,13 @@ export function getProtocolInfo(protocol: string) {
     morpho: { name: "Morpho", color: "#00D395", icon: "🔷" },
     aave: { name: "Aave", color: "#B6509E", icon: "👻" },
     moonwell: { name: "Moonwell", color: "#7B3FE4", icon: "🌙" },
+    compound: { name: "Compound", color: "#0E9F6E", icon: "🟢" },
   };
-  return info[protocol] || { name: protocol, color: "#888", icon: "💰" };
+  return (
+    info[protocol] || {
+      name: ERC4626_PROTOCOLS[protocol]?.name ?? protocol,
+      color: "#888",
+      icon: "💰",
+    }
+  );
 }
@@ -1,7 +1,7 @@
 // Aave V3 Protocol Integration (Base Mainnet)
-import { encodeFunctionData } from "viem";
+import { encodeFunctionData, parseAbi, zeroAddress } from "viem";
 import { baseClient } from "@/lib/shared/rpc-client";
-import { getAaveUsdcPool } from "../defi-llama-api";
+import { getAaveUsdcPool, crossCheckApy } from "../defi-llama-api";
 import type { YieldOpportunity, Position } from "../types";
 import { USDC_BASE } from "../types";
 import { PROTOCOLS } from "../config";
@@ -11,6 +11,8 @@ const AAVE_POOL = "0xA238Dd80C259a72e81d7e4664a9801593F98d1c5" as const;
 const AAVE_AUSDC = "0x4e65fE4DbA92790696d040ac24Aa414708F5c0AB" as const;
 const USDC = USDC_BASE;
 
+const SECONDS_PER_YEAR = 365 * 24 * 3600;
+
 const AAVE_POOL_ABI = [
   {
     name: "supply",
@@ -84,57 +86,158 @@ const ERC20_ABI = [
   },
 ] as const;
 
+// Incentive reads: aToken -> RewardsController, Pool -> AddressesProvider -> AaveOracle
+const AAVE_REWARDS_ABI = parseAbi([
+  "function getIncentivesController() view returns (address)",
+  "function getRewardsByAsset(address asset) view returns (address[])",
+  "function getRewardsData(address asset, address reward) view returns (uint256 index, uint256 emissionPerSecond, uint256 lastUpdateTimestamp, uint256 distributionEnd)",
+  "function ADDRESSES_PROVIDER() view returns (address)",
+  "function getPriceOracle() view returns (address)",
+  "function getAssetPrice(address asset) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+]);
+
 /**
- * Fetch Aave V3 USDC lending opportunities on Base mainnet
- * Uses DeFi Llama API for APY/TVL data (cached, no RPC needed).
- * Falls back to RPC if DeFi Llama is unavailable.
+ * Convert Aave's currentLiquidityRate (annual rate in ray, 1e27) to APY.
+ * The rate is linear per second, compounded as aToken balances rebase.
  */
-export async function getAaveOpportunities(): Promise<YieldOpportunity[]> {
-  if (!PROTOCOLS.aave.enabled) {
-    return [];
-  }
+export function aaveRateToApy(liquidityRate: bigint): number {
+  const apr = Number(liquidityRate) / 1e27;
+  return Math.pow(1 + apr / SECONDS_PER_YEAR, SECONDS_PER_YEAR) - 1;
+}
 
-  try {
-    // Try DeFi Llama API first (no RPC needed, cached)
-    const llamaPool = await getAaveUsdcPool();
-    if (llamaPool) {
-      return [
-        {
-          id: "aave-usdc-base",
-          protocol: "aave",
-          name: "Aave V3 USDC",
-          asset: "USDC",
-          apy: llamaPool.apy,
-          tvl: BigInt(Math.round(llamaPool.tvlUsd * 1e6)), // Convert USD to USDC units (6 decimals)
-          address: AAVE_POOL,
-          riskScore: 0.2,
-          liquidityDepth: BigInt(Math.round(llamaPool.tvlUsd * 1e6)),
-          metadata: {
-            aTokenAddress: AAVE_AUSDC,
-            isVault: false,
-            source: "defillama",
-          },
-        },
-      ];
+/**
+ * Annualized incentive APR for aUSDC suppliers from the RewardsController.
+ * Reward and USDC prices both come from the AaveOracle (same base currency),
+ * so rewards the oracle can't price are left out rather than guessed.
+ */
+async function getAaveRewardApr(totalSupplied: bigint): Promise<number> {
+  if (totalSupplied === 0n) return 0;
+
+  const controller = await baseClient.readContract({
+    address: AAVE_AUSDC,
+    abi: AAVE_REWARDS_ABI,
+    functionName: "getIncentivesController",
+  });
+  if (controller === zeroAddress) return 0;
+
+  const rewards = await baseClient.readContract({
+    address: controller,
+    abi: AAVE_REWARDS_ABI,
+    functionName: "getRewardsByAsset",
+    args: [AAVE_AUSDC],
+  });
+  if (rewards.length === 0) return 0;
+
+  const provider = await baseClient.readContract({
+    address: AAVE_POOL,
+    abi: AAVE_REWARDS_ABI,
+    functionName: "ADDRESSES_PROVIDER",
+  });
+  const oracle = await baseClient.readContract({
+    address: provider,
+    abi: AAVE_REWARDS_ABI,
+    functionName: "getPriceOracle",
+  });
+  const usdcPrice = await baseClient.readContract({
+    address: oracle,
+    abi: AAVE_REWARDS_ABI,
+    functionName: "getAssetPrice",
+    args: [USDC],
+  });
+  const suppliedValue = (Number(totalSupplied) / 1e6) * Number(usdcPrice);
+
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  let rewardApr = 0;
+
+  for (const reward of rewards) {
+    const [, emissionPerSecond, , distributionEnd] = await baseClient.readContract({
+      address: controller,
+      abi: AAVE_REWARDS_ABI,
+      functionName: "getRewardsData",
+      args: [AAVE_AUSDC, reward],
+    });
+    if (emissionPerSecond === 0n || distributionEnd <= now) continue;
+
+    const [price, decimals] = await Promise.all([
+      baseClient
+        .readContract({
+          address: oracle,
+          abi: AAVE_REWARDS_ABI,
+          functionName: "getAssetPrice",
+          args: [reward],
+        })
+        .catch(() => 0n),
+      baseClient.readContract({ address: reward, abi: AAVE_REWARDS_ABI, functionName: "decimals" }),
+    ]);
+    if (price === 0n) {
+      console.warn(`[Aave] No oracle price for reward token ${reward}, excluded from APY`);
+      continue;
     }
 
-    // Fallback to RPC if DeFi Llama unavailable
-    console.warn("[Aave] DeFi Llama unavailable, falling back to RPC");
-    const reserveData = await baseClient.readContract({
+    const yearlyValue =
+      ((Number(emissionPerSecond) * SECONDS_PER_YEAR) / 10 ** decimals) * Number(price);
+    rewardApr += yearlyValue / suppliedValue;
+  }
+
+  return rewardApr;
+}
+
+/**
+ * Supply APY for USDC on Aave V3, read entirely on-chain:
+ * base APY from getReserveData().currentLiquidityRate plus incentive APR.
+ * A failing rewards read only drops the reward component.
+ */
+export async function getAaveSupplyApy(): Promise<{
+  apy: number;
+  apyBase: number;
+  apyReward: number;
+  totalSupplied: bigint;
+}> {
+  const [reserveData, totalSupplied] = await Promise.all([
+    baseClient.readContract({
       address: AAVE_POOL,
       abi: AAVE_POOL_ABI,
       functionName: "getReserveData",
       args: [USDC],
-    });
-
-    const liquidityRate = (reserveData as readonly bigint[])[2];
-    const apy = Number(liquidityRate) / 1e27;
-
-    const tvl = (await baseClient.readContract({
+    }),
+    baseClient.readContract({
       address: AAVE_AUSDC,
       abi: ERC20_ABI,
       functionName: "totalSupply",
-    })) as bigint;
+    }) as Promise<bigint>,
+  ]);
+
+  const apyBase = aaveRateToApy((reserveData as readonly bigint[])[2]);
+  const apyReward = await getAaveRewardApr(totalSupplied).catch((error) => {
+    console.warn("[Aave] Failed to read reward emissions:", error);
+    return 0;
+  });
+
+  return { apy: apyBase + apyReward, apyBase, apyReward, totalSupplied };
+}
+
+/**
+ * Fetch Aave V3 USDC lending opportunities on Base mainnet
+ * APY and TVL come from the pool itself; DeFi Llama is only used to
+ * cross-check the result (a large gap is flagged in metadata).
+ */
+export async function getAaveOpportunities(): Promise<YieldOpportunity[]> {
+  if (!PROTOCOLS.aave.enabled) {
+    return [];
+  }
+
+  try {
+    const [{ apy, apyBase, apyReward, totalSupplied }, cash, llamaPool] = await Promise.all([
+      getAaveSupplyApy(),
+      baseClient.readContract({
+        address: USDC,
+        abi: ERC20_ABI,
+        functionName: "balanceOf",
+        args: [AAVE_AUSDC],
+      }) as Promise<bigint>,
+      getAaveUsdcPool(),
+    ]);
 
     return [
       {
@@ -143,14 +246,17 @@ export async function getAaveOpportunities(): Promise<YieldOpportunity[]> {
         name: "Aave V3 USDC",
         asset: "USDC",
         apy,
-        tvl,
+        tvl: totalSupplied,
         address: AAVE_POOL,
         riskScore: 0.2,
-        liquidityDepth: tvl,
+        liquidityDepth: cash, // USDC held by the aToken, i.e. withdrawable right now
         metadata: {
           aTokenAddress: AAVE_AUSDC,
           isVault: false,
           source: "rpc",
+          apyBase,
+          apyReward,
+          apyCrossCheck: crossCheckApy("Aave V3 USDC", apy, llamaPool),
         },
       },
     ];
@@ -182,16 +288,7 @@ export async function getAavePosition(userAddress: `0x${string}`): Promise<Posit
       return null;
     }
 
-    // Fetch current APY
-    const reserveData = await baseClient.readContract({
-      address: AAVE_POOL,
-      abi: AAVE_POOL_ABI,
-      functionName: "getReserveData",
-      args: [USDC],
-    });
-
-    const liquidityRate = (reserveData as readonly bigint[])[2];
-    const apy = Number(liquidityRate) / 1e27;
+    const { apy } = await getAaveSupplyApy();
 
     return {
       protocol: "aave",
@@ -0,0 +1,182 @@
+// Compound v3 (Comet) Protocol Integration (Base Mainnet)
+import { encodeFunctionData, maxUint256, parseAbi } from "viem";
+import { baseClient } from "@/lib/shared/rpc-client";
+import type { YieldOpportunity, Position } from "../types";
+import { USDC_BASE } from "../types";
+import { PROTOCOLS } from "../config";
+
+// Base Mainnet addresses
+const COMET_USDC = PROTOCOLS.compound.cUsdcV3;
+const USDC = USDC_BASE;
+
+const SECONDS_PER_YEAR = 365 * 24 * 3600;
+
+const COMET_ABI = parseAbi([
+  "function getUtilization() view returns (uint256)",
+  "function getSupplyRate(uint256 utilization) view returns (uint64)",
+  "function totalSupply() view returns (uint256)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function supply(address asset, uint256 amount)",
+  "function withdraw(address asset, uint256 amount)",
+]);
+
+const ERC20_ABI = parseAbi([
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function balanceOf(address account) view returns (uint256)",
+]);
+
+/**
+ * Current supply rate from getSupplyRate(getUtilization()).
+ * Comet returns a per-second rate scaled by 1e18; interest accrues into the
+ * supply index every second, so APY compounds per second.
+ */
+export async function getCompoundSupplyRate(): Promise<{ apr: number; apy: number }> {
+  const utilization = await baseClient.readContract({
+    address: COMET_USDC,
+    abi: COMET_ABI,
+    functionName: "getUtilization",
+  });
+
+  const supplyRate = await baseClient.readContract({
+    address: COMET_USDC,
+    abi: COMET_ABI,
+    functionName: "getSupplyRate",
+    args: [utilization],
+  });
+
+  const ratePerSecond = Number(supplyRate) / 1e18;
+  return {
+    apr: ratePerSecond * SECONDS_PER_YEAR,
+    apy: Math.pow(1 + ratePerSecond, SECONDS_PER_YEAR) - 1,
+  };
+}
+
+/**
+ * Fetch the Compound v3 USDC market on Base mainnet.
+ * TVL is total base supplied; liquidity is the USDC cash held by the Comet.
+ */
+export async function getCompoundOpportunities(): Promise<YieldOpportunity[]> {
+  if (!PROTOCOLS.compound.enabled) {
+    return [];
+  }
+
+  try {
+    const [{ apr, apy }, totalSupply, cash] = await Promise.all([
+      getCompoundSupplyRate(),
+      baseClient.readContract({
+        address: COMET_USDC,
+        abi: COMET_ABI,
+        functionName: "totalSupply",
+      }),
+      baseClient.readContract({
+        address: USDC,
+        abi: ERC20_ABI,
+        functionName: "balanceOf",
+        args: [COMET_USDC],
+      }),
+    ]);
+
+    return [
+      {
+        id: "compound-usdc-base",
+        protocol: "compound",
+        name: "Compound v3 USDC",
+        asset: "USDC",
+        apy,
+        tvl: totalSupply,
+        address: COMET_USDC,
+        riskScore: 0.2,
+        liquidityDepth: cash,
+        metadata: {
+          isVault: false,
+          supplyApr: apr,
+          source: "rpc",
+        },
+      },
+    ];
+  } catch (error) {
+    console.error("Failed to fetch Compound opportunities:", error);
+    return [];
+  }
+}
+
+/**
+ * Fetch user's Compound v3 USDC position on Base mainnet.
+ * Comet's balanceOf already returns the present value (principal + interest).
+ */
+export async function getCompoundPosition(userAddress: `0x${string}`): Promise<Position | null> {
+  if (!PROTOCOLS.compound.enabled) {
+    return null;
+  }
+
+  try {
+    const balance = await baseClient.readContract({
+      address: COMET_USDC,
+      abi: COMET_ABI,
+      functionName: "balanceOf",
+      args: [userAddress],
+    });
+
+    if (balance === 0n) {
+      return null;
+    }
+
+    const { apy } = await getCompoundSupplyRate();
+
+    return {
+      protocol: "compound",
+      vaultAddress: COMET_USDC,
+      shares: balance, // Comet balances are denominated in USDC
+      assets: balance,
+      apy,
+      enteredAt: Date.now(), // We don't have historical data, use current timestamp
+    };
+  } catch (error) {
+    console.error("Failed to fetch Compound position:", error);
+    return null;
+  }
+}
+
+/**
+ * Build deposit transaction data for Compound v3
+ * Returns approve + supply transaction objects; supply credits msg.sender
+ */
+export function buildCompoundDepositTx(amount: bigint, _userAddress: `0x${string}`) {
+  return {
+    approve: {
+      to: USDC,
+      value: 0n,
+      data: encodeFunctionData({
+        abi: ERC20_ABI,
+        functionName: "approve",
+        args: [COMET_USDC, amount],
+      }),
+    },
+    supply: {
+      to: COMET_USDC,
+      value: 0n,
+      data: encodeFunctionData({
+        abi: COMET_ABI,
+        functionName: "supply",
+        args: [USDC, amount],
+      }),
+    },
+  };
+}
+
+/**
+ * Build withdraw transaction data for Compound v3
+ * Funds go to msg.sender; an amount of 0 withdraws the full balance
+ * (Comet treats type(uint256).max as "everything")
+ */
+export function buildCompoundWithdrawTx(amount: bigint, _userAddress: `0x${string}`) {
+  return {
+    to: COMET_USDC,
+    value: 0n,
+    data: encodeFunctionData({
+      abi: COMET_ABI,
+      functionName: "withdraw",
+      args: [USDC, amount > 0n ? amount : maxUint256],
+    }),
+  };
+}
@@ -0,0 +1,264 @@
+// Generic ERC-4626 Vault Integration (Base Mainnet)
+// Reads everything from the vault itself — asset(), totalAssets(), convertToAssets(),
+// maxWithdraw() — and derives APY from the share price change over a lookback window.
+import { encodeFunctionData, parseAbi } from "viem";
+import { baseClient } from "@/lib/shared/rpc-client";
+import type { YieldOpportunity, Position, ProtocolId } from "../types";
+import { ERC4626_APY_WINDOW_DAYS, USDC_ADDRESS, type Erc4626VaultConfig } from "../config";
+
+const ERC4626_ABI = parseAbi([
+  "function asset() view returns (address)",
+  "function decimals() view returns (uint8)",
+  "function totalAssets() view returns (uint256)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function convertToAssets(uint256 shares) view returns (uint256)",
+  "function maxWithdraw(address owner) view returns (uint256)",
+  "function deposit(uint256 assets, address receiver) returns (uint256 shares)",
+  "function redeem(uint256 shares, address receiver, address owner) returns (uint256 assets)",
+  "function withdraw(uint256 assets, address receiver, address owner) returns (uint256 shares)",
+]);
+
+const ERC20_ABI = parseAbi(["function approve(address spender, uint256 amount) returns (bool)"]);
+
+const BASE_BLOCK_TIME_SECONDS = 2;
+const SECONDS_PER_YEAR = 365 * 24 * 3600;
+const APY_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Share price APY per vault — opportunities and positions both need it
+const apyCache = new Map<string, { apy: number; fetchedAt: number }>();
+
+/**
+ * Annualize share price growth: (priceNow / priceThen)^(year / elapsed) - 1
+ */
+export function annualizeSharePrice(
+  priceThen: bigint,
+  priceNow: bigint,
+  elapsedSeconds: number
+): number {
+  if (priceThen <= 0n || elapsedSeconds <= 0) return 0;
+  const growth = Number((priceNow * 10n ** 18n) / priceThen) / 1e18;
+  return Math.pow(growth, SECONDS_PER_YEAR / elapsedSeconds) - 1;
+}
+
+/**
+ * APY from convertToAssets(1 share) now vs ERC4626_APY_WINDOW_DAYS ago.
+ * Needs historical state from the RPC (archive access for the window).
+ */
+export async function getSharePriceApy(vault: `0x${string}`, decimals: number): Promise<number> {
+  const cached = apyCache.get(vault.toLowerCase());
+  if (cached && Date.now() - cached.fetchedAt < APY_CACHE_TTL_MS) {
+    return cached.apy;
+  }
+
+  const lookbackBlocks = BigInt(
+    Math.round((ERC4626_APY_WINDOW_DAYS * 86400) / BASE_BLOCK_TIME_SECONDS)
+  );
+  const head = await baseClient.getBlock();
+  const past = await baseClient.getBlock({ blockNumber: head.number - lookbackBlocks });
+
+  const oneShare = 10n ** BigInt(decimals);
+  const [priceNow, priceThen] = await Promise.all(
+    [head.number, past.number].map((blockNumber) =>
+      baseClient.readContract({
+        address: vault,
+        abi: ERC4626_ABI,
+        functionName: "convertToAssets",
+        args: [oneShare],
+        blockNumber,
+      })
+    )
+  );
+
+  const apy = annualizeSharePrice(priceThen, priceNow, Number(head.timestamp - past.timestamp));
+  apyCache.set(vault.toLowerCase(), { apy, fetchedAt: Date.now() });
+  return apy;
+}
+
+async function getVaultOpportunity(
+  protocol: ProtocolId,
+  vault: Erc4626VaultConfig
+): Promise<YieldOpportunity | null> {
+  const [asset, decimals, totalAssets] = await Promise.all([
+    baseClient.readContract({ address: vault.address, abi: ERC4626_ABI, functionName: "asset" }),
+    baseClient.readContract({
+      address: vault.address,
+      abi: ERC4626_ABI,
+      functionName: "decimals",
+    }),
+    baseClient.readContract({
+      address: vault.address,
+      abi: ERC4626_ABI,
+      functionName: "totalAssets",
+    }),
+  ]);
+
+  if (asset.toLowerCase() !== USDC_ADDRESS.toLowerCase()) {
+    console.warn(`[ERC4626] ${vault.name} asset is ${asset}, not USDC — skipping`);
+    return null;
+  }
+
+  const apy = await getSharePriceApy(vault.address, decimals);
+
+  return {
+    id: `${protocol}-${vault.address.toLowerCase()}`,
+    protocol,
+    name: vault.name,
+    asset: "USDC",
+    apy,
+    tvl: totalAssets,
+    address: vault.address,
+    riskScore: vault.riskScore,
+    liquidityDepth: totalAssets,
+    metadata: {
+      vaultAddress: vault.address,
+      isVault: true,
+      curator: vault.curator,
+      source: "erc4626",
+      apyWindowDays: ERC4626_APY_WINDOW_DAYS,
+    },
+  };
+}
+
+export async function getErc4626Opportunities(
+  protocol: ProtocolId,
+  vaults: readonly Erc4626VaultConfig[]
+): Promise<YieldOpportunity[]> {
+  const results = await Promise.allSettled(
+    vaults.filter((v) => v.enabled).map((v) => getVaultOpportunity(protocol, v))
+  );
+
+  return results.flatMap((result, i) => {
+    if (result.status === "rejected") {
+      console.error(`[ERC4626] Error fetching ${vaults[i]?.name}:`, result.reason);
+      return [];
+    }
+    return result.value ? [result.value] : [];
+  });
+}
+
+async function getVaultPosition(
+  protocol: ProtocolId,
+  vault: Erc4626VaultConfig,
+  userAddress: `0x${string}`
+): Promise<Position | null> {
+  const shares = await baseClient.readContract({
+    address: vault.address,
+    abi: ERC4626_ABI,
+    functionName: "balanceOf",
+    args: [userAddress],
+  });
+  if (shares === 0n) {
+    return null;
+  }
+
+  const [assets, withdrawable, decimals] = await Promise.all([
+    baseClient.readContract({
+      address: vault.address,
+      abi: ERC4626_ABI,
+      functionName: "convertToAssets",
+      args: [shares],
+    }),
+    baseClient.readContract({
+      address: vault.address,
+      abi: ERC4626_ABI,
+      functionName: "maxWithdraw",
+      args: [userAddress],
+    }),
+    baseClient.readContract({
+      address: vault.address,
+      abi: ERC4626_ABI,
+      functionName: "decimals",
+    }),
+  ]);
+
+  const apy = await getSharePriceApy(vault.address, decimals).catch(() => 0);
+
+  return {
+    protocol,
+    vaultAddress: vault.address,
+    shares,
+    assets,
+    withdrawable,
+    apy,
+    enteredAt: Date.now(), // Note: actual entry timestamp would require historical data
+  };
+}
+
+/**
+ * Positions in every configured vault, including disabled ones so users can
+ * still exit a vault that was switched off
+ */
+export async function getErc4626Positions(
+  protocol: ProtocolId,
+  vaults: readonly Erc4626VaultConfig[],
+  userAddress: `0x${string}`
+): Promise<Position[]> {
+  const results = await Promise.allSettled(
+    vaults.map((v) => getVaultPosition(protocol, v, userAddress))
+  );
+
+  return results.flatMap((result, i) => {
+    if (result.status === "rejected") {
+      console.error(`[ERC4626] Error fetching position in ${vaults[i]?.name}:`, result.reason);
+      return [];
+    }
+    return result.value ? [result.value] : [];
+  });
+}
+
+export function buildErc4626DepositTx(
+  amount: bigint,
+  userAddress: `0x${string}`,
+  vaultAddress: `0x${string}`
+) {
+  return {
+    approve: {
+      to: USDC_ADDRESS as `0x${string}`,
+      value: 0n,
+      data: encodeFunctionData({
+        abi: ERC20_ABI,
+        functionName: "approve",
+        args: [vaultAddress, amount],
+      }),
+    },
+    deposit: {
+      to: vaultAddress,
+      value: 0n,
+      data: encodeFunctionData({
+        abi: ERC4626_ABI,
+        functionName: "deposit",
+        args: [amount, userAddress],
+      }),
+    },
+  };
+}
+
+/**
+ * Redeem shares when known (exits the full position), otherwise withdraw assets
+ */
+export function buildErc4626WithdrawTx(
+  userAddress: `0x${string}`,
+  vaultAddress: `0x${string}`,
+  shares?: bigint,
+  assets?: bigint
+) {
+  if (!shares && !assets) {
+    throw new Error("Must provide either shares or assets to withdraw");
+  }
+
+  return {
+    to: vaultAddress,
+    value: 0n,
+    data: shares
+      ? encodeFunctionData({
+          abi: ERC4626_ABI,
+          functionName: "redeem",
+          args: [shares, userAddress, userAddress],
+        })
+      : encodeFunctionData({
+          abi: ERC4626_ABI,
+          functionName: "withdraw",
+          args: [assets!, userAddress, userAddress],
+        }),
+  };
+}
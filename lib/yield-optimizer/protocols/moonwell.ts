@@ -1,13 +1,16 @@
 // Moonwell Protocol Integration (Base Mainnet)
-import { encodeFunctionData } from "viem";
+import { encodeFunctionData, parseAbi, zeroAddress } from "viem";
 import { baseClient } from "@/lib/shared/rpc-client";
-import { getMoonwellUsdcPool } from "../defi-llama-api";
-import type { YieldOpportunity, Position } from "../types";
+import { getMoonwellUsdcPool, crossCheckApy } from "../defi-llama-api";
+import type { YieldOpportunity, Position, ClaimableReward } from "../types";
 import { PROTOCOLS } from "../config";
 
 // Base Mainnet addresses
 const USDC_BASE = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as `0x${string}`;
 const MOONWELL_USDC = "0xEdc817A28E8B93B03976FBd4a3dDBc9f7D176c22" as const;
+const MOONWELL_COMPTROLLER = PROTOCOLS.moonwell.comptroller;
+
+const SECONDS_PER_YEAR = 365 * 24 * 3600;
 
 const MOONWELL_ABI = [
   {
@@ -48,6 +51,20 @@ const MOONWELL_ABI = [
     inputs: [],
     outputs: [{ name: "", type: "uint256" }],
   },
+  {
+    name: "totalSupply",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "exchangeRateStored",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
   {
     name: "getCash",
     type: "function",
@@ -57,6 +74,22 @@ const MOONWELL_ABI = [
   },
 ] as const;
 
+// Reward reads and claims: Comptroller -> MultiRewardDistributor / price oracle
+const MOONWELL_REWARDS_ABI = parseAbi([
+  "function rewardDistributor() view returns (address)",
+  "function oracle() view returns (address)",
+  "function getAllMarkets() view returns (address[])",
+  "function underlying() view returns (address)",
+  "function getUnderlyingPrice(address mToken) view returns (uint256)",
+  "struct MarketConfig { address owner; address emissionToken; uint256 endTime; uint224 supplyGlobalIndex; uint32 supplyGlobalTimestamp; uint224 borrowGlobalIndex; uint32 borrowGlobalTimestamp; uint256 supplyEmissionsPerSec; uint256 borrowEmissionsPerSec; }",
+  "function getAllMarketConfigs(address mToken) view returns (MarketConfig[])",
+  "struct RewardInfo { address emissionToken; uint256 totalAmount; uint256 supplySide; uint256 borrowSide; }",
+  "function getOutstandingRewardsForUser(address mToken, address user) view returns (RewardInfo[])",
+  "function claimReward(address holder, address[] mTokens)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+]);
+
 const ERC20_ABI = [
   {
     name: "approve",
@@ -69,51 +102,156 @@ const ERC20_ABI = [
   },
 ] as const;
 
-export async function getMoonwellOpportunities(): Promise<YieldOpportunity[]> {
-  if (!PROTOCOLS.moonwell.enabled) {
-    return [];
-  }
+/**
+ * Oracle price of an emission token, read through the Moonwell market that
+ * lists it. Scaled by 1e(36 - decimals) like getUnderlyingPrice, so
+ * raw amount * price / 1e36 is USD. Returns 0n for tokens without a market.
+ */
+async function getEmissionTokenPrice(oracle: `0x${string}`, token: `0x${string}`): Promise<bigint> {
+  const markets = await baseClient.readContract({
+    address: MOONWELL_COMPTROLLER,
+    abi: MOONWELL_REWARDS_ABI,
+    functionName: "getAllMarkets",
+  });
+  const underlyings = await Promise.all(
+    markets.map((market) =>
+      baseClient
+        .readContract({ address: market, abi: MOONWELL_REWARDS_ABI, functionName: "underlying" })
+        .catch(() => zeroAddress)
+    )
+  );
+  const market = markets[underlyings.findIndex((u) => u.toLowerCase() === token.toLowerCase())];
+  if (!market) return 0n;
 
-  try {
-    // Try DeFi Llama API first (no RPC needed, cached)
-    const llamaPool = await getMoonwellUsdcPool();
-    if (llamaPool) {
-      return [
-        {
-          id: "moonwell-usdc-base",
-          protocol: "moonwell",
-          name: "Moonwell USDC",
-          asset: "USDC",
-          apy: llamaPool.apy,
-          tvl: BigInt(Math.round(llamaPool.tvlUsd * 1e6)), // Convert USD to USDC units (6 decimals)
-          address: MOONWELL_USDC,
-          riskScore: 0.3,
-          liquidityDepth: BigInt(Math.round(llamaPool.tvlUsd * 1e6)),
-          metadata: {
-            isVault: false,
-            source: "defillama",
-          },
-        },
-      ];
+  return baseClient.readContract({
+    address: oracle,
+    abi: MOONWELL_REWARDS_ABI,
+    functionName: "getUnderlyingPrice",
+    args: [market],
+  });
+}
+
+/**
+ * Annualized WELL/USDC/... emissions to mUSDC suppliers from the
+ * MultiRewardDistributor. Emission tokens are priced with the Moonwell oracle
+ * through their own market, so tokens without a market are left out.
+ */
+async function getMoonwellRewardApr(totalSupplied: bigint): Promise<number> {
+  if (totalSupplied === 0n) return 0;
+
+  const [distributor, oracle] = await Promise.all([
+    baseClient.readContract({
+      address: MOONWELL_COMPTROLLER,
+      abi: MOONWELL_REWARDS_ABI,
+      functionName: "rewardDistributor",
+    }),
+    baseClient.readContract({
+      address: MOONWELL_COMPTROLLER,
+      abi: MOONWELL_REWARDS_ABI,
+      functionName: "oracle",
+    }),
+  ]);
+  if (distributor === zeroAddress) return 0;
+
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  const configs = (
+    await baseClient.readContract({
+      address: distributor,
+      abi: MOONWELL_REWARDS_ABI,
+      functionName: "getAllMarketConfigs",
+      args: [MOONWELL_USDC],
+    })
+  ).filter((c) => c.supplyEmissionsPerSec > 0n && c.endTime > now);
+  if (configs.length === 0) return 0;
+
+  // Prices share the 1e(36 - decimals) scaling, so raw amount * price is
+  // comparable across tokens without reading decimals
+  const usdcPrice = await baseClient.readContract({
+    address: oracle,
+    abi: MOONWELL_REWARDS_ABI,
+    functionName: "getUnderlyingPrice",
+    args: [MOONWELL_USDC],
+  });
+  const suppliedValue = Number(totalSupplied) * Number(usdcPrice);
+
+  let rewardApr = 0;
+  for (const config of configs) {
+    const price = await getEmissionTokenPrice(oracle, config.emissionToken);
+    if (price === 0n) {
+      console.warn(
+        `[Moonwell] No oracle price for emission token ${config.emissionToken}, excluded from APY`
+      );
+      continue;
     }
 
-    // Fallback to RPC if DeFi Llama unavailable
-    console.warn("[Moonwell] DeFi Llama unavailable, falling back to RPC");
-    const supplyRate = (await baseClient.readContract({
+    rewardApr +=
+      (Number(config.supplyEmissionsPerSec) * SECONDS_PER_YEAR * Number(price)) / suppliedValue;
+  }
+
+  return rewardApr;
+}
+
+/**
+ * Supply APY for mUSDC, read entirely on-chain:
+ * base APY from supplyRatePerTimestamp plus reward emissions.
+ * A failing rewards read only drops the reward component.
+ */
+export async function getMoonwellSupplyApy(): Promise<{
+  apy: number;
+  apyBase: number;
+  apyReward: number;
+  totalSupplied: bigint;
+}> {
+  const [supplyRate, mTokenSupply, exchangeRate] = await Promise.all([
+    baseClient.readContract({
       address: MOONWELL_USDC,
       abi: MOONWELL_ABI,
       functionName: "supplyRatePerTimestamp",
-    })) as bigint;
-
-    const liquidity = (await baseClient.readContract({
+    }) as Promise<bigint>,
+    baseClient.readContract({
       address: MOONWELL_USDC,
       abi: MOONWELL_ABI,
-      functionName: "getCash",
-    })) as bigint;
+      functionName: "totalSupply",
+    }) as Promise<bigint>,
+    baseClient.readContract({
+      address: MOONWELL_USDC,
+      abi: MOONWELL_ABI,
+      functionName: "exchangeRateStored",
+    }) as Promise<bigint>,
+  ]);
+
+  const ratePerSecond = Number(supplyRate) / 1e18;
+  const apyBase = Math.pow(1 + ratePerSecond, SECONDS_PER_YEAR) - 1;
+  const totalSupplied = (mTokenSupply * exchangeRate) / 10n ** 18n;
 
-    const ratePerSecond = Number(supplyRate) / 1e18;
-    const secondsPerYear = 365 * 24 * 3600;
-    const apy = Math.pow(1 + ratePerSecond, secondsPerYear) - 1;
+  const apyReward = await getMoonwellRewardApr(totalSupplied).catch((error) => {
+    console.warn("[Moonwell] Failed to read reward emissions:", error);
+    return 0;
+  });
+
+  return { apy: apyBase + apyReward, apyBase, apyReward, totalSupplied };
+}
+
+/**
+ * Fetch the Moonwell USDC market on Base mainnet
+ * APY and TVL come from the market itself; DeFi Llama is only used to
+ * cross-check the result (a large gap is flagged in metadata).
+ */
+export async function getMoonwellOpportunities(): Promise<YieldOpportunity[]> {
+  if (!PROTOCOLS.moonwell.enabled) {
+    return [];
+  }
+
+  try {
+    const [{ apy, apyBase, apyReward, totalSupplied }, liquidity, llamaPool] = await Promise.all([
+      getMoonwellSupplyApy(),
+      baseClient.readContract({
+        address: MOONWELL_USDC,
+        abi: MOONWELL_ABI,
+        functionName: "getCash",
+      }) as Promise<bigint>,
+      getMoonwellUsdcPool(),
+    ]);
 
     return [
       {
@@ -122,13 +260,16 @@ export async function getMoonwellOpportunities(): Promise<YieldOpportunity[]> {
         name: "Moonwell USDC",
         asset: "USDC",
         apy,
-        tvl: liquidity,
+        tvl: totalSupplied,
         address: MOONWELL_USDC,
         riskScore: 0.3,
         liquidityDepth: liquidity,
         metadata: {
           isVault: false,
           source: "rpc",
+          apyBase,
+          apyReward,
+          apyCrossCheck: crossCheckApy("Moonwell USDC", apy, llamaPool),
         },
       },
     ];
@@ -164,16 +305,7 @@ export async function getMoonwellPosition(userAddress: `0x${string}`): Promise<P
       args: [userAddress],
     })) as bigint;
 
-    // Fetch current APY
-    const supplyRate = (await baseClient.readContract({
-      address: MOONWELL_USDC,
-      abi: MOONWELL_ABI,
-      functionName: "supplyRatePerTimestamp",
-    })) as bigint;
-
-    const ratePerSecond = Number(supplyRate) / 1e18;
-    const secondsPerYear = 365 * 24 * 3600;
-    const apy = Math.pow(1 + ratePerSecond, secondsPerYear) - 1;
+    const { apy } = await getMoonwellSupplyApy();
 
     return {
       protocol: "moonwell",
@@ -189,6 +321,91 @@ export async function getMoonwellPosition(userAddress: `0x${string}`): Promise<P
   }
 }
 
+/**
+ * Incentives accrued to the user's mUSDC supply in the MultiRewardDistributor,
+ * as of the market's last index update. Unpriced tokens are kept at valueUsd 0.
+ */
+export async function getMoonwellClaimableRewards(
+  userAddress: `0x${string}`
+): Promise<ClaimableReward[]> {
+  if (!PROTOCOLS.moonwell.enabled) {
+    return [];
+  }
+
+  try {
+    const [distributor, oracle] = await Promise.all([
+      baseClient.readContract({
+        address: MOONWELL_COMPTROLLER,
+        abi: MOONWELL_REWARDS_ABI,
+        functionName: "rewardDistributor",
+      }),
+      baseClient.readContract({
+        address: MOONWELL_COMPTROLLER,
+        abi: MOONWELL_REWARDS_ABI,
+        functionName: "oracle",
+      }),
+    ]);
+    if (distributor === zeroAddress) return [];
+
+    const outstanding = await baseClient.readContract({
+      address: distributor,
+      abi: MOONWELL_REWARDS_ABI,
+      functionName: "getOutstandingRewardsForUser",
+      args: [MOONWELL_USDC, userAddress],
+    });
+
+    return Promise.all(
+      outstanding
+        .filter((r) => r.totalAmount > 0n)
+        .map(async (r): Promise<ClaimableReward> => {
+          const [symbol, decimals, price] = await Promise.all([
+            baseClient.readContract({
+              address: r.emissionToken,
+              abi: MOONWELL_REWARDS_ABI,
+              functionName: "symbol",
+            }),
+            baseClient.readContract({
+              address: r.emissionToken,
+              abi: MOONWELL_REWARDS_ABI,
+              functionName: "decimals",
+            }),
+            getEmissionTokenPrice(oracle, r.emissionToken).catch(() => 0n),
+          ]);
+
+          return {
+            protocol: "moonwell",
+            token: r.emissionToken,
+            symbol,
+            decimals,
+            amount: r.totalAmount,
+            valueUsd: Number((r.totalAmount * price) / 10n ** 18n) / 1e18,
+            source: MOONWELL_COMPTROLLER,
+            vaultAddress: MOONWELL_USDC,
+          };
+        })
+    );
+  } catch (error) {
+    console.error("Error fetching Moonwell rewards:", error);
+    return [];
+  }
+}
+
+/**
+ * Claim every emission token accrued on mUSDC in one Comptroller call;
+ * rewards are always sent to the holder
+ */
+export function buildMoonwellClaimTx(userAddress: `0x${string}`) {
+  return {
+    to: MOONWELL_COMPTROLLER,
+    value: 0n,
+    data: encodeFunctionData({
+      abi: MOONWELL_REWARDS_ABI,
+      functionName: "claimReward",
+      args: [userAddress, [MOONWELL_USDC]],
+    }),
+  };
+}
+
 export function buildMoonwellDepositTx(amount: bigint, _userAddress: `0x${string}`) {
   return {
     approve: {
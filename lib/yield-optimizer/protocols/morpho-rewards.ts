@@ -0,0 +1,108 @@
+// Morpho Incentive Rewards (Universal Rewards Distributor, Base Mainnet)
+// MORPHO and other vault incentives are distributed through merkle roots posted
+// to the URD. The Morpho rewards API serves each user's cumulative claimable
+// amount with its proof; the URD's claimed() tells us how much is still pending.
+import { encodeFunctionData, parseAbi } from "viem";
+import { baseClient } from "@/lib/shared/rpc-client";
+import { morphoClient } from "@/lib/morpho/api-client";
+import type { ClaimableReward } from "../types";
+import { CHAIN_CONFIG, PROTOCOLS } from "../config";
+
+const MORPHO_REWARDS_API_URL = "https://rewards.morpho.org/v1";
+const URD = PROTOCOLS.morpho.rewardsDistributor;
+
+const URD_ABI = parseAbi([
+  "function claimed(address account, address reward) view returns (uint256)",
+  "function claim(address account, address reward, uint256 claimable, bytes32[] proof) returns (uint256 amount)",
+]);
+
+interface MorphoDistribution {
+  asset: { address: `0x${string}` };
+  distributor: { address: `0x${string}` };
+  claimable: string; // Cumulative amount committed to by the current root
+  proof: `0x${string}`[];
+}
+
+async function fetchDistributions(userAddress: `0x${string}`): Promise<MorphoDistribution[]> {
+  const response = await fetch(
+    `${MORPHO_REWARDS_API_URL}/users/${userAddress}/distributions?chain_id=${CHAIN_CONFIG.chainId}`
+  );
+
+  if (!response.ok) {
+    throw new Error(`Morpho rewards API error: ${response.status} ${response.statusText}`);
+  }
+
+  const body = await response.json();
+  return body.data ?? [];
+}
+
+/**
+ * Pending URD rewards for a user: cumulative claimable from the latest root
+ * minus what the URD has already paid out. Only the configured distributor is
+ * considered, since that is the one session keys are allowed to call.
+ */
+export async function getMorphoClaimableRewards(
+  userAddress: `0x${string}`
+): Promise<ClaimableReward[]> {
+  try {
+    const distributions = (await fetchDistributions(userAddress)).filter(
+      (d) => d.distributor.address.toLowerCase() === URD.toLowerCase()
+    );
+
+    const rewards = await Promise.all(
+      distributions.map(async (d): Promise<ClaimableReward | null> => {
+        const cumulativeAmount = BigInt(d.claimable);
+        const claimed = await baseClient.readContract({
+          address: URD,
+          abi: URD_ABI,
+          functionName: "claimed",
+          args: [userAddress, d.asset.address],
+        });
+        if (cumulativeAmount <= claimed) return null;
+
+        const amount = cumulativeAmount - claimed;
+        const asset = await morphoClient
+          .fetchAsset(d.asset.address, CHAIN_CONFIG.chainId)
+          .catch(() => null);
+        const decimals = asset?.decimals ?? 18;
+
+        return {
+          protocol: "morpho",
+          token: d.asset.address,
+          symbol: asset?.symbol ?? "UNKNOWN",
+          decimals,
+          amount,
+          valueUsd: (Number(amount) / 10 ** decimals) * (asset?.priceUsd ?? 0),
+          source: URD,
+          proof: d.proof,
+          cumulativeAmount,
+        };
+      })
+    );
+
+    return rewards.filter((r): r is ClaimableReward => r !== null);
+  } catch (error) {
+    console.error("Failed to fetch Morpho rewards:", error);
+    return [];
+  }
+}
+
+/**
+ * Build a URD claim for one reward token. The URD always pays `account`,
+ * so the claim can only ever send rewards to the user.
+ */
+export function buildMorphoClaimTx(userAddress: `0x${string}`, reward: ClaimableReward) {
+  if (!reward.proof || reward.cumulativeAmount === undefined) {
+    throw new Error(`Missing merkle proof for ${reward.symbol} reward`);
+  }
+
+  return {
+    to: reward.source,
+    value: 0n,
+    data: encodeFunctionData({
+      abi: URD_ABI,
+      functionName: "claim",
+      args: [userAddress, reward.token, reward.cumulativeAmount, reward.proof],
+    }),
+  };
+}
@@ -17,8 +17,12 @@ export interface PositionRewards {
  * - Historical APY changes
  * - Compounding effects within the vault (already reflected in assets)
  * - Additional deposits/withdrawals after entry
+ * - Unclaimed incentive tokens (MORPHO, WELL), which are reported separately
+ *   as ClaimableReward via the protocol adapters
  *
  * For most use cases, this provides a reasonable estimate of earnings.
+ * Positions with ledger history use actual earnings instead
+ * (lib/agent/yield-ledger.ts).
  */
 export function calculateAccruedRewards(position: Position): PositionRewards {
   const now = Date.now();
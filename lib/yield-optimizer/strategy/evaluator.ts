@@ -1,6 +1,6 @@
 // Strategy Evaluator - Calculates net yield after costs
 import type { YieldOpportunity, Position, RebalanceDecision } from "../types";
-import { REBALANCE_THRESHOLDS } from "../config";
+import { REBALANCE_THRESHOLDS, type RebalanceThresholds } from "../config";
 
 interface CostEstimate {
   gasCostUsd: number;
@@ -13,15 +13,19 @@ interface CostEstimate {
  * Gas is fully sponsored by ZeroDev paymaster — users pay $0 gas.
  * Only real costs are slippage and execution buffer (previewRedeem rounding).
  */
-export function estimateCosts(amount: bigint, from: Position | null): CostEstimate {
+export function estimateCosts(
+  amount: bigint,
+  from: Position | null,
+  thresholds: RebalanceThresholds = REBALANCE_THRESHOLDS
+): CostEstimate {
   // Slippage estimate (minimal for stablecoins on Base)
-  const slippagePct = REBALANCE_THRESHOLDS.slippagePct;
+  const slippagePct = thresholds.slippagePct;
 
   // Extra slippage if withdrawing from existing position (two legs)
-  const withdrawCostPct = from ? REBALANCE_THRESHOLDS.slippagePct : 0;
+  const withdrawCostPct = from ? thresholds.slippagePct : 0;
 
   // Execution buffer accounts for previewRedeem rounding + timing differences
-  const executionBufferPct = from ? REBALANCE_THRESHOLDS.executionBufferPct : 0;
+  const executionBufferPct = from ? thresholds.executionBufferPct : 0;
 
   return {
     gasCostUsd: 0, // Gas is fully sponsored by ZeroDev paymaster
@@ -42,15 +46,19 @@ export function riskAdjustedApy(opportunity: YieldOpportunity): number {
 /**
  * Compare current position(s) to best opportunity
  * Accepts Position[] since users can have multiple vault positions
- * For rebalancing, only considers first position if multiple exist
+ * For rebalancing, only considers first position if multiple exist —
+ * the autonomous agent uses the portfolio optimizer (lib/agent/portfolio-optimizer.ts)
+ * for multi-position, split-allocation rebalancing
+ * Thresholds default to REBALANCE_THRESHOLDS; the backtester passes overrides
  */
 export function evaluateRebalance(
   currentPositions: Position[] | Position | null,
   opportunities: YieldOpportunity[],
-  usdcBalance: bigint
+  usdcBalance: bigint,
+  thresholds: RebalanceThresholds = REBALANCE_THRESHOLDS
 ): RebalanceDecision {
   // Normalize to single position for rebalancing logic
-  // Multi-position rebalancing is out of scope
+  // Multi-position rebalancing is handled by the agent's portfolio optimizer
   let currentPosition: Position | null = null;
   if (Array.isArray(currentPositions) && currentPositions.length > 0) {
     currentPosition = currentPositions[0];
@@ -89,18 +97,18 @@ export function evaluateRebalance(
       };
     }
 
-    const costs = estimateCosts(usdcBalance, null);
+    const costs = estimateCosts(usdcBalance, null, thresholds);
     const netApy = riskAdjustedApy(bestOpportunity) - costs.totalCostPct;
 
     return {
-      shouldRebalance: netApy > REBALANCE_THRESHOLDS.minApyImprovement,
+      shouldRebalance: netApy > thresholds.minApyImprovement,
       from: null,
       to: bestOpportunity,
       estimatedGasCost: BigInt(Math.floor(costs.gasCostUsd * 1e6)),
       estimatedSlippage: costs.slippagePct,
       netGain: netApy,
       reason:
-        netApy > REBALANCE_THRESHOLDS.minApyImprovement
+        netApy > thresholds.minApyImprovement
           ? `Deposit into ${bestOpportunity.name} for ${(netApy * 100).toFixed(2)}% net APY`
           : `Net APY ${(netApy * 100).toFixed(2)}% below threshold`,
     };
@@ -124,20 +132,20 @@ export function evaluateRebalance(
   }
 
   // Calculate net gain from switching
-  const costs = estimateCosts(currentPosition.assets, currentPosition);
+  const costs = estimateCosts(currentPosition.assets, currentPosition, thresholds);
   const apyImprovement = bestAdjustedApy - currentAdjustedApy;
   const netGain = apyImprovement - costs.totalCostPct;
 
   return {
-    shouldRebalance: netGain > REBALANCE_THRESHOLDS.minApyImprovement,
+    shouldRebalance: netGain > thresholds.minApyImprovement,
     from: currentPosition,
     to: bestOpportunity,
     estimatedGasCost: BigInt(Math.floor(costs.gasCostUsd * 1e6)),
     estimatedSlippage: costs.slippagePct,
     netGain,
     reason:
-      netGain > REBALANCE_THRESHOLDS.minApyImprovement
+      netGain > thresholds.minApyImprovement
         ? `Rebalance from ${currentPosition.protocol} to ${bestOpportunity.name}: +${(netGain * 100).toFixed(2)}% net APY`
-        : `Net gain ${(netGain * 100).toFixed(2)}% below ${(REBALANCE_THRESHOLDS.minApyImprovement * 100).toFixed(1)}% threshold`,
+        : `Net gain ${(netGain * 100).toFixed(2)}% below ${(thresholds.minApyImprovement * 100).toFixed(1)}% threshold`,
   };
 }
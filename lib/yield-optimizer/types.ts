@@ -1,8 +1,14 @@
 // Yield Optimizer Types
 
+// Protocols with hand-written integrations
+export type BuiltInProtocol = "morpho" | "aave" | "moonwell" | "compound";
+
+// Registry id — built-in protocols plus config-driven ERC-4626 vault sets (ERC4626_PROTOCOLS)
+export type ProtocolId = BuiltInProtocol | (string & {});
+
 export interface YieldOpportunity {
   id: string;
-  protocol: "morpho" | "aave" | "moonwell";
+  protocol: ProtocolId;
   name: string;
   asset: string;
   apy: number; // Annual percentage yield (decimal, e.g., 0.05 = 5%)
@@ -20,14 +26,29 @@ export interface YieldOpportunity {
 }
 
 export interface Position {
-  protocol: "morpho" | "aave" | "moonwell";
+  protocol: ProtocolId;
   vaultAddress: `0x${string}`;
   shares: bigint;
   assets: bigint; // USDC amount
+  withdrawable?: bigint; // ERC-4626 maxWithdraw — assets that can leave the vault right now
   apy: number;
   enteredAt: number; // timestamp
 }
 
+// Incentive tokens (MORPHO, WELL, ...) a user can claim right now
+export interface ClaimableReward {
+  protocol: ProtocolId;
+  token: `0x${string}`;
+  symbol: string;
+  decimals: number;
+  amount: bigint; // Claimable now, in token units
+  valueUsd: number; // 0 if the token couldn't be priced
+  source: `0x${string}`; // Contract the claim call targets (URD, Comptroller)
+  vaultAddress?: `0x${string}`; // Position the reward accrued on, when known
+  proof?: `0x${string}`[]; // Morpho URD merkle proof
+  cumulativeAmount?: bigint; // Morpho URD: total the proof commits to (claimed + claimable)
+}
+
 export interface RebalanceDecision {
   shouldRebalance: boolean;
   from: Position | null;
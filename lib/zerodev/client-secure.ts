@@ -12,7 +12,10 @@
 import { createPublicClient, http, parseAbi, type Hex } from "viem";
 import { base } from "viem/chains";
 import { toAccount } from "viem/accounts";
-import { CHAIN_CONFIG } from "@/lib/yield-optimizer/config";
+import { CHAIN_CONFIG, ERC4626_PROTOCOLS, PROTOCOLS } from "@/lib/yield-optimizer/config";
+import type { SessionKey7702Authorization } from "@/lib/security/session-encryption";
+
+type SessionPolicyConfig = NonNullable<SessionKey7702Authorization["policyConfig"]>;
 
 // Session key expiry: 7 days
 const SESSION_KEY_EXPIRY_DAYS = 7;
@@ -23,11 +26,19 @@ const DEPOSIT_SELECTOR = "0x6e553f65" as Hex; // deposit(uint256,address)
 const REDEEM_SELECTOR = "0xba087652" as Hex; // redeem(uint256,address,address)
 const WITHDRAW_SELECTOR = "0xb460af94" as Hex; // withdraw(uint256,address,address)
 const TRANSFER_SELECTOR = "0xa9059cbb" as Hex; // transfer(address,uint256)
+const MOONWELL_REDEEM_SELECTOR = "0xdb006a75" as Hex; // redeem(uint256)
+const MOONWELL_REDEEM_UNDERLYING_SELECTOR = "0x852a12e3" as Hex; // redeemUnderlying(uint256)
 const USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as `0x${string}`;
 
 // Maximum USDC amount per session key call (10,000 USDC with 6 decimals)
 const MAX_USDC_PER_CALL = BigInt(10_000) * BigInt(1e6);
 
+// Gas and rate-limit policy for new session keys — stored with the key so renewals reuse it
+const DEFAULT_POLICY_CONFIG: SessionPolicyConfig = {
+  gasPolicy: { allowed: (BigInt(500_000) * BigInt(100_000_000)).toString() }, // 500k gas * 0.1 gwei
+  rateLimitPolicy: { count: 90, interval: 86400 }, // 90 UserOps per 24 hours
+};
+
 // EntryPoint V0.7 object (required format for ZeroDev SDK v5)
 const ENTRYPOINT_V07 = {
   address: "0x0000000071727De22E5E9d8BAf0edAc6f37da032" as `0x${string}`,
@@ -39,6 +50,8 @@ export interface SecureSessionKeyResult {
   sessionKeyAddress: `0x${string}`;
   expiry: number;
   approvedVaults: `0x${string}`[];
+  approvedProtocols: string[];
+  policyConfig: SessionPolicyConfig;
 }
 
 /**
@@ -68,16 +81,26 @@ export function serializeSignedAuth(auth: any) {
  * This will prompt the user to sign the enable typed data via Privy (1 extra signature).
  *
  * @param userAddress - User's EOA address
- * @param signedEip7702Auth - Raw signed EIP-7702 authorization from Privy
+ * @param signedEip7702Auth - Raw signed EIP-7702 authorization from Privy; omitted on renewal,
+ *   when the EOA is already delegated to Kernel
  * @param walletClient - Viem WalletClient from Privy provider
  * @param approvedVaults - List of approved vault addresses for scoped permissions
+ * @param approvedProtocols - Protocols the agent may move funds between (Aave/Moonwell/Compound pools)
+ * @param policyConfig - Gas and rate-limit policy for the session key
  */
 async function createAndSerializeAccount(
   userAddress: `0x${string}`,
   signedEip7702Auth: any,
   walletClient: any,
-  approvedVaults: `0x${string}`[]
-): Promise<{ serializedAccount: string; sessionKeyAddress: `0x${string}`; expiry: number }> {
+  approvedVaults: `0x${string}`[],
+  approvedProtocols: string[],
+  policyConfig: SessionPolicyConfig = DEFAULT_POLICY_CONFIG
+): Promise<{
+  serializedAccount: string;
+  sessionKeyAddress: `0x${string}`;
+  expiry: number;
+  uninstallCallData: `0x${string}`;
+}> {
   console.log("[ZeroDev 7702] Creating serialized account client-side...");
 
   // Dynamic imports to minimize client bundle (tree-shaken)
@@ -149,18 +172,113 @@ async function createAndSerializeAccount(
     permissions.push({ target: vault, selector: WITHDRAW_SELECTOR, valueLimit: 0n });
   }
 
+  // Aave V3 pool — supply/withdraw USDC only, always on behalf of / back to the user
+  if (approvedProtocols.includes("aave")) {
+    permissions.push({
+      target: PROTOCOLS.aave.pool,
+      abi: parseAbi([
+        "function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)",
+      ]),
+      functionName: "supply",
+      args: [
+        { condition: ParamCondition.EQUAL, value: USDC_ADDRESS },
+        { condition: ParamCondition.LESS_THAN_OR_EQUAL, value: MAX_USDC_PER_CALL },
+        { condition: ParamCondition.EQUAL, value: userAddress },
+        null,
+      ],
+      valueLimit: 0n,
+    });
+    permissions.push({
+      target: PROTOCOLS.aave.pool,
+      abi: parseAbi([
+        "function withdraw(address asset, uint256 amount, address to) returns (uint256)",
+      ]),
+      functionName: "withdraw",
+      args: [
+        { condition: ParamCondition.EQUAL, value: USDC_ADDRESS },
+        null,
+        { condition: ParamCondition.EQUAL, value: userAddress },
+      ],
+      valueLimit: 0n,
+    });
+  }
+
+  // Moonwell mUSDC — cap mint amounts, redeems return funds to the user
+  if (approvedProtocols.includes("moonwell")) {
+    permissions.push({
+      target: PROTOCOLS.moonwell.mUsdc,
+      abi: parseAbi(["function mint(uint256 mintAmount) returns (uint256)"]),
+      functionName: "mint",
+      args: [{ condition: ParamCondition.LESS_THAN_OR_EQUAL, value: MAX_USDC_PER_CALL }],
+      valueLimit: 0n,
+    });
+    permissions.push({
+      target: PROTOCOLS.moonwell.mUsdc,
+      selector: MOONWELL_REDEEM_UNDERLYING_SELECTOR,
+      valueLimit: 0n,
+    });
+    permissions.push({
+      target: PROTOCOLS.moonwell.mUsdc,
+      selector: MOONWELL_REDEEM_SELECTOR,
+      valueLimit: 0n,
+    });
+  }
+
+  // Compound v3 Comet — USDC only; supply credits and withdraw pays msg.sender (the account)
+  if (approvedProtocols.includes("compound")) {
+    permissions.push({
+      target: PROTOCOLS.compound.cUsdcV3,
+      abi: parseAbi(["function supply(address asset, uint256 amount)"]),
+      functionName: "supply",
+      args: [
+        { condition: ParamCondition.EQUAL, value: USDC_ADDRESS },
+        { condition: ParamCondition.LESS_THAN_OR_EQUAL, value: MAX_USDC_PER_CALL },
+      ],
+      valueLimit: 0n,
+    });
+    permissions.push({
+      target: PROTOCOLS.compound.cUsdcV3,
+      abi: parseAbi(["function withdraw(address asset, uint256 amount)"]),
+      functionName: "withdraw",
+      args: [{ condition: ParamCondition.EQUAL, value: USDC_ADDRESS }, null],
+      valueLimit: 0n,
+    });
+  }
+
+  // Incentive claims — both contracts pay the named account, pinned to the user
+  if (approvedProtocols.includes("morpho")) {
+    permissions.push({
+      target: PROTOCOLS.morpho.rewardsDistributor,
+      abi: parseAbi([
+        "function claim(address account, address reward, uint256 claimable, bytes32[] proof) returns (uint256)",
+      ]),
+      functionName: "claim",
+      args: [{ condition: ParamCondition.EQUAL, value: userAddress }, null, null, null],
+      valueLimit: 0n,
+    });
+  }
+  if (approvedProtocols.includes("moonwell")) {
+    permissions.push({
+      target: PROTOCOLS.moonwell.comptroller,
+      abi: parseAbi(["function claimReward(address holder, address[] mTokens)"]),
+      functionName: "claimReward",
+      args: [{ condition: ParamCondition.EQUAL, value: userAddress }, null],
+      valueLimit: 0n,
+    });
+  }
+
   const callPolicy = toCallPolicy({
     policyVersion: CallPolicyVersion.V0_0_5,
     permissions,
   });
 
   const gasPolicy = toGasPolicy({
-    allowed: BigInt(500_000) * BigInt(100_000_000), // 500k gas * 0.1 gwei
+    allowed: BigInt(policyConfig.gasPolicy.allowed),
   });
 
   const rateLimitPolicy = toRateLimitPolicy({
-    count: 90,
-    interval: 86400, // 24 hours
+    count: policyConfig.rateLimitPolicy.count,
+    interval: policyConfig.rateLimitPolicy.interval,
   });
 
   // On-chain session key expiry — enforced by the validator, not just server-side
@@ -216,11 +334,16 @@ async function createAndSerializeAccount(
 
   const expiry = expiryTimestamp;
 
+  // 9. Calldata to uninstall this validator later (owner-signed; see session-uninstall.ts)
+  const { encodeUninstallCall } = await import("./session-uninstall");
+  const uninstallCallData = await encodeUninstallCall(permissionValidator, userAddress);
+
   console.log("[ZeroDev 7702] Account serialized successfully");
   return {
     serializedAccount: serialized,
     sessionKeyAddress: sessionKeyAccount.address as `0x${string}`,
     expiry,
+    uninstallCallData,
   };
 }
 
@@ -260,40 +383,40 @@ export async function registerAgentSecure(
       .filter((o: any) => o.metadata?.vaultAddress)
       .map((o: any) => o.metadata.vaultAddress) as `0x${string}`[];
 
+    // Protocols with live opportunities — the agent may rebalance across all of them
+    const approvedProtocols = Array.from(
+      new Set<string>(opportunities.map((o: any) => o.protocol))
+    ).filter(
+      (protocol) => Object.hasOwn(PROTOCOLS, protocol) || Object.hasOwn(ERC4626_PROTOCOLS, protocol)
+    );
+
     console.log("[ZeroDev 7702] Fetched", approvedVaults.length, "vaults");
 
     // 2. Create and serialize the kernel account client-side
     // This captures the enable signature from the EOA (sudo)
-    const { serializedAccount, sessionKeyAddress, expiry } = await createAndSerializeAccount(
-      userAddress,
-      signedEip7702Auth,
-      walletClient,
-      approvedVaults
-    );
+    const { serializedAccount, sessionKeyAddress, expiry, uninstallCallData } =
+      await createAndSerializeAccount(
+        userAddress,
+        signedEip7702Auth,
+        walletClient,
+        approvedVaults,
+        approvedProtocols
+      );
 
     // 3. Send serialized account to server for encrypted storage
     console.log("[ZeroDev 7702] Sending serialized account to server...");
-    const sessionKeyResponse = await fetch("/api/agent/generate-session-key", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify({
-        address: userAddress,
-        smartAccountAddress: userAddress, // EIP-7702: same address
-        sessionKeyAddress,
-        serializedAccount,
-        approvedVaults,
-        expiry,
-      }),
+    await storeSession(accessToken, {
+      address: userAddress,
+      smartAccountAddress: userAddress, // EIP-7702: same address
+      sessionKeyAddress,
+      serializedAccount,
+      approvedVaults,
+      approvedProtocols,
+      policyConfig: DEFAULT_POLICY_CONFIG,
+      expiry,
+      uninstallCallData,
     });
 
-    if (!sessionKeyResponse.ok) {
-      const error = await sessionKeyResponse.json();
-      throw new Error(error.error || "Failed to store session data");
-    }
-
     console.log("[ZeroDev 7702] Session key address:", sessionKeyAddress);
     console.log("[ZeroDev 7702] Expiry:", new Date(expiry * 1000).toISOString());
     console.log("[ZeroDev 7702] Registration complete");
@@ -303,6 +426,8 @@ export async function registerAgentSecure(
       sessionKeyAddress: sessionKeyAddress as `0x${string}`,
       expiry,
       approvedVaults,
+      approvedProtocols,
+      policyConfig: DEFAULT_POLICY_CONFIG,
     };
   } catch (error: any) {
     console.error("[ZeroDev 7702] Registration failed:", error);
@@ -310,6 +435,109 @@ export async function registerAgentSecure(
   }
 }
 
+/**
+ * Send a serialized account to the server for encrypted storage
+ */
+async function storeSession(accessToken: string, payload: Record<string, unknown>) {
+  const response = await fetch("/api/agent/generate-session-key", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to store session data");
+  }
+}
+
+/**
+ * Renew the agent session key before (or after) it expires.
+ *
+ * The EOA is already delegated to Kernel, so no new EIP-7702 authorization is
+ * needed — the user signs only the enable data for the new session key. The
+ * previous key's approvedVaults, approvedProtocols and policy are reused.
+ *
+ * @param userAddress - User's EOA address
+ * @param accessToken - Privy access token for API authentication
+ * @param walletClient - Viem WalletClient from Privy provider (for signing enable data)
+ * @returns Session key info (public address only)
+ */
+export async function renewAgentSession(
+  userAddress: `0x${string}`,
+  accessToken: string,
+  walletClient: any
+): Promise<SecureSessionKeyResult> {
+  try {
+    console.log("[ZeroDev 7702] Renewing session key for:", userAddress);
+
+    // 1. Previous grant — vaults, protocols and policy to carry over
+    const previousResponse = await fetch("/api/agent/session-renewal", {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    if (!previousResponse.ok) {
+      const error = await previousResponse.json();
+      throw new Error(error.error || "Failed to load the current session");
+    }
+    const { agent } = await previousResponse.json();
+    if (!agent) {
+      throw new Error("No agent session to renew. Please register the agent.");
+    }
+
+    // 2. Renewal relies on the existing delegation — without it a full registration is needed
+    const delegation = await checkSmartAccountActive(userAddress);
+    if (!delegation.isDelegation) {
+      throw new Error("Wallet is no longer delegated. Please register the agent again.");
+    }
+
+    const approvedVaults = agent.approvedVaults as `0x${string}`[];
+    const approvedProtocols = agent.approvedProtocols as string[];
+    const policyConfig: SessionPolicyConfig = agent.policyConfig ?? DEFAULT_POLICY_CONFIG;
+
+    // 3. New session key with the same scope — one signature for the enable data
+    const { serializedAccount, sessionKeyAddress, expiry, uninstallCallData } =
+      await createAndSerializeAccount(
+        userAddress,
+        undefined,
+        walletClient,
+        approvedVaults,
+        approvedProtocols,
+        policyConfig
+      );
+
+    // 4. Store it; the server resolves the open renewal
+    await storeSession(accessToken, {
+      address: userAddress,
+      smartAccountAddress: userAddress,
+      sessionKeyAddress,
+      serializedAccount,
+      approvedVaults,
+      approvedProtocols,
+      policyConfig,
+      expiry,
+      renewal: true,
+      uninstallCallData,
+    });
+
+    console.log("[ZeroDev 7702] Session renewed until", new Date(expiry * 1000).toISOString());
+
+    return {
+      smartAccountAddress: userAddress,
+      sessionKeyAddress,
+      expiry,
+      approvedVaults,
+      approvedProtocols,
+      policyConfig,
+    };
+  } catch (error: any) {
+    console.error("[ZeroDev 7702] Renewal failed:", error);
+    throw new Error(`Session renewal failed: ${error.message}`);
+  }
+}
+
 export interface DelegationStatus {
   active: boolean;
   isDelegation: boolean;
@@ -369,6 +597,55 @@ export async function revokeSessionKey(address: string, accessToken: string): Pr
   console.log("[ZeroDev 7702] Session key revoked (soft)");
 }
 
+/**
+ * Uninstall a revoked session key's permission validator on-chain.
+ *
+ * The server builds the UserOp, the user's EOA (the account's root validator)
+ * signs its hash, and the server relays it to the bundler. Requires the EOA to
+ * still be delegated to Kernel.
+ *
+ * @param userAddress - User's EOA address
+ * @param sessionKeyAddress - Revoked session key whose validator to remove
+ * @param accessToken - Privy access token for API authentication
+ * @param walletClient - Viem WalletClient from Privy provider
+ * @returns Uninstall status and UserOp hash
+ */
+export async function uninstallSessionKey(
+  userAddress: `0x${string}`,
+  sessionKeyAddress: string,
+  accessToken: string,
+  walletClient: any
+): Promise<{ status: string; userOpHash: string; txHash?: string }> {
+  const post = async (body: Record<string, unknown>) => {
+    const response = await fetch("/api/agent/session-keys", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({ sessionKeyAddress, ...body }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to uninstall session key");
+    }
+    return data;
+  };
+
+  console.log("[ZeroDev 7702] Preparing uninstall for session key:", sessionKeyAddress);
+  const { userOp, userOpHash } = await post({ step: "prepare" });
+
+  // Root validator signature over the UserOp hash (as the SDK's 7702 sudo signs)
+  const signature = await walletClient.signMessage({
+    account: userAddress,
+    message: { raw: userOpHash },
+  });
+
+  const result = await post({ step: "submit", userOp, signature });
+  console.log("[ZeroDev 7702] Uninstall", result.status, result.userOpHash);
+  return result;
+}
+
 /**
  * Undelegate EOA from Kernel (remove EIP-7702 delegation on-chain).
  *
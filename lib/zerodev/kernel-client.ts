@@ -20,6 +20,16 @@ const ENTRYPOINT_V07 = {
   version: "0.7" as const,
 };
 
+/**
+ * ZeroDev bundler RPC for Base — also serves eth_getUserOperationReceipt
+ */
+export function getBundlerUrl(): string {
+  return (
+    process.env.ZERODEV_BUNDLER_URL ||
+    `https://rpc.zerodev.app/api/v3/${process.env.ZERODEV_PROJECT_ID}/chain/8453`
+  );
+}
+
 /**
  * Create a ZeroDev Kernel client from a serialized permission account.
  *
@@ -62,9 +72,7 @@ export async function createDeserializedKernelClient(serializedAccount: string)
   console.log("[KernelClient] Account deserialized:", kernelAccount.address);
 
   // 4. Create Kernel account client with bundler
-  const bundlerUrl =
-    process.env.ZERODEV_BUNDLER_URL ||
-    `https://rpc.zerodev.app/api/v3/${process.env.ZERODEV_PROJECT_ID}/chain/8453`;
+  const bundlerUrl = getBundlerUrl();
 
   const kernelClient = await createKernelAccountClient({
     account: kernelAccount,
@@ -223,9 +231,7 @@ export async function createSessionKernelClient(params: CreateSessionKernelClien
   }
 
   // 8. Create Kernel account client with bundler
-  const bundlerUrl =
-    process.env.ZERODEV_BUNDLER_URL ||
-    `https://rpc.zerodev.app/api/v3/${process.env.ZERODEV_PROJECT_ID}/chain/8453`;
+  const bundlerUrl = getBundlerUrl();
 
   const kernelClient = await createKernelAccountClient({
     account: kernelAccount,
@@ -0,0 +1,110 @@
+/**
+ * Rewards Executor - Claims incentive rewards (MORPHO, WELL, ...) into the user's account
+ * Uses user's session key authorization for gasless execution via ZeroDev
+ */
+
+import { protocolRegistry } from "@/lib/protocols/adapter";
+import type { ClaimableReward } from "@/lib/yield-optimizer/types";
+import { createDeserializedKernelClient } from "./kernel-client";
+
+export interface RewardsClaimParams {
+  smartAccountAddress: `0x${string}`;
+  serializedAccount: string;
+  protocols?: string[]; // Limit the claim to these protocols (default: all with rewards)
+}
+
+export interface RewardsClaimResult {
+  success: boolean;
+  claimed: ClaimableReward[];
+  txHash?: string;
+  userOpHash?: string;
+  error?: string;
+}
+
+/**
+ * Build one batch of claim calls for every pending reward the adapters report
+ */
+export async function buildRewardsClaimCalls(userAddress: `0x${string}`, protocols?: string[]) {
+  const rewards = (await protocolRegistry.getAllClaimableRewards(userAddress)).filter(
+    (r) => !protocols || protocols.includes(r.protocol)
+  );
+
+  const calls: { to: `0x${string}`; data: `0x${string}`; value: bigint }[] = [];
+  for (const protocol of new Set(rewards.map((r) => r.protocol))) {
+    const adapter = protocolRegistry.get(protocol);
+    if (!adapter?.buildClaimCalls) continue;
+    calls.push(
+      ...(await adapter.buildClaimCalls(
+        userAddress,
+        rewards.filter((r) => r.protocol === protocol)
+      ))
+    );
+  }
+
+  return { rewards, calls };
+}
+
+/**
+ * Claim all pending incentive rewards in a single sponsored UserOp
+ */
+export async function executeRewardsClaim(params: RewardsClaimParams): Promise<RewardsClaimResult> {
+  try {
+    const { rewards, calls } = await buildRewardsClaimCalls(
+      params.smartAccountAddress,
+      params.protocols
+    );
+
+    if (calls.length === 0) {
+      return { success: false, claimed: [], error: "No rewards to claim" };
+    }
+
+    console.log(
+      "[RewardsClaim] Claiming",
+      rewards.map((r) => `${r.symbol} (${r.protocol})`).join(", ")
+    );
+
+    if (process.env.AGENT_SIMULATION_MODE === "true") {
+      console.log("[RewardsClaim] SIMULATION MODE - No real transaction");
+      const mockHash = `0x${Math.random().toString(16).slice(2)}${Math.random().toString(16).slice(2)}${Math.random().toString(16).slice(2)}`;
+      return {
+        success: true,
+        claimed: rewards,
+        txHash: mockHash,
+        userOpHash: `0xUserOp${Math.random().toString(16).slice(2)}`,
+      };
+    }
+
+    const kernelClient = await createDeserializedKernelClient(params.serializedAccount);
+    const userOpHash = await kernelClient.sendUserOperation({ calls });
+    console.log("[RewardsClaim] UserOp submitted:", userOpHash);
+
+    const receipt = await kernelClient.waitForUserOperationReceipt({ hash: userOpHash });
+    if (!receipt.success) {
+      return {
+        success: false,
+        claimed: [],
+        userOpHash,
+        error: `Claim UserOp reverted: ${receipt.reason || "unknown reason"}`,
+      };
+    }
+
+    return {
+      success: true,
+      claimed: rewards,
+      txHash: receipt.receipt.transactionHash,
+      userOpHash,
+    };
+  } catch (error: any) {
+    console.error("[RewardsClaim] Execution error:", error);
+    const msg: string = error.message || "";
+    // Session keys registered before claims were permitted reject the call policy
+    const isPolicyRejection = msg.includes("AA23") || msg.includes("validateUserOp");
+    return {
+      success: false,
+      claimed: [],
+      error: isPolicyRejection
+        ? "Session key does not permit reward claims. Please re-register your agent."
+        : msg,
+    };
+  }
+}
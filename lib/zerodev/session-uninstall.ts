@@ -0,0 +1,325 @@
+/**
+ * On-chain Session Key Uninstall
+ *
+ * Revoking a session key only stops our backend from using it; the permission
+ * validator stays installed on the user's kernel account until it expires.
+ * Removing it takes Kernel.uninstallValidation, which only the account's root
+ * validator (the user's EOA under EIP-7702) may call. So the UserOp is built
+ * here, signed by the user in the browser, and relayed back through here:
+ *
+ * 1. encodeUninstallCall — at registration, from the client's permission validator
+ * 2. prepareUninstallUserOp — server builds and gas-estimates the UserOp
+ * 3. user signs userOpHash (signMessage, raw) with their wallet
+ * 4. submitUninstallUserOp — server checks hash and signer, sends to the bundler
+ * 5. reconcileUninstall — settles uninstalls still "submitted" when step 4
+ *    stopped waiting, from the bundler receipt or by timing them out; a
+ *    timed-out op that lands later is still recorded as confirmed
+ */
+
+import {
+  concatHex,
+  createPublicClient,
+  decodeFunctionData,
+  encodeFunctionData,
+  http,
+  pad,
+  recoverMessageAddress,
+  type Hex,
+} from "viem";
+import { base } from "viem/chains";
+import { toAccount } from "viem/accounts";
+import {
+  createBundlerClient,
+  entryPoint07Address,
+  formatUserOperation,
+  formatUserOperationRequest,
+  getUserOperationHash,
+  UserOperationReceiptNotFoundError,
+  type RpcUserOperation,
+  type UserOperation,
+} from "viem/account-abstraction";
+import { KernelV3_3AccountAbi } from "@zerodev/sdk";
+import { VALIDATOR_TYPE } from "@zerodev/sdk/constants";
+import { CHAIN_CONFIG } from "@/lib/yield-optimizer/config";
+import { recordUninstall, type SessionKeyRecord } from "@/lib/security/session-registry";
+
+const ENTRYPOINT_V07 = {
+  address: entryPoint07Address,
+  version: "0.7" as const,
+};
+
+// How long submitUninstallUserOp waits for inclusion before reporting "submitted"
+const RECEIPT_TIMEOUT_MS = 60_000;
+// A submitted uninstall with no receipt this long after submission has left the
+// bundler's mempool; it's marked failed so the owner can prepare a fresh one
+export const UNINSTALL_DROPPED_AFTER_MS = 30 * 60 * 1000;
+
+export interface PreparedUninstall {
+  userOp: RpcUserOperation<"0.7">; // JSON-safe; sent back unchanged with the signature
+  userOpHash: Hex;
+}
+
+export type UninstallResult =
+  | { status: "confirmed"; userOpHash: Hex; txHash: Hex }
+  | { status: "failed"; userOpHash: Hex; txHash?: Hex; error: string }
+  | { status: "submitted"; userOpHash: Hex };
+
+/**
+ * Kernel.uninstallValidation calldata for a permission validator.
+ * Mirrors @zerodev/sdk's uninstallPlugin, minus sending.
+ */
+export async function encodeUninstallCall(
+  validator: { getIdentifier(): Hex; getEnableData(accountAddress?: `0x${string}`): Promise<Hex> },
+  accountAddress: `0x${string}`
+): Promise<Hex> {
+  const validatorId = concatHex([
+    VALIDATOR_TYPE.PERMISSION,
+    pad(validator.getIdentifier(), { size: 20, dir: "right" }),
+  ]);
+  return encodeFunctionData({
+    abi: KernelV3_3AccountAbi,
+    functionName: "uninstallValidation",
+    args: [validatorId, await validator.getEnableData(accountAddress), "0x"],
+  });
+}
+
+/**
+ * Whether calldata is an uninstallValidation of a permission validator —
+ * the only call this module will build a UserOp for
+ */
+export function isUninstallCall(callData: string): boolean {
+  try {
+    const { functionName, args } = decodeFunctionData({
+      abi: KernelV3_3AccountAbi,
+      data: callData as Hex,
+    });
+    return (
+      functionName === "uninstallValidation" &&
+      String(args[0]).toLowerCase().startsWith(VALIDATOR_TYPE.PERMISSION)
+    );
+  } catch {
+    return false;
+  }
+}
+
+function userOpHashOf(userOp: UserOperation<"0.7">): Hex {
+  return getUserOperationHash({
+    userOperation: { ...userOp, signature: "0x" },
+    entryPointAddress: ENTRYPOINT_V07.address,
+    entryPointVersion: ENTRYPOINT_V07.version,
+    chainId: base.id,
+  });
+}
+
+/**
+ * Build the uninstall UserOp for the user's EIP-7702 account, signed by its
+ * root validator. Throws if the EOA is no longer delegated to Kernel — an
+ * undelegated account can't execute the uninstall.
+ */
+export async function prepareUninstallUserOp(
+  accountAddress: `0x${string}`,
+  callData: Hex
+): Promise<PreparedUninstall> {
+  if (!isUninstallCall(callData)) {
+    throw new Error("Not a permission validator uninstall");
+  }
+
+  const { createKernelAccount, createKernelAccountClient } = await import("@zerodev/sdk");
+  const { KERNEL_V3_3 } = await import("@zerodev/sdk/constants");
+  const { getBundlerUrl } = await import("./kernel-client");
+  const { verifyDelegationTarget } = await import("./delegation-verification");
+
+  const publicClient = createPublicClient({
+    chain: base,
+    transport: http(CHAIN_CONFIG.rpcUrl),
+  });
+
+  // EIP-7702 delegation designator: 0xef0100 + implementation address
+  const code = await publicClient.getCode({ address: accountAddress });
+  if (!code?.startsWith("0xef0100") || !verifyDelegationTarget(`0x${code.slice(8)}`)) {
+    throw new Error("Wallet is no longer delegated to Kernel");
+  }
+
+  // The EOA signs in the browser; here it only needs an address for the stub signature
+  const owner = toAccount({
+    address: accountAddress,
+    signMessage: async () => {
+      throw new Error("Uninstall UserOps are signed by the wallet owner");
+    },
+    signTransaction: async () => {
+      throw new Error("Uninstall UserOps are signed by the wallet owner");
+    },
+    signTypedData: async () => {
+      throw new Error("Uninstall UserOps are signed by the wallet owner");
+    },
+  });
+
+  const kernelAccount = await createKernelAccount(publicClient, {
+    entryPoint: ENTRYPOINT_V07,
+    kernelVersion: KERNEL_V3_3,
+    address: accountAddress,
+    eip7702Account: owner,
+  });
+
+  const kernelClient = await createKernelAccountClient({
+    account: kernelAccount,
+    chain: base,
+    bundlerTransport: http(getBundlerUrl()),
+  });
+
+  const prepared = await kernelClient.prepareUserOperation({
+    calls: [{ to: accountAddress, data: callData, value: BigInt(0) }],
+  });
+  const userOp = { ...prepared, signature: "0x" } as UserOperation<"0.7">;
+
+  return {
+    userOp: formatUserOperationRequest(userOp) as RpcUserOperation<"0.7">,
+    userOpHash: userOpHashOf(userOp),
+  };
+}
+
+/**
+ * Relay the owner-signed uninstall UserOp. The hash must match the one
+ * prepared for this key and the signature must come from the account owner,
+ * so the bundler never sponsors anything else.
+ */
+export async function submitUninstallUserOp(
+  accountAddress: `0x${string}`,
+  rpcUserOp: RpcUserOperation<"0.7">,
+  signature: Hex,
+  expectedHash: string
+): Promise<UninstallResult> {
+  const userOp = formatUserOperation(rpcUserOp) as UserOperation<"0.7">;
+  const userOpHash = userOpHashOf(userOp);
+
+  if (userOpHash.toLowerCase() !== expectedHash.toLowerCase()) {
+    throw new Error("UserOp does not match the prepared uninstall");
+  }
+  if (
+    userOp.sender.toLowerCase() !== accountAddress.toLowerCase() ||
+    !isSelfUninstallExecution(userOp.callData, accountAddress)
+  ) {
+    throw new Error("UserOp is not an uninstall for this account");
+  }
+
+  const signer = await recoverMessageAddress({ message: { raw: userOpHash }, signature });
+  if (signer.toLowerCase() !== accountAddress.toLowerCase()) {
+    throw new Error("Signature is not from the account owner");
+  }
+
+  const { getBundlerUrl } = await import("./kernel-client");
+  const bundlerClient = createBundlerClient({
+    chain: base,
+    transport: http(getBundlerUrl()),
+  });
+
+  const hash = (await bundlerClient.request({
+    method: "eth_sendUserOperation",
+    params: [formatUserOperationRequest({ ...userOp, signature }), ENTRYPOINT_V07.address],
+  })) as Hex;
+
+  try {
+    const receipt = await bundlerClient.waitForUserOperationReceipt({
+      hash,
+      timeout: RECEIPT_TIMEOUT_MS,
+    });
+    return receiptResult(hash, receipt);
+  } catch (error) {
+    console.warn("[SessionUninstall] No receipt yet for", hash, error);
+    return { status: "submitted", userOpHash: hash };
+  }
+}
+
+/**
+ * Settle a key whose uninstall is still "submitted": record the receipt once
+ * the bundler has one, or fail the uninstall once it's been pending longer
+ * than UNINSTALL_DROPPED_AFTER_MS since submission. An uninstall failed that
+ * way (no transaction) is still checked, so a late receipt is recorded.
+ * Returns the key with its updated status; keys in any other state are
+ * returned unchanged.
+ */
+export async function reconcileUninstall<T extends SessionKeyRecord>(
+  key: T,
+  now: number = Date.now()
+): Promise<T> {
+  const timedOut = key.uninstallStatus === "failed" && !key.uninstallTxHash;
+  if ((key.uninstallStatus !== "submitted" && !timedOut) || !key.uninstallUserOpHash) return key;
+  const userOpHash = key.uninstallUserOpHash as Hex;
+
+  const { getBundlerUrl } = await import("./kernel-client");
+  const bundlerClient = createBundlerClient({
+    chain: base,
+    transport: http(getBundlerUrl()),
+  });
+
+  let result: UninstallResult;
+  try {
+    result = receiptResult(
+      userOpHash,
+      await bundlerClient.getUserOperationReceipt({ hash: userOpHash })
+    );
+  } catch (error) {
+    if (!(error instanceof UserOperationReceiptNotFoundError)) {
+      console.warn("[SessionUninstall] Receipt lookup failed for", userOpHash, error);
+      return key;
+    }
+    // Still pending, or dropped by the bundler
+    if (timedOut) return key;
+    const submittedAt = key.uninstallSubmittedAt ?? key.uninstallRequestedAt;
+    if (now - (submittedAt ? Date.parse(submittedAt) : 0) < UNINSTALL_DROPPED_AFTER_MS) {
+      return key;
+    }
+    result = {
+      status: "failed",
+      userOpHash,
+      error: `Uninstall not included after ${UNINSTALL_DROPPED_AFTER_MS / 60_000} minutes`,
+    };
+  }
+
+  await recordUninstall(key.sessionKeyAddress, result);
+  console.log("[SessionUninstall] Reconciled", key.sessionKeyAddress, "as", result.status);
+  return {
+    ...key,
+    uninstallStatus: result.status,
+    uninstallable: key.uninstallable && result.status !== "confirmed",
+    uninstallTxHash:
+      "txHash" in result ? (result.txHash ?? key.uninstallTxHash) : key.uninstallTxHash,
+    uninstalledAt: result.status === "confirmed" ? new Date(now).toISOString() : key.uninstalledAt,
+    uninstallError: result.status === "failed" ? result.error : null,
+  };
+}
+
+function receiptResult(
+  hash: Hex,
+  receipt: { success: boolean; reason?: string; receipt: { transactionHash: Hex } }
+): UninstallResult {
+  if (!receipt.success) {
+    return {
+      status: "failed",
+      userOpHash: hash,
+      txHash: receipt.receipt.transactionHash,
+      error: receipt.reason || "UserOp reverted",
+    };
+  }
+  return { status: "confirmed", userOpHash: hash, txHash: receipt.receipt.transactionHash };
+}
+
+// Kernel wraps the call in execute(mode, executionCalldata); check the inner call
+function isSelfUninstallExecution(callData: Hex, accountAddress: `0x${string}`): boolean {
+  try {
+    const { functionName, args } = decodeFunctionData({
+      abi: KernelV3_3AccountAbi,
+      data: callData,
+    });
+    if (functionName !== "execute") return false;
+    // Single-call execution data: target (20 bytes) | value (32 bytes) | calldata
+    const execution = args[1] as Hex;
+    const target = `0x${execution.slice(2, 42)}`;
+    return (
+      target.toLowerCase() === accountAddress.toLowerCase() &&
+      isUninstallCall(`0x${execution.slice(2 + 104)}`)
+    );
+  } catch {
+    return false;
+  }
+}
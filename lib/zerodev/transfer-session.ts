@@ -1,6 +1,19 @@
 /**
  * Transfer Session Key Management with ZeroDev
  * Creates restricted session keys for gasless USDC transfers only
+ *
+ * The user's transfer limits are encoded into the key's permissions, so a
+ * leaked key is bounded on-chain, not just by our API:
+ * - Call policy: USDC.transfer() only, amount <= maxAmountPerTransfer, no ETH value,
+ *   and — when the user keeps an allowlist — recipient ONE_OF allowedRecipients
+ * - Rate-limit policy: at most `transfersPerDay` calls per interval, with the
+ *   count resetting every interval (the reset variant of the policy contract)
+ * - Timestamp policy: unusable after the session expiry
+ *
+ * The cumulative cap (maxDailySpend) has no dedicated policy; it is enforced
+ * by clamping the daily call count so that count × per-call cap never exceeds
+ * it. The server-side checks in lib/rate-limiter.ts read the same
+ * TransferPolicy stored with the session (see transferRateLimitConfig).
  */
 
 import type { Hex } from "viem";
@@ -12,11 +25,17 @@ import {
   http,
   encodeFunctionData,
   erc20Abi,
+  parseUnits,
+  getAddress,
+  isAddress,
 } from "viem";
 import { privateKeyToAccount, generatePrivateKey } from "viem/accounts";
 
 const USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as const;
 
+// Each allowlisted address is a calldata word in the call policy's ONE_OF rule
+export const MAX_ALLOWED_RECIPIENTS = 20;
+
 // EntryPoint V0.7 object (required format for ZeroDev SDK v5)
 const ENTRYPOINT_V07 = {
   address: "0x0000000071727De22E5E9d8BAf0edAc6f37da032" as `0x${string}`,
@@ -28,6 +47,23 @@ export interface PrivyWalletProvider {
   address: string;
 }
 
+/** Limits the user chooses for gasless transfers (USDC amounts) */
+export interface TransferLimits {
+  maxAmountPerTransfer: number;
+  maxDailySpend: number;
+  maxTransfersPerDay: number;
+  allowedRecipients?: string[]; // Empty or absent: any recipient
+}
+
+/** What is encoded into the session key's policies */
+export interface TransferPolicy {
+  maxAmountPerTransfer: number; // USDC, per-call cap
+  maxDailySpend: number; // USDC, cumulative cap per interval
+  transfersPerDay: number; // Rate-limit count, clamped to maxDailySpend / maxAmountPerTransfer
+  interval: number; // Rate-limit interval in seconds
+  allowedRecipients?: `0x${string}`[]; // Checksummed; empty or absent: any recipient
+}
+
 export interface TransferSessionAuthorization {
   type: "zerodev-transfer-session";
   smartAccountAddress: `0x${string}`;
@@ -35,6 +71,125 @@ export interface TransferSessionAuthorization {
   sessionPrivateKey: `0x${string}`; // ⚠️ Should be encrypted in production
   expiry: number;
   createdAt: number;
+  policy?: TransferPolicy; // Absent on keys created before policies were encoded
+}
+
+export const DEFAULT_TRANSFER_LIMITS: TransferLimits = {
+  maxAmountPerTransfer: 500,
+  maxDailySpend: 10_000,
+  maxTransfersPerDay: 20,
+};
+
+const TRANSFER_POLICY_INTERVAL = 24 * 60 * 60; // 1 day
+
+/**
+ * Resolve user-chosen limits into the policy encoded on-chain
+ *
+ * @param limits - Overrides for DEFAULT_TRANSFER_LIMITS
+ * @returns Transfer policy
+ * @throws If a limit is not positive, the per-transfer cap exceeds the daily
+ *   cap, or the allowlist holds an invalid address or too many entries
+ */
+export function resolveTransferPolicy(limits: Partial<TransferLimits> = {}): TransferPolicy {
+  const {
+    maxAmountPerTransfer,
+    maxDailySpend,
+    maxTransfersPerDay,
+    allowedRecipients = [],
+  } = {
+    ...DEFAULT_TRANSFER_LIMITS,
+    ...limits,
+  };
+
+  if (!(maxAmountPerTransfer > 0) || !(maxDailySpend > 0)) {
+    throw new Error("Transfer limits must be positive");
+  }
+  if (!Number.isInteger(maxTransfersPerDay) || maxTransfersPerDay < 1) {
+    throw new Error("maxTransfersPerDay must be a positive integer");
+  }
+  if (maxAmountPerTransfer > maxDailySpend) {
+    throw new Error("maxAmountPerTransfer cannot exceed maxDailySpend");
+  }
+
+  const invalid = allowedRecipients.find((r) => !isAddress(r, { strict: false }));
+  if (invalid !== undefined) {
+    throw new Error(`Invalid recipient address: ${invalid}`);
+  }
+  const recipients = Array.from(
+    new Set(allowedRecipients.map((r) => getAddress(r.toLowerCase())))
+  ).sort();
+  if (recipients.length > MAX_ALLOWED_RECIPIENTS) {
+    throw new Error(`At most ${MAX_ALLOWED_RECIPIENTS} allowed recipients`);
+  }
+
+  return {
+    maxAmountPerTransfer,
+    maxDailySpend,
+    transfersPerDay: Math.min(maxTransfersPerDay, Math.floor(maxDailySpend / maxAmountPerTransfer)),
+    interval: TRANSFER_POLICY_INTERVAL,
+    allowedRecipients: recipients,
+  };
+}
+
+/**
+ * Whether two policies encode the same limits
+ */
+export function isSameTransferPolicy(a?: TransferPolicy, b?: TransferPolicy): boolean {
+  if (!a || !b) return false;
+  return (
+    a.maxAmountPerTransfer === b.maxAmountPerTransfer &&
+    a.maxDailySpend === b.maxDailySpend &&
+    a.transfersPerDay === b.transfersPerDay &&
+    a.interval === b.interval &&
+    (a.allowedRecipients ?? []).join() === (b.allowedRecipients ?? []).join()
+  );
+}
+
+/**
+ * Whether a policy's allowlist admits the recipient (mirrors the call policy rule)
+ */
+export function isRecipientAllowed(policy: TransferPolicy | undefined, recipient: string): boolean {
+  const allowed = policy?.allowedRecipients ?? [];
+  if (allowed.length === 0) return true;
+  return allowed.some((a) => a.toLowerCase() === recipient.toLowerCase());
+}
+
+/**
+ * User-facing limits a policy was resolved from — pass back to
+ * createTransferSessionKey to re-grant with one setting changed
+ */
+export function transferLimitsFromPolicy(policy?: TransferPolicy): TransferLimits {
+  if (!policy) return { ...DEFAULT_TRANSFER_LIMITS };
+  return {
+    maxAmountPerTransfer: policy.maxAmountPerTransfer,
+    maxDailySpend: policy.maxDailySpend,
+    maxTransfersPerDay: policy.transfersPerDay,
+    allowedRecipients: policy.allowedRecipients ?? [],
+  };
+}
+
+/**
+ * USDC amount (6 decimals) of the per-call cap encoded in the call policy
+ */
+export function perTransferCapUnits(policy: TransferPolicy): bigint {
+  return parseUnits(policy.maxAmountPerTransfer.toFixed(6), 6);
+}
+
+/**
+ * Rate-limit policy allowing `transfersPerDay` calls per interval
+ *
+ * Uses the reset variant of the policy contract: the default contract never
+ * resets its count, which would cap the key at `transfersPerDay` transfers
+ * for its whole lifetime. The reset contract does not take a `startAt`.
+ */
+export async function transferRateLimitPolicy(policy: TransferPolicy) {
+  const { toRateLimitPolicy } = await import("@zerodev/permissions/policies");
+  const { RATE_LIMIT_POLICY_WITH_RESET_CONTRACT } = await import("@zerodev/permissions");
+  return toRateLimitPolicy({
+    policyAddress: RATE_LIMIT_POLICY_WITH_RESET_CONTRACT,
+    count: policy.transfersPerDay,
+    interval: policy.interval,
+  });
 }
 
 /**
@@ -42,17 +197,22 @@ export interface TransferSessionAuthorization {
  *
  * Flow:
  * 1. Create Kernel V3 smart account using Privy as signer (or reuse existing)
- * 2. Generate session key with call policy restricted to USDC.transfer() only
+ * 2. Generate session key with call, rate-limit and timestamp policies
+ *    encoding the user's transfer limits
  * 3. Return session key authorization data for storage
  *
  * @param privyWallet - Privy wallet object
  * @param userAddress - User's EOA address
+ * @param limits - User-chosen transfer limits (defaults: DEFAULT_TRANSFER_LIMITS)
  * @returns Transfer session authorization data
  */
 export async function createTransferSessionKey(
   privyWallet: PrivyWalletProvider,
-  userAddress: `0x${string}`
+  userAddress: `0x${string}`,
+  limits: Partial<TransferLimits> = {}
 ): Promise<TransferSessionAuthorization> {
+  const policy = resolveTransferPolicy(limits);
+
   try {
     console.log("[TransferSession] Starting transfer session setup...");
     console.log("[TransferSession] User EOA:", userAddress);
@@ -111,7 +271,9 @@ export async function createTransferSessionKey(
     // 6. Create session key validator with restricted call policy
     // Unlike agent sessions (sudo policy), this uses call policy to restrict to USDC.transfer() only
     const { toPermissionValidator } = await import("@zerodev/permissions");
-    const { toCallPolicy, CallPolicyVersion } = await import("@zerodev/permissions/policies");
+    const { toCallPolicy, CallPolicyVersion, ParamCondition, toTimestampPolicy } = await import(
+      "@zerodev/permissions/policies"
+    );
     const { toECDSASigner } = await import("@zerodev/permissions/signers");
 
     const expiry = Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60; // 30 days
@@ -127,7 +289,8 @@ export async function createTransferSessionKey(
       args: ["0x0000000000000000000000000000000000000000", BigInt(0)],
     }).slice(0, 10) as `0x${string}`; // Extract 4-byte selector (0x + 8 chars)
 
-    // Create permission validator with call policy
+    // Create permission validator: transfer-only call policy with the per-call
+    // amount cap and recipient allowlist, daily rate limit, and expiry
     const permissionValidator = await toPermissionValidator(publicClient, {
       signer: sessionSigner,
       entryPoint: ENTRYPOINT_V07,
@@ -138,14 +301,34 @@ export async function createTransferSessionKey(
             {
               target: USDC_ADDRESS,
               selector: transferSelector,
+              valueLimit: BigInt(0),
+              abi: erc20Abi,
+              functionName: "transfer",
+              args: [
+                policy.allowedRecipients?.length
+                  ? { condition: ParamCondition.ONE_OF, value: policy.allowedRecipients }
+                  : null,
+                {
+                  condition: ParamCondition.LESS_THAN_OR_EQUAL,
+                  value: perTransferCapUnits(policy),
+                },
+              ],
             },
           ],
         }),
+        await transferRateLimitPolicy(policy),
+        toTimestampPolicy({
+          validUntil: expiry,
+        }),
       ],
       kernelVersion: KERNEL_V3_3,
     });
 
-    console.log("[TransferSession] ✓ Session key configured with transfer-only permissions");
+    console.log("[TransferSession] ✓ Session key configured with transfer-only permissions", {
+      maxAmountPerTransfer: policy.maxAmountPerTransfer,
+      transfersPerDay: policy.transfersPerDay,
+      allowedRecipients: policy.allowedRecipients?.length ?? "any",
+    });
 
     // 7. Return authorization data
     return {
@@ -155,6 +338,7 @@ export async function createTransferSessionKey(
       sessionPrivateKey,
       expiry,
       createdAt: Date.now(),
+      policy,
     };
   } catch (error: any) {
     console.error("[TransferSession] ❌ Session creation failed:", error);
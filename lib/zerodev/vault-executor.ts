@@ -1,6 +1,10 @@
 /**
  * Vault Executor - Handles ERC4626 vault redeem operations
  * Uses user's session key authorization for gasless execution via ZeroDev
+ *
+ * Redeems are capped to the vault's maxRedeem for the owner; when liquidity
+ * is thin the result reports the unredeemed remainder so the caller can
+ * queue it (see lib/agent/pending-withdrawals.ts).
  */
 
 import { createPublicClient, encodeFunctionData, http, parseAbi, type Hex } from "viem";
@@ -10,6 +14,7 @@ import { CHAIN_CONFIG } from "@/lib/yield-optimizer/config";
 
 const VAULT_ABI = parseAbi([
   "function redeem(uint256 shares, address receiver, address owner) returns (uint256 assets)",
+  "function maxRedeem(address owner) view returns (uint256)",
 ]);
 
 // Function selector for scoped permissions
@@ -31,6 +36,8 @@ export interface VaultRedeemResult {
   txHash?: string;
   userOpHash?: string;
   error?: string;
+  redeemedShares?: bigint; // Set on success — may be less than requested
+  remainingShares?: bigint; // Requested shares the vault couldn't pay out yet
 }
 
 /**
@@ -53,9 +60,35 @@ export async function executeVaultRedeem(params: VaultRedeemParams): Promise<Vau
         success: true,
         txHash: mockHash,
         userOpHash: `0xUserOp${Math.random().toString(16).slice(2)}`,
+        redeemedShares: params.shares,
+        remainingShares: 0n,
       };
     }
 
+    const publicClient = createPublicClient({
+      chain: base,
+      transport: http(CHAIN_CONFIG.rpcUrl),
+    });
+
+    // Redeem only what the vault can pay out right now — the caller queues the rest
+    const maxRedeem = await publicClient.readContract({
+      address: params.vaultAddress,
+      abi: VAULT_ABI,
+      functionName: "maxRedeem",
+      args: [params.receiver],
+    });
+    const shares = maxRedeem < params.shares ? maxRedeem : params.shares;
+    const remainingShares = params.shares - shares;
+    if (shares === 0n) {
+      console.warn("[VaultRedeem] No withdrawable liquidity, deferring full redeem");
+      return { success: true, redeemedShares: 0n, remainingShares };
+    }
+    if (remainingShares > 0n) {
+      console.warn(
+        `[VaultRedeem] Thin liquidity: redeeming ${shares} now, ${remainingShares} deferred`
+      );
+    }
+
     // Create kernel client — prefer deserialized account (new pattern)
     let kernelClient;
     if (params.serializedAccount) {
@@ -79,18 +112,13 @@ export async function executeVaultRedeem(params: VaultRedeemParams): Promise<Vau
     }
 
     // Pre-flight: simulate vault call directly to catch access control failures early
-    const publicClient = createPublicClient({
-      chain: base,
-      transport: http(CHAIN_CONFIG.rpcUrl),
-    });
-
     try {
       await publicClient.simulateContract({
         account: params.smartAccountAddress,
         address: params.vaultAddress,
         abi: VAULT_ABI,
         functionName: "redeem",
-        args: [params.shares, params.receiver, params.receiver],
+        args: [shares, params.receiver, params.receiver],
       });
     } catch (simError: any) {
       const reason = simError.shortMessage || simError.message;
@@ -109,7 +137,7 @@ export async function executeVaultRedeem(params: VaultRedeemParams): Promise<Vau
     const redeemCallData = encodeFunctionData({
       abi: VAULT_ABI,
       functionName: "redeem",
-      args: [params.shares, params.receiver, params.receiver],
+      args: [shares, params.receiver, params.receiver],
     });
 
     console.log("[VaultRedeem] Executing redeem transaction...");
@@ -130,6 +158,8 @@ export async function executeVaultRedeem(params: VaultRedeemParams): Promise<Vau
       success: true,
       txHash: receipt.receipt.transactionHash,
       userOpHash,
+      redeemedShares: shares,
+      remainingShares,
     };
   } catch (error: any) {
     console.error("[VaultRedeem] Execution error:", error);
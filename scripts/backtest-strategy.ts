@@ -0,0 +1,135 @@
+/**
+ * Backtest rebalance thresholds against a stored vault APY/TVL time series
+ * Usage: pnpm tsx scripts/backtest-strategy.ts <series.json|series.csv> [options]
+ *
+ * Options:
+ *   --mode engine|evaluator   Decision logic to replay (default: engine)
+ *   --min-apy <decimal>       minApyImprovement override (e.g. 0.003)
+ *   --targeted-apy <decimal>  targetedApyImprovement override (e.g. 0.0005)
+ *   --risk-level low|medium|high
+ *   --deposit <usd>           Initial deposit (default: 10000)
+ *   --start-vault <address>   Vault held at the start and by the baseline
+ *   --drop-threshold <dec>    APY monitor drop trigger (default: 0.01)
+ *   --horizon <snapshots>     Look-ahead used to score targeted moves (default: 7)
+ *   --format text|json        Output format (default: text)
+ *
+ * CSV columns: timestamp,vault_address,apy,tvl_usd[,name,protocol,liquidity_usd,curator,whitelisted]
+ * Runs fully offline — no RPC, Morpho API or database access.
+ */
+
+import { readFileSync } from "fs";
+import { extname } from "path";
+import {
+  parseBacktestCsv,
+  parseBacktestJson,
+  runBacktest,
+  type BacktestConfig,
+  type BacktestReport,
+} from "../lib/agent/backtester";
+import type { RiskLevel } from "../lib/agent/user-strategy";
+
+function getFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+function getNumberFlag(name: string): number | undefined {
+  const value = getFlag(name);
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) {
+    console.error(`❌ --${name} must be a number, got "${value}"`);
+    process.exit(1);
+  }
+  return n;
+}
+
+const pct = (n: number) => `${(n * 100).toFixed(2)}%`;
+const usd = (n: number) => `$${n.toFixed(2)}`;
+
+function printReport(report: BacktestReport) {
+  console.log("\n📈 Backtest Results");
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  console.log(`Mode:              ${report.mode}`);
+  console.log(`Snapshots:         ${report.snapshots} (${report.periodDays.toFixed(1)} days)`);
+  console.log(`Initial deposit:   ${usd(report.initialDepositUsd)}`);
+  console.log(`minApyImprovement: ${pct(report.thresholds.minApyImprovement)}`);
+  console.log(`targetedApy:       ${pct(report.thresholds.targetedApyImprovement)}`);
+
+  console.log("\n🤖 Strategy");
+  console.log(`  Final value:     ${usd(report.strategy.finalValueUsd)}`);
+  console.log(`  Realized yield:  ${usd(report.strategy.realizedYieldUsd)}`);
+  console.log(`  Realized APY:    ${pct(report.strategy.realizedApy)}`);
+  console.log(`  Rebalances:      ${report.strategy.rebalanceCount}`);
+  console.log(
+    `  Turnover:        ${usd(report.strategy.turnoverUsd)} (${report.strategy.turnover.toFixed(2)}x)`
+  );
+  console.log(`  Costs:           ${usd(report.strategy.costsUsd)}`);
+
+  console.log("\n🎯 Targeted Mode");
+  console.log(`  Triggers:        ${report.targeted.triggers}`);
+  console.log(`  Rebalances:      ${report.targeted.rebalances}`);
+  console.log(
+    `  Hit rate:        ${report.targeted.hitRate === null ? "n/a" : pct(report.targeted.hitRate)}`
+  );
+
+  console.log("\n📦 Buy & Hold Baseline");
+  console.log(`  Vault:           ${report.baseline.vault}`);
+  console.log(`  Final value:     ${usd(report.baseline.finalValueUsd)}`);
+  console.log(`  Realized APY:    ${pct(report.baseline.realizedApy)}`);
+
+  const sign = report.outperformanceUsd >= 0 ? "+" : "-";
+  console.log(
+    `\n${report.outperformanceUsd >= 0 ? "✅" : "⚠️ "} Outperformance: ${sign}${usd(Math.abs(report.outperformanceUsd))}`
+  );
+}
+
+async function main() {
+  const file = process.argv[2];
+  if (!file || file.startsWith("--")) {
+    console.error(
+      "Usage: pnpm tsx scripts/backtest-strategy.ts <series.json|series.csv> [options]"
+    );
+    process.exit(1);
+  }
+
+  const text = readFileSync(file, "utf8");
+  const snapshots =
+    extname(file).toLowerCase() === ".csv" ? parseBacktestCsv(text) : parseBacktestJson(text);
+
+  const mode = getFlag("mode");
+  if (mode && mode !== "engine" && mode !== "evaluator") {
+    console.error(`❌ --mode must be "engine" or "evaluator", got "${mode}"`);
+    process.exit(1);
+  }
+
+  const riskLevel = getFlag("risk-level") as RiskLevel | undefined;
+  const minApy = getNumberFlag("min-apy");
+  const targetedApy = getNumberFlag("targeted-apy");
+
+  const config: BacktestConfig = {
+    mode: mode as BacktestConfig["mode"],
+    initialDepositUsd: getNumberFlag("deposit"),
+    startVault: getFlag("start-vault"),
+    thresholds: {
+      ...(minApy !== undefined && { minApyImprovement: minApy }),
+      ...(targetedApy !== undefined && { targetedApyImprovement: targetedApy }),
+    },
+    strategy: riskLevel ? { riskLevel } : undefined,
+    apyDropThreshold: getNumberFlag("drop-threshold"),
+    hitHorizon: getNumberFlag("horizon"),
+  };
+
+  const report = await runBacktest(snapshots, config);
+
+  if (getFlag("format") === "json") {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Backtest failed:", error.message);
+  process.exit(1);
+});
@@ -18,6 +18,7 @@ import {
   isAuthorizationEncrypted,
   type Authorization,
 } from "../lib/security/session-encryption";
+import { getKeyProvider } from "../lib/security/kms";
 
 const sql = neon(process.env.DATABASE_URL!);
 
@@ -236,20 +237,17 @@ function printSummary(stats: MigrationStats, mode: "dry-run" | "execute" | "roll
 }
 
 /**
- * Verify encryption key is set
+ * Verify encryption keys are configured (see lib/security/kms.ts)
  */
 function verifyEncryptionKey() {
-  if (!process.env.DATABASE_ENCRYPTION_KEY) {
-    console.error("❌ DATABASE_ENCRYPTION_KEY environment variable not set");
+  try {
+    getKeyProvider();
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
     console.error("\nGenerate a key with:");
     console.error("  node -e \"console.log(require('crypto').randomBytes(32).toString('hex'))\"");
     process.exit(1);
   }
-
-  if (process.env.DATABASE_ENCRYPTION_KEY.length !== 64) {
-    console.error("❌ DATABASE_ENCRYPTION_KEY must be 64 hex characters (32 bytes)");
-    process.exit(1);
-  }
 }
 
 /**
@@ -0,0 +1,182 @@
+/**
+ * Rotation Script: Re-wrap Stored Authorizations
+ *
+ * Moves every encrypted authorization_7702 / transfer_authorization field
+ * under the active master key (DATABASE_ENCRYPTION_KEY_ID). Only data keys
+ * are re-wrapped; legacy v1 values are re-encrypted as v2.
+ *
+ * To rotate:
+ * 1. Add the new key to DATABASE_ENCRYPTION_KEYS and make it the active key
+ * 2. Deploy, then run this script with --execute
+ * 3. Once it reports nothing left to re-wrap, drop the old key
+ *
+ * Progress is checkpointed after every batch; --resume continues from it.
+ * Rows that changed concurrently are re-scanned at the end; the checkpoint is
+ * only removed once every one of them is verified under the active key.
+ *
+ * Usage:
+ *   pnpm tsx scripts/rotate-encryption-keys.ts --dry-run             # Preview changes
+ *   pnpm tsx scripts/rotate-encryption-keys.ts --execute             # Run rotation
+ *   pnpm tsx scripts/rotate-encryption-keys.ts --execute --resume    # Continue a stopped run
+ *   Options: --batch-size N (default 100)
+ */
+
+import fs from "fs";
+import { getKeyProvider } from "../lib/security/kms";
+import {
+  DEFAULT_ROTATION_BATCH_SIZE,
+  rotateAuthorizationBatch,
+  rotateAuthorizations,
+} from "../lib/security/key-rotation";
+
+const CHECKPOINT_FILE = ".encryption-rotation.json";
+
+interface Checkpoint {
+  activeKeyId: string;
+  cursor: string | null;
+  rewrapped: number;
+  conflicts: number;
+  conflictIds: string[]; // Changed concurrently, not yet verified under the active key
+  errors: number;
+}
+
+function readCheckpoint(activeKeyId: string): Checkpoint | null {
+  if (!fs.existsSync(CHECKPOINT_FILE)) return null;
+  const checkpoint: Checkpoint = JSON.parse(fs.readFileSync(CHECKPOINT_FILE, "utf8"));
+  if (checkpoint.activeKeyId !== activeKeyId) {
+    console.error(
+      `❌ Checkpoint is for key "${checkpoint.activeKeyId}", active key is "${activeKeyId}"`
+    );
+    console.error(`   Delete ${CHECKPOINT_FILE} to start over`);
+    process.exit(1);
+  }
+  return { ...checkpoint, conflictIds: checkpoint.conflictIds ?? [] };
+}
+
+async function rotate(mode: "dry-run" | "execute", resume: boolean, batchSize: number) {
+  console.log(`\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+  console.log(`  Encryption Key Rotation - ${mode.toUpperCase()}`);
+  console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+
+  const activeKeyId = getKeyProvider().activeKeyId();
+  console.log(`🔑 Active key: ${activeKeyId}`);
+
+  if (mode === "dry-run") {
+    console.log("⚠️  DRY RUN MODE - No database changes will be made\n");
+  } else {
+    console.log("🚀 EXECUTE MODE - Database will be modified\n");
+  }
+
+  const checkpoint: Checkpoint = (resume && readCheckpoint(activeKeyId)) || {
+    activeKeyId,
+    cursor: null,
+    rewrapped: 0,
+    conflicts: 0,
+    conflictIds: [],
+    errors: 0,
+  };
+  if (checkpoint.cursor) {
+    console.log(`↪ Resuming after user ${checkpoint.cursor}`);
+  }
+
+  let batchNum = 0;
+  for (;;) {
+    batchNum++;
+    const result = await rotateAuthorizationBatch(checkpoint.cursor, {
+      batchSize,
+      dryRun: mode === "dry-run",
+    });
+
+    console.log(
+      `📦 Batch ${batchNum}: ${result.scanned} users, ${result.rewrapped} re-wrapped` +
+        (result.conflicts > 0 ? `, ${result.conflicts} changed concurrently` : "")
+    );
+    for (const { walletAddress, error } of result.errors) {
+      console.error(`  ✗ ${walletAddress}: ${error}`);
+    }
+
+    checkpoint.cursor = result.cursor ?? checkpoint.cursor;
+    checkpoint.rewrapped += result.rewrapped;
+    checkpoint.conflicts += result.conflicts;
+    checkpoint.conflictIds.push(...result.conflictIds);
+    checkpoint.errors += result.errors.length;
+    if (mode === "execute") {
+      fs.writeFileSync(CHECKPOINT_FILE, JSON.stringify(checkpoint, null, 2));
+    }
+
+    if (result.done) break;
+  }
+
+  if (mode === "execute" && checkpoint.conflictIds.length > 0) {
+    console.log(`\n🔁 Re-scanning ${checkpoint.conflictIds.length} rows changed concurrently`);
+    const recheck = await rotateAuthorizations(checkpoint.conflictIds);
+    for (const { walletAddress, error } of recheck.errors) {
+      console.error(`  ✗ ${walletAddress}: ${error}`);
+    }
+
+    checkpoint.rewrapped += recheck.rewrapped;
+    checkpoint.conflictIds = recheck.conflictIds;
+    checkpoint.errors += recheck.errors.length;
+    fs.writeFileSync(CHECKPOINT_FILE, JSON.stringify(checkpoint, null, 2));
+  }
+
+  console.log("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  console.log("  Rotation Summary");
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+  console.log(`Re-wrapped:                ${checkpoint.rewrapped}`);
+  console.log(`Changed concurrently:      ${checkpoint.conflicts}`);
+  if (mode === "execute") {
+    console.log(`Unverified:                ${checkpoint.conflictIds.length}`);
+  }
+  console.log(`Errors:                    ${checkpoint.errors}`);
+
+  if (mode === "dry-run") {
+    console.log("\n⚠️  Dry run complete - no changes made");
+    console.log("   Run with --execute to apply changes");
+  } else if (checkpoint.errors > 0) {
+    console.log("\n⚠️  Rotation finished with errors - keep the old keys until they are fixed");
+  } else if (checkpoint.conflictIds.length > 0) {
+    console.log(
+      `\n⚠️  ${checkpoint.conflictIds.length} authorizations changed again during the re-scan - ` +
+        "run with --execute --resume to verify them before dropping the old keys"
+    );
+  } else {
+    fs.rmSync(CHECKPOINT_FILE, { force: true });
+    console.log("\n✓ Rotation complete - all authorizations are under the active key");
+  }
+}
+
+/**
+ * Main entry point
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const mode = args[0];
+
+  if (!mode || !["--dry-run", "--execute"].includes(mode)) {
+    console.error("Usage:");
+    console.error("  pnpm tsx scripts/rotate-encryption-keys.ts --dry-run             # Preview");
+    console.error("  pnpm tsx scripts/rotate-encryption-keys.ts --execute             # Rotate");
+    console.error("  pnpm tsx scripts/rotate-encryption-keys.ts --execute --resume    # Resume");
+    process.exit(1);
+  }
+
+  const batchSizeIndex = args.indexOf("--batch-size");
+  const batchSize =
+    batchSizeIndex >= 0 ? parseInt(args[batchSizeIndex + 1], 10) : DEFAULT_ROTATION_BATCH_SIZE;
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    console.error("❌ --batch-size must be a positive integer");
+    process.exit(1);
+  }
+
+  await rotate(
+    mode.replace("--", "") as "dry-run" | "execute",
+    args.includes("--resume"),
+    batchSize
+  );
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error);
+  process.exit(1);
+});
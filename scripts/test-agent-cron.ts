@@ -35,33 +35,53 @@ async function testCron() {
   const startTime = Date.now();
 
   try {
-    const response = await fetch(`${API_URL}/api/agent/cron`, {
+    const headers = {
+      "x-cron-secret": CRON_SECRET,
+      "Content-Type": "application/json",
+    };
+
+    // 1. Enqueue a cycle
+    const response = await fetch(`${API_URL}/api/agent/cron`, { method: "POST", headers });
+
+    if (!response.ok) {
+      const error = await response.json();
+      console.error("❌ Cron enqueue failed:");
+      console.error(JSON.stringify(error, null, 2));
+      process.exit(1);
+    }
+
+    const cycle = await response.json();
+    console.log(`\n📥 Enqueued ${cycle.enqueued} jobs (cycle ${cycle.cycleId})`);
+
+    // 2. Drain the queue with one worker run
+    const workerResponse = await fetch(`${API_URL}/api/agent/cron/worker`, {
       method: "POST",
-      headers: {
-        "x-cron-secret": CRON_SECRET,
-        "Content-Type": "application/json",
-      },
+      headers,
     });
 
     const duration = Date.now() - startTime;
 
-    if (!response.ok) {
-      const error = await response.json();
-      console.error("❌ Cron execution failed:");
+    if (!workerResponse.ok) {
+      const error = await workerResponse.json();
+      console.error("❌ Worker execution failed:");
       console.error(JSON.stringify(error, null, 2));
       process.exit(1);
     }
 
-    const result = await response.json();
+    const result = await workerResponse.json();
 
     console.log("\n✅ Cron execution successful!");
     console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
     console.log(`⏱️  Duration: ${duration}ms`);
+    console.log(
+      `📦 Queue:  ${result.progress.succeeded + result.progress.skipped}/${result.progress.total} done, ${result.progress.pending} pending, ${result.progress.dead} dead`
+    );
     console.log("\n📊 Summary:");
     console.log(`   • Processed:  ${result.summary.processed} users`);
     console.log(`   • Rebalanced: ${result.summary.rebalanced} users`);
     console.log(`   • Skipped:    ${result.summary.skipped} users`);
     console.log(`   • Errors:     ${result.summary.errors} users`);
+    console.log(`   • Dead:       ${result.summary.deadLettered} jobs`);
 
     if (result.summary.details && result.summary.details.length > 0) {
       console.log("\n📝 Details:");
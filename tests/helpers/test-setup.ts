@@ -20,7 +20,7 @@ export interface TestUser {
 export async function seedTestUser(
   walletAddress: string = "0xTEST1234567890123456789012345678901234",
   autoOptimizeEnabled: boolean = true,
-  minApyThreshold: string = "0.005"
+  minApyThreshold: string = "0.5" // Percent, matches user_strategies default
 ): Promise<TestUser> {
   // Sample EIP-7702 authorization
   const authorization = {
@@ -0,0 +1,253 @@
+/**
+ * Agent Attribution Tests
+ * Rebalance chains, APY history integration, range clipping and the
+ * per-user / aggregate reports
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+
+let actionRows: any[] = [];
+let snapshotRows: any[] = [];
+
+vi.mock("@neondatabase/serverless", () => ({
+  neon:
+    () =>
+    async (strings: TemplateStringsArray, ..._values: unknown[]) => {
+      const text = strings.join("?");
+      if (text.includes("FROM agent_actions a")) return actionRows;
+      if (text.includes("FROM vault_snapshots")) return snapshotRows;
+      return [];
+    },
+}));
+
+process.env.DATABASE_URL = process.env.DATABASE_URL || "postgres://test";
+
+const { buildAttributionSegments, integrateApy, getAgentAttribution, getAggregateAttribution } =
+  await import("@/lib/agent/attribution");
+
+const DAY = 24 * 60 * 60 * 1000;
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const VAULT_A = "0x000000000000000000000000000000000000000a";
+const VAULT_B = "0x000000000000000000000000000000000000000b";
+const VAULT_C = "0x000000000000000000000000000000000000000c";
+
+function rebalance(wallet: string, from: string, to: string, amount: string, createdAt: string) {
+  return {
+    wallet_address: wallet,
+    amount_usdc: amount,
+    metadata: { fromVault: from, toVault: to, reason: "higher APY" },
+    created_at: createdAt,
+  };
+}
+
+function snapshot(vault: string, apy: number, bucket: string) {
+  return { vault_address: vault, bucket, apy: String(apy) };
+}
+
+describe("Agent Attribution", () => {
+  beforeEach(() => {
+    actionRows = [];
+    snapshotRows = [
+      snapshot(VAULT_A, 0.04, "2026-01-01T00:00:00Z"),
+      snapshot(VAULT_B, 0.073, "2026-01-01T00:00:00Z"),
+      snapshot(VAULT_C, 0.1095, "2026-01-01T00:00:00Z"),
+    ];
+  });
+
+  test("keeps the chain's original vault as the counterfactual", () => {
+    const segments = buildAttributionSegments(
+      [
+        {
+          createdAt: "2026-01-01T00:00:00Z",
+          redeems: [{ vault: VAULT_A, amountUsd: 1000 }],
+          deposits: [{ vault: VAULT_B, amountUsd: 1000 }],
+        },
+        {
+          createdAt: "2026-01-11T00:00:00Z",
+          redeems: [{ vault: VAULT_B, amountUsd: 1002 }],
+          deposits: [{ vault: VAULT_C, amountUsd: 1002 }],
+        },
+      ],
+      new Date("2026-01-21T00:00:00Z")
+    );
+
+    expect(segments).toEqual([
+      expect.objectContaining({
+        vault: VAULT_B,
+        originVault: VAULT_A,
+        end: "2026-01-11T00:00:00.000Z",
+      }),
+      expect.objectContaining({
+        vault: VAULT_C,
+        originVault: VAULT_A,
+        end: "2026-01-21T00:00:00.000Z",
+      }),
+    ]);
+  });
+
+  test("splits portfolio rebalances across every leg", () => {
+    const segments = buildAttributionSegments(
+      [
+        {
+          createdAt: "2026-01-01T00:00:00Z",
+          redeems: [{ vault: VAULT_A, amountUsd: 1000 }],
+          deposits: [{ vault: VAULT_B, amountUsd: 1000 }],
+        },
+        {
+          // Half of B plus untouched funds in A, spread over B and C
+          createdAt: "2026-01-11T00:00:00Z",
+          redeems: [
+            { vault: VAULT_B, amountUsd: 500 },
+            { vault: VAULT_C, amountUsd: 500 },
+          ],
+          deposits: [
+            { vault: VAULT_A, amountUsd: 750 },
+            { vault: VAULT_B, amountUsd: 250 },
+          ],
+        },
+      ],
+      new Date("2026-01-21T00:00:00Z")
+    );
+
+    const held = (vault: string, originVault: string) =>
+      segments
+        .filter(
+          (s) =>
+            s.vault === vault && s.originVault === originVault && s.end.startsWith("2026-01-21")
+        )
+        .reduce((sum, s) => sum + s.amountUsd, 0);
+
+    // Half of B's segment stays put; the rest follows the deposit legs 3:1
+    expect(held(VAULT_B, VAULT_A)).toBeCloseTo(500 + 125, 6);
+    expect(held(VAULT_A, VAULT_A)).toBeCloseTo(375, 6);
+    expect(held(VAULT_A, VAULT_C)).toBeCloseTo(375, 6);
+    expect(held(VAULT_B, VAULT_C)).toBeCloseTo(125, 6);
+  });
+
+  test("integrates APY as a step function over time", () => {
+    const start = Date.parse("2026-01-01T00:00:00Z");
+    const series = [
+      { at: start, apy: 0.0365 },
+      { at: start + 10 * DAY, apy: 0.073 },
+    ];
+
+    // 10 days at 3.65% + 5 days at 7.3% = 0.001 + 0.001 years·APY
+    expect(integrateApy(series, start, start + 15 * DAY)).toBeCloseTo(0.002, 10);
+    // The first point backfills earlier time
+    expect(integrateApy(series, start - 10 * DAY, start)).toBeCloseTo(0.001, 10);
+    expect(integrateApy(undefined, start, start + DAY)).toBeNull();
+  });
+
+  test("compares the agent path with staying in the original vault", async () => {
+    actionRows = [
+      rebalance(ALICE, VAULT_A, VAULT_B, "1000", "2026-01-01T00:00:00Z"),
+      rebalance(ALICE, VAULT_B, VAULT_C, "1000", "2026-01-11T00:00:00Z"),
+    ];
+
+    const report = await getAgentAttribution(ALICE, { until: new Date("2026-01-21T00:00:00Z") });
+
+    // 10 days at 7.3% + 10 days at 10.95% vs. 20 days at 4%
+    expect(report.agentYieldUsd).toBeCloseTo(2 + 3, 6);
+    expect(report.counterfactualYieldUsd).toBeCloseTo((1000 * 0.04 * 20) / 365, 6);
+    expect(report.attributedYieldUsd).toBeCloseTo(5 - (1000 * 0.04 * 20) / 365, 6);
+    expect(report.rebalanceCount).toBe(2);
+    expect(report.pricedSegments).toBe(2);
+  });
+
+  test("clips segments to the reporting window", async () => {
+    actionRows = [rebalance(ALICE, VAULT_A, VAULT_B, "1000", "2026-01-01T00:00:00Z")];
+
+    const report = await getAgentAttribution(ALICE, {
+      since: new Date("2026-01-11T00:00:00Z"),
+      until: new Date("2026-01-21T00:00:00Z"),
+    });
+
+    expect(report.agentYieldUsd).toBeCloseTo(2, 6);
+    expect(report.rebalanceCount).toBe(0);
+    expect(report.segments[0].start).toBe("2026-01-11T00:00:00.000Z");
+  });
+
+  test("reports segments without APY history as unpriced", async () => {
+    actionRows = [
+      rebalance(
+        ALICE,
+        VAULT_A,
+        "0x00000000000000000000000000000000000000ff",
+        "500",
+        "2026-01-01T00:00:00Z"
+      ),
+    ];
+
+    const report = await getAgentAttribution(ALICE, { until: new Date("2026-01-21T00:00:00Z") });
+
+    expect(report.unpricedSegments).toBe(1);
+    expect(report.pricedSegments).toBe(0);
+    expect(report.agentYieldUsd).toBe(0);
+  });
+
+  test("reads portfolio legs from metadata, less deferred remainders", async () => {
+    actionRows = [
+      {
+        wallet_address: ALICE,
+        amount_usdc: "1000",
+        metadata: {
+          fromVault: VAULT_A,
+          toVault: VAULT_B,
+          legs: {
+            redeems: [
+              { vault: VAULT_A, protocol: "morpho", shares: "1", assets: "600000000" },
+              { vault: VAULT_C, protocol: "morpho", shares: "1", assets: "400000000" },
+            ],
+            deposits: [{ vault: VAULT_B, protocol: "morpho", assets: "1000000000" }],
+          },
+          deferred: [{ vault: VAULT_C, protocol: "morpho", shares: "1", assets: "100000000" }],
+        },
+        created_at: "2026-01-01T00:00:00Z",
+      },
+    ];
+
+    const report = await getAgentAttribution(ALICE, { until: new Date("2026-01-11T00:00:00Z") });
+
+    expect(report.segments).toEqual([
+      expect.objectContaining({ vault: VAULT_B, originVault: VAULT_A, amountUsd: 600 }),
+      expect.objectContaining({ vault: VAULT_B, originVault: VAULT_C, amountUsd: 300 }),
+    ]);
+  });
+
+  test("skips rebalances logged without vault addresses", async () => {
+    actionRows = [
+      {
+        wallet_address: ALICE,
+        amount_usdc: "1000",
+        metadata: {},
+        created_at: "2026-01-01T00:00:00Z",
+      },
+    ];
+
+    const report = await getAgentAttribution(ALICE, { until: new Date("2026-01-21T00:00:00Z") });
+
+    expect(report.segments).toEqual([]);
+    expect(report.attributedYieldUsd).toBe(0);
+  });
+
+  test("aggregates attribution across users", async () => {
+    actionRows = [
+      rebalance(ALICE, VAULT_A, VAULT_B, "1000", "2026-01-01T00:00:00Z"),
+      rebalance(BOB, VAULT_C, VAULT_A, "1000", "2026-01-01T00:00:00Z"),
+    ];
+
+    const { total, users } = await getAggregateAttribution({
+      until: new Date("2026-01-11T00:00:00Z"),
+    });
+
+    expect(users.map((u) => u.walletAddress)).toEqual([ALICE, BOB]);
+    expect(users[1].attributedYieldUsd).toBeLessThan(0);
+    expect(total.users).toBe(2);
+    expect(total.attributedYieldUsd).toBeCloseTo(
+      users[0].attributedYieldUsd + users[1].attributedYieldUsd,
+      10
+    );
+    expect(total.rebalanceCount).toBe(2);
+  });
+});
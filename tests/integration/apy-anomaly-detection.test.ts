@@ -0,0 +1,152 @@
+/**
+ * APY Anomaly Detection Tests
+ * Rolling-window detectors, per-vault overrides and robust targeted signals
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+
+const store = new Map<string, string>();
+
+vi.mock("@/lib/redis/client", () => ({
+  getCacheInterface: async () => ({
+    get: async (key: string) => store.get(key) ?? null,
+    set: async (key: string, value: string) => {
+      store.set(key, value);
+    },
+    del: async (key: string) => {
+      store.delete(key);
+    },
+  }),
+}));
+
+vi.mock("@/lib/morpho/vault-history", () => ({
+  recordVaultSnapshots: vi.fn().mockResolvedValue(0),
+  recordOpportunitySnapshots: vi.fn().mockResolvedValue(0),
+}));
+
+vi.mock("@/lib/protocols/adapter", () => ({
+  protocolRegistry: { getAllOpportunities: vi.fn().mockResolvedValue([]) },
+}));
+
+const A = "0x000000000000000000000000000000000000000A";
+const vaults = [{ address: A, name: "Vault A", netApy: 0.05, avgNetApy: 0.05 }];
+
+vi.mock("@/lib/morpho/api-client", () => ({
+  MorphoClient: class {
+    fetchVaults = vi.fn(async () => vaults);
+  },
+}));
+
+const {
+  ApyEventMonitor,
+  DEFAULT_DETECTOR_SETTINGS,
+  ROBUST_SIGNAL_CONFIDENCE,
+  combineConfidence,
+  filterRobustTargets,
+  mergeDetectorSettings,
+  runDetectors,
+} = await import("@/lib/agent/event-monitor");
+
+function feed(apys: number[], settings = DEFAULT_DETECTOR_SETTINGS) {
+  let state = { ewma: null as number | null, samples: [] as number[] };
+  let signals: ReturnType<typeof runDetectors>["signals"] = [];
+  for (const apy of apys) {
+    const result = runDetectors(apy, state, settings);
+    state = result.nextState;
+    signals = result.signals;
+  }
+  return signals;
+}
+
+// Small deterministic jitter around 5% (±5bp)
+const noisy = (n: number) => Array.from({ length: n }, (_, i) => 0.05 + (i % 2 ? 0.0005 : -0.0005));
+
+describe("runDetectors", () => {
+  test("stays quiet on a noisy but stable series", () => {
+    expect(feed(noisy(20))).toEqual([]);
+  });
+
+  test("a sharp drop fires threshold, ewma and zscore together", () => {
+    const signals = feed([...noisy(20), 0.03]);
+    const names = signals.map((s) => s.detector).sort();
+
+    expect(names).toEqual(["ewma", "threshold", "zscore"]);
+    expect(signals.every((s) => s.direction === "down")).toBe(true);
+    expect(combineConfidence(signals)).toBeGreaterThanOrEqual(ROBUST_SIGNAL_CONFIDENCE);
+  });
+
+  test("a lone threshold hit is never robust", () => {
+    const signals = feed([0.05, 0.03]);
+
+    expect(signals.map((s) => s.detector)).toEqual(["threshold"]);
+    expect(combineConfidence(signals)).toBeLessThan(ROBUST_SIGNAL_CONFIDENCE);
+  });
+
+  test("a slow bleed fires sustained_drop without any large single delta", () => {
+    const signals = feed([0.05, 0.049, 0.048, 0.047, 0.046, 0.045, 0.044]);
+    const drop = signals.find((s) => s.detector === "sustained_drop");
+
+    expect(drop).toBeDefined();
+    expect(drop!.confidence).toBeGreaterThanOrEqual(ROBUST_SIGNAL_CONFIDENCE);
+    expect(signals.some((s) => s.detector === "threshold")).toBe(false);
+  });
+
+  test("disabled detectors never fire", () => {
+    const settings = mergeDetectorSettings(DEFAULT_DETECTOR_SETTINGS, {
+      threshold: { enabled: false },
+      zscore: { enabled: false },
+    });
+
+    expect(feed([...noisy(20), 0.03], settings).map((s) => s.detector)).toEqual(["ewma"]);
+  });
+});
+
+describe("ApyEventMonitor", () => {
+  beforeEach(() => {
+    store.clear();
+    vaults[0].avgNetApy = 0.05;
+  });
+
+  async function poll(monitor: InstanceType<typeof ApyEventMonitor>, apys: number[]) {
+    let last;
+    for (const apy of apys) {
+      vaults[0].avgNetApy = apy;
+      last = await monitor.detectChanges();
+    }
+    return last!;
+  }
+
+  test("events carry the strongest detector and a combined confidence", async () => {
+    const result = await poll(new ApyEventMonitor(), [...noisy(10), 0.03]);
+    const [event] = result.changes;
+
+    expect(event.direction).toBe("down");
+    expect(event.detectors).toContain("threshold");
+    expect(event.detectors).toContain(event.detector);
+    expect(event.detector).not.toBe("threshold");
+    expect(event.confidence).toBeGreaterThanOrEqual(ROBUST_SIGNAL_CONFIDENCE);
+    expect(event.previousApy).toBeCloseTo(0.0505, 6);
+  });
+
+  test("per-vault overrides take precedence over global settings", async () => {
+    const monitor = new ApyEventMonitor({
+      vaultOverrides: { [A.toLowerCase()]: { threshold: { minChange: 0.05 } } },
+    });
+
+    expect(monitor.getSettings(A).threshold.minChange).toBe(0.05);
+    expect(
+      monitor.getSettings("0x000000000000000000000000000000000000000b").threshold.minChange
+    ).toBe(DEFAULT_DETECTOR_SETTINGS.threshold.minChange);
+  });
+
+  test("targeted filtering keeps robust drops and ignores noisy single reads", async () => {
+    await poll(new ApyEventMonitor(), [0.05, 0.03]);
+    expect(await filterRobustTargets([A])).toEqual([]);
+
+    store.clear();
+    await poll(new ApyEventMonitor(), [...noisy(10), 0.03]);
+    expect(await filterRobustTargets([A, "0x000000000000000000000000000000000000000b"])).toEqual([
+      A,
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Compound v3 (Comet) Adapter Tests
+ * Supply APY from getSupplyRate(getUtilization()), balanceOf positions,
+ * supply/withdraw call construction and registry wiring
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+import { decodeFunctionData, maxUint256, parseAbi } from "viem";
+
+const mockReadContract = vi.fn();
+
+vi.mock("@/lib/shared/rpc-client", () => ({
+  baseClient: {
+    readContract: (args: any) => mockReadContract(args),
+  },
+}));
+
+const { CompoundAdapter } = await import("@/lib/protocols/compound-adapter");
+const { PROTOCOLS } = await import("@/lib/yield-optimizer/config");
+
+const COMET = PROTOCOLS.compound.cUsdcV3;
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const USER = "0x1111111111111111111111111111111111111111" as `0x${string}`;
+const SECONDS_PER_YEAR = 365 * 24 * 3600;
+// ~4.5% APR expressed as Comet's per-second rate scaled by 1e18
+const SUPPLY_RATE = 1_426_940_639n;
+const UTILIZATION = 850_000_000_000_000_000n; // 85%
+
+const ABI = parseAbi([
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function supply(address asset, uint256 amount)",
+  "function withdraw(address asset, uint256 amount)",
+]);
+
+function mockComet(options: { balance?: bigint } = {}) {
+  mockReadContract.mockImplementation(async ({ address, functionName, args }: any) => {
+    switch (functionName) {
+      case "getUtilization":
+        return UTILIZATION;
+      case "getSupplyRate":
+        if (args[0] !== UTILIZATION) throw new Error("rate read at wrong utilization");
+        return SUPPLY_RATE;
+      case "totalSupply":
+        return 20_000_000_000_000n; // $20M
+      case "balanceOf":
+        // USDC.balanceOf(comet) is the market's cash; comet.balanceOf(user) the position
+        return address === USDC ? 3_000_000_000_000n : (options.balance ?? 0n);
+    }
+    throw new Error(`unexpected call ${functionName}`);
+  });
+}
+
+describe("CompoundAdapter", () => {
+  beforeEach(() => {
+    mockReadContract.mockReset();
+  });
+
+  test("derives supply APY from the per-second rate at current utilization", async () => {
+    mockComet();
+
+    const [opportunity] = await new CompoundAdapter().getOpportunities();
+
+    const ratePerSecond = Number(SUPPLY_RATE) / 1e18;
+    expect(opportunity).toMatchObject({
+      id: "compound-usdc-base",
+      protocol: "compound",
+      address: COMET,
+      tvl: 20_000_000_000_000n,
+      liquidityDepth: 3_000_000_000_000n,
+      metadata: { isVault: false, source: "rpc" },
+    });
+    const supplyApr = opportunity.metadata?.supplyApr as number;
+    expect(supplyApr).toBeCloseTo(ratePerSecond * SECONDS_PER_YEAR, 6);
+    expect(opportunity.apy).toBeCloseTo(Math.pow(1 + ratePerSecond, SECONDS_PER_YEAR) - 1, 6);
+    expect(opportunity.apy).toBeGreaterThan(supplyApr);
+  });
+
+  test("returns no opportunities when the RPC fails", async () => {
+    mockReadContract.mockRejectedValue(new Error("rpc down"));
+
+    await expect(new CompoundAdapter().getOpportunities()).resolves.toEqual([]);
+  });
+
+  test("reports balanceOf as the position value in USDC", async () => {
+    mockComet({ balance: 250_000_000n });
+
+    const [position] = await new CompoundAdapter().getPositions(USER);
+
+    expect(position).toMatchObject({
+      protocol: "compound",
+      vaultAddress: COMET,
+      shares: 250_000_000n,
+      assets: 250_000_000n,
+    });
+    expect(position.apy).toBeGreaterThan(0.04);
+  });
+
+  test("has no position when the Comet balance is zero", async () => {
+    mockComet();
+
+    await expect(new CompoundAdapter().getPositions(USER)).resolves.toEqual([]);
+  });
+
+  test("builds approve + supply and withdraw calls against the Comet", async () => {
+    const adapter = new CompoundAdapter();
+
+    const [approve, supply] = await adapter.buildDepositCalls(1_000_000n, USER, COMET);
+    expect(approve.to).toBe(USDC);
+    expect(decodeFunctionData({ abi: ABI, data: approve.data }).args).toEqual([COMET, 1_000_000n]);
+    expect(supply.to).toBe(COMET);
+    expect(decodeFunctionData({ abi: ABI, data: supply.data })).toMatchObject({
+      functionName: "supply",
+      args: [USDC, 1_000_000n],
+    });
+
+    const [partial] = await adapter.buildWithdrawCalls(USER, COMET, undefined, 400_000n);
+    expect(decodeFunctionData({ abi: ABI, data: partial.data })).toMatchObject({
+      functionName: "withdraw",
+      args: [USDC, 400_000n],
+    });
+
+    // No amount exits the full balance
+    const [full] = await adapter.buildWithdrawCalls(USER, COMET, 250_000_000n);
+    expect(decodeFunctionData({ abi: ABI, data: full.data }).args).toEqual([USDC, maxUint256]);
+  });
+
+  test("is registered in the protocol registry", async () => {
+    const { protocolRegistry } = await import("@/lib/protocols/adapter");
+
+    const adapter = protocolRegistry.get("compound");
+    expect(adapter).toBeInstanceOf(CompoundAdapter);
+    expect(protocolRegistry.getEnabled()).toContain(adapter);
+  });
+});
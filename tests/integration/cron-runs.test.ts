@@ -0,0 +1,150 @@
+/**
+ * Cron Run History Tests
+ * Persisting cron runs and querying them through /api/agent/cron/runs
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+
+const queries: Array<{ text: string; values: unknown[] }> = [];
+const mockRows = vi.fn((_text: string): any[] => []);
+
+vi.mock("@neondatabase/serverless", () => ({
+  neon:
+    () =>
+    async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const text = strings.join("?");
+      queries.push({ text, values });
+      return mockRows(text);
+    },
+}));
+
+const { recordCronRun, listCronRuns } = await import("@/lib/agent/cron-runs");
+const { GET } = await import("@/app/api/agent/cron/runs/route");
+
+const USER = "0x1111111111111111111111111111111111111111";
+const SECRET = "test_secret_12345678901234567890";
+
+const RUN_ROW = {
+  id: "00000000-0000-0000-0000-000000000001",
+  run_type: "worker",
+  cycle_id: "00000000-0000-0000-0000-0000000000c1",
+  trigger_mode: null,
+  targeted_vaults: null,
+  status: "completed",
+  safety_check: { safe: true },
+  enqueued: 0,
+  processed: 2,
+  rebalanced: 1,
+  skipped: 1,
+  errors: 0,
+  dead_lettered: 0,
+  error_message: null,
+  started_at: "2025-01-01T12:00:00Z",
+  finished_at: "2025-01-01T12:00:05Z",
+  duration_ms: 5000,
+};
+
+function request(query: string, secret: string | null = SECRET) {
+  return new NextRequest(`http://localhost/api/agent/cron/runs${query}`, {
+    headers: secret ? { "x-cron-secret": secret } : {},
+  });
+}
+
+describe("recordCronRun", () => {
+  beforeEach(() => {
+    queries.length = 0;
+    mockRows.mockReset().mockReturnValue([{ id: RUN_ROW.id }]);
+    process.env.DATABASE_URL = "postgres://test";
+  });
+
+  test("persists counts, details, safety check and duration", async () => {
+    const id = await recordCronRun({
+      runType: "worker",
+      cycleId: RUN_ROW.cycle_id,
+      status: "completed",
+      safetyCheck: { safe: true },
+      summary: {
+        processed: 2,
+        rebalanced: 1,
+        skipped: 1,
+        errors: 0,
+        deadLettered: 0,
+        details: [
+          { address: USER, action: "skipped", reason: "Already optimal" },
+          {
+            address: "0x2222222222222222222222222222222222222222",
+            action: "rebalanced",
+            reason: "ok",
+          },
+        ],
+      },
+      startedAt: new Date("2025-01-01T12:00:00Z"),
+      finishedAt: new Date("2025-01-01T12:00:05Z"),
+    });
+
+    expect(id).toBe(RUN_ROW.id);
+    const { values } = queries[0];
+    expect(values.slice(0, 3)).toEqual(["worker", RUN_ROW.cycle_id, null]);
+    expect(values.slice(6, 12)).toEqual([0, 2, 1, 1, 0, 0]);
+    expect(JSON.parse(values[12] as string)[0]).toMatchObject({ reason: "Already optimal" });
+    expect(values[values.length - 1]).toBe(5000);
+  });
+
+  test("never throws when the database is unavailable", async () => {
+    mockRows.mockImplementation(() => {
+      throw new Error("connection refused");
+    });
+
+    await expect(
+      recordCronRun({ runType: "enqueue", status: "blocked", startedAt: new Date() })
+    ).resolves.toBeNull();
+  });
+});
+
+describe("GET /api/agent/cron/runs", () => {
+  beforeEach(() => {
+    queries.length = 0;
+    process.env.DATABASE_URL = "postgres://test";
+    process.env.CRON_SECRET = SECRET;
+    mockRows.mockReset().mockImplementation((text) =>
+      text.includes("COUNT(*)")
+        ? [{ total: "3" }]
+        : [
+            {
+              ...RUN_ROW,
+              details: [{ address: USER, action: "skipped", reason: "Already optimal" }],
+            },
+          ]
+    );
+  });
+
+  test("requires the cron secret", async () => {
+    const response = await GET(request("", null));
+    expect(response.status).toBe(401);
+  });
+
+  test("paginates run history", async () => {
+    const response = await GET(request("?limit=1&offset=1"));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ total: 3, limit: 1, offset: 1, hasMore: true });
+    expect(body.runs[0]).toMatchObject({ id: RUN_ROW.id, runType: "worker", durationMs: 5000 });
+  });
+
+  test("drills into one user's entries by address", async () => {
+    const { runs } = await listCronRuns({ limit: 20, offset: 0, address: USER.toUpperCase() });
+
+    expect(queries[0].values).toContain(USER);
+    expect(runs[0].details).toEqual([
+      { address: USER, action: "skipped", reason: "Already optimal" },
+    ]);
+  });
+
+  test("rejects invalid filters", async () => {
+    expect((await GET(request("?limit=500"))).status).toBe(400);
+    expect((await GET(request("?type=manual"))).status).toBe(400);
+    expect((await GET(request("?address=0x123"))).status).toBe(400);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Cross-Protocol Rebalancing Tests
+ * Verifies the agent compares opportunities from every enabled adapter and
+ * builds withdraw/deposit calls through each leg's ProtocolAdapter
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+import { decodeFunctionData, parseAbi } from "viem";
+import type { YieldOpportunity, Position } from "@/lib/yield-optimizer/types";
+
+const mockReadContract = vi.fn();
+
+vi.mock("viem", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("viem")>();
+  return {
+    ...actual,
+    createPublicClient: () => ({ readContract: mockReadContract }),
+  };
+});
+
+const { ProtocolRegistry } = await import("@/lib/protocols/adapter");
+const { YieldDecisionEngine } = await import("@/lib/agent/decision-engine");
+const { buildRebalanceCalls } = await import("@/lib/agent/rebalance-executor");
+const { PROTOCOLS } = await import("@/lib/yield-optimizer/config");
+
+const USER = "0x1111111111111111111111111111111111111111" as `0x${string}`;
+const VAULT_A = "0x000000000000000000000000000000000000000a" as `0x${string}`;
+const VAULT_B = "0x000000000000000000000000000000000000000b" as `0x${string}`;
+const AAVE_POOL = PROTOCOLS.aave.pool;
+const MOONWELL = PROTOCOLS.moonwell.mUsdc;
+
+const USDC = (n: number) => BigInt(n) * 1_000_000n;
+
+const POOL_ABI = parseAbi([
+  "function withdraw(address asset, uint256 amount, address to) returns (uint256)",
+  "function deposit(uint256 assets, address receiver) returns (uint256 shares)",
+  "function mint(uint256 mintAmount) returns (uint256)",
+]);
+
+function opportunity(
+  protocol: YieldOpportunity["protocol"],
+  address: `0x${string}`,
+  apy: number,
+  overrides: Partial<YieldOpportunity> = {}
+): YieldOpportunity {
+  return {
+    id: `${protocol}-${address}`,
+    protocol,
+    name: `${protocol} ${address.slice(-4)}`,
+    asset: "USDC",
+    apy,
+    tvl: USDC(50_000_000),
+    address,
+    riskScore: 0.2,
+    liquidityDepth: USDC(50_000_000),
+    metadata:
+      protocol === "morpho" ? { vaultAddress: address, curator: "Steakhouse", isVault: true } : {},
+    ...overrides,
+  };
+}
+
+function fakeAdapter(
+  protocol: YieldOpportunity["protocol"],
+  opportunities: YieldOpportunity[],
+  positions: Position[]
+) {
+  return {
+    protocol,
+    name: protocol,
+    enabled: true,
+    getOpportunities: vi.fn().mockResolvedValue(opportunities),
+    getPositions: vi.fn().mockResolvedValue(positions),
+    buildDepositCalls: vi.fn(),
+    buildWithdrawCalls: vi.fn(),
+  };
+}
+
+function aavePosition(assets: bigint): Position {
+  return {
+    protocol: "aave",
+    vaultAddress: AAVE_POOL,
+    shares: assets,
+    assets,
+    apy: 0.03,
+    enteredAt: Date.now(),
+  };
+}
+
+describe("YieldDecisionEngine.evaluateCrossProtocol", () => {
+  function buildRegistry() {
+    const registry = new ProtocolRegistry();
+    registry.register(
+      fakeAdapter(
+        "morpho",
+        [opportunity("morpho", VAULT_A, 0.08), opportunity("morpho", VAULT_B, 0.07)],
+        []
+      )
+    );
+    registry.register(
+      fakeAdapter("aave", [opportunity("aave", AAVE_POOL, 0.03)], [aavePosition(USDC(1000))])
+    );
+    registry.register(
+      fakeAdapter("moonwell", [opportunity("moonwell", MOONWELL, 0.075, { riskScore: 0.3 })], [])
+    );
+    return registry;
+  }
+
+  test("moves funds from Aave into higher-yield opportunities across protocols", async () => {
+    const engine = new YieldDecisionEngine({} as any, buildRegistry());
+
+    const decision = await engine.evaluateCrossProtocol(USER);
+
+    expect(decision.shouldRebalance).toBe(true);
+    expect(decision.legs.redeems).toEqual([
+      { vault: AAVE_POOL, protocol: "aave", shares: USDC(1000), assets: USDC(1000) },
+    ]);
+    // 60% per-vault cap: Morpho A takes 600, Moonwell takes the remaining 400
+    expect(decision.legs.deposits).toEqual(
+      expect.arrayContaining([
+        { vault: VAULT_A, protocol: "morpho", assets: USDC(600) },
+        { vault: MOONWELL, protocol: "moonwell", assets: USDC(400) },
+      ])
+    );
+    expect(decision.currentVault?.address).toBe(AAVE_POOL);
+    expect(decision.targetVault?.address).toBe(VAULT_A);
+  });
+
+  test("only considers protocols the session key was granted", async () => {
+    const engine = new YieldDecisionEngine({} as any, buildRegistry());
+
+    const decision = await engine.evaluateCrossProtocol(USER, null, undefined, {
+      allowedProtocols: ["morpho"],
+    });
+
+    // Aave holding is out of scope for a Morpho-only key
+    expect(decision.shouldRebalance).toBe(false);
+    expect(decision.reason).toBe("No active positions found");
+  });
+
+  test("restricts Morpho destinations to the session key's approved vaults", async () => {
+    const engine = new YieldDecisionEngine({} as any, buildRegistry());
+
+    const decision = await engine.evaluateCrossProtocol(USER, null, undefined, {
+      allowedProtocols: ["morpho", "aave"],
+      approvedVaults: [VAULT_B],
+    });
+
+    expect(decision.legs.deposits).toEqual([
+      { vault: VAULT_B, protocol: "morpho", assets: USDC(600) },
+    ]);
+  });
+});
+
+describe("buildRebalanceCalls with cross-protocol legs", () => {
+  beforeEach(() => {
+    mockReadContract.mockReset();
+  });
+
+  test("withdraws from Aave and deposits into Morpho via each adapter", async () => {
+    const calls = await buildRebalanceCalls({
+      userAddress: USER,
+      redeems: [{ vault: AAVE_POOL, protocol: "aave", shares: USDC(1000), assets: USDC(1000) }],
+      deposits: [
+        { vault: VAULT_A, protocol: "morpho", assets: USDC(600) },
+        { vault: MOONWELL, protocol: "moonwell", assets: USDC(400) },
+      ],
+    });
+
+    // Aave withdraw needs no previewRedeem — the amount is exact
+    expect(mockReadContract).not.toHaveBeenCalled();
+
+    // withdraw + 2 × (approve, deposit/mint)
+    expect(calls).toHaveLength(5);
+    expect(calls[0].to).toBe(AAVE_POOL);
+    expect(calls[2].to).toBe(VAULT_A);
+    expect(calls[4].to).toBe(MOONWELL);
+
+    const withdraw = decodeFunctionData({ abi: POOL_ABI, data: calls[0].data });
+    expect(withdraw.functionName).toBe("withdraw");
+    expect(withdraw.args).toEqual([expect.any(String), USDC(1000), USER]);
+
+    const deposit = decodeFunctionData({ abi: POOL_ABI, data: calls[2].data });
+    const mint = decodeFunctionData({ abi: POOL_ABI, data: calls[4].data });
+    const total = (USDC(1000) * 995n) / 1000n;
+    expect(deposit.args[0]).toBe((total * 3n) / 5n);
+    expect(mint.functionName).toBe("mint");
+    expect(mint.args[0]).toBe(total - (total * 3n) / 5n);
+  });
+});
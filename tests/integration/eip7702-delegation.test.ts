@@ -360,12 +360,15 @@ describe("Pre-Execution Delegation Checks", () => {
   test("16. executeRebalance checks delegation before execution", async () => {
     const fs = await import("fs");
     const rebalanceSource = fs.readFileSync("lib/agent/rebalance-executor.ts", "utf-8");
+    const executeSource = rebalanceSource.slice(
+      rebalanceSource.indexOf("export async function executeRebalance")
+    );
 
     // Verify delegation check happens before building calls
-    const delegationCheckIndex = rebalanceSource.indexOf(
+    const delegationCheckIndex = executeSource.indexOf(
       "checkSmartAccountActive(smartAccountAddress)"
     );
-    const buildCallsIndex = rebalanceSource.indexOf("buildRebalanceCalls(params)");
+    const buildCallsIndex = executeSource.indexOf("buildRebalancePlan(params)");
 
     expect(delegationCheckIndex).toBeGreaterThan(-1);
     expect(buildCallsIndex).toBeGreaterThan(-1);
@@ -0,0 +1,293 @@
+/**
+ * Encryption Key Rotation Tests
+ * Verifies envelope encryption embeds the master key ID, old keys keep
+ * decrypting, rewrap moves data keys to the active key without touching the
+ * ciphertext, legacy v1 values still decrypt, and the batched rotation
+ * re-wraps stored authorizations
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+
+const queries: Array<{ text: string; values: unknown[] }> = [];
+let responses: Array<{ match: string; rows: Array<Record<string, unknown>> }> = [];
+
+vi.mock("@neondatabase/serverless", () => ({
+  neon:
+    () =>
+    async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const text = strings.join("?");
+      queries.push({ text, values });
+      return responses.find((r) => text.includes(r.match))?.rows ?? [];
+    },
+}));
+
+process.env.DATABASE_URL ||= "postgres://test";
+
+const { envKeyProvider, localFileKeyProvider, setKeyProvider, StaticKeyProvider } = await import(
+  "@/lib/security/kms"
+);
+const { decrypt, encrypt, encryptionKeyId, needsRewrap, rewrap } = await import(
+  "@/lib/security/encryption"
+);
+const { encryptAuthorization, rewrapAuthorization } = await import(
+  "@/lib/security/session-encryption"
+);
+const { rotateAuthorizationBatch, rotateAuthorizations } = await import(
+  "@/lib/security/key-rotation"
+);
+
+const OLD_KEY = "1".repeat(64);
+const NEW_KEY = "2".repeat(64);
+
+function writeKeyFile(activeKeyId: string, keys: Record<string, string>): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "keys-"));
+  const file = path.join(dir, "keys.json");
+  fs.writeFileSync(file, JSON.stringify({ activeKeyId, keys }));
+  return file;
+}
+
+beforeEach(() => {
+  queries.length = 0;
+  responses = [];
+  setKeyProvider(localFileKeyProvider(writeKeyFile("k1", { k1: OLD_KEY })));
+});
+
+afterEach(() => {
+  setKeyProvider(null);
+});
+
+describe("envelope encryption", () => {
+  test("ciphertext names the master key that wrapped its data key", () => {
+    const encrypted = encrypt("0xsecret");
+
+    expect(encrypted.startsWith("encrypted:v2:k1:")).toBe(true);
+    expect(encryptionKeyId(encrypted)).toBe("k1");
+    expect(decrypt(encrypted)).toBe("0xsecret");
+  });
+
+  test("values under a retired-but-listed key still decrypt", () => {
+    const encrypted = encrypt("0xsecret");
+    setKeyProvider(new StaticKeyProvider({ k1: OLD_KEY, k2: NEW_KEY }, "k2"));
+
+    expect(decrypt(encrypted)).toBe("0xsecret");
+    expect(encryptionKeyId(encrypt("0xother"))).toBe("k2");
+  });
+
+  test("an unknown key ID fails with a clear error", () => {
+    const encrypted = encrypt("0xsecret");
+    setKeyProvider(new StaticKeyProvider({ k2: NEW_KEY }, "k2"));
+
+    expect(() => decrypt(encrypted)).toThrow('encryption key "k1" is not configured');
+  });
+
+  test("rewrap re-wraps the data key and keeps the ciphertext", () => {
+    const encrypted = encrypt("0xsecret");
+    setKeyProvider(new StaticKeyProvider({ k1: OLD_KEY, k2: NEW_KEY }, "k2"));
+
+    expect(needsRewrap(encrypted)).toBe(true);
+    const rewrapped = rewrap(encrypted);
+
+    expect(encryptionKeyId(rewrapped)).toBe("k2");
+    expect(rewrapped.split(":").slice(4)).toEqual(encrypted.split(":").slice(4));
+    expect(needsRewrap(rewrapped)).toBe(false);
+    expect(rewrap(rewrapped)).toBe(rewrapped);
+
+    // The old key can go once everything is re-wrapped
+    setKeyProvider(new StaticKeyProvider({ k2: NEW_KEY }, "k2"));
+    expect(decrypt(rewrapped)).toBe("0xsecret");
+  });
+
+  test("a tampered wrapped key is detected", () => {
+    const parts = encrypt("0xsecret").split(":");
+    const wrapped = Buffer.from(parts[3], "base64");
+    wrapped[wrapped.length - 1] ^= 0xff;
+    parts[3] = wrapped.toString("base64");
+
+    expect(() => decrypt(parts.join(":"))).toThrow("Decryption failed");
+  });
+
+  test("legacy v1 values decrypt under the default key and rewrap to v2", () => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", Buffer.from(OLD_KEY, "hex"), iv);
+    const ciphertext = cipher.update("0xlegacy", "utf8", "base64") + cipher.final("base64");
+    const legacy = `encrypted:v1:${iv.toString("base64")}:${ciphertext}:${cipher
+      .getAuthTag()
+      .toString("base64")}`;
+
+    setKeyProvider(new StaticKeyProvider({ default: OLD_KEY, k2: NEW_KEY }, "k2"));
+
+    expect(encryptionKeyId(legacy)).toBe("default");
+    expect(decrypt(legacy)).toBe("0xlegacy");
+    expect(needsRewrap(legacy)).toBe(true);
+
+    const rewrapped = rewrap(legacy);
+    expect(rewrapped.startsWith("encrypted:v2:k2:")).toBe(true);
+    expect(decrypt(rewrapped)).toBe("0xlegacy");
+  });
+});
+
+describe("key providers", () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  test("environment keys default to the last one listed", () => {
+    process.env.DATABASE_ENCRYPTION_KEYS = `k1:${OLD_KEY}, k2:${NEW_KEY}`;
+    delete process.env.DATABASE_ENCRYPTION_KEY_ID;
+
+    const provider = envKeyProvider();
+    expect(provider.activeKeyId()).toBe("k2");
+    expect(provider.hasKey("k1")).toBe(true);
+
+    process.env.DATABASE_ENCRYPTION_KEY_ID = "k1";
+    expect(envKeyProvider().activeKeyId()).toBe("k1");
+  });
+
+  test("a single DATABASE_ENCRYPTION_KEY is the default key", () => {
+    delete process.env.DATABASE_ENCRYPTION_KEYS;
+    process.env.DATABASE_ENCRYPTION_KEY = OLD_KEY;
+
+    expect(envKeyProvider().activeKeyId()).toBe("default");
+  });
+
+  test("rejects malformed keys and unknown active IDs", () => {
+    expect(() => new StaticKeyProvider({ k1: "abc" }, "k1")).toThrow("64 hex characters");
+    expect(() => new StaticKeyProvider({ "k:1": OLD_KEY }, "k:1")).toThrow("Invalid");
+    expect(() => new StaticKeyProvider({ k1: OLD_KEY }, "k2")).toThrow("not configured");
+  });
+});
+
+describe("rotateAuthorizationBatch", () => {
+  function storedAuthorizations() {
+    const agent = encryptAuthorization({
+      type: "zerodev-7702-session" as const,
+      eoaAddress: "0x0000000000000000000000000000000000000001" as `0x${string}`,
+      sessionKeyAddress: "0x00000000000000000000000000000000000000aa" as `0x${string}`,
+      serializedAccount: "serialized",
+      approvedVaults: [],
+      expiry: 1_800_000_000,
+      timestamp: 1,
+    });
+    const transfer = encryptAuthorization({
+      type: "zerodev-transfer-session" as const,
+      smartAccountAddress: "0x0000000000000000000000000000000000000002" as `0x${string}`,
+      sessionKeyAddress: "0x00000000000000000000000000000000000000bb" as `0x${string}`,
+      sessionPrivateKey: "0xprivate",
+      expiry: 1_800_000_000,
+      createdAt: 1,
+    });
+    return { agent, transfer };
+  }
+
+  test("re-wraps both columns and only writes rows that still match", async () => {
+    const { agent, transfer } = storedAuthorizations();
+    setKeyProvider(new StaticKeyProvider({ k1: OLD_KEY, k2: NEW_KEY }, "k2"));
+    responses = [
+      {
+        match: "SELECT id",
+        rows: [
+          {
+            id: "00000000-0000-0000-0000-000000000001",
+            wallet_address: "0xa",
+            authorization_7702: agent,
+            transfer_authorization: transfer,
+          },
+        ],
+      },
+      { match: "UPDATE users", rows: [{ id: "00000000-0000-0000-0000-000000000001" }] },
+    ];
+
+    const result = await rotateAuthorizationBatch(null, { batchSize: 10 });
+
+    expect(result).toMatchObject({
+      cursor: "00000000-0000-0000-0000-000000000001",
+      scanned: 1,
+      rewrapped: 1,
+      conflicts: 0,
+      done: true,
+    });
+
+    const update = queries.find((q) => q.text.includes("UPDATE users"))!;
+    const [newAgent, newTransfer, , oldAgent, oldTransfer] = update.values as string[];
+    expect(JSON.parse(newAgent).serializedAccount.startsWith("encrypted:v2:k2:")).toBe(true);
+    expect(JSON.parse(newTransfer).sessionPrivateKey.startsWith("encrypted:v2:k2:")).toBe(true);
+    expect(JSON.parse(oldAgent)).toEqual(agent);
+    expect(JSON.parse(oldTransfer)).toEqual(transfer);
+    expect(update.text).toContain("IS NOT DISTINCT FROM");
+  });
+
+  test("counts concurrent changes and skips current rows", async () => {
+    const { agent } = storedAuthorizations();
+    setKeyProvider(new StaticKeyProvider({ k1: OLD_KEY, k2: NEW_KEY }, "k2"));
+    const current = encryptAuthorization({ ...agent, serializedAccount: "fresh" });
+    responses = [
+      {
+        match: "SELECT id",
+        rows: [
+          { id: "u1", wallet_address: "0xa", authorization_7702: agent },
+          { id: "u2", wallet_address: "0xb", authorization_7702: current },
+        ],
+      },
+    ];
+
+    const result = await rotateAuthorizationBatch("u0", { batchSize: 2 });
+
+    expect(result).toMatchObject({
+      cursor: "u2",
+      rewrapped: 0,
+      conflicts: 1,
+      conflictIds: ["u1"],
+      done: false,
+    });
+    expect(queries[0].values).toEqual(["u0", 2]);
+    expect(queries.filter((q) => q.text.includes("UPDATE users"))).toHaveLength(1);
+  });
+
+  test("re-scans conflicted rows and re-wraps any still under an old key", async () => {
+    const { agent } = storedAuthorizations();
+    setKeyProvider(new StaticKeyProvider({ k1: OLD_KEY, k2: NEW_KEY }, "k2"));
+    const current = encryptAuthorization({ ...agent, serializedAccount: "fresh" });
+    responses = [
+      {
+        match: "SELECT id",
+        rows: [
+          { id: "u1", wallet_address: "0xa", authorization_7702: current },
+          { id: "u2", wallet_address: "0xb", authorization_7702: agent },
+        ],
+      },
+      { match: "UPDATE users", rows: [{ id: "u2" }] },
+    ];
+
+    const result = await rotateAuthorizations(["u1", "u2"]);
+
+    expect(result).toMatchObject({ scanned: 2, rewrapped: 1, conflicts: 0, conflictIds: [] });
+    expect(queries[0].text).toContain("id = ANY(");
+    expect(queries[0].values).toEqual([["u1", "u2"]]);
+    expect(queries.filter((q) => q.text.includes("UPDATE users"))).toHaveLength(1);
+  });
+
+  test("dry run writes nothing", async () => {
+    const { agent } = storedAuthorizations();
+    setKeyProvider(new StaticKeyProvider({ k1: OLD_KEY, k2: NEW_KEY }, "k2"));
+    responses = [
+      {
+        match: "SELECT id",
+        rows: [{ id: "u1", wallet_address: "0xa", authorization_7702: agent }],
+      },
+    ];
+
+    const result = await rotateAuthorizationBatch(null, { dryRun: true });
+
+    expect(result.rewrapped).toBe(1);
+    expect(queries.some((q) => q.text.includes("UPDATE users"))).toBe(false);
+    expect(rewrapAuthorization(encryptAuthorization({ ...agent, serializedAccount: "x" }))).toBe(
+      null
+    );
+  });
+});
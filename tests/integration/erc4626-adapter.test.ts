@@ -0,0 +1,165 @@
+/**
+ * Generic ERC-4626 Adapter Tests
+ * On-chain APY from share price deltas, USDC-only vaults, positions and
+ * deposit/redeem call construction for config-driven vaults
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+import { decodeFunctionData, parseAbi } from "viem";
+
+const mockReadContract = vi.fn();
+const mockGetBlock = vi.fn();
+
+vi.mock("@/lib/shared/rpc-client", () => ({
+  baseClient: {
+    readContract: (args: any) => mockReadContract(args),
+    getBlock: (args?: any) => mockGetBlock(args),
+  },
+}));
+
+const { Erc4626Adapter } = await import("@/lib/protocols/erc4626-adapter");
+const { annualizeSharePrice } = await import("@/lib/yield-optimizer/protocols/erc4626");
+
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const USER = "0x1111111111111111111111111111111111111111" as `0x${string}`;
+const HEAD = 30_000_000n;
+const WEEK = 7 * 86400;
+
+const ABI = parseAbi([
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function deposit(uint256 assets, address receiver) returns (uint256 shares)",
+  "function redeem(uint256 shares, address receiver, address owner) returns (uint256 assets)",
+]);
+
+let vaultCounter = 0;
+function vaultAddress(): `0x${string}` {
+  // Fresh address per test so the module's APY cache never leaks between tests
+  vaultCounter++;
+  return `0x${vaultCounter.toString(16).padStart(40, "0")}` as `0x${string}`;
+}
+
+function adapterFor(vault: `0x${string}`, enabled = true) {
+  return new Erc4626Adapter("testfi", {
+    name: "TestFi",
+    vaults: [{ address: vault, name: "TestFi USDC", riskScore: 0.2, enabled }],
+  });
+}
+
+/**
+ * Vault with 6-decimal shares worth 1.0 USDC a week ago and `priceNow` today
+ */
+function mockVault(options: { asset?: string; priceNow?: bigint; shares?: bigint } = {}) {
+  mockGetBlock.mockImplementation(async (args?: { blockNumber?: bigint }) =>
+    args?.blockNumber
+      ? { number: args.blockNumber, timestamp: 1_000_000n }
+      : { number: HEAD, timestamp: 1_000_000n + BigInt(WEEK) }
+  );
+  mockReadContract.mockImplementation(async ({ functionName, args, blockNumber }: any) => {
+    switch (functionName) {
+      case "asset":
+        return options.asset ?? USDC;
+      case "decimals":
+        return 6;
+      case "totalAssets":
+        return 5_000_000_000_000n; // $5M
+      case "balanceOf":
+        return options.shares ?? 0n;
+      case "maxWithdraw":
+        return 400_000_000n;
+      case "convertToAssets": {
+        const isPast = blockNumber !== undefined && blockNumber !== HEAD;
+        const price = isPast ? 1_000_000n : (options.priceNow ?? 1_001_000n);
+        return (args[0] * price) / 1_000_000n;
+      }
+    }
+    throw new Error(`unexpected call ${functionName}`);
+  });
+}
+
+describe("Erc4626Adapter", () => {
+  beforeEach(() => {
+    mockReadContract.mockReset();
+    mockGetBlock.mockReset();
+  });
+
+  test("annualizes share price growth over the elapsed window", () => {
+    const apy = annualizeSharePrice(1_000_000n, 1_001_000n, WEEK);
+    expect(apy).toBeCloseTo(Math.pow(1.001, 365 / 7) - 1, 6);
+    expect(annualizeSharePrice(0n, 1_001_000n, WEEK)).toBe(0);
+  });
+
+  test("derives APY and TVL for configured vaults from on-chain reads", async () => {
+    const vault = vaultAddress();
+    mockVault();
+
+    const [opportunity] = await adapterFor(vault).getOpportunities();
+
+    expect(opportunity).toMatchObject({
+      id: `testfi-${vault}`,
+      protocol: "testfi",
+      address: vault,
+      tvl: 5_000_000_000_000n,
+      riskScore: 0.2,
+      metadata: { vaultAddress: vault, isVault: true, source: "erc4626" },
+    });
+    expect(opportunity.apy).toBeCloseTo(0.0535, 3);
+    // Historical price read ~7 days of 2s blocks back
+    const historical = mockReadContract.mock.calls.find(
+      ([args]) => args.functionName === "convertToAssets" && args.blockNumber !== HEAD
+    );
+    expect(historical?.[0].blockNumber).toBe(HEAD - 302_400n);
+  });
+
+  test("skips vaults whose underlying asset is not USDC", async () => {
+    mockVault({ asset: "0x4200000000000000000000000000000000000006" });
+
+    await expect(adapterFor(vaultAddress()).getOpportunities()).resolves.toEqual([]);
+  });
+
+  test("reports positions with convertToAssets value and maxWithdraw liquidity", async () => {
+    const vault = vaultAddress();
+    mockVault({ shares: 500_000_000n, priceNow: 1_010_000n });
+
+    const [position] = await adapterFor(vault).getPositions(USER);
+
+    expect(position).toMatchObject({
+      protocol: "testfi",
+      vaultAddress: vault,
+      shares: 500_000_000n,
+      assets: 505_000_000n,
+      withdrawable: 400_000_000n,
+    });
+  });
+
+  test("builds approve + deposit and redeem calls, only for configured vaults", async () => {
+    const vault = vaultAddress();
+    const adapter = adapterFor(vault);
+
+    const [approve, deposit] = await adapter.buildDepositCalls(1_000_000n, USER, vault);
+    expect(approve.to).toBe(USDC);
+    expect(decodeFunctionData({ abi: ABI, data: approve.data }).args).toEqual([vault, 1_000_000n]);
+    expect(decodeFunctionData({ abi: ABI, data: deposit.data })).toMatchObject({
+      functionName: "deposit",
+      args: [1_000_000n, USER],
+    });
+
+    const [redeem] = await adapter.buildWithdrawCalls(USER, vault, 42n);
+    expect(decodeFunctionData({ abi: ABI, data: redeem.data })).toMatchObject({
+      functionName: "redeem",
+      args: [42n, USER, USER],
+    });
+
+    await expect(adapter.buildDepositCalls(1n, USER, vaultAddress())).rejects.toThrow(
+      "is not an enabled TestFi vault"
+    );
+  });
+
+  test("disabled vaults can be exited but not entered", async () => {
+    const vault = vaultAddress();
+    const adapter = adapterFor(vault, false);
+
+    expect(adapter.enabled).toBe(false);
+    await expect(adapter.buildDepositCalls(1n, USER, vault)).rejects.toThrow();
+    await expect(adapter.buildWithdrawCalls(USER, vault, 1n)).resolves.toHaveLength(1);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Incentive Rewards Tests (Morpho URD, Moonwell MultiRewardDistributor)
+ * Pending claimable balances per protocol, claim call construction and
+ * aggregation through the protocol registry
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { decodeFunctionData, getAddress, parseAbi } from "viem";
+
+const mockReadContract = vi.fn();
+const mockFetchAsset = vi.fn();
+
+vi.mock("@/lib/shared/rpc-client", () => ({
+  baseClient: {
+    readContract: (args: any) => mockReadContract(args),
+  },
+}));
+
+vi.mock("@/lib/morpho/api-client", () => ({
+  morphoClient: {
+    fetchAsset: (address: string, chainId: number) => mockFetchAsset(address, chainId),
+  },
+}));
+
+const { getMorphoClaimableRewards, buildMorphoClaimTx } = await import(
+  "@/lib/yield-optimizer/protocols/morpho-rewards"
+);
+const { getMoonwellClaimableRewards, buildMoonwellClaimTx } = await import(
+  "@/lib/yield-optimizer/protocols/moonwell"
+);
+const { buildRewardsClaimCalls } = await import("@/lib/zerodev/rewards-executor");
+const { PROTOCOLS } = await import("@/lib/yield-optimizer/config");
+
+const USER = "0x1111111111111111111111111111111111111111" as `0x${string}`;
+const URD = PROTOCOLS.morpho.rewardsDistributor;
+const COMPTROLLER = PROTOCOLS.moonwell.comptroller;
+const MUSDC = "0xEdc817A28E8B93B03976FBd4a3dDBc9f7D176c22";
+const MORPHO_TOKEN = "0x00000000000000000000000000000000000000a1";
+const OTHER_TOKEN = "0x00000000000000000000000000000000000000a2";
+const WELL = "0x00000000000000000000000000000000000000b1";
+const MWELL = "0x00000000000000000000000000000000000000b2";
+const DISTRIBUTOR = "0x00000000000000000000000000000000000000c1";
+const ORACLE = "0x00000000000000000000000000000000000000c2";
+const PROOF = [`0x${"ab".repeat(32)}`, `0x${"cd".repeat(32)}`] as `0x${string}`[];
+
+const ABI = parseAbi([
+  "function claim(address account, address reward, uint256 claimable, bytes32[] proof) returns (uint256 amount)",
+  "function claimReward(address holder, address[] mTokens)",
+]);
+
+/**
+ * Morpho rewards API with one MORPHO distribution from the configured URD
+ * and one from an unrelated distributor
+ */
+function mockMorpho(options: { claimed?: bigint } = {}) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        data: [
+          {
+            asset: { address: MORPHO_TOKEN },
+            distributor: { address: URD },
+            claimable: "5000000000000000000",
+            proof: PROOF,
+          },
+          {
+            asset: { address: OTHER_TOKEN },
+            distributor: { address: "0x00000000000000000000000000000000000000ff" },
+            claimable: "1000000000000000000",
+            proof: PROOF,
+          },
+        ],
+      }),
+    }))
+  );
+  mockFetchAsset.mockResolvedValue({
+    address: MORPHO_TOKEN,
+    symbol: "MORPHO",
+    decimals: 18,
+    priceUsd: 2,
+  });
+  return options.claimed ?? 3_000_000_000_000_000_000n;
+}
+
+/**
+ * Moonwell with 10 WELL outstanding on mUSDC, priced at $0.05 through mWELL
+ */
+function mockMoonwell(options: { outstanding?: bigint } = {}) {
+  mockReadContract.mockImplementation(async ({ address, functionName }: any) => {
+    switch (functionName) {
+      case "rewardDistributor":
+        return DISTRIBUTOR;
+      case "oracle":
+        return ORACLE;
+      case "getOutstandingRewardsForUser":
+        return [
+          {
+            emissionToken: WELL,
+            totalAmount: options.outstanding ?? 10_000_000_000_000_000_000n,
+            supplySide: options.outstanding ?? 10_000_000_000_000_000_000n,
+            borrowSide: 0n,
+          },
+        ];
+      case "symbol":
+        return "WELL";
+      case "decimals":
+        return 18;
+      case "getAllMarkets":
+        return [MUSDC, MWELL];
+      case "underlying":
+        return address === MWELL ? WELL : "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+      case "getUnderlyingPrice":
+        return 5n * 10n ** 16n; // $0.05 for an 18-decimal token
+    }
+    throw new Error(`unexpected call ${functionName}`);
+  });
+}
+
+describe("Incentive Rewards", () => {
+  beforeEach(() => {
+    mockReadContract.mockReset();
+    mockFetchAsset.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("Morpho URD", () => {
+    test("reports claimable minus already claimed for the configured distributor", async () => {
+      const claimed = mockMorpho();
+      mockReadContract.mockResolvedValue(claimed);
+
+      const rewards = await getMorphoClaimableRewards(USER);
+
+      expect(rewards).toHaveLength(1);
+      expect(rewards[0]).toMatchObject({
+        protocol: "morpho",
+        token: MORPHO_TOKEN,
+        symbol: "MORPHO",
+        amount: 2_000_000_000_000_000_000n,
+        valueUsd: 4,
+        source: URD,
+        cumulativeAmount: 5_000_000_000_000_000_000n,
+      });
+    });
+
+    test("skips fully claimed distributions", async () => {
+      const claimed = mockMorpho({ claimed: 5_000_000_000_000_000_000n });
+      mockReadContract.mockResolvedValue(claimed);
+
+      expect(await getMorphoClaimableRewards(USER)).toEqual([]);
+    });
+
+    test("claims the cumulative amount with the proof, paid to the user", async () => {
+      mockReadContract.mockResolvedValue(mockMorpho());
+      const [reward] = await getMorphoClaimableRewards(USER);
+
+      const tx = buildMorphoClaimTx(USER, reward);
+      const decoded = decodeFunctionData({ abi: ABI, data: tx.data });
+
+      expect(tx.to).toBe(URD);
+      expect(decoded.functionName).toBe("claim");
+      expect(decoded.args).toEqual([
+        USER,
+        getAddress(MORPHO_TOKEN),
+        5_000_000_000_000_000_000n,
+        PROOF,
+      ]);
+    });
+
+    test("refuses to build a claim without a proof", () => {
+      expect(() =>
+        buildMorphoClaimTx(USER, {
+          protocol: "morpho",
+          token: MORPHO_TOKEN,
+          symbol: "MORPHO",
+          decimals: 18,
+          amount: 1n,
+          valueUsd: 0,
+          source: URD,
+        })
+      ).toThrow(/merkle proof/);
+    });
+
+    test("returns nothing when the rewards API fails", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async () => ({ ok: false, status: 503, statusText: "Unavailable" }))
+      );
+
+      expect(await getMorphoClaimableRewards(USER)).toEqual([]);
+    });
+  });
+
+  describe("Moonwell", () => {
+    test("prices outstanding emissions through the reward token's market", async () => {
+      mockMoonwell();
+
+      const rewards = await getMoonwellClaimableRewards(USER);
+
+      expect(rewards).toHaveLength(1);
+      expect(rewards[0]).toMatchObject({
+        protocol: "moonwell",
+        token: WELL,
+        symbol: "WELL",
+        amount: 10_000_000_000_000_000_000n,
+        source: COMPTROLLER,
+        vaultAddress: MUSDC,
+      });
+      expect(rewards[0].valueUsd).toBeCloseTo(0.5, 9);
+    });
+
+    test("ignores emission tokens with nothing outstanding", async () => {
+      mockMoonwell({ outstanding: 0n });
+
+      expect(await getMoonwellClaimableRewards(USER)).toEqual([]);
+    });
+
+    test("claims mUSDC rewards for the holder through the Comptroller", () => {
+      const tx = buildMoonwellClaimTx(USER);
+      const decoded = decodeFunctionData({ abi: ABI, data: tx.data });
+
+      expect(tx.to).toBe(COMPTROLLER);
+      expect(decoded.functionName).toBe("claimReward");
+      expect(decoded.args).toEqual([USER, [MUSDC]]);
+    });
+  });
+
+  describe("claim batching", () => {
+    test("builds one call per Morpho token and a single Moonwell claim", async () => {
+      mockMorpho();
+      mockMoonwell();
+      const moonwellImpl = mockReadContract.getMockImplementation()!;
+      mockReadContract.mockImplementation(async (args: any) =>
+        args.functionName === "claimed" ? 3_000_000_000_000_000_000n : moonwellImpl(args)
+      );
+
+      const { rewards, calls } = await buildRewardsClaimCalls(USER);
+
+      expect(rewards.map((r) => r.symbol).sort()).toEqual(["MORPHO", "WELL"]);
+      expect(calls.map((c) => c.to)).toEqual(expect.arrayContaining([URD, COMPTROLLER]));
+      expect(calls).toHaveLength(2);
+    });
+
+    test("limits the batch to the requested protocols", async () => {
+      mockMorpho();
+      mockMoonwell();
+      const moonwellImpl = mockReadContract.getMockImplementation()!;
+      mockReadContract.mockImplementation(async (args: any) =>
+        args.functionName === "claimed" ? 3_000_000_000_000_000_000n : moonwellImpl(args)
+      );
+
+      const { rewards, calls } = await buildRewardsClaimCalls(USER, ["moonwell"]);
+
+      expect(rewards.every((r) => r.protocol === "moonwell")).toBe(true);
+      expect(calls).toHaveLength(1);
+      expect(calls[0].to).toBe(COMPTROLLER);
+    });
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Liquidity-Aware Exit Tests
+ * Verifies exits are capped to what source vaults can pay out, the remainder
+ * is queued as a pending withdrawal, and retries record progress until done
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+
+const mockReadContract = vi.fn();
+const queries: Array<{ text: string; values: unknown[] }> = [];
+
+vi.mock("viem", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("viem")>();
+  return {
+    ...actual,
+    createPublicClient: () => ({ readContract: mockReadContract }),
+  };
+});
+
+vi.mock("@neondatabase/serverless", () => ({
+  neon:
+    () =>
+    async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const text = strings.join("?");
+      queries.push({ text, values });
+      if (text.includes("INSERT INTO pending_withdrawals")) return [{ id: "pw-1" }];
+      return [];
+    },
+}));
+
+vi.mock("@/lib/zerodev/kernel-client", () => ({
+  createDeserializedKernelClient: vi.fn(),
+  createSessionKernelClient: vi.fn(),
+}));
+
+process.env.DATABASE_URL ||= "postgres://test";
+
+const { checkExitLiquidity } = await import("@/lib/agent/rebalance-executor");
+const {
+  applyDeferredRedeems,
+  queuePendingWithdrawal,
+  recordWithdrawalFailure,
+  recordWithdrawalProgress,
+  withdrawalProgress,
+} = await import("@/lib/agent/pending-withdrawals");
+const { executeVaultRedeem } = await import("@/lib/zerodev/vault-executor");
+const { PROTOCOLS } = await import("@/lib/yield-optimizer/config");
+
+type PendingWithdrawal = import("@/lib/agent/pending-withdrawals").PendingWithdrawal;
+
+const USER = "0x1111111111111111111111111111111111111111" as `0x${string}`;
+const VAULT_A = "0x000000000000000000000000000000000000000a" as `0x${string}`;
+const VAULT_B = "0x000000000000000000000000000000000000000b" as `0x${string}`;
+const MOONWELL = PROTOCOLS.moonwell.mUsdc;
+
+const USDC = (n: number) => BigInt(n) * 1_000_000n;
+
+function withdrawal(overrides: Partial<PendingWithdrawal> = {}): PendingWithdrawal {
+  return {
+    id: "pw-1",
+    userId: "user-1",
+    walletAddress: USER.toLowerCase(),
+    source: "redeem",
+    vaultAddress: VAULT_A,
+    protocol: "morpho",
+    targetVaultAddress: null,
+    targetProtocol: null,
+    totalShares: USDC(1000),
+    remainingShares: USDC(600),
+    remainingAssets: USDC(600),
+    redeemedAssets: USDC(400),
+    status: "pending",
+    attempts: 0,
+    maxAttempts: 3,
+    lastError: null,
+    lastTxHash: null,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  mockReadContract.mockReset();
+  queries.length = 0;
+  delete process.env.AGENT_SIMULATION_MODE;
+});
+
+describe("checkExitLiquidity", () => {
+  test("leaves a fully liquid single-vault exit untouched", async () => {
+    mockReadContract.mockResolvedValue(USDC(5000));
+    const params = { userAddress: USER, fromVault: VAULT_A, toVault: VAULT_B, shares: USDC(1000) };
+
+    const result = await checkExitLiquidity(params);
+
+    expect(result.params).toEqual(params);
+    expect(result.deferred).toEqual([]);
+  });
+
+  test("caps a single-vault exit to maxRedeem and defers the rest", async () => {
+    mockReadContract.mockImplementation(async ({ functionName, args }) => {
+      if (functionName === "maxRedeem") return USDC(400);
+      if (functionName === "previewRedeem") return args[0] + 1n;
+      throw new Error(`unexpected ${functionName}`);
+    });
+
+    const result = await checkExitLiquidity({
+      userAddress: USER,
+      fromVault: VAULT_A,
+      toVault: VAULT_B,
+      shares: USDC(1000),
+    });
+
+    expect(result.params.shares).toBe(USDC(400));
+    expect(result.deferred).toEqual([
+      { vault: VAULT_A, protocol: "morpho", shares: USDC(600), assets: USDC(600) + 1n },
+    ]);
+  });
+
+  test("throws when the source vault has no withdrawable liquidity", async () => {
+    mockReadContract.mockResolvedValue(0n);
+
+    await expect(
+      checkExitLiquidity({
+        userAddress: USER,
+        fromVault: VAULT_A,
+        toVault: VAULT_B,
+        shares: USDC(1000),
+      })
+    ).rejects.toThrow("No withdrawable liquidity");
+  });
+
+  test("caps ERC4626 legs by maxRedeem and lending legs by market cash", async () => {
+    mockReadContract.mockImplementation(async ({ functionName, args }) => {
+      if (functionName === "maxRedeem") return USDC(250);
+      if (functionName === "balanceOf") {
+        expect(args[0]).toBe(MOONWELL);
+        return USDC(100);
+      }
+      throw new Error(`unexpected ${functionName}`);
+    });
+
+    const result = await checkExitLiquidity({
+      userAddress: USER,
+      redeems: [
+        { vault: VAULT_A, protocol: "morpho", shares: USDC(500), assets: USDC(500) },
+        // Lending shares are worth 2 USDC each here
+        { vault: MOONWELL, protocol: "moonwell", shares: USDC(200), assets: USDC(400) },
+      ],
+      deposits: [{ vault: VAULT_B, protocol: "morpho", assets: USDC(900) }],
+    });
+
+    expect(result.params.redeems).toEqual([
+      { vault: VAULT_A, protocol: "morpho", shares: USDC(250), assets: USDC(250) },
+      { vault: MOONWELL, protocol: "moonwell", shares: USDC(50), assets: USDC(100) },
+    ]);
+    expect(result.deferred).toEqual([
+      { vault: VAULT_A, protocol: "morpho", shares: USDC(250), assets: USDC(250) },
+      { vault: MOONWELL, protocol: "moonwell", shares: USDC(150), assets: USDC(300) },
+    ]);
+  });
+
+  test("throws when no portfolio leg can be redeemed", async () => {
+    mockReadContract.mockResolvedValue(0n);
+
+    await expect(
+      checkExitLiquidity({
+        userAddress: USER,
+        redeems: [{ vault: VAULT_A, protocol: "morpho", shares: USDC(500), assets: USDC(500) }],
+        deposits: [{ vault: VAULT_B, protocol: "morpho", assets: USDC(500) }],
+      })
+    ).rejects.toThrow("No withdrawable liquidity in any source vault");
+  });
+});
+
+describe("applyDeferredRedeems", () => {
+  test("shrinks redeem legs and scales deposits to what executed", () => {
+    const decision = {
+      legs: {
+        redeems: [
+          { vault: VAULT_A, protocol: "morpho", shares: USDC(500), assets: USDC(500) },
+          { vault: MOONWELL, protocol: "moonwell", shares: USDC(500), assets: USDC(500) },
+        ],
+        deposits: [{ vault: VAULT_B, protocol: "morpho", assets: USDC(1000) }],
+      },
+    };
+
+    const executed = applyDeferredRedeems(decision, [
+      { vault: MOONWELL, protocol: "moonwell", shares: USDC(500), assets: USDC(500) },
+    ]);
+
+    expect(executed.legs.redeems).toEqual([decision.legs.redeems[0]]);
+    expect(executed.legs.deposits[0].assets).toBe(USDC(500));
+  });
+
+  test("shrinks a single-vault decision's current position", () => {
+    const decision = {
+      currentVault: { address: VAULT_A, shares: USDC(1000), assets: USDC(1100) },
+    };
+
+    const executed = applyDeferredRedeems(decision, [
+      { vault: VAULT_A, protocol: "morpho", shares: USDC(600), assets: USDC(660) },
+    ]);
+
+    expect(executed.currentVault.shares).toBe(USDC(400));
+    expect(executed.currentVault.assets).toBe(USDC(440));
+  });
+});
+
+describe("pending withdrawal bookkeeping", () => {
+  test("queueing supersedes older pending rows for the same vault", async () => {
+    const id = await queuePendingWithdrawal({
+      userId: "user-1",
+      walletAddress: USER,
+      source: "redeem",
+      remainder: { vault: VAULT_A, protocol: "morpho", shares: USDC(600), assets: USDC(600) },
+      totalShares: USDC(1000),
+      redeemedAssets: USDC(400),
+    });
+
+    expect(id).toBe("pw-1");
+    expect(queries[0].text).toContain("SET status = 'cancelled'");
+    expect(queries[0].values).toEqual([USER.toLowerCase(), VAULT_A.toLowerCase()]);
+    expect(queries[1].text).toContain("INSERT INTO pending_withdrawals");
+    expect(queries[1].values).toContain(USDC(1000).toString());
+    expect(queries[1].values).toContain(USDC(600).toString());
+  });
+
+  test("partial progress keeps the row pending", async () => {
+    const status = await recordWithdrawalProgress(withdrawal(), {
+      redeemedShares: USDC(200),
+      redeemedAssets: USDC(200),
+      txHash: "0xabc",
+    });
+
+    expect(status).toBe("pending");
+    expect(queries[0].values.slice(0, 3)).toEqual([
+      USDC(400).toString(),
+      USDC(400).toString(),
+      USDC(200).toString(),
+    ]);
+  });
+
+  test("redeeming the remainder completes the row", async () => {
+    const status = await recordWithdrawalProgress(withdrawal(), {
+      redeemedShares: USDC(600),
+      redeemedAssets: USDC(601),
+    });
+
+    expect(status).toBe("completed");
+    expect(queries[0].values.slice(0, 2)).toEqual(["0", "0"]);
+  });
+
+  test("a row fails once its attempts are used up", async () => {
+    expect(await recordWithdrawalFailure(withdrawal({ attempts: 0 }), "boom")).toBe("pending");
+    expect(await recordWithdrawalFailure(withdrawal({ attempts: 2 }), "boom")).toBe("failed");
+  });
+
+  test("progress is the share of the original exit already redeemed", () => {
+    expect(withdrawalProgress(withdrawal())).toBe(0.4);
+    expect(withdrawalProgress(withdrawal({ remainingShares: 0n }))).toBe(1);
+  });
+});
+
+describe("executeVaultRedeem", () => {
+  test("defers the whole redeem without sending when maxRedeem is zero", async () => {
+    mockReadContract.mockResolvedValue(0n);
+
+    const result = await executeVaultRedeem({
+      smartAccountAddress: USER,
+      vaultAddress: VAULT_A,
+      shares: USDC(1000),
+      receiver: USER,
+      serializedAccount: "serialized",
+    });
+
+    expect(result).toEqual({ success: true, redeemedShares: 0n, remainingShares: USDC(1000) });
+    const { createDeserializedKernelClient } = await import("@/lib/zerodev/kernel-client");
+    expect(createDeserializedKernelClient).not.toHaveBeenCalled();
+  });
+});
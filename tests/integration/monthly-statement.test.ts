@@ -0,0 +1,181 @@
+/**
+ * Monthly Statement Tests
+ * Deterministic block boundaries, per-vault yield, partial months, rebalance
+ * reasons and PDF rendering
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+
+let ledgerRows: any[] = [];
+let actionRows: any[] = [];
+const mockReadContract = vi.fn();
+
+vi.mock("@neondatabase/serverless", () => ({
+  neon:
+    () =>
+    async (strings: TemplateStringsArray, ..._values: unknown[]) => {
+      const text = strings.join("?");
+      if (text.includes("FROM agent_actions a")) return actionRows;
+      if (text.includes("FROM position_ledger l")) return ledgerRows;
+      return [];
+    },
+}));
+
+vi.mock("@/lib/shared/rpc-client", () => ({
+  baseClient: { readContract: (args: any) => mockReadContract(args) },
+}));
+
+vi.mock("@/lib/protocols/adapter", () => ({
+  protocolRegistry: { getAllPositions: vi.fn().mockResolvedValue([]) },
+}));
+
+process.env.DATABASE_URL = process.env.DATABASE_URL || "postgres://test";
+
+const { baseBlockAt, buildMonthlyStatement } = await import("@/lib/agent/statement");
+const { renderStatementPdf } = await import("@/lib/agent/statement-pdf");
+
+const USER = "0x1111111111111111111111111111111111111111";
+const VAULT = "0x000000000000000000000000000000000000000a";
+
+const MARCH_OPEN = baseBlockAt(new Date("2026-03-01T00:00:00Z"));
+const MARCH_CLOSE = baseBlockAt(new Date("2026-04-01T00:00:00Z"));
+
+function ledger(entryType: string, shares: bigint, assets: bigint, createdAt: string) {
+  return {
+    id: createdAt,
+    vault_address: VAULT,
+    protocol: "morpho",
+    entry_type: entryType,
+    shares: shares.toString(),
+    assets: assets.toString(),
+    tx_hash: null,
+    agent_action_id: null,
+    created_at: createdAt,
+  };
+}
+
+describe("Monthly Statement", () => {
+  beforeEach(() => {
+    mockReadContract.mockReset();
+    // Share price 1.01 at the March open, 1.02 at the close
+    mockReadContract.mockImplementation(async ({ args, blockNumber }: any) => {
+      const price = blockNumber === MARCH_OPEN ? 101n : 102n;
+      return (args[0] * price) / 100n;
+    });
+
+    ledgerRows = [
+      ledger("deposit", 1_000_000_000n, 1_000_000_000n, "2026-01-15T00:00:00Z"),
+      ledger("deposit", 500_000_000n, 505_000_000n, "2026-03-10T00:00:00Z"),
+    ];
+    actionRows = [
+      {
+        action_type: "rebalance",
+        from_protocol: "Moonwell",
+        to_protocol: "Morpho",
+        amount_usdc: "1000",
+        tx_hash: "0xabc",
+        metadata: { apyImprovement: 0.012, reason: "Morpho APY 1.2% above current position" },
+        created_at: "2026-03-20T00:00:00Z",
+      },
+      {
+        action_type: "transfer",
+        amount_usdc: "25",
+        tx_hash: "0xdef",
+        metadata: { recipient: "0x2222222222222222222222222222222222222222" },
+        created_at: "2026-03-25T00:00:00Z",
+      },
+    ];
+  });
+
+  test("derives boundary blocks from timestamps", () => {
+    expect(MARCH_CLOSE - MARCH_OPEN).toBe(BigInt((31 * 86400) / 2));
+    expect(baseBlockAt(new Date("2026-03-01T00:00:00Z"))).toBe(MARCH_OPEN);
+  });
+
+  test("reports opening, closing and yield per vault at fixed blocks", async () => {
+    const statement = await buildMonthlyStatement(
+      USER,
+      "2026-03",
+      new Date("2026-10-01T00:00:00Z")
+    );
+
+    expect(statement.partial).toBe(false);
+    expect(statement.openingBlock).toBe(MARCH_OPEN.toString());
+    expect(statement.closingBlock).toBe(MARCH_CLOSE.toString());
+    expect(statement.openingBalance).toBe("1010");
+    expect(statement.closingBalance).toBe("1530");
+    expect(statement.deposits).toBe("505");
+    expect(statement.vaults).toEqual([
+      expect.objectContaining({
+        vaultAddress: VAULT,
+        openingValue: "1010",
+        closingValue: "1530",
+        inflows: "505",
+        outflows: "0",
+        yieldEarned: "15",
+      }),
+    ]);
+    expect(statement.yieldEarned).toBe("15");
+    expect(statement.transfersOut).toBe("25");
+  });
+
+  test("includes rebalances with the agent's stated reason", async () => {
+    const statement = await buildMonthlyStatement(
+      USER,
+      "2026-03",
+      new Date("2026-10-01T00:00:00Z")
+    );
+
+    expect(statement.rebalances).toEqual([
+      expect.objectContaining({
+        fromProtocol: "Moonwell",
+        toProtocol: "Morpho",
+        apyImprovement: 0.012,
+        reason: "Morpho APY 1.2% above current position",
+      }),
+    ]);
+  });
+
+  test("closes the current month at the latest block", async () => {
+    const statement = await buildMonthlyStatement(
+      USER,
+      "2026-03",
+      new Date("2026-03-15T00:00:00Z")
+    );
+
+    expect(statement.partial).toBe(true);
+    expect(statement.closingBlock).toBeNull();
+    expect(mockReadContract).toHaveBeenCalledWith(
+      expect.objectContaining({ functionName: "convertToAssets", blockNumber: undefined })
+    );
+  });
+
+  test("rejects malformed and future months", async () => {
+    const now = new Date("2026-03-15T00:00:00Z");
+    await expect(buildMonthlyStatement(USER, "2026-13", now)).rejects.toThrow("Invalid month");
+    await expect(buildMonthlyStatement(USER, "2026-04", now)).rejects.toThrow("not started");
+  });
+
+  test("renders a deterministic PDF containing the statement", async () => {
+    const statement = await buildMonthlyStatement(
+      USER,
+      "2026-03",
+      new Date("2026-10-01T00:00:00Z")
+    );
+
+    const pdf = renderStatementPdf(statement);
+    const text = new TextDecoder().decode(pdf);
+
+    expect(text.startsWith("%PDF-1.4")).toBe(true);
+    expect(text.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(text).toContain("(Reason: Morpho APY 1.2% above current position)");
+    expect(text).toContain("(Moonwell -> Morpho \\(+1.20% APY\\))");
+    expect(text).toContain("($1,530.00)");
+    expect(renderStatementPdf(statement)).toEqual(pdf);
+
+    // xref offsets point at their objects
+    const xref = text.slice(text.lastIndexOf("\nxref\n") + 1);
+    const firstOffset = parseInt(xref.split("\n")[3], 10);
+    expect(text.slice(firstOffset).startsWith("1 0 obj")).toBe(true);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * On-chain APY Tests (Aave V3, Moonwell)
+ * Base APY from liquidityRate / supplyRatePerTimestamp, reward emissions
+ * priced by each protocol's oracle, and the DefiLlama cross-check
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+
+const mockReadContract = vi.fn();
+const mockAavePool = vi.fn();
+const mockMoonwellPool = vi.fn();
+
+vi.mock("@/lib/shared/rpc-client", () => ({
+  baseClient: {
+    readContract: (args: any) => mockReadContract(args),
+  },
+}));
+
+vi.mock("@/lib/yield-optimizer/defi-llama-api", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/yield-optimizer/defi-llama-api")>();
+  return {
+    ...actual,
+    getAaveUsdcPool: () => mockAavePool(),
+    getMoonwellUsdcPool: () => mockMoonwellPool(),
+  };
+});
+
+const { getAaveOpportunities, aaveRateToApy } = await import(
+  "@/lib/yield-optimizer/protocols/aave"
+);
+const { getMoonwellOpportunities } = await import("@/lib/yield-optimizer/protocols/moonwell");
+const { crossCheckApy } = await import("@/lib/yield-optimizer/defi-llama-api");
+
+const SECONDS_PER_YEAR = 365 * 24 * 3600;
+const FUTURE = BigInt(Math.floor(Date.now() / 1000) + 86400);
+const PAST = BigInt(Math.floor(Date.now() / 1000) - 86400);
+
+const MUSDC = "0xEdc817A28E8B93B03976FBd4a3dDBc9f7D176c22";
+const CONTROLLER = "0x00000000000000000000000000000000000000c1";
+const ORACLE = "0x00000000000000000000000000000000000000c2";
+const PROVIDER = "0x00000000000000000000000000000000000000c3";
+const DISTRIBUTOR = "0x00000000000000000000000000000000000000c4";
+const REWARD = "0x00000000000000000000000000000000000000a1";
+const UNPRICED = "0x00000000000000000000000000000000000000a2";
+const MREWARD = "0x00000000000000000000000000000000000000b1";
+
+const SUPPLIED = 100_000_000_000_000n; // $100M USDC
+
+interface AaveOptions {
+  liquidityRate?: bigint;
+  rewards?: string[];
+  rewardsError?: boolean;
+}
+
+/**
+ * Aave market at 4% APR, optionally with a $1 reward token emitting
+ * 1e18/sec (~$31.5M/yr, i.e. 31.5% APR on $100M)
+ */
+function mockAave(options: AaveOptions = {}) {
+  mockReadContract.mockImplementation(async ({ functionName, args }: any) => {
+    switch (functionName) {
+      case "getReserveData": {
+        const data = new Array(15).fill(0n);
+        data[2] = options.liquidityRate ?? 40_000_000_000_000_000_000_000_000n; // 4% in ray
+        return data;
+      }
+      case "totalSupply":
+        return SUPPLIED;
+      case "balanceOf":
+        return 20_000_000_000_000n;
+      case "getIncentivesController":
+        if (options.rewardsError) throw new Error("controller reverted");
+        return CONTROLLER;
+      case "getRewardsByAsset":
+        return options.rewards ?? [];
+      case "ADDRESSES_PROVIDER":
+        return PROVIDER;
+      case "getPriceOracle":
+        return ORACLE;
+      case "getAssetPrice":
+        if (args[0] === UNPRICED) throw new Error("no source");
+        return 100_000_000n; // $1.00, 8 decimals
+      case "getRewardsData":
+        return [0n, 1_000_000_000_000_000_000n, 0n, args[1] === REWARD ? FUTURE : PAST];
+      case "decimals":
+        return 18;
+    }
+    throw new Error(`unexpected call ${functionName}`);
+  });
+}
+
+/**
+ * Moonwell market with 100M USDC supplied and a $0.50 emission token
+ */
+function mockMoonwell(options: { emissions?: bigint; endTime?: bigint } = {}) {
+  mockReadContract.mockImplementation(async ({ address, functionName, args }: any) => {
+    switch (functionName) {
+      case "supplyRatePerTimestamp":
+        return 1_268_391_679n; // ~4% APR per second, 1e18 scaled
+      case "totalSupply":
+        return 500_000_000_000_000_000n; // mToken supply
+      case "exchangeRateStored":
+        return 200_000_000_000_000n; // 0.0002 USDC per mToken, 1e18 scaled
+      case "getCash":
+        return 15_000_000_000_000n;
+      case "rewardDistributor":
+        return DISTRIBUTOR;
+      case "oracle":
+        return ORACLE;
+      case "getAllMarketConfigs":
+        return [
+          {
+            emissionToken: REWARD,
+            endTime: options.endTime ?? FUTURE,
+            supplyEmissionsPerSec: options.emissions ?? 1_000_000_000_000_000_000n,
+          },
+          { emissionToken: UNPRICED, endTime: FUTURE, supplyEmissionsPerSec: 1n },
+        ];
+      case "getAllMarkets":
+        return [MUSDC, MREWARD];
+      case "underlying":
+        return address === MREWARD ? REWARD : "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+      case "getUnderlyingPrice":
+        // 1e(36 - decimals): USDC (6) at $1, 18-decimal reward at $0.50
+        return args[0] === MUSDC ? 10n ** 30n : 5n * 10n ** 17n;
+    }
+    throw new Error(`unexpected call ${functionName}`);
+  });
+}
+
+describe("On-chain APY", () => {
+  beforeEach(() => {
+    mockReadContract.mockReset();
+    mockAavePool.mockReset().mockResolvedValue(null);
+    mockMoonwellPool.mockReset().mockResolvedValue(null);
+  });
+
+  describe("Aave V3", () => {
+    test("compounds the ray liquidityRate per second", () => {
+      const apy = aaveRateToApy(40_000_000_000_000_000_000_000_000n);
+      expect(apy).toBeCloseTo(Math.exp(0.04) - 1, 6);
+      expect(aaveRateToApy(0n)).toBe(0);
+    });
+
+    test("derives APY and TVL from the pool without DefiLlama", async () => {
+      mockAave();
+
+      const [opportunity] = await getAaveOpportunities();
+
+      expect(opportunity).toMatchObject({
+        id: "aave-usdc-base",
+        tvl: SUPPLIED,
+        liquidityDepth: 20_000_000_000_000n,
+        metadata: { source: "rpc", apyReward: 0, apyCrossCheck: null },
+      });
+      expect(opportunity.apy).toBeCloseTo(Math.exp(0.04) - 1, 6);
+    });
+
+    test("adds oracle-priced incentives, skipping ended and unpriced rewards", async () => {
+      mockAave({ rewards: [REWARD, UNPRICED, "0x00000000000000000000000000000000000000a3"] });
+
+      const [opportunity] = await getAaveOpportunities();
+
+      const expectedReward = SECONDS_PER_YEAR / 100_000_000;
+      expect(opportunity.metadata?.apyReward).toBeCloseTo(expectedReward, 6);
+      expect(opportunity.apy).toBeCloseTo(Math.exp(0.04) - 1 + expectedReward, 6);
+    });
+
+    test("keeps the base APY when reward reads fail", async () => {
+      mockAave({ rewardsError: true });
+
+      const [opportunity] = await getAaveOpportunities();
+
+      expect(opportunity.metadata?.apyReward).toBe(0);
+      expect(opportunity.apy).toBeCloseTo(Math.exp(0.04) - 1, 6);
+    });
+
+    test("flags a large disagreement with DefiLlama", async () => {
+      mockAave();
+      mockAavePool.mockResolvedValue({ apy: 0.09, tvlUsd: 1 });
+
+      const [opportunity] = await getAaveOpportunities();
+
+      // DefiLlama never overrides the on-chain APY
+      expect(opportunity.apy).toBeCloseTo(Math.exp(0.04) - 1, 6);
+      expect(opportunity.metadata?.apyCrossCheck).toMatchObject({
+        defillamaApy: 0.09,
+        flagged: true,
+      });
+    });
+  });
+
+  describe("Moonwell", () => {
+    test("derives base APY from supplyRatePerTimestamp and TVL from the exchange rate", async () => {
+      mockMoonwell({ emissions: 0n });
+
+      const [opportunity] = await getMoonwellOpportunities();
+
+      const ratePerSecond = 1_268_391_679 / 1e18;
+      expect(opportunity).toMatchObject({
+        tvl: SUPPLIED,
+        liquidityDepth: 15_000_000_000_000n,
+        metadata: { source: "rpc", apyReward: 0 },
+      });
+      expect(opportunity.apy).toBeCloseTo(Math.pow(1 + ratePerSecond, SECONDS_PER_YEAR) - 1, 6);
+    });
+
+    test("adds supply emissions priced through the reward token's market", async () => {
+      mockMoonwell();
+
+      const [opportunity] = await getMoonwellOpportunities();
+
+      // 1 token/sec at $0.50 over $100M supplied; the unlisted token is skipped
+      const expectedReward = (SECONDS_PER_YEAR * 0.5) / 100_000_000;
+      expect(opportunity.metadata?.apyReward).toBeCloseTo(expectedReward, 6);
+      expect(opportunity.apy).toBeCloseTo(
+        (opportunity.metadata?.apyBase as number) + expectedReward,
+        9
+      );
+    });
+
+    test("ignores emissions that have ended", async () => {
+      mockMoonwell({ endTime: PAST });
+
+      const [opportunity] = await getMoonwellOpportunities();
+
+      expect(opportunity.metadata?.apyReward).toBe(0);
+    });
+  });
+
+  test("cross-check tolerates small gaps and skips missing DefiLlama data", () => {
+    expect(crossCheckApy("test", 0.05, { apy: 0.055 })).toMatchObject({ flagged: false });
+    expect(crossCheckApy("test", 0.05, { apy: 0.07 })).toMatchObject({ flagged: true });
+    expect(crossCheckApy("test", 0.05, null)).toBeNull();
+  });
+});
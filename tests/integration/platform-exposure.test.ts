@@ -0,0 +1,317 @@
+/**
+ * Platform Exposure Limit Tests
+ * Verifies aggregate exposure is measured against the per-vault TVL share and
+ * per-curator caps, and that YieldDecisionEngine keeps targets within them
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+import type { MorphoClient } from "@/lib/morpho/api-client";
+
+const mockGetAllPositions = vi.fn();
+let userRows: Array<Record<string, unknown>> = [];
+let actionRows: Array<Record<string, unknown>> = [];
+
+vi.mock("@/lib/protocols/adapter", () => ({
+  protocolRegistry: {
+    getAllPositions: (address: string) => mockGetAllPositions(address),
+  },
+}));
+
+vi.mock("@neondatabase/serverless", () => ({
+  neon: () => async (strings: TemplateStringsArray) => {
+    const text = strings.join("?");
+    if (text.includes("FROM users")) return userRows;
+    if (text.includes("FROM agent_actions")) return actionRows;
+    return [];
+  },
+}));
+
+process.env.DATABASE_URL ||= "postgres://test";
+
+const {
+  buildExposureReport,
+  decisionMoves,
+  getPlatformExposure,
+  platformRoomFor,
+  refreshPlatformExposure,
+  reserveExposure,
+} = await import("@/lib/agent/platform-exposure");
+const { optimizeAllocation } = await import("@/lib/agent/portfolio-optimizer");
+const { YieldDecisionEngine } = await import("@/lib/agent/decision-engine");
+const { PROTOCOLS } = await import("@/lib/yield-optimizer/config");
+
+const USER = "0x1111111111111111111111111111111111111111" as `0x${string}`;
+const CURRENT = "0x000000000000000000000000000000000000c001";
+const BEST = "0x000000000000000000000000000000000000a001";
+const NEXT = "0x000000000000000000000000000000000000a002";
+const OTHER = "0x000000000000000000000000000000000000d001";
+
+const USDC = (n: number) => BigInt(n) * 1_000_000n;
+const LIMITS = { maxVaultTvlShare: 0.1, maxCuratorExposureUsd: 1_000_000 };
+
+function vault(address: string, apy: number, curator: string, tvl = 5_000_000) {
+  return {
+    address,
+    name: `Vault ${address.slice(-4)}`,
+    avgNetApy: apy,
+    netApy: apy,
+    totalAssetsUsd: tvl,
+    liquidityUsd: tvl,
+    whitelisted: true,
+    performanceFee: 0.1,
+    managementFee: 0,
+    warnings: [],
+    curators: { items: [{ name: curator }] },
+  };
+}
+
+function mockClient(vaults: any[], current: any): MorphoClient {
+  return {
+    fetchUserPositions: vi
+      .fn()
+      .mockResolvedValue([
+        { shares: "1000000", assets: "1000000", assetsUsd: 100_000, vault: { address: CURRENT } },
+      ]),
+    fetchVault: vi.fn().mockResolvedValue(current),
+    fetchVaults: vi.fn().mockResolvedValue(vaults),
+  } as unknown as MorphoClient;
+}
+
+const WALLET_A = "0x2222222222222222222222222222222222222222";
+const WALLET_B = "0x3333333333333333333333333333333333333333";
+
+function position(vaultAddress: string, protocol: string, assets: bigint) {
+  return { vaultAddress, protocol, shares: assets, assets, apy: 0.05, enteredAt: 0 };
+}
+
+beforeEach(() => {
+  mockGetAllPositions.mockReset().mockResolvedValue([]);
+  userRows = [];
+  actionRows = [];
+});
+
+describe("getPlatformExposure", () => {
+  test("sums every user's live positions, including ones the ledger never saw", async () => {
+    userRows = [{ wallet_address: WALLET_A }, { wallet_address: WALLET_B }];
+    mockGetAllPositions.mockImplementation(async (wallet: string) =>
+      wallet === WALLET_A
+        ? [
+            position(BEST, "morpho", USDC(600)),
+            position(PROTOCOLS.moonwell.mUsdc, "moonwell", USDC(200)),
+          ]
+        : [position(BEST, "morpho", USDC(350))]
+    );
+
+    await refreshPlatformExposure();
+    const exposure = await getPlatformExposure();
+    await getPlatformExposure();
+
+    expect(exposure).toEqual([
+      { vaultAddress: BEST, protocol: "morpho", exposureUsd: 950, holders: 2 },
+      {
+        vaultAddress: PROTOCOLS.moonwell.mUsdc.toLowerCase(),
+        protocol: "moonwell",
+        exposureUsd: 200,
+        holders: 1,
+      },
+    ]);
+    // Positions are read once per cycle, not per evaluation
+    expect(mockGetAllPositions).toHaveBeenCalledTimes(2);
+  });
+
+  test("applies rebalances since the snapshot and moves still executing", async () => {
+    userRows = [{ wallet_address: WALLET_A }];
+    mockGetAllPositions.mockResolvedValue([
+      position(CURRENT, "morpho", USDC(1000)),
+      position(BEST, "morpho", USDC(400)),
+    ]);
+    await refreshPlatformExposure();
+
+    // Logged by another job after the snapshot was taken
+    actionRows = [
+      {
+        metadata: {
+          legs: {
+            redeems: [{ vault: CURRENT, protocol: "morpho", shares: "300", assets: "300000000" }],
+            deposits: [{ vault: BEST, protocol: "morpho", assets: "300000000" }],
+          },
+        },
+      },
+    ];
+    // Decided by a job in this cycle and not yet logged
+    const release = reserveExposure(
+      decisionMoves({
+        currentVault: { address: CURRENT, assets: "200000000" },
+        targetVault: { address: NEXT },
+      })
+    );
+
+    const exposureUsd = (exposures: Array<{ vaultAddress: string; exposureUsd: number }>) =>
+      Object.fromEntries(exposures.map((e) => [e.vaultAddress, e.exposureUsd]));
+
+    expect(exposureUsd(await getPlatformExposure())).toEqual({
+      [CURRENT]: 500,
+      [BEST]: 700,
+      [NEXT]: 200,
+    });
+
+    release();
+    expect(exposureUsd(await getPlatformExposure())).toEqual({ [CURRENT]: 700, [BEST]: 700 });
+  });
+});
+
+describe("buildExposureReport", () => {
+  test("measures vaults against their TVL share and curators against the cap", () => {
+    const report = buildExposureReport(
+      [
+        { vaultAddress: BEST, protocol: "morpho", exposureUsd: 600_000, holders: 4 },
+        { vaultAddress: NEXT, protocol: "morpho", exposureUsd: 300_000, holders: 2 },
+        { vaultAddress: OTHER, protocol: "morpho", exposureUsd: 50_000, holders: 1 },
+      ],
+      [
+        { vaultAddress: BEST, curator: "Steakhouse", tvlUsd: 5_000_000 },
+        { vaultAddress: NEXT, curator: "Steakhouse", tvlUsd: 10_000_000 },
+        { vaultAddress: CURRENT, curator: "Gauntlet", tvlUsd: 5_000_000 },
+      ],
+      LIMITS
+    );
+
+    const best = report.vaults.find((v) => v.vaultAddress === BEST)!;
+    expect(best.limitUsd).toBe(500_000);
+    expect(best.headroomUsd).toBe(0);
+    expect(best.tvlShare).toBeCloseTo(0.12);
+    expect(best.overLimit).toBe(true);
+
+    const next = report.vaults.find((v) => v.vaultAddress === NEXT)!;
+    expect(next.headroomUsd).toBe(700_000);
+    expect(next.overLimit).toBe(false);
+
+    // Held but not listed — no TVL to measure against
+    const other = report.vaults.find((v) => v.vaultAddress === OTHER)!;
+    expect(other.limitUsd).toBeNull();
+    expect(other.overLimit).toBe(false);
+
+    const steakhouse = report.curators.find((c) => c.curator === "Steakhouse")!;
+    expect(steakhouse.exposureUsd).toBe(900_000);
+    expect(steakhouse.headroomUsd).toBe(100_000);
+    expect(steakhouse.vaults).toEqual([BEST, NEXT]);
+    expect(report.curators.find((c) => c.curator === "Gauntlet")!.headroomUsd).toBe(1_000_000);
+    expect(report.totalExposureUsd).toBe(950_000);
+  });
+
+  test("a user's own holdings are added back to their room", () => {
+    const report = buildExposureReport(
+      [{ vaultAddress: BEST, protocol: "morpho", exposureUsd: 500_000, holders: 2 }],
+      [{ vaultAddress: BEST, curator: "Steakhouse", tvlUsd: 5_000_000 }],
+      LIMITS
+    );
+
+    const room = platformRoomFor(report, [
+      { vaultAddress: BEST, curator: "Steakhouse", assets: USDC(200_000) },
+    ]);
+
+    expect(room.vaults.get(BEST)).toBe(USDC(200_000));
+    expect(room.curators.get("steakhouse")).toBe(USDC(700_000));
+  });
+});
+
+describe("optimizeAllocation with platform room", () => {
+  test("fills the best vault only up to its platform room", () => {
+    const plan = optimizeAllocation(
+      [
+        {
+          vaultAddress: CURRENT,
+          name: "Current",
+          curator: "Gauntlet",
+          apy: 0.03,
+          shares: USDC(1000),
+          assets: USDC(1000),
+        },
+      ],
+      [
+        { vaultAddress: BEST, name: "Best", curator: "Steakhouse", apy: 0.08 },
+        { vaultAddress: NEXT, name: "Next", curator: "Re7", apy: 0.06 },
+      ],
+      { maxVaultConcentration: 1, maxCuratorConcentration: 1, minLegUsdc: USDC(1) },
+      { vaults: new Map([[BEST, USDC(300)]]), curators: new Map() }
+    );
+
+    const target = (address: string) =>
+      plan.allocations.find((a) => a.vaultAddress === address)?.targetAssets;
+    expect(target(BEST)).toBe(USDC(300));
+    expect(target(NEXT)).toBe(USDC(700));
+  });
+
+  test("shares a curator's platform room across its vaults", () => {
+    const plan = optimizeAllocation(
+      [
+        {
+          vaultAddress: CURRENT,
+          name: "Current",
+          curator: "Gauntlet",
+          apy: 0.03,
+          shares: USDC(1000),
+          assets: USDC(1000),
+        },
+      ],
+      [
+        { vaultAddress: BEST, name: "Best", curator: "Steakhouse", apy: 0.08 },
+        { vaultAddress: NEXT, name: "Next", curator: "Steakhouse", apy: 0.06 },
+      ],
+      { maxVaultConcentration: 1, maxCuratorConcentration: 1, minLegUsdc: USDC(1) },
+      { vaults: new Map(), curators: new Map([["steakhouse", USDC(400)]]) }
+    );
+
+    const target = (address: string) =>
+      plan.allocations.find((a) => a.vaultAddress === address)?.targetAssets;
+    expect(target(BEST)).toBe(USDC(400));
+    expect(target(NEXT)).toBeUndefined();
+    expect(target(CURRENT)).toBe(USDC(600));
+  });
+});
+
+describe("YieldDecisionEngine exposure limits", () => {
+  const current = vault(CURRENT, 0.03, "Gauntlet");
+  const best = vault(BEST, 0.08, "Steakhouse");
+  const next = vault(NEXT, 0.06, "Re7");
+
+  test("skips a target without room for the position", async () => {
+    // 10% of $5M TVL = $500k limit; $450k already held leaves no room for $100k
+    const engine = new YieldDecisionEngine(
+      mockClient([best, next, current], current),
+      undefined,
+      undefined,
+      async () => [{ vaultAddress: BEST, protocol: "morpho", exposureUsd: 450_000, holders: 9 }]
+    );
+
+    const decision = await engine.evaluateRebalancing(USER);
+
+    expect(decision.shouldRebalance).toBe(true);
+    expect(decision.targetVault?.address).toBe(NEXT);
+  });
+
+  test("declines when every eligible target is at its limit", async () => {
+    const engine = new YieldDecisionEngine(
+      mockClient([best, next, current], current),
+      undefined,
+      undefined,
+      async () => [
+        { vaultAddress: BEST, protocol: "morpho", exposureUsd: 500_000, holders: 9 },
+        { vaultAddress: NEXT, protocol: "morpho", exposureUsd: 480_000, holders: 5 },
+      ]
+    );
+
+    const decision = await engine.evaluateRebalancing(USER);
+
+    expect(decision.shouldRebalance).toBe(false);
+    expect(decision.reason).toBe("Every eligible vault is at its platform exposure limit");
+  });
+
+  test("leaves targets unrestricted without an exposure source", async () => {
+    const engine = new YieldDecisionEngine(mockClient([best, next, current], current));
+
+    const decision = await engine.evaluateRebalancing(USER);
+
+    expect(decision.targetVault?.address).toBe(BEST);
+  });
+});
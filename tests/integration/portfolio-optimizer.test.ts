@@ -0,0 +1,263 @@
+/**
+ * Portfolio Optimizer Tests
+ * Multi-position, split-allocation rebalancing with vault/curator caps
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+import { decodeFunctionData, parseAbi } from "viem";
+
+const mockReadContract = vi.fn();
+
+vi.mock("viem", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("viem")>();
+  return {
+    ...actual,
+    createPublicClient: () => ({ readContract: mockReadContract }),
+  };
+});
+
+const { optimizeAllocation } = await import("@/lib/agent/portfolio-optimizer");
+const { YieldDecisionEngine } = await import("@/lib/agent/decision-engine");
+const { buildRebalanceCalls } = await import("@/lib/agent/rebalance-executor");
+
+const USER = "0x1111111111111111111111111111111111111111" as `0x${string}`;
+const A = "0x000000000000000000000000000000000000000a" as `0x${string}`;
+const B = "0x000000000000000000000000000000000000000b" as `0x${string}`;
+const C = "0x000000000000000000000000000000000000000c" as `0x${string}`;
+const D = "0x000000000000000000000000000000000000000d" as `0x${string}`;
+
+const USDC = (n: number) => BigInt(n) * 1_000_000n;
+
+const LIMITS = {
+  maxVaultConcentration: 0.5,
+  maxCuratorConcentration: 0.7,
+  minLegUsdc: USDC(1),
+};
+
+const VAULT_ABI = parseAbi([
+  "function redeem(uint256 shares, address receiver, address owner) returns (uint256 assets)",
+  "function deposit(uint256 assets, address receiver) returns (uint256 shares)",
+]);
+
+describe("optimizeAllocation", () => {
+  test("splits the portfolio across vaults within the per-vault cap", () => {
+    const plan = optimizeAllocation(
+      [
+        {
+          vaultAddress: C,
+          name: "C",
+          curator: "Gauntlet",
+          apy: 0.03,
+          shares: USDC(1000),
+          assets: USDC(1000),
+        },
+      ],
+      [
+        { vaultAddress: A, name: "A", curator: "Steakhouse", apy: 0.08 },
+        { vaultAddress: B, name: "B", curator: "Re7", apy: 0.07 },
+        { vaultAddress: C, name: "C", curator: "Gauntlet", apy: 0.03 },
+      ],
+      LIMITS
+    );
+
+    const target = Object.fromEntries(
+      plan.allocations.map((a) => [a.vaultAddress, a.targetAssets])
+    );
+    expect(target[A]).toBe(USDC(500));
+    expect(target[B]).toBe(USDC(500));
+    expect(target[C]).toBe(0n);
+
+    expect(plan.redeems).toEqual([{ vault: C, shares: USDC(1000), assets: USDC(1000) }]);
+    expect(plan.deposits.map((d) => d.vault).sort()).toEqual([A, B]);
+    expect(plan.targetApy).toBeCloseTo(0.075);
+    expect(plan.currentApy).toBeCloseTo(0.03);
+  });
+
+  test("enforces the per-curator cap across vaults with the same curator", () => {
+    const plan = optimizeAllocation(
+      [
+        {
+          vaultAddress: D,
+          name: "D",
+          curator: null,
+          apy: 0.02,
+          shares: USDC(1000),
+          assets: USDC(1000),
+        },
+      ],
+      [
+        { vaultAddress: A, name: "A", curator: "Steakhouse", apy: 0.09 },
+        { vaultAddress: B, name: "B", curator: "steakhouse", apy: 0.085 },
+        { vaultAddress: C, name: "C", curator: "Gauntlet", apy: 0.05 },
+      ],
+      LIMITS
+    );
+
+    const target = Object.fromEntries(
+      plan.allocations.map((a) => [a.vaultAddress, a.targetAssets])
+    );
+    // Steakhouse capped at 70% total: 50% in A, 20% in B
+    expect(target[A]).toBe(USDC(500));
+    expect(target[B]).toBe(USDC(200));
+    expect(target[C]).toBe(USDC(300));
+  });
+
+  test("keeps the remainder in current holdings when caps cannot place it", () => {
+    const plan = optimizeAllocation(
+      [
+        {
+          vaultAddress: C,
+          name: "C",
+          curator: "Gauntlet",
+          apy: 0.03,
+          shares: USDC(900),
+          assets: USDC(1000),
+        },
+      ],
+      [{ vaultAddress: A, name: "A", curator: "Steakhouse", apy: 0.08 }],
+      LIMITS
+    );
+
+    const target = Object.fromEntries(
+      plan.allocations.map((a) => [a.vaultAddress, a.targetAssets])
+    );
+    expect(target[A]).toBe(USDC(500));
+    expect(target[C]).toBe(USDC(500));
+
+    // Partial exit redeems shares pro rata
+    expect(plan.redeems).toEqual([{ vault: C, shares: USDC(450), assets: USDC(500) }]);
+  });
+
+  test("emits no legs when the portfolio is already at target", () => {
+    const plan = optimizeAllocation(
+      [
+        {
+          vaultAddress: A,
+          name: "A",
+          curator: "Steakhouse",
+          apy: 0.08,
+          shares: USDC(500),
+          assets: USDC(500),
+        },
+        {
+          vaultAddress: B,
+          name: "B",
+          curator: "Re7",
+          apy: 0.07,
+          shares: USDC(500),
+          assets: USDC(500),
+        },
+      ],
+      [
+        { vaultAddress: A, name: "A", curator: "Steakhouse", apy: 0.08 },
+        { vaultAddress: B, name: "B", curator: "Re7", apy: 0.07 },
+      ],
+      LIMITS
+    );
+
+    expect(plan.redeems).toHaveLength(0);
+    expect(plan.deposits).toHaveLength(0);
+  });
+});
+
+describe("YieldDecisionEngine.evaluatePortfolio", () => {
+  function vault(address: string, apy: number, curator: string) {
+    return {
+      address,
+      name: `Vault ${address.slice(-1)}`,
+      avgNetApy: apy,
+      netApy: apy,
+      totalAssetsUsd: 10_000_000,
+      liquidityUsd: 8_000_000,
+      whitelisted: true,
+      warnings: [],
+      curators: { items: [{ name: curator }] },
+    };
+  }
+
+  test("considers every position, not only the largest", async () => {
+    const vaults = [
+      vault(A, 0.08, "Steakhouse"),
+      vault(B, 0.07, "Re7"),
+      vault(C, 0.03, "Gauntlet"),
+    ];
+    const client = {
+      fetchUserPositions: vi.fn().mockResolvedValue([
+        {
+          shares: String(USDC(600)),
+          assets: String(USDC(600)),
+          assetsUsd: 600,
+          vault: { address: C },
+        },
+        {
+          shares: String(USDC(400)),
+          assets: String(USDC(400)),
+          assetsUsd: 400,
+          vault: { address: A },
+        },
+      ]),
+      fetchVault: vi.fn(async (address: string) => vaults.find((v) => v.address === address)),
+      fetchVaults: vi.fn().mockResolvedValue(vaults),
+    } as any;
+
+    // Default PORTFOLIO_LIMITS: 60% per vault → A 60%, B 40%, C exited
+    const engine = new YieldDecisionEngine(client);
+    const decision = await engine.evaluatePortfolio(USER);
+
+    expect(decision.shouldRebalance).toBe(true);
+    expect(decision.legs.redeems).toEqual([{ vault: C, shares: USDC(600), assets: USDC(600) }]);
+    expect(decision.legs.deposits).toEqual(
+      expect.arrayContaining([
+        { vault: A, assets: USDC(200) },
+        { vault: B, assets: USDC(400) },
+      ])
+    );
+    expect(decision.currentVault?.address).toBe(C);
+    expect(decision.targetVault?.address).toBe(B);
+    expect(decision.targetPortfolioApy).toBeGreaterThan(decision.currentPortfolioApy);
+  });
+});
+
+describe("buildRebalanceCalls with portfolio legs", () => {
+  beforeEach(() => {
+    mockReadContract.mockReset();
+  });
+
+  test("batches all redeems, then approve + deposit per destination", async () => {
+    mockReadContract.mockResolvedValueOnce(USDC(600)).mockResolvedValueOnce(USDC(400));
+
+    const calls = await buildRebalanceCalls({
+      userAddress: USER,
+      redeems: [
+        { vault: C, shares: USDC(600), assets: USDC(600) },
+        { vault: D, shares: USDC(400), assets: USDC(400) },
+      ],
+      deposits: [
+        { vault: A, assets: USDC(750) },
+        { vault: B, assets: USDC(250) },
+      ],
+    });
+
+    // 2 redeems + 2 × (approve, deposit)
+    expect(calls).toHaveLength(6);
+    expect(calls[0].to).toBe(C);
+    expect(calls[1].to).toBe(D);
+    expect(calls[3].to).toBe(A);
+    expect(calls[5].to).toBe(B);
+
+    const depositA = decodeFunctionData({ abi: VAULT_ABI, data: calls[3].data });
+    const depositB = decodeFunctionData({ abi: VAULT_ABI, data: calls[5].data });
+    const amountA = depositA.args[0] as bigint;
+    const amountB = depositB.args[0] as bigint;
+
+    // 0.5% buffer applied to the previewRedeem total, split 75/25
+    expect(amountA + amountB).toBe((USDC(1000) * 995n) / 1000n);
+    expect(amountA).toBe((((USDC(1000) * 995n) / 1000n) * 3n) / 4n);
+  });
+
+  test("rejects one-sided portfolio params", async () => {
+    await expect(
+      buildRebalanceCalls({ userAddress: USER, redeems: [], deposits: [{ vault: A, assets: 1n }] })
+    ).rejects.toThrow("at least one redeem and one deposit");
+  });
+});
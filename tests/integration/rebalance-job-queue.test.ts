@@ -0,0 +1,323 @@
+/**
+ * Rebalance Job Queue Tests
+ * Leased claims, exponential backoff, dead-lettering and worker outcomes
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+
+const queries: Array<{ text: string; values: unknown[] }> = [];
+let userRows: any[] = [];
+
+let userQueryError: Error | null = null;
+
+vi.mock("@neondatabase/serverless", () => ({
+  neon:
+    () =>
+    async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const text = strings.join("?");
+      queries.push({ text, values });
+      if (text.includes("FROM users u")) {
+        if (userQueryError) throw userQueryError;
+        return userRows;
+      }
+      if (text.includes("UPDATE rebalance_jobs")) return [{ id: "job-1" }];
+      return [];
+    },
+}));
+
+const mockEvaluate = vi.fn();
+
+vi.mock("@/lib/agent/decision-engine", () => ({
+  YieldDecisionEngine: class {
+    evaluateCrossProtocol = mockEvaluate;
+  },
+}));
+
+vi.mock("@/lib/security/session-encryption", () => ({
+  decryptAuthorization: () => ({
+    expiry: Math.floor(Date.now() / 1000) + 86400,
+    sessionKeyAddress: "0x2222222222222222222222222222222222222222",
+  }),
+}));
+
+vi.mock("@/lib/security/session-revocation", () => ({
+  isSessionRevoked: vi.fn().mockResolvedValue(false),
+}));
+
+const mockAcquire = vi.fn();
+
+vi.mock("@/lib/redis/distributed-lock", () => ({
+  acquireUserLock: (...args: unknown[]) => mockAcquire(...args),
+  releaseUserLock: vi.fn().mockResolvedValue(undefined),
+}));
+
+const mockGetUserOpCount = vi.fn();
+
+vi.mock("@/lib/redis/rate-limiter", () => ({
+  getUserOpCount: (...args: unknown[]) => mockGetUserOpCount(...args),
+  incrementUserOpCount: vi.fn().mockResolvedValue(undefined),
+}));
+
+const mockExecuteRebalance = vi.fn();
+
+vi.mock("@/lib/agent/rebalance-executor", () => ({
+  executeRebalance: (...args: unknown[]) => mockExecuteRebalance(...args),
+}));
+
+const {
+  computeBackoffSeconds,
+  failRebalanceJob,
+  completeRebalanceJob,
+  claimRebalanceJobs,
+  deadLetterExpiredJobs,
+} = await import("@/lib/agent/job-queue");
+const { processRebalanceJob, processPendingWithdrawal, createCronSummary } = await import(
+  "@/lib/agent/rebalance-worker"
+);
+
+const USER = "0x1111111111111111111111111111111111111111";
+
+function job(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "job-1",
+    cycleId: "00000000-0000-0000-0000-000000000001",
+    userId: "user-1",
+    walletAddress: USER,
+    status: "running" as const,
+    attempts: 1,
+    maxAttempts: 5,
+    targetedVaults: null,
+    runAfter: new Date().toISOString(),
+    leaseId: "lease-1",
+    leaseExpiresAt: new Date().toISOString(),
+    result: null,
+    lastError: null,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+const updates = () => queries.filter((q) => q.text.includes("UPDATE rebalance_jobs"));
+
+describe("job queue", () => {
+  beforeEach(() => {
+    queries.length = 0;
+    process.env.DATABASE_URL = "postgres://test";
+  });
+
+  test("backoff doubles per attempt and is capped at an hour", () => {
+    expect(computeBackoffSeconds(1)).toBe(60);
+    expect(computeBackoffSeconds(2)).toBe(120);
+    expect(computeBackoffSeconds(4)).toBe(480);
+    expect(computeBackoffSeconds(20)).toBe(3600);
+  });
+
+  test("failed attempts return to pending behind the backoff", async () => {
+    const status = await failRebalanceJob(job({ attempts: 2 }), "RPC timeout");
+
+    expect(status).toBe("pending");
+    expect(updates()[0].values).toContain("pending");
+    expect(updates()[0].values).toContain("120 seconds");
+    expect(updates()[0].values).toContain("RPC timeout");
+  });
+
+  test("the final attempt moves the job to dead", async () => {
+    expect(await failRebalanceJob(job({ attempts: 5 }), "RPC timeout")).toBe("dead");
+    expect(updates()[0].values).toContain("dead");
+  });
+
+  test("expired leases are only re-claimed while attempts remain", async () => {
+    await claimRebalanceJobs(10);
+
+    expect(updates()[0].text).toContain(
+      "status = 'running' AND lease_expires_at < NOW() AND attempts < max_attempts"
+    );
+  });
+
+  test("expired leases on the final attempt are dead-lettered", async () => {
+    expect(await deadLetterExpiredJobs()).toBe(1);
+    expect(updates()[0].text).toContain("status = 'dead'");
+    expect(updates()[0].text).toContain("attempts >= max_attempts");
+  });
+
+  test("completion only applies while the lease is held", async () => {
+    await completeRebalanceJob(job(), "succeeded", { action: "rebalanced", reason: "ok" });
+
+    expect(updates()[0].text).toContain("lease_id = ?");
+    expect(updates()[0].values).toContain("lease-1");
+  });
+});
+
+describe("processRebalanceJob", () => {
+  beforeEach(() => {
+    queries.length = 0;
+    process.env.DATABASE_URL = "postgres://test";
+    process.env.AGENT_SIMULATION_MODE = "true";
+    userRows = [
+      {
+        id: "user-1",
+        wallet_address: USER,
+        authorization_7702: { type: "zerodev-7702-session" },
+      },
+    ];
+    mockAcquire.mockReset().mockResolvedValue({ acquired: true, lockId: "lock-1" });
+    mockEvaluate.mockReset();
+  });
+
+  test("records a skip when the engine finds no rebalance", async () => {
+    mockEvaluate.mockResolvedValue({ shouldRebalance: false, reason: "Already optimal" });
+    const summary = createCronSummary();
+
+    await processRebalanceJob(job(), summary);
+
+    expect(summary.skipped).toBe(1);
+    expect(updates()[0].values[0]).toBe("skipped");
+    expect(JSON.parse(updates()[0].values[1] as string)).toMatchObject({
+      action: "skipped",
+      reason: "Already optimal",
+    });
+  });
+
+  test("thrown errors are retried instead of lost", async () => {
+    mockEvaluate.mockRejectedValue(new Error("Morpho API unavailable"));
+    const summary = createCronSummary();
+
+    await processRebalanceJob(job(), summary);
+
+    expect(summary.errors).toBe(1);
+    expect(updates()[0].values).toContain("pending");
+    expect(updates()[0].values).toContain("Morpho API unavailable");
+  });
+
+  test("exhausted jobs are dead-lettered", async () => {
+    mockEvaluate.mockRejectedValue(new Error("Morpho API unavailable"));
+    const summary = createCronSummary();
+
+    await processRebalanceJob(job({ attempts: 5 }), summary);
+
+    expect(summary.deadLettered).toBe(1);
+    expect(updates()[0].values).toContain("dead");
+  });
+
+  test("a held user lock defers the job without spending an attempt", async () => {
+    mockAcquire.mockResolvedValue({ acquired: false });
+    const summary = createCronSummary();
+
+    // Even on the last attempt, lock contention never dead-letters the job
+    await processRebalanceJob(job({ attempts: 5 }), summary);
+
+    expect(mockEvaluate).not.toHaveBeenCalled();
+    expect(summary.details[0].reason).toBe("Rebalance already in progress (locked)");
+    expect(summary.deadLettered).toBe(0);
+    expect(updates()[0].text).toContain("status = 'pending'");
+    expect(updates()[0].text).toContain("attempts = GREATEST(attempts - 1, 0)");
+    expect(updates()[0].values).toContain("60 seconds");
+    expect(updates()[0].values).not.toContain("dead");
+  });
+
+  test("a transient error loading the job is recorded as a failed attempt", async () => {
+    userQueryError = new Error("connection reset");
+    const summary = createCronSummary();
+
+    try {
+      await processRebalanceJob(job(), summary);
+    } finally {
+      userQueryError = null;
+    }
+
+    expect(mockAcquire).not.toHaveBeenCalled();
+    expect(summary.errors).toBe(1);
+    expect(updates()[0].values).toContain("pending");
+    expect(updates()[0].values).toContain("connection reset");
+  });
+
+  test("a lock service error is recorded instead of aborting the run", async () => {
+    mockAcquire.mockRejectedValue(new Error("Redis unavailable"));
+    const summary = createCronSummary();
+
+    await processRebalanceJob(job(), summary);
+
+    expect(mockEvaluate).not.toHaveBeenCalled();
+    expect(summary.details[0]).toMatchObject({ action: "error", reason: "Redis unavailable" });
+    expect(updates()[0].values).toContain("Redis unavailable");
+  });
+
+  test("users who opted out since enqueue are skipped", async () => {
+    userRows = [];
+    const summary = createCronSummary();
+
+    await processRebalanceJob(job(), summary);
+
+    expect(mockAcquire).not.toHaveBeenCalled();
+    expect(updates()[0].values[0]).toBe("skipped");
+  });
+});
+
+describe("processPendingWithdrawal", () => {
+  const withdrawal = {
+    id: "pw-1",
+    userId: "user-1",
+    walletAddress: USER,
+    source: "rebalance" as const,
+    vaultAddress: "0x000000000000000000000000000000000000000a" as `0x${string}`,
+    protocol: "morpho",
+    targetVaultAddress: "0x000000000000000000000000000000000000000b" as `0x${string}`,
+    targetProtocol: "morpho",
+    totalShares: 1000n,
+    remainingShares: 600n,
+    remainingAssets: 600n,
+    redeemedAssets: 400n,
+    status: "pending" as const,
+    attempts: 0,
+    maxAttempts: 3,
+    lastError: null,
+    lastTxHash: null,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    completedAt: null,
+  };
+  const summary = () => ({
+    processed: 0,
+    progressed: 0,
+    completed: 0,
+    waiting: 0,
+    failed: 0,
+    details: [],
+  });
+
+  beforeEach(() => {
+    queries.length = 0;
+    process.env.DATABASE_URL = "postgres://test";
+    userRows = [
+      {
+        id: "user-1",
+        wallet_address: USER,
+        authorization_7702: { type: "zerodev-7702-session" },
+        max_slippage_tolerance: "0.2",
+      },
+    ];
+    mockAcquire.mockReset().mockResolvedValue({ acquired: true, lockId: "lock-1" });
+    mockGetUserOpCount.mockReset().mockResolvedValue(0);
+    mockExecuteRebalance.mockReset().mockResolvedValue({ success: false, error: "reverted" });
+  });
+
+  test("continues rebalance exits under the user's slippage tolerance", async () => {
+    await processPendingWithdrawal(withdrawal, summary());
+
+    expect(mockExecuteRebalance).toHaveBeenCalledTimes(1);
+    expect(mockExecuteRebalance.mock.calls[0][6]).toEqual({ maxSlippage: 0.002 });
+  });
+
+  test("waits instead of submitting when the daily UserOp budget is low", async () => {
+    mockGetUserOpCount.mockResolvedValue(88);
+    const result = summary();
+
+    await processPendingWithdrawal(withdrawal, result);
+
+    expect(mockExecuteRebalance).not.toHaveBeenCalled();
+    expect(result.waiting).toBe(1);
+    expect(result.details[0]).toMatchObject({ reason: "UserOp budget low (88/90 used)" });
+  });
+});
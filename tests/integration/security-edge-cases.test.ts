@@ -2,7 +2,7 @@
  * Security Edge Case Tests
  *
  * Tests security hardening additions:
- * - Session key revocation via Redis blacklist
+ * - Session key revocation via Redis blacklist, backed by the registry
  * - Distributed lock for concurrent cron prevention
  * - Delegation target verification (phishing guard)
  * - On-chain timestamp policy presence
@@ -16,6 +16,18 @@ import { describe, test, expect, vi, beforeEach } from "vitest";
 // ─── Session Key Revocation ──────────────────────────────────────────────────
 
 describe("Session Key Revocation", () => {
+  // In-memory stand-in for the Postgres session key registry
+  function mockRegistry() {
+    const revoked = new Set<string>();
+    vi.doMock("@/lib/security/session-registry", () => ({
+      persistRevocation: async (key: string) => {
+        revoked.add(key.toLowerCase());
+        return true;
+      },
+      isRevokedInRegistry: async (key: string) => revoked.has(key.toLowerCase()),
+    }));
+  }
+
   test("1. revokeSession + isSessionRevoked returns true", async () => {
     // Mock the cache interface
     const store = new Map<string, string>();
@@ -30,6 +42,7 @@ describe("Session Key Revocation", () => {
         },
       }),
     }));
+    mockRegistry();
 
     const { revokeSession, isSessionRevoked } = await import("@/lib/security/session-revocation");
 
@@ -39,13 +52,18 @@ describe("Session Key Revocation", () => {
     expect(await isSessionRevoked(sessionKey)).toBe(false);
 
     // After revocation — revoked
-    await revokeSession(sessionKey);
+    await revokeSession(sessionKey, {
+      walletAddress: "0xuser",
+      kind: "agent",
+      revokedBy: "user",
+    });
     expect(await isSessionRevoked(sessionKey)).toBe(true);
 
     // Case insensitive
     expect(await isSessionRevoked(sessionKey.toUpperCase())).toBe(true);
 
     vi.doUnmock("@/lib/redis/client");
+    vi.doUnmock("@/lib/security/session-registry");
   });
 
   test("2. Non-revoked session returns false", async () => {
@@ -58,11 +76,13 @@ describe("Session Key Revocation", () => {
         },
       }),
     }));
+    mockRegistry();
 
     const { isSessionRevoked } = await import("@/lib/security/session-revocation");
     expect(await isSessionRevoked("0xnotrevoked")).toBe(false);
 
     vi.doUnmock("@/lib/redis/client");
+    vi.doUnmock("@/lib/security/session-registry");
   });
 });
 
@@ -193,7 +213,7 @@ describe("Fail-Closed Rate Limiter", () => {
 describe("Session Revocation in Cron", () => {
   test("9. Cron checks revocation before processing", async () => {
     const fs = await import("fs");
-    const source = fs.readFileSync("app/api/agent/cron/route.ts", "utf-8");
+    const source = fs.readFileSync("lib/agent/rebalance-worker.ts", "utf-8");
 
     // Verify import
     expect(source).toMatch(
@@ -211,7 +231,7 @@ describe("Session Revocation in Cron", () => {
 describe("Distributed Lock in Cron", () => {
   test("10. Cron uses distributed lock per user", async () => {
     const fs = await import("fs");
-    const source = fs.readFileSync("app/api/agent/cron/route.ts", "utf-8");
+    const source = fs.readFileSync("lib/agent/rebalance-worker.ts", "utf-8");
 
     // Verify imports
     expect(source).toMatch(
@@ -0,0 +1,370 @@
+/**
+ * Session Key Registry Tests
+ * Verifies revocations persist to Postgres and survive a Redis flush, the
+ * check fails closed, and owner-signed uninstall UserOps are validated before
+ * being relayed
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+import { encodeFunctionData, encodePacked, pad, zeroHash, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  entryPoint07Address,
+  getUserOperationHash,
+  UserOperationReceiptNotFoundError,
+} from "viem/account-abstraction";
+import { base } from "viem/chains";
+import { KernelV3_3AccountAbi } from "@zerodev/sdk";
+
+const queries: Array<{ text: string; values: unknown[] }> = [];
+let responses: Array<{ match: string; rows: Array<Record<string, unknown>> }> = [];
+let dbError: Error | null = null;
+
+vi.mock("@neondatabase/serverless", () => ({
+  neon:
+    () =>
+    async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      if (dbError) throw dbError;
+      const text = strings.join("?");
+      queries.push({ text, values });
+      return responses.find((r) => text.includes(r.match))?.rows ?? [];
+    },
+}));
+
+const cache = new Map<string, string>();
+vi.mock("@/lib/redis/client", () => ({
+  getCacheInterface: async () => ({
+    get: async (key: string) => cache.get(key) ?? null,
+    set: async (key: string, value: string) => {
+      cache.set(key, value);
+    },
+  }),
+}));
+
+const mockGetReceipt = vi.fn();
+vi.mock("viem/account-abstraction", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("viem/account-abstraction")>()),
+  createBundlerClient: () => ({
+    getUserOperationReceipt: (args: unknown) => mockGetReceipt(args),
+  }),
+}));
+
+process.env.DATABASE_URL ||= "postgres://test";
+
+const { revokeSession, isSessionRevoked } = await import("@/lib/security/session-revocation");
+const { getSessionKeyHistory, recordSessionGrant } = await import(
+  "@/lib/security/session-registry"
+);
+const { isUninstallCall, reconcileUninstall, submitUninstallUserOp, UNINSTALL_DROPPED_AFTER_MS } =
+  await import("@/lib/zerodev/session-uninstall");
+
+const WALLET = "0xAbCdEf0000000000000000000000000000000001";
+const KEY = "0x00000000000000000000000000000000000000AA";
+
+beforeEach(() => {
+  queries.length = 0;
+  responses = [];
+  dbError = null;
+  cache.clear();
+  mockGetReceipt.mockReset();
+});
+
+describe("revocation registry", () => {
+  test("revokeSession persists to Postgres before caching", async () => {
+    responses = [{ match: "INSERT INTO session_keys", rows: [{ id: "k-1" }] }];
+
+    await revokeSession(KEY, { walletAddress: WALLET, kind: "agent", revokedBy: "user" });
+
+    expect(queries).toHaveLength(1);
+    expect(queries[0].values).toEqual([
+      WALLET.toLowerCase(),
+      "agent",
+      KEY.toLowerCase(),
+      "user",
+      null,
+      WALLET.toLowerCase(),
+    ]);
+    expect(cache.has(`session:revoked:${KEY.toLowerCase()}`)).toBe(true);
+  });
+
+  test("a flushed cache falls back to the registry and re-caches", async () => {
+    responses = [{ match: "revoked_at IS NOT NULL", rows: [{ "?column?": 1 }] }];
+
+    expect(await isSessionRevoked(KEY)).toBe(true);
+    expect(cache.has(`session:revoked:${KEY.toLowerCase()}`)).toBe(true);
+
+    // Served from the cache now
+    queries.length = 0;
+    expect(await isSessionRevoked(KEY)).toBe(true);
+    expect(queries).toHaveLength(0);
+  });
+
+  test("a key missing from both is not revoked", async () => {
+    expect(await isSessionRevoked(KEY)).toBe(false);
+    expect(cache.size).toBe(0);
+  });
+
+  test("fails closed when the registry is unreachable", async () => {
+    dbError = new Error("connection refused");
+    expect(await isSessionRevoked(KEY)).toBe(true);
+  });
+
+  test("grants record the key, account and uninstall calldata", async () => {
+    await recordSessionGrant({
+      walletAddress: WALLET,
+      kind: "agent",
+      sessionKeyAddress: KEY,
+      accountAddress: WALLET,
+      expiry: 1_800_000_000,
+      uninstallCallData: "0xdead",
+    });
+
+    expect(queries[0].text).toContain("ON CONFLICT (session_key_address) DO NOTHING");
+    expect(queries[0].values).toEqual([
+      WALLET.toLowerCase(),
+      "agent",
+      KEY.toLowerCase(),
+      WALLET.toLowerCase(),
+      "0xdead",
+      1_800_000_000,
+      WALLET.toLowerCase(),
+    ]);
+  });
+
+  test("history only offers uninstall for keys with calldata not yet removed", async () => {
+    responses = [
+      {
+        match: "SELECT * FROM session_keys",
+        rows: [
+          { id: "1", session_key_address: "0x1", uninstall_call_data: "0xdead" },
+          {
+            id: "2",
+            session_key_address: "0x2",
+            uninstall_call_data: "0xdead",
+            uninstall_status: "confirmed",
+          },
+          { id: "3", session_key_address: "0x3", uninstall_call_data: null },
+        ],
+      },
+    ];
+
+    const history = await getSessionKeyHistory(WALLET);
+    expect(history.map((k) => k.uninstallable)).toEqual([true, false, false]);
+  });
+});
+
+// ─── On-chain uninstall ──────────────────────────────────────────────────────
+
+const owner = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d"
+);
+const stranger = privateKeyToAccount(
+  "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a"
+);
+
+const uninstallCall = encodeFunctionData({
+  abi: KernelV3_3AccountAbi,
+  functionName: "uninstallValidation",
+  args: [pad("0x021234", { size: 21, dir: "right" }), "0x", "0x"],
+});
+
+function uninstallUserOp(target: `0x${string}` = owner.address, callData: Hex = uninstallCall) {
+  const userOp = {
+    sender: owner.address,
+    nonce: BigInt(1),
+    callData: encodeFunctionData({
+      abi: KernelV3_3AccountAbi,
+      functionName: "execute",
+      args: [
+        zeroHash,
+        encodePacked(["address", "uint256", "bytes"], [target, BigInt(0), callData]),
+      ],
+    }),
+    callGasLimit: BigInt(100_000),
+    verificationGasLimit: BigInt(100_000),
+    preVerificationGas: BigInt(50_000),
+    maxFeePerGas: BigInt(1_000_000),
+    maxPriorityFeePerGas: BigInt(1_000),
+    signature: "0x" as Hex,
+  };
+  const hash = getUserOperationHash({
+    userOperation: userOp,
+    entryPointAddress: entryPoint07Address,
+    entryPointVersion: "0.7",
+    chainId: base.id,
+  });
+  const rpc = {
+    ...userOp,
+    nonce: "0x1",
+    callGasLimit: "0x186a0",
+    verificationGasLimit: "0x186a0",
+    preVerificationGas: "0xc350",
+    maxFeePerGas: "0xf4240",
+    maxPriorityFeePerGas: "0x3e8",
+  } as any;
+  return { rpc, hash };
+}
+
+describe("uninstall UserOps", () => {
+  test("only permission validator uninstalls are accepted", () => {
+    expect(isUninstallCall(uninstallCall)).toBe(true);
+    expect(
+      isUninstallCall(
+        encodeFunctionData({
+          abi: KernelV3_3AccountAbi,
+          functionName: "uninstallValidation",
+          args: [pad("0x011234", { size: 21, dir: "right" }), "0x", "0x"],
+        })
+      )
+    ).toBe(false);
+    expect(isUninstallCall("0xdeadbeef")).toBe(false);
+  });
+
+  test("rejects a UserOp other than the one prepared", async () => {
+    const { rpc } = uninstallUserOp();
+    const signature = await owner.signMessage({ message: { raw: zeroHash } });
+
+    await expect(submitUninstallUserOp(owner.address, rpc, signature, zeroHash)).rejects.toThrow(
+      "does not match the prepared uninstall"
+    );
+  });
+
+  test("rejects calls other than a self-uninstall", async () => {
+    const { rpc, hash } = uninstallUserOp(stranger.address);
+    const signature = await owner.signMessage({ message: { raw: hash } });
+
+    await expect(submitUninstallUserOp(owner.address, rpc, signature, hash)).rejects.toThrow(
+      "not an uninstall for this account"
+    );
+  });
+
+  test("rejects signatures from anyone but the account owner", async () => {
+    const { rpc, hash } = uninstallUserOp();
+    const signature = await stranger.signMessage({ message: { raw: hash } });
+
+    await expect(submitUninstallUserOp(owner.address, rpc, signature, hash)).rejects.toThrow(
+      "not from the account owner"
+    );
+  });
+});
+
+describe("submitted uninstall reconciliation", () => {
+  const HASH = `0x${"ab".repeat(32)}` as Hex;
+  const TX = `0x${"cd".repeat(32)}` as Hex;
+  const requestedAt = Date.parse("2026-01-01T00:00:00Z");
+
+  function submittedKey() {
+    return {
+      id: "1",
+      sessionKind: "agent" as const,
+      sessionKeyAddress: KEY.toLowerCase(),
+      accountAddress: WALLET.toLowerCase(),
+      grantedAt: null,
+      expiresAt: null,
+      revokedAt: "2025-12-31T00:00:00.000Z",
+      revokedBy: "user" as const,
+      revokeReason: null,
+      uninstallable: true,
+      uninstallStatus: "submitted" as const,
+      uninstallUserOpHash: HASH,
+      uninstallTxHash: null,
+      uninstallRequestedAt: new Date(requestedAt).toISOString(),
+      uninstallSubmittedAt: new Date(requestedAt).toISOString(),
+      uninstalledAt: null,
+      uninstallError: null,
+    };
+  }
+
+  const notFound = () => Promise.reject(new UserOperationReceiptNotFoundError({ hash: HASH }));
+
+  test("records the receipt once the bundler has one", async () => {
+    mockGetReceipt.mockResolvedValue({ success: true, receipt: { transactionHash: TX } });
+
+    const key = await reconcileUninstall(submittedKey(), requestedAt + 60_000);
+
+    expect(key).toMatchObject({
+      uninstallStatus: "confirmed",
+      uninstallTxHash: TX,
+      uninstallable: false,
+    });
+    const update = queries.find((q) => q.text.includes("UPDATE session_keys"))!;
+    expect(update.values.slice(0, 3)).toEqual(["confirmed", HASH, TX]);
+  });
+
+  test("leaves a recent uninstall pending while the bundler has no receipt", async () => {
+    mockGetReceipt.mockImplementation(notFound);
+
+    const key = await reconcileUninstall(submittedKey(), requestedAt + 60_000);
+
+    expect(key.uninstallStatus).toBe("submitted");
+    expect(queries).toHaveLength(0);
+  });
+
+  test("fails a stale uninstall so it can be prepared again", async () => {
+    mockGetReceipt.mockImplementation(notFound);
+
+    const key = await reconcileUninstall(
+      submittedKey(),
+      requestedAt + UNINSTALL_DROPPED_AFTER_MS + 1
+    );
+
+    expect(key).toMatchObject({ uninstallStatus: "failed", uninstallable: true });
+    expect(key.uninstallError).toContain("not included");
+    const update = queries.find((q) => q.text.includes("UPDATE session_keys"))!;
+    expect(update.values[0]).toBe("failed");
+  });
+
+  test("times out from submission, not from when the uninstall was prepared", async () => {
+    mockGetReceipt.mockImplementation(notFound);
+    // Prepared, then signed and submitted 45 minutes later
+    const submittedAt = requestedAt + 45 * 60_000;
+
+    const key = await reconcileUninstall(
+      { ...submittedKey(), uninstallSubmittedAt: new Date(submittedAt).toISOString() },
+      submittedAt + 60_000
+    );
+
+    expect(key.uninstallStatus).toBe("submitted");
+    expect(queries).toHaveLength(0);
+  });
+
+  test("records a late receipt for an uninstall that timed out", async () => {
+    mockGetReceipt.mockResolvedValue({ success: true, receipt: { transactionHash: TX } });
+    const timedOut = {
+      ...submittedKey(),
+      uninstallStatus: "failed" as const,
+      uninstallError: "Uninstall not included after 30 minutes",
+    };
+
+    const key = await reconcileUninstall(timedOut, requestedAt + 2 * UNINSTALL_DROPPED_AFTER_MS);
+
+    expect(key).toMatchObject({
+      uninstallStatus: "confirmed",
+      uninstallTxHash: TX,
+      uninstallable: false,
+      uninstallError: null,
+    });
+  });
+
+  test("leaves a timed-out uninstall failed while there is still no receipt", async () => {
+    mockGetReceipt.mockImplementation(notFound);
+    const timedOut = { ...submittedKey(), uninstallStatus: "failed" as const };
+
+    const key = await reconcileUninstall(timedOut, requestedAt + 2 * UNINSTALL_DROPPED_AFTER_MS);
+
+    expect(key.uninstallStatus).toBe("failed");
+    expect(queries).toHaveLength(0);
+  });
+
+  test("keeps the status when the receipt lookup itself fails", async () => {
+    mockGetReceipt.mockRejectedValue(new Error("bundler unreachable"));
+
+    const key = await reconcileUninstall(
+      submittedKey(),
+      requestedAt + UNINSTALL_DROPPED_AFTER_MS + 1
+    );
+
+    expect(key.uninstallStatus).toBe("submitted");
+    expect(queries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Session Renewal Tests
+ * Verifies sessions are classified by expiry and renewal state, the cron scan
+ * opens and abandons renewals, and storing a new key resolves them
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+
+const queries: Array<{ text: string; values: unknown[] }> = [];
+let responses: Array<{ match: string; rows: Array<Record<string, unknown>> }> = [];
+
+vi.mock("@neondatabase/serverless", () => ({
+  neon:
+    () =>
+    async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const text = strings.join("?");
+      queries.push({ text, values });
+      return responses.find((r) => text.includes(r.match))?.rows ?? [];
+    },
+}));
+
+process.env.DATABASE_URL ||= "postgres://test";
+
+const {
+  RENEWAL_ABANDON_AFTER_SECONDS,
+  RENEWAL_WINDOW_SECONDS,
+  classifySession,
+  expiredSessionReason,
+  getOpenRenewals,
+  getRenewalStatus,
+  recordSessionRenewed,
+  scanExpiringSessions,
+} = await import("@/lib/agent/session-renewal");
+
+const WALLET = "0xAbCdEf0000000000000000000000000000000001";
+const OLD_KEY = "0x00000000000000000000000000000000000000AA";
+const NEW_KEY = "0x00000000000000000000000000000000000000BB";
+const NOW = 1_800_000_000;
+
+beforeEach(() => {
+  queries.length = 0;
+  responses = [];
+});
+
+describe("classifySession", () => {
+  test("active outside the renewal window, expiring inside it", () => {
+    expect(classifySession(NOW + RENEWAL_WINDOW_SECONDS + 1, null, NOW)).toBe("active");
+    expect(classifySession(NOW + RENEWAL_WINDOW_SECONDS, null, NOW)).toBe("expiring");
+    expect(classifySession(NOW + 60, "pending", NOW)).toBe("expiring");
+  });
+
+  test("expired keys are pending until abandoned", () => {
+    expect(classifySession(NOW - 60, "pending", NOW)).toBe("expired_pending");
+    expect(classifySession(NOW - 60, null, NOW)).toBe("expired_pending");
+    expect(classifySession(NOW - 60, "abandoned", NOW)).toBe("abandoned");
+    // Past the abandon window even before the cron marks it
+    expect(classifySession(NOW - RENEWAL_ABANDON_AFTER_SECONDS - 1, "pending", NOW)).toBe(
+      "abandoned"
+    );
+  });
+
+  test("skip reasons distinguish pending from abandoned renewals", () => {
+    expect(expiredSessionReason("pending")).toBe("Session key expired (renewal pending)");
+    expect(expiredSessionReason("abandoned")).toBe("Session key expired (renewal abandoned)");
+    expect(expiredSessionReason(null)).toBe("Session key expired");
+  });
+});
+
+describe("scanExpiringSessions", () => {
+  test("opens agent and transfer renewals inside the window and abandons stale ones", async () => {
+    responses = [
+      { match: "'agent'", rows: [{ id: "r-1" }, { id: "r-2" }] },
+      { match: "'transfer'", rows: [{ id: "r-3" }] },
+      { match: "SET status = 'abandoned'", rows: [{ id: "r-0" }] },
+    ];
+
+    const summary = await scanExpiringSessions(new Date(NOW * 1000));
+
+    expect(summary).toEqual({ opened: 3, abandoned: 1 });
+    expect(queries).toHaveLength(3);
+    expect(queries[0].values).toEqual([NOW + RENEWAL_WINDOW_SECONDS]);
+    expect(queries[0].text).toContain("ON CONFLICT (session_kind, session_key_address) DO NOTHING");
+    expect(queries[1].text).toContain("transfer_authorization->>'expiry'");
+    expect(queries[2].values).toEqual([
+      new Date((NOW - RENEWAL_ABANDON_AFTER_SECONDS) * 1000).toISOString(),
+    ]);
+  });
+});
+
+describe("renewal bookkeeping", () => {
+  test("recordSessionRenewed resolves the wallet's other keys of that kind", async () => {
+    responses = [{ match: "SET\n      status = 'renewed'", rows: [{ id: "r-1" }] }];
+
+    const resolved = await recordSessionRenewed(WALLET, "agent", NEW_KEY);
+
+    expect(resolved).toBe(1);
+    expect(queries[0].text).toContain("status IN ('pending', 'abandoned')");
+    expect(queries[0].values).toEqual([
+      NEW_KEY.toLowerCase(),
+      WALLET.toLowerCase(),
+      "agent",
+      NEW_KEY.toLowerCase(),
+    ]);
+  });
+
+  test("getRenewalStatus looks up the key case-insensitively", async () => {
+    responses = [{ match: "SELECT status FROM session_renewals", rows: [{ status: "abandoned" }] }];
+
+    expect(await getRenewalStatus("agent", OLD_KEY)).toBe("abandoned");
+    expect(queries[0].values).toEqual(["agent", OLD_KEY.toLowerCase()]);
+
+    responses = [];
+    expect(await getRenewalStatus("transfer", OLD_KEY)).toBeNull();
+  });
+
+  test("getOpenRenewals maps rows to notices", async () => {
+    responses = [
+      {
+        match: "SELECT * FROM session_renewals",
+        rows: [
+          {
+            id: "r-1",
+            session_kind: "agent",
+            session_key_address: OLD_KEY.toLowerCase(),
+            expires_at: "2027-01-15T00:00:00Z",
+            status: "pending",
+            notified_at: "2027-01-13T00:00:00Z",
+            dismissed_at: null,
+            renewed_at: null,
+            abandoned_at: null,
+          },
+        ],
+      },
+    ];
+
+    const [renewal] = await getOpenRenewals(WALLET);
+
+    expect(renewal).toEqual({
+      id: "r-1",
+      sessionKind: "agent",
+      sessionKeyAddress: OLD_KEY.toLowerCase(),
+      expiresAt: "2027-01-15T00:00:00.000Z",
+      status: "pending",
+      notifiedAt: "2027-01-13T00:00:00.000Z",
+      dismissedAt: null,
+      renewedAt: null,
+      abandonedAt: null,
+    });
+  });
+});
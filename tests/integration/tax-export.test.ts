@@ -0,0 +1,199 @@
+/**
+ * Tax Export Tests
+ * Chronological ledger rows with cost basis, transfers, date ranges,
+ * per-year summaries and CSV output
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+
+let ledgerRows: any[] = [];
+let actionRows: any[] = [];
+
+vi.mock("@neondatabase/serverless", () => ({
+  neon:
+    () =>
+    async (strings: TemplateStringsArray, ..._values: unknown[]) => {
+      const text = strings.join("?");
+      if (text.includes("FROM agent_actions a")) return actionRows;
+      if (text.includes("FROM position_ledger l")) return ledgerRows;
+      return [];
+    },
+}));
+
+vi.mock("@/lib/shared/rpc-client", () => ({
+  baseClient: { readContract: vi.fn() },
+}));
+
+vi.mock("@/lib/protocols/adapter", () => ({
+  protocolRegistry: { getAllPositions: vi.fn().mockResolvedValue([]) },
+}));
+
+process.env.DATABASE_URL = process.env.DATABASE_URL || "postgres://test";
+
+const { buildTaxExport, taxRowsToCsv, taxYearsToCsv } = await import("@/lib/agent/tax-export");
+
+const USER = "0x1111111111111111111111111111111111111111";
+const VAULT = "0x000000000000000000000000000000000000000a";
+
+function ledger(
+  entryType: string,
+  shares: bigint,
+  assets: bigint,
+  createdAt: string,
+  txHash: string
+) {
+  return {
+    id: txHash,
+    vault_address: VAULT,
+    protocol: "morpho",
+    entry_type: entryType,
+    shares: shares.toString(),
+    assets: assets.toString(),
+    tx_hash: txHash,
+    agent_action_id: null,
+    created_at: createdAt,
+  };
+}
+
+describe("Tax Export", () => {
+  beforeEach(() => {
+    ledgerRows = [
+      ledger("deposit", 1_000_000_000n, 1_000_000_000n, "2025-03-01T00:00:00Z", "0xd1"),
+      ledger("withdraw", 500_000_000n, 540_000_000n, "2025-11-01T00:00:00Z", "0xw1"),
+      ledger("withdraw", 500_000_000n, 560_000_000n, "2026-02-01T00:00:00Z", "0xw2"),
+    ];
+    actionRows = [
+      {
+        action_type: "transfer",
+        amount_usdc: "25.5",
+        tx_hash: "0xt1",
+        metadata: { recipient: "0x2222222222222222222222222222222222222222" },
+        created_at: "2025-06-01T00:00:00Z",
+      },
+    ];
+  });
+
+  test("merges ledger lots and transfers chronologically with cost basis", async () => {
+    const data = await buildTaxExport(USER);
+
+    expect(data.rows.map((r) => r.txHash)).toEqual(["0xd1", "0xt1", "0xw1", "0xw2"]);
+    expect(data.rows[0]).toMatchObject({
+      type: "deposit",
+      shares: "1000000000",
+      usdcAmount: "1000",
+      costBasis: "1000",
+      realizedIncome: "0",
+    });
+    expect(data.rows[1]).toMatchObject({
+      type: "transfer",
+      usdcAmount: "25.5",
+      costBasis: "25.5",
+      counterparty: "0x2222222222222222222222222222222222222222",
+    });
+    expect(data.rows[2]).toMatchObject({ costBasis: "500", realizedIncome: "40" });
+  });
+
+  test("keeps full-history cost basis when filtering by date range", async () => {
+    const data = await buildTaxExport(USER, {
+      from: new Date("2026-01-01T00:00:00Z"),
+      to: new Date("2027-01-01T00:00:00Z"),
+    });
+
+    expect(data.rows).toHaveLength(1);
+    expect(data.rows[0]).toMatchObject({ txHash: "0xw2", costBasis: "500", realizedIncome: "60" });
+    expect(data.years).toEqual([
+      expect.objectContaining({ year: 2026, withdrawals: "560", realizedIncome: "60" }),
+    ]);
+  });
+
+  test("summarizes each tax year", async () => {
+    const { years } = await buildTaxExport(USER);
+
+    expect(years).toEqual([
+      {
+        year: 2025,
+        deposits: "1000",
+        withdrawals: "540",
+        rebalanceVolume: "0",
+        transfersOut: "25.5",
+        costBasis: "500",
+        realizedIncome: "40",
+        unknownBasisProceeds: "0",
+        unknownBasisRows: 0,
+        transactions: 3,
+      },
+      {
+        year: 2026,
+        deposits: "0",
+        withdrawals: "560",
+        rebalanceVolume: "0",
+        transfersOut: "0",
+        costBasis: "500",
+        realizedIncome: "60",
+        unknownBasisProceeds: "0",
+        unknownBasisRows: 0,
+        transactions: 1,
+      },
+    ]);
+  });
+
+  test("includes settled rebalances that predate the ledger", async () => {
+    actionRows = [
+      {
+        action_type: "rebalance",
+        amount_usdc: "100",
+        tx_hash: "0xr1",
+        from_protocol: "Vault A",
+        to_protocol: "Vault B",
+        metadata: { toVault: VAULT },
+        created_at: "2024-12-01T00:00:00Z",
+      },
+    ];
+
+    const { rows, years } = await buildTaxExport(USER);
+
+    expect(rows[0]).toMatchObject({
+      type: "rebalance",
+      vaultAddress: VAULT,
+      costBasis: null,
+      realizedIncome: null,
+      basisUnknown: true,
+    });
+    expect(years[0]).toMatchObject({ year: 2024, rebalanceVolume: "100", realizedIncome: "0" });
+  });
+
+  test("flags exits from holdings that predate the ledger instead of booking income", async () => {
+    ledgerRows = [
+      ledger("rebalance_out", 1_000_000_000n, 1_020_000_000n, "2025-05-01T00:00:00Z", "0xr1"),
+    ];
+    actionRows = [];
+
+    const { rows, years } = await buildTaxExport(USER);
+
+    expect(rows[0]).toMatchObject({
+      costBasis: null,
+      realizedIncome: null,
+      basisUnknown: true,
+      unknownBasisProceeds: "1020",
+    });
+    expect(years[0]).toMatchObject({
+      realizedIncome: "0",
+      unknownBasisProceeds: "1020",
+      unknownBasisRows: 1,
+    });
+  });
+
+  test("renders CSV with a header row and quoted fields", async () => {
+    const data = await buildTaxExport(USER);
+    data.rows[0].protocol = 'morpho, "steakhouse"';
+
+    const lines = taxRowsToCsv(data.rows).trim().split("\n");
+
+    expect(lines[0]).toBe(
+      "Date,Type,Tx Hash,Protocol,Vault,Shares,USDC Amount,Cost Basis (USDC),Realized Income (USDC),Basis Unknown,Unknown Basis Amount (USDC),Counterparty"
+    );
+    expect(lines).toHaveLength(5);
+    expect(lines[1]).toContain('"morpho, ""steakhouse"""');
+    expect(taxYearsToCsv(data.years).split("\n")[1]).toBe("2025,1000,540,0,25.5,500,40,0,0,3");
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Transfer Policy Tests
+ * Verifies user-chosen transfer limits resolve into the on-chain session key
+ * policy, and that the server-side rate limiter enforces the same limits
+ */
+
+import { describe, test, expect, beforeEach } from "vitest";
+import {
+  DEFAULT_TRANSFER_LIMITS,
+  MAX_ALLOWED_RECIPIENTS,
+  isRecipientAllowed,
+  isSameTransferPolicy,
+  perTransferCapUnits,
+  resolveTransferPolicy,
+  transferLimitsFromPolicy,
+  transferRateLimitPolicy,
+} from "@/lib/zerodev/transfer-session";
+import {
+  checkTransferRateLimit,
+  recordTransferAttempt,
+  resetUserRateLimit,
+  transferRateLimitConfig,
+} from "@/lib/rate-limiter";
+
+const USER = "0xPOLICY_TEST_12345678901234567890123";
+const EXCHANGE = "0x71c7656ec7ab88b098defb751b7401b5f6d8976f";
+const PAYROLL = "0x00000000000000000000000000000000000000a1";
+
+describe("resolveTransferPolicy", () => {
+  test("defaults match the previous off-chain limits", () => {
+    const policy = resolveTransferPolicy();
+
+    expect(policy).toEqual({
+      maxAmountPerTransfer: DEFAULT_TRANSFER_LIMITS.maxAmountPerTransfer,
+      maxDailySpend: DEFAULT_TRANSFER_LIMITS.maxDailySpend,
+      transfersPerDay: 20,
+      interval: 86400,
+      allowedRecipients: [],
+    });
+    expect(perTransferCapUnits(policy)).toBe(500_000_000n);
+  });
+
+  test("clamps the daily count so count × per-call cap stays within the daily spend", () => {
+    const policy = resolveTransferPolicy({ maxAmountPerTransfer: 250, maxDailySpend: 1000 });
+
+    expect(policy.transfersPerDay).toBe(4);
+    expect(policy.transfersPerDay * policy.maxAmountPerTransfer).toBeLessThanOrEqual(
+      policy.maxDailySpend
+    );
+  });
+
+  test("encodes fractional per-call caps in USDC units", () => {
+    expect(perTransferCapUnits(resolveTransferPolicy({ maxAmountPerTransfer: 12.5 }))).toBe(
+      12_500_000n
+    );
+  });
+
+  test("rejects inconsistent limits", () => {
+    expect(() => resolveTransferPolicy({ maxAmountPerTransfer: 0 })).toThrow("must be positive");
+    expect(() => resolveTransferPolicy({ maxTransfersPerDay: 1.5 })).toThrow("positive integer");
+    expect(() => resolveTransferPolicy({ maxAmountPerTransfer: 600, maxDailySpend: 500 })).toThrow(
+      "cannot exceed maxDailySpend"
+    );
+  });
+
+  test("compares policies by their encoded limits", () => {
+    const policy = resolveTransferPolicy({ maxAmountPerTransfer: 100 });
+
+    expect(isSameTransferPolicy(policy, resolveTransferPolicy({ maxAmountPerTransfer: 100 }))).toBe(
+      true
+    );
+    expect(isSameTransferPolicy(policy, resolveTransferPolicy())).toBe(false);
+    expect(isSameTransferPolicy(undefined, policy)).toBe(false);
+  });
+});
+
+describe("transferRateLimitPolicy", () => {
+  test("uses the resetting rate-limit contract so the count renews each interval", async () => {
+    const policy = resolveTransferPolicy({ maxAmountPerTransfer: 250, maxDailySpend: 1000 });
+    const rateLimit = await transferRateLimitPolicy(policy);
+
+    expect(rateLimit.policyParams).toMatchObject({
+      policyAddress: "0x6a06358e6b283921deceabe7e8a3741d506cca9b",
+      count: 4,
+      interval: 86400,
+    });
+    // 6-byte interval followed by 6-byte count, no startAt
+    expect(rateLimit.getPolicyData()).toBe("0x000000015180000000000004");
+    expect(rateLimit.getPolicyInfoInBytes().toLowerCase()).toContain(
+      "6a06358e6b283921deceabe7e8a3741d506cca9b"
+    );
+  });
+});
+
+describe("recipient allowlist", () => {
+  test("checksums, dedupes and sorts recipients", () => {
+    const policy = resolveTransferPolicy({
+      allowedRecipients: [EXCHANGE, PAYROLL, EXCHANGE.toUpperCase().replace("0X", "0x")],
+    });
+
+    expect(policy.allowedRecipients).toEqual([
+      "0x00000000000000000000000000000000000000A1",
+      "0x71C7656EC7ab88b098defB751B7401B5f6d8976F",
+    ]);
+  });
+
+  test("rejects invalid addresses and oversized lists", () => {
+    expect(() => resolveTransferPolicy({ allowedRecipients: ["0x1234"] })).toThrow(
+      "Invalid recipient address: 0x1234"
+    );
+
+    const tooMany = Array.from(
+      { length: MAX_ALLOWED_RECIPIENTS + 1 },
+      (_, i) => `0x${(i + 1).toString(16).padStart(40, "0")}`
+    );
+    expect(() => resolveTransferPolicy({ allowedRecipients: tooMany })).toThrow(
+      `At most ${MAX_ALLOWED_RECIPIENTS} allowed recipients`
+    );
+  });
+
+  test("admits only listed recipients, or anyone without a list", () => {
+    const policy = resolveTransferPolicy({ allowedRecipients: [EXCHANGE] });
+
+    expect(isRecipientAllowed(policy, EXCHANGE.toUpperCase().replace("0X", "0x"))).toBe(true);
+    expect(isRecipientAllowed(policy, PAYROLL)).toBe(false);
+    expect(isRecipientAllowed(resolveTransferPolicy(), PAYROLL)).toBe(true);
+    expect(isRecipientAllowed(undefined, PAYROLL)).toBe(true);
+  });
+
+  test("changing the allowlist changes the policy, so the key is re-granted", () => {
+    const policy = resolveTransferPolicy({ allowedRecipients: [EXCHANGE] });
+    const regranted = resolveTransferPolicy({
+      ...transferLimitsFromPolicy(policy),
+      allowedRecipients: [EXCHANGE, PAYROLL],
+    });
+
+    expect(regranted.maxAmountPerTransfer).toBe(policy.maxAmountPerTransfer);
+    expect(isSameTransferPolicy(policy, regranted)).toBe(false);
+    expect(
+      isSameTransferPolicy(policy, resolveTransferPolicy(transferLimitsFromPolicy(policy)))
+    ).toBe(true);
+  });
+});
+
+describe("server-side checks follow the encoded policy", () => {
+  beforeEach(() => {
+    resetUserRateLimit(USER);
+  });
+
+  test("uses the session's per-call cap and daily count", () => {
+    const config = transferRateLimitConfig(
+      resolveTransferPolicy({ maxAmountPerTransfer: 100, maxTransfersPerDay: 2 })
+    );
+
+    expect(checkTransferRateLimit(USER, 150, config).reason).toContain("$100 per transfer");
+
+    recordTransferAttempt(USER, 50, true);
+    recordTransferAttempt(USER, 50, true);
+
+    const result = checkTransferRateLimit(USER, 50, config);
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toContain("Daily transfer limit of 2");
+  });
+
+  test("rejects a transfer that would exceed the daily spend", () => {
+    const config = {
+      maxTransfersPerDay: 20,
+      maxAmountPerTransfer: 500,
+      maxDailySpend: 1000,
+      windowMs: 24 * 60 * 60 * 1000,
+    };
+
+    recordTransferAttempt(USER, 400, true);
+    recordTransferAttempt(USER, 400, true);
+    recordTransferAttempt(USER, 400, false);
+
+    expect(checkTransferRateLimit(USER, 200, config).allowed).toBe(true);
+
+    const result = checkTransferRateLimit(USER, 300, config);
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toContain("Daily spend limit of $1000");
+    expect(result.attemptsRemaining).toBe(18);
+  });
+
+  test("sessions without a stored policy keep the default limits", () => {
+    expect(transferRateLimitConfig(undefined)).toEqual(
+      transferRateLimitConfig(resolveTransferPolicy())
+    );
+  });
+});
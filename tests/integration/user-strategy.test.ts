@@ -0,0 +1,243 @@
+/**
+ * Per-User Strategy Tests
+ * Verifies user_strategies parsing and that YieldDecisionEngine honors
+ * each user's APY threshold, slippage cap and risk level
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { YieldDecisionEngine } from "@/lib/agent/decision-engine";
+import {
+  DEFAULT_USER_STRATEGY,
+  isRiskAccepted,
+  parseUserStrategy,
+  validateStrategySettings,
+} from "@/lib/agent/user-strategy";
+import type { MorphoClient } from "@/lib/morpho/api-client";
+
+const auth = vi.hoisted(() => {
+  process.env.NEXT_PUBLIC_PRIVY_APP_ID ||= "test-app";
+  process.env.PRIVY_APP_SECRET ||= "test-secret";
+  return { wallet: "", queries: [] as string[] };
+});
+const { queries } = auth;
+
+// Any "Bearer valid" token belongs to auth.wallet
+vi.mock("@privy-io/node", () => ({
+  PrivyClient: class {
+    utils = () => ({
+      auth: () => ({
+        verifyAccessToken: async (token: string) => {
+          if (token !== "valid") throw new Error("Invalid token");
+          return { user_id: "did:privy:user" };
+        },
+      }),
+    });
+    users = () => ({
+      _get: async () => ({
+        linked_accounts: [{ type: "wallet", chainType: "ethereum", address: auth.wallet }],
+      }),
+    });
+  },
+}));
+
+vi.mock("@neondatabase/serverless", () => ({
+  neon: () => async (strings: TemplateStringsArray) => {
+    queries.push(strings.join("?"));
+    return [{ min_apy_gain_threshold: "1", max_slippage_tolerance: "0.3", risk_level: "low" }];
+  },
+}));
+
+process.env.DATABASE_URL ||= "postgres://test";
+const { GET } = await import("@/app/api/agent/strategy/route");
+
+const USER = "0x1111111111111111111111111111111111111111" as `0x${string}`;
+const CURRENT = "0x000000000000000000000000000000000000c001";
+const SAFE = "0x000000000000000000000000000000000000a001";
+const RISKY = "0x000000000000000000000000000000000000b001";
+
+function vault(address: string, apy: number, overrides: Record<string, any> = {}) {
+  return {
+    address,
+    name: `Vault ${address.slice(-4)}`,
+    avgNetApy: apy,
+    netApy: apy,
+    totalAssetsUsd: 5_000_000,
+    liquidityUsd: 4_000_000,
+    whitelisted: true,
+    performanceFee: 0.1,
+    managementFee: 0,
+    warnings: [],
+    curators: { items: [{ name: "Steakhouse" }] },
+    ...overrides,
+  };
+}
+
+// Risky vault: unwhitelisted, unknown curator, yellow warning → high risk
+const riskyVault = vault(RISKY, 0.09, {
+  whitelisted: false,
+  warnings: [{ type: "test", level: "YELLOW" }],
+  curators: { items: [{ name: "Unknown Labs" }] },
+});
+const safeVault = vault(SAFE, 0.07);
+const currentVault = vault(CURRENT, 0.05);
+
+function mockClient(vaults: any[]): MorphoClient {
+  return {
+    fetchUserPositions: vi
+      .fn()
+      .mockResolvedValue([
+        { shares: "1000000", assets: "1000000", assetsUsd: 1000, vault: { address: CURRENT } },
+      ]),
+    fetchVault: vi.fn().mockResolvedValue(currentVault),
+    fetchVaults: vi.fn().mockResolvedValue(vaults),
+  } as unknown as MorphoClient;
+}
+
+describe("parseUserStrategy", () => {
+  test("converts percent columns to decimals", () => {
+    const strategy = parseUserStrategy({
+      min_apy_gain_threshold: "1.5",
+      max_slippage_tolerance: "0.25",
+      risk_level: "low",
+    });
+
+    expect(strategy.minApyGainThreshold).toBeCloseTo(0.015);
+    expect(strategy.maxSlippageTolerance).toBeCloseTo(0.0025);
+    expect(strategy.riskLevel).toBe("low");
+  });
+
+  test("falls back to defaults for missing or malformed values", () => {
+    expect(parseUserStrategy(null)).toEqual(DEFAULT_USER_STRATEGY);
+    expect(
+      parseUserStrategy({
+        min_apy_gain_threshold: null,
+        max_slippage_tolerance: "abc",
+        risk_level: "extreme",
+      })
+    ).toEqual(DEFAULT_USER_STRATEGY);
+  });
+});
+
+describe("validateStrategySettings", () => {
+  test("accepts values within bounds", () => {
+    expect(
+      validateStrategySettings({
+        minApyGainThreshold: 1,
+        maxSlippageTolerance: 0.5,
+        riskLevel: "high",
+      }).valid
+    ).toBe(true);
+  });
+
+  test("rejects out-of-range thresholds and unknown risk levels", () => {
+    expect(validateStrategySettings({ minApyGainThreshold: 50 }).valid).toBe(false);
+    expect(validateStrategySettings({ maxSlippageTolerance: -1 }).valid).toBe(false);
+    expect(validateStrategySettings({ minApyGainThreshold: "1" }).valid).toBe(false);
+    expect(validateStrategySettings({ riskLevel: "yolo" }).valid).toBe(false);
+  });
+
+  test("risk levels are ordered low < medium < high", () => {
+    expect(isRiskAccepted("low", "medium")).toBe(true);
+    expect(isRiskAccepted("high", "medium")).toBe(false);
+    expect(isRiskAccepted("high", "high")).toBe(true);
+  });
+});
+
+describe("YieldDecisionEngine with user strategy", () => {
+  test("filters candidate vaults above the user's risk level", async () => {
+    const engine = new YieldDecisionEngine(mockClient([riskyVault, safeVault, currentVault]));
+
+    const decision = await engine.evaluateRebalancing(USER, null, {
+      ...DEFAULT_USER_STRATEGY,
+      riskLevel: "low",
+    });
+
+    expect(decision.shouldRebalance).toBe(true);
+    expect(decision.targetVault?.address).toBe(SAFE);
+  });
+
+  test("high risk level allows the riskier, higher-APY vault", async () => {
+    const engine = new YieldDecisionEngine(mockClient([riskyVault, safeVault, currentVault]));
+
+    const decision = await engine.evaluateRebalancing(USER, null, {
+      ...DEFAULT_USER_STRATEGY,
+      riskLevel: "high",
+    });
+
+    expect(decision.targetVault?.address).toBe(RISKY);
+  });
+
+  test("applies the user's APY gain threshold instead of the global one", async () => {
+    const engine = new YieldDecisionEngine(mockClient([safeVault, currentVault]));
+
+    // 2% improvement available, user demands 3%
+    const decision = await engine.evaluateRebalancing(USER, null, {
+      ...DEFAULT_USER_STRATEGY,
+      minApyGainThreshold: 0.03,
+    });
+
+    expect(decision.shouldRebalance).toBe(false);
+    expect(decision.reason).toContain("APY improvement too small");
+  });
+
+  test("targeted mode never uses a threshold above the user's own", async () => {
+    const engine = new YieldDecisionEngine(mockClient([vault(SAFE, 0.0505), currentVault]));
+
+    const decision = await engine.evaluateRebalancing(USER, [CURRENT], {
+      ...DEFAULT_USER_STRATEGY,
+      minApyGainThreshold: 0.0001,
+    });
+
+    expect(decision.shouldRebalance).toBe(true);
+    expect(decision.reason).toContain("[TARGETED]");
+  });
+
+  test("blocks the rebalance when estimated slippage exceeds the user's cap", async () => {
+    const engine = new YieldDecisionEngine(mockClient([safeVault, currentVault]));
+
+    const decision = await engine.evaluateRebalancing(USER, null, {
+      ...DEFAULT_USER_STRATEGY,
+      maxSlippageTolerance: 0.0005,
+    });
+
+    expect(decision.shouldRebalance).toBe(false);
+    expect(decision.targetVault).toBeNull();
+    expect(decision.reason).toContain("slippage");
+  });
+});
+
+describe("GET /api/agent/strategy", () => {
+  const request = (token: string | null = "valid") =>
+    new NextRequest(`http://localhost/api/agent/strategy?address=${USER}`, {
+      headers: token ? { authorization: `Bearer ${token}` } : {},
+    });
+
+  beforeEach(() => {
+    queries.length = 0;
+    auth.wallet = USER;
+  });
+
+  test("returns the strategy to the wallet's owner", async () => {
+    const response = await GET(request());
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).strategy).toMatchObject({ riskLevel: "low" });
+  });
+
+  test("requires authentication", async () => {
+    const response = await GET(request(null));
+
+    expect(response.status).toBe(401);
+    expect(queries).toHaveLength(0);
+  });
+
+  test("refuses another wallet's strategy", async () => {
+    auth.wallet = "0x2222222222222222222222222222222222222222";
+
+    const response = await GET(request());
+
+    expect(response.status).toBe(403);
+    expect(queries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Pre-Execution UserOp Simulation Tests
+ * executeRebalance simulates the batch against the kernel account and
+ * aborts before reaching the bundler when assets or reverts look wrong
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+import { decodeFunctionData, parseAbi } from "viem";
+
+const mockReadContract = vi.fn();
+const mockSimulateCalls = vi.fn();
+
+vi.mock("viem", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("viem")>();
+  return {
+    ...actual,
+    createPublicClient: () => ({
+      readContract: mockReadContract,
+      simulateCalls: mockSimulateCalls,
+    }),
+  };
+});
+
+vi.mock("@/lib/zerodev/kernel-client", async () => {
+  const { createMockBundlerClient } = await import("../mocks/zerodev-bundler");
+  return {
+    createDeserializedKernelClient: async () => createMockBundlerClient({}),
+    createSessionKernelClient: async () => createMockBundlerClient({}),
+    verifyDelegationAfterExecution: async () => true,
+  };
+});
+
+vi.mock("@/lib/zerodev/client-secure", () => ({
+  checkSmartAccountActive: async () => ({ active: true, isDelegation: false }),
+}));
+
+const { executeRebalance } = await import("@/lib/agent/rebalance-executor");
+const { mockBundlerResponse, getBundlerCallCount, resetBundlerMocks } = await import(
+  "../mocks/zerodev-bundler"
+);
+
+const USER = "0x1111111111111111111111111111111111111111" as `0x${string}`;
+const VAULT_A = "0x000000000000000000000000000000000000000a" as `0x${string}`;
+const VAULT_B = "0x000000000000000000000000000000000000000b" as `0x${string}`;
+const USDC = "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913";
+const USDC_UNITS = (n: number) => BigInt(Math.round(n * 1_000_000));
+
+const ABI = parseAbi([
+  "function balanceOf(address owner) view returns (uint256)",
+  "function redeem(uint256 shares, address receiver, address owner) returns (uint256 assets)",
+  "function deposit(uint256 assets, address receiver) returns (uint256 shares)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+]);
+
+/**
+ * Stand-in for eth_simulateV1: replays calls against a tiny balance model.
+ * Redeems release `redeemedAssets` USDC, deposits mint 1 share per unit.
+ */
+function fakeSimulation(redeemedAssets: bigint, revertAt?: string) {
+  return async ({ calls }: { calls: Array<{ to: string; data: `0x${string}` }> }) => {
+    let usdc = 0n;
+    const shares = new Map<string, bigint>();
+
+    const results = calls.map((call) => {
+      const { functionName, args } = decodeFunctionData({ abi: ABI, data: call.data });
+      if (functionName === revertAt) {
+        return { status: "failure", data: "0x", error: new Error("execution reverted") };
+      }
+      let value = 0n;
+      if (functionName === "balanceOf") {
+        value = call.to.toLowerCase() === USDC ? usdc : (shares.get(call.to.toLowerCase()) ?? 0n);
+      } else if (functionName === "redeem") {
+        usdc += redeemedAssets;
+      } else if (functionName === "deposit") {
+        const amount = args[0] as bigint;
+        usdc -= amount;
+        shares.set(call.to.toLowerCase(), (shares.get(call.to.toLowerCase()) ?? 0n) + amount);
+      }
+      return { status: "success", data: `0x${value.toString(16).padStart(64, "0")}` };
+    });
+
+    return { results, assetChanges: [], block: {} };
+  };
+}
+
+const params = { fromVault: VAULT_A, toVault: VAULT_B, shares: 1000n, userAddress: USER };
+
+function execute(
+  maxSlippage?: number,
+  overrides: { assets?: bigint; allowUncheckedBalances?: boolean } = {}
+) {
+  const { allowUncheckedBalances, ...paramOverrides } = overrides;
+  return executeRebalance(
+    USER,
+    { ...params, ...paramOverrides },
+    "0x01",
+    undefined,
+    undefined,
+    "serialized",
+    { maxSlippage, allowUncheckedBalances }
+  );
+}
+
+describe("pre-execution simulation", () => {
+  beforeEach(() => {
+    resetBundlerMocks();
+    mockReadContract.mockReset().mockResolvedValue(USDC_UNITS(1000)); // previewRedeem
+    mockSimulateCalls.mockReset();
+  });
+
+  test("submits when received assets are within the default tolerance", async () => {
+    mockSimulateCalls.mockImplementation(fakeSimulation(USDC_UNITS(999)));
+
+    const result = await execute();
+
+    expect(result.success).toBe(true);
+    expect(getBundlerCallCount()).toBe(1);
+    expect(result.simulation).toMatchObject({
+      method: "eth_simulateV1",
+      balanceChecked: true,
+      expectedAssets: "1000000000",
+      receivedAssets: "999000000",
+      maxSlippage: 0.005,
+    });
+    expect(result.simulation?.slippage).toBeCloseTo(0.001, 6);
+    expect(result.simulation?.shares?.[0]).toMatchObject({ vault: VAULT_B, before: "0" });
+  });
+
+  test("aborts before submission when slippage exceeds the user's tolerance", async () => {
+    mockSimulateCalls.mockImplementation(fakeSimulation(USDC_UNITS(997)));
+
+    const result = await execute(0.001);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("exceeds 0.10% tolerance");
+    expect(result.simulation?.receivedAssets).toBe("997000000");
+    expect(mockBundlerResponse.sendUserOperation).not.toHaveBeenCalled();
+  });
+
+  test("measures slippage against the assets the decision planned", async () => {
+    // previewRedeem matches what the redeem releases, but the decision planned 1010
+    mockSimulateCalls.mockImplementation(fakeSimulation(USDC_UNITS(1000)));
+
+    const result = await execute(undefined, { assets: USDC_UNITS(1010) });
+
+    expect(result.success).toBe(false);
+    expect(result.simulation).toMatchObject({
+      expectedAssets: "1000000000",
+      plannedAssets: "1010000000",
+    });
+    expect(result.error).toContain("1010000000 planned");
+    expect(mockBundlerResponse.sendUserOperation).not.toHaveBeenCalled();
+  });
+
+  test("aborts with the failing step when a call would revert", async () => {
+    mockSimulateCalls.mockImplementation(fakeSimulation(USDC_UNITS(1000), "deposit"));
+
+    const result = await execute();
+
+    expect(result.success).toBe(false);
+    expect(result.simulation?.failedStep).toBe(3);
+    expect(result.error).toContain("Call 3/3 reverted");
+    expect(mockBundlerResponse.sendUserOperation).not.toHaveBeenCalled();
+  });
+
+  test("falls back to bundler simulation when eth_simulateV1 is unsupported", async () => {
+    mockSimulateCalls.mockRejectedValue(new Error("the method eth_simulateV1 does not exist"));
+
+    const result = await execute(undefined, { allowUncheckedBalances: true });
+
+    expect(mockBundlerResponse.estimateUserOperationGas).toHaveBeenCalledTimes(1);
+    expect(result.simulation).toMatchObject({ method: "bundler_estimate", balanceChecked: false });
+    expect(result.success).toBe(true);
+  });
+
+  test("refuses a revert-only simulation unless unchecked balances are allowed", async () => {
+    mockSimulateCalls.mockRejectedValue(new Error("the method eth_simulateV1 does not exist"));
+
+    const result = await execute();
+
+    expect(mockBundlerResponse.estimateUserOperationGas).toHaveBeenCalledTimes(1);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("balances and slippage could not be checked");
+    expect(mockBundlerResponse.sendUserOperation).not.toHaveBeenCalled();
+  });
+
+  test("keeps the UserOp hash for the tracker when the receipt can't be read", async () => {
+    mockSimulateCalls.mockImplementation(fakeSimulation(USDC_UNITS(1000)));
+    mockBundlerResponse.waitForUserOperationReceipt.mockRejectedValueOnce(
+      new Error("502 Bad Gateway")
+    );
+
+    const result = await execute();
+
+    expect(result.success).toBe(true);
+    expect(result.userOpHash).toMatch(/^0x/);
+    expect(result.receipt).toBeUndefined();
+  });
+
+  test("bundler simulation reverts block submission", async () => {
+    mockSimulateCalls.mockRejectedValue(new Error("Method not found"));
+    mockBundlerResponse.estimateUserOperationGas.mockRejectedValueOnce(
+      new Error("UserOperation reverted during simulation with reason: 0x")
+    );
+
+    const result = await execute();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("UserOp simulation reverted");
+    expect(mockBundlerResponse.sendUserOperation).not.toHaveBeenCalled();
+  });
+});
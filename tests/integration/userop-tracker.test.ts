@@ -0,0 +1,223 @@
+/**
+ * UserOp Receipt Tracker Tests
+ * submitted → included → confirmed/reverted transitions, stuck detection
+ * and what gets persisted on agent_actions
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { UserOperationReceiptNotFoundError } from "viem/account-abstraction";
+
+const queries: Array<{ text: string; values: unknown[] }> = [];
+let actionRows: any[] = [];
+
+vi.mock("@neondatabase/serverless", () => ({
+  neon:
+    () =>
+    async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const text = strings.join("?");
+      queries.push({ text, values });
+      if (text.includes("FROM agent_actions")) return actionRows;
+      if (text.includes("UPDATE agent_actions")) return [{ id: "action-1" }];
+      return [];
+    },
+}));
+
+const {
+  nextTxState,
+  summarizeReceipt,
+  trackPendingUserOps,
+  REQUIRED_CONFIRMATIONS,
+  STUCK_AFTER_MS,
+  DROPPED_AFTER_MS,
+} = await import("@/lib/agent/userop-tracker");
+const { GET } = await import("@/app/api/agent/cron/receipts/route");
+
+const PAYMASTER = "0x00000000000000000000000000000000000000aa";
+const HEAD = 1000n;
+
+function receipt(overrides: Record<string, unknown> = {}) {
+  return {
+    success: true,
+    actualGasUsed: 210000n,
+    actualGasCost: 4200000000000n,
+    paymaster: PAYMASTER,
+    receipt: { transactionHash: "0xabc", blockNumber: HEAD },
+    ...overrides,
+  };
+}
+
+function row(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "action-1",
+    user_op_hash: "0xuserop",
+    tx_status: "submitted",
+    submitted_at: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+const mockGetReceipt = vi.fn();
+const clients = {
+  bundlerClient: { getUserOperationReceipt: mockGetReceipt },
+  publicClient: { getBlockNumber: async () => HEAD },
+};
+const updates = () => queries.filter((q) => q.text.includes("UPDATE agent_actions"));
+
+describe("nextTxState", () => {
+  const submitted = { txStatus: "submitted" as const, submittedAt: new Date() };
+
+  test("a fresh receipt is included until it is deep enough, then confirmed", () => {
+    const fresh = summarizeReceipt(receipt());
+    expect(nextTxState(submitted, fresh, HEAD)?.txStatus).toBe("included");
+    expect(nextTxState({ ...submitted, txStatus: "included" }, fresh, HEAD)).toBeNull();
+
+    const deep = HEAD + BigInt(REQUIRED_CONFIRMATIONS - 1);
+    expect(nextTxState({ ...submitted, txStatus: "included" }, fresh, deep)?.txStatus).toBe(
+      "confirmed"
+    );
+  });
+
+  test("a failed receipt is reverted immediately", () => {
+    const reverted = summarizeReceipt(receipt({ success: false, reason: "0xdead" }));
+    expect(nextTxState(submitted, reverted, HEAD)?.txStatus).toBe("reverted");
+  });
+
+  test("missing receipts flag stuck ops after the timeout and un-include reorged ones", () => {
+    const now = Date.now();
+    const old = { txStatus: "submitted" as const, submittedAt: new Date(now - STUCK_AFTER_MS) };
+
+    expect(nextTxState({ ...old, submittedAt: new Date(now) }, null, HEAD, now)).toBeNull();
+    expect(nextTxState(old, null, HEAD, now)?.txStatus).toBe("stuck");
+    expect(nextTxState({ ...old, txStatus: "stuck" }, null, HEAD, now)).toBeNull();
+    expect(nextTxState({ ...old, txStatus: "included" }, null, HEAD, now)?.txStatus).toBe(
+      "submitted"
+    );
+  });
+
+  test("stuck ops with no receipt after the poll window are dropped", () => {
+    const now = Date.now();
+    const stuck = { txStatus: "stuck" as const, submittedAt: new Date(now - DROPPED_AFTER_MS) };
+
+    expect(nextTxState(stuck, null, HEAD, now)?.txStatus).toBe("dropped");
+    const landed = summarizeReceipt(receipt());
+    expect(nextTxState(stuck, landed, HEAD, now)?.txStatus).toBe("included");
+  });
+
+  test("zero-address paymasters are not counted as sponsorship", () => {
+    const summary = summarizeReceipt(
+      receipt({ paymaster: "0x0000000000000000000000000000000000000000" })
+    );
+    expect(summary.paymaster).toBeNull();
+  });
+});
+
+describe("trackPendingUserOps", () => {
+  beforeEach(() => {
+    queries.length = 0;
+    process.env.DATABASE_URL = "postgres://test";
+    mockGetReceipt.mockReset();
+  });
+
+  test("confirms deep receipts with real tx hash, gas and sponsorship cost", async () => {
+    actionRows = [row({ tx_status: "included" })];
+    mockGetReceipt.mockResolvedValue(
+      receipt({ receipt: { transactionHash: "0xabc", blockNumber: HEAD - 10n } })
+    );
+
+    const summary = await trackPendingUserOps(clients);
+
+    expect(summary).toMatchObject({ checked: 1, confirmed: 1 });
+    const { values } = updates()[0];
+    expect(values.slice(0, 7)).toEqual([
+      "confirmed",
+      "success",
+      "0xabc",
+      "210000",
+      "4200000000000",
+      PAYMASTER,
+      null,
+    ]);
+    expect(values).toContain("included"); // Guarded on the previous state
+  });
+
+  test("reverted ops fail the action with the revert reason", async () => {
+    actionRows = [row()];
+    mockGetReceipt.mockResolvedValue(receipt({ success: false, reason: "0xdead" }));
+
+    const summary = await trackPendingUserOps(clients);
+
+    expect(summary.reverted).toBe(1);
+    expect(updates()[0].values.slice(0, 2)).toEqual(["reverted", "failed"]);
+    expect(updates()[0].values).toContain("UserOp reverted on-chain: 0xdead");
+  });
+
+  test("flags ops the bundler has no receipt for after the timeout", async () => {
+    actionRows = [row({ submitted_at: new Date(Date.now() - STUCK_AFTER_MS - 1000) })];
+    mockGetReceipt.mockRejectedValue(
+      new UserOperationReceiptNotFoundError({ hash: "0xuserop" as `0x${string}` })
+    );
+
+    const summary = await trackPendingUserOps(clients);
+
+    expect(summary.stuck).toBe(1);
+    expect(updates()[0].values.slice(0, 3)).toEqual(["stuck", "pending", null]);
+  });
+
+  test("fails the action once a stuck op is dropped", async () => {
+    actionRows = [
+      row({ tx_status: "stuck", submitted_at: new Date(Date.now() - DROPPED_AFTER_MS - 1000) }),
+    ];
+    mockGetReceipt.mockRejectedValue(
+      new UserOperationReceiptNotFoundError({ hash: "0xuserop" as `0x${string}` })
+    );
+
+    const summary = await trackPendingUserOps(clients);
+
+    expect(summary.dropped).toBe(1);
+    expect(updates()[0].values.slice(0, 2)).toEqual(["dropped", "failed"]);
+    expect(updates()[0].values).toContain("UserOp dropped: not included after 24 hours");
+  });
+
+  test("bundler errors are counted and leave the row untouched", async () => {
+    actionRows = [row()];
+    mockGetReceipt.mockRejectedValue(new Error("429 Too Many Requests"));
+
+    const summary = await trackPendingUserOps(clients);
+
+    expect(summary.errors).toBe(1);
+    expect(updates()).toHaveLength(0);
+  });
+});
+
+describe("GET /api/agent/cron/receipts", () => {
+  const SECRET = "test_secret_12345678901234567890";
+
+  beforeEach(() => {
+    queries.length = 0;
+    actionRows = [];
+    process.env.DATABASE_URL = "postgres://test";
+    process.env.CRON_SECRET = SECRET;
+  });
+
+  function request(secret: string | null) {
+    return new NextRequest("http://localhost/api/agent/cron/receipts", {
+      headers: secret ? { authorization: `Bearer ${secret}` } : {},
+    });
+  }
+
+  test("runs the tracker for Vercel Cron's bearer-authenticated GET", async () => {
+    const response = await GET(request(SECRET));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).summary).toMatchObject({ checked: 0 });
+    expect(queries.some((q) => q.text.includes("FROM agent_actions"))).toBe(true);
+  });
+
+  test("requires the cron secret", async () => {
+    const response = await GET(request(null));
+
+    expect(response.status).toBe(401);
+    expect(queries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Vault History Tests
+ * Snapshot persistence from ApyEventMonitor and downsampled history queries
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+
+const queries: Array<{ text: string; values: unknown[] }> = [];
+const mockRows = vi.fn((): any[] => []);
+
+vi.mock("@neondatabase/serverless", () => ({
+  neon:
+    () =>
+    async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      queries.push({ text: strings.join("?"), values });
+      return mockRows();
+    },
+}));
+
+const VAULTS = [
+  {
+    address: "0x000000000000000000000000000000000000000A",
+    name: "Vault A",
+    netApy: 0.051,
+    avgNetApy: 0.05,
+    totalAssetsUsd: 5_000_000,
+    liquidityUsd: 4_000_000,
+    whitelisted: true,
+    warnings: [],
+    curators: { items: [{ name: "Steakhouse" }] },
+  },
+];
+
+vi.mock("@/lib/morpho/api-client", () => ({
+  MorphoClient: class {
+    fetchVaults = vi.fn().mockResolvedValue(VAULTS);
+  },
+}));
+
+const OPPORTUNITIES = [
+  {
+    id: "morpho-a",
+    protocol: "morpho",
+    address: "0x000000000000000000000000000000000000000A",
+    apy: 0.051,
+    tvl: 5_000_000_000_000n,
+    liquidityDepth: 4_000_000_000_000n,
+    riskScore: 0.2,
+  },
+  {
+    id: "aave-usdc",
+    protocol: "aave",
+    address: "0x4e65fE4DbA92790696d040ac24Aa414708F5c0AB",
+    apy: 0.042,
+    tvl: 90_000_000_000_000n,
+    liquidityDepth: 12_000_000_000_000n,
+    riskScore: 0.1,
+  },
+];
+
+vi.mock("@/lib/protocols/adapter", () => ({
+  protocolRegistry: { getAllOpportunities: vi.fn(async () => OPPORTUNITIES) },
+}));
+
+const { recordVaultSnapshots, getVaultHistory, isHistoryRange } = await import(
+  "@/lib/morpho/vault-history"
+);
+const { ApyEventMonitor } = await import("@/lib/agent/event-monitor");
+
+describe("vault history", () => {
+  const originalUrl = process.env.DATABASE_URL;
+
+  beforeEach(() => {
+    queries.length = 0;
+    mockRows.mockReset().mockReturnValue([]);
+    process.env.DATABASE_URL = "postgres://test";
+  });
+
+  afterEach(() => {
+    process.env.DATABASE_URL = originalUrl;
+  });
+
+  test("detectChanges persists a snapshot row per vault", async () => {
+    await new ApyEventMonitor().detectChanges();
+
+    const insert = queries.find((q) => q.text.includes("INSERT INTO vault_snapshots"));
+    expect(insert).toBeDefined();
+
+    const rows = JSON.parse(insert!.values[0] as string);
+    expect(rows).toEqual([
+      expect.objectContaining({
+        vault_address: "0x000000000000000000000000000000000000000a",
+        protocol: "morpho",
+        apy: 0.051,
+        avg_net_apy: 0.05,
+        tvl_usd: 5_000_000,
+        liquidity_usd: 4_000_000,
+      }),
+    ]);
+    expect(rows[0].risk_score).toBeGreaterThanOrEqual(0);
+  });
+
+  test("detectChanges snapshots the other protocols' markets too", async () => {
+    await new ApyEventMonitor().detectChanges();
+
+    const inserts = queries.filter((q) => q.text.includes("INSERT INTO vault_snapshots"));
+    expect(inserts).toHaveLength(2);
+
+    // Morpho vaults already come from the Morpho API
+    expect(JSON.parse(inserts[1].values[0] as string)).toEqual([
+      {
+        vault_address: "0x4e65fe4dba92790696d040ac24aa414708f5c0ab",
+        protocol: "aave",
+        apy: 0.042,
+        avg_net_apy: null,
+        tvl_usd: 90_000_000,
+        liquidity_usd: 12_000_000,
+        risk_score: 0.1,
+      },
+    ]);
+  });
+
+  test("snapshot persistence is skipped without a database", async () => {
+    delete process.env.DATABASE_URL;
+
+    expect(await recordVaultSnapshots(VAULTS as any)).toBe(0);
+    expect(queries).toHaveLength(0);
+  });
+
+  test("history query buckets by the range and maps numeric columns", async () => {
+    mockRows.mockReturnValue([
+      {
+        bucket: "2025-01-01T00:00:00Z",
+        apy: "0.05",
+        avg_net_apy: "0.049",
+        tvl_usd: "5000000",
+        liquidity_usd: null,
+        risk_score: "0.1",
+        samples: "12",
+      },
+    ]);
+
+    const points = await getVaultHistory("0x000000000000000000000000000000000000000A", "30d");
+
+    expect(queries[0].values).toEqual([
+      "12 hours",
+      "0x000000000000000000000000000000000000000a",
+      "30 days",
+    ]);
+    expect(points).toEqual([
+      {
+        timestamp: "2025-01-01T00:00:00.000Z",
+        apy: 0.05,
+        avgNetApy: 0.049,
+        tvlUsd: 5_000_000,
+        liquidityUsd: null,
+        riskScore: 0.1,
+        samples: 12,
+      },
+    ]);
+  });
+
+  test("validates ranges", () => {
+    expect(isHistoryRange("7d")).toBe(true);
+    expect(isHistoryRange("2w")).toBe(false);
+    expect(isHistoryRange("toString")).toBe(false);
+    expect(isHistoryRange("__proto__")).toBe(false);
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Yield Ledger Tests
+ * Average-cost replay with partial exits, rebalance leg recording and
+ * realized/unrealized yield from convertToAssets
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+
+const queries: Array<{ text: string; values: unknown[] }> = [];
+let ledgerRows: any[] = [];
+const mockReadContract = vi.fn();
+const mockGetAllPositions = vi.fn();
+
+vi.mock("@neondatabase/serverless", () => ({
+  neon:
+    () =>
+    async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const text = strings.join("?");
+      queries.push({ text, values });
+      if (text.includes("FROM position_ledger")) return ledgerRows;
+      return [];
+    },
+}));
+
+vi.mock("@/lib/shared/rpc-client", () => ({
+  baseClient: {
+    readContract: (args: any) => mockReadContract(args),
+  },
+}));
+
+vi.mock("@/lib/protocols/adapter", () => ({
+  protocolRegistry: {
+    getAllPositions: (address: string) => mockGetAllPositions(address),
+  },
+}));
+
+process.env.DATABASE_URL = process.env.DATABASE_URL || "postgres://test";
+
+const {
+  replayLedger,
+  buildRebalanceLedgerEntries,
+  getYieldSummary,
+  recordLedgerEntries,
+  seedOpeningLots,
+  toCostBasisLots,
+} = await import("@/lib/agent/yield-ledger");
+
+const USER = "0x1111111111111111111111111111111111111111" as `0x${string}`;
+const VAULT_A = "0x000000000000000000000000000000000000000a";
+const VAULT_B = "0x000000000000000000000000000000000000000b";
+const AUSDC = "0x4e65fE4DbA92790696d040ac24Aa414708F5c0AB";
+
+let seq = 0;
+function entry(
+  entryType: "deposit" | "withdraw" | "rebalance_in" | "rebalance_out",
+  shares: bigint,
+  assets: bigint,
+  overrides: Record<string, unknown> = {}
+) {
+  return {
+    id: `entry-${++seq}`,
+    vaultAddress: VAULT_A,
+    protocol: "morpho",
+    entryType,
+    shares,
+    assets,
+    txHash: null,
+    agentActionId: null,
+    createdAt: new Date(Date.UTC(2026, 0, seq)).toISOString(),
+    ...overrides,
+  };
+}
+
+// Ledger rows as returned by Postgres (numerics come back as strings)
+function row(e: ReturnType<typeof entry>) {
+  return {
+    id: e.id,
+    vault_address: e.vaultAddress,
+    protocol: e.protocol,
+    entry_type: e.entryType,
+    shares: e.shares.toString(),
+    assets: e.assets.toString(),
+    tx_hash: null,
+    agent_action_id: null,
+    created_at: e.createdAt,
+  };
+}
+
+describe("Yield Ledger", () => {
+  beforeEach(() => {
+    queries.length = 0;
+    ledgerRows = [];
+    mockReadContract.mockReset();
+    mockGetAllPositions.mockReset().mockResolvedValue([]);
+  });
+
+  describe("replay", () => {
+    test("books realized yield on a partial exit at average cost", () => {
+      // Two deposits: 1000 USDC for 1000 shares, then 1100 USDC for 1000 shares
+      const [state] = replayLedger([
+        entry("deposit", 1_000_000_000n, 1_000_000_000n),
+        entry("deposit", 1_000_000_000n, 1_100_000_000n),
+        // Redeem half the shares for 1200 USDC; cost is half of 2100
+        entry("withdraw", 1_000_000_000n, 1_200_000_000n),
+      ]);
+
+      expect(state.sharesHeld).toBe(1_000_000_000n);
+      expect(state.principal).toBe(1_050_000_000n);
+      expect(state.realizedYield).toBe(150_000_000n);
+      expect(state.deposited).toBe(2_100_000_000n);
+      expect(state.withdrawn).toBe(1_200_000_000n);
+    });
+
+    test("closes a rebasing market out when an exit exceeds the recorded balance", () => {
+      const [state] = replayLedger([
+        entry("deposit", 1_000n, 1_000n, { vaultAddress: AUSDC, protocol: "aave" }),
+        entry("withdraw", 1_060n, 1_060n, { vaultAddress: AUSDC, protocol: "aave" }),
+      ]);
+
+      expect(state.sharesHeld).toBe(0n);
+      expect(state.principal).toBe(0n);
+      expect(state.realizedYield).toBe(60n);
+      expect(state.unknownBasisProceeds).toBe(0n);
+    });
+
+    test("reports an exit from a vault with no prior entries as unknown basis", () => {
+      const exit = entry("rebalance_out", 1_000_000_000n, 1_040_000_000n);
+      const [state] = replayLedger([exit]);
+
+      expect(state.realizedYield).toBe(0n);
+      expect(state.periodRealizedYield).toBe(0n);
+      expect(state.unknownBasisProceeds).toBe(1_040_000_000n);
+      expect(state.withdrawn).toBe(1_040_000_000n);
+      expect(toCostBasisLots([exit])[0]).toMatchObject({
+        costBasis: 0n,
+        realizedIncome: 0n,
+        unknownBasisProceeds: 1_040_000_000n,
+      });
+    });
+
+    test("only books yield on the recorded shares of a larger vault exit", () => {
+      const [state] = replayLedger([
+        entry("deposit", 1_000n, 1_000n),
+        // 500 of the 1500 shares redeemed were never recorded
+        entry("withdraw", 1_500n, 1_560n),
+      ]);
+
+      expect(state.sharesHeld).toBe(0n);
+      expect(state.realizedYield).toBe(40n);
+      expect(state.unknownBasisProceeds).toBe(520n);
+    });
+
+    test("tracks each vault separately through a rebalance", () => {
+      const states = replayLedger([
+        entry("deposit", 1_000n, 1_000n),
+        entry("rebalance_out", 1_000n, 1_030n),
+        entry("rebalance_in", 900n, 1_030n, { vaultAddress: VAULT_B }),
+      ]);
+
+      const a = states.find((s) => s.vaultAddress === VAULT_A)!;
+      const b = states.find((s) => s.vaultAddress === VAULT_B)!;
+      expect(a.realizedYield).toBe(30n);
+      // Rebalanced proceeds become the new vault's principal
+      expect(b).toMatchObject({ sharesHeld: 900n, principal: 1_030n, realizedYield: 0n });
+    });
+
+    test("limits period realized yield to exits on or after the start", () => {
+      const entries = [
+        entry("deposit", 2_000n, 2_000n),
+        entry("withdraw", 1_000n, 1_100n),
+        entry("withdraw", 500n, 560n),
+      ];
+
+      const [state] = replayLedger(entries, new Date(entries[2].createdAt));
+
+      expect(state.realizedYield).toBe(160n);
+      expect(state.periodRealizedYield).toBe(60n);
+    });
+  });
+
+  describe("rebalance legs", () => {
+    test("uses simulated share deltas for portfolio deposit legs", async () => {
+      const entries = await buildRebalanceLedgerEntries(
+        {
+          legs: {
+            redeems: [{ vault: VAULT_A, protocol: "morpho", shares: 500n, assets: 520n }],
+            deposits: [{ vault: VAULT_B, protocol: "morpho", assets: 520n }],
+          },
+        },
+        {
+          method: "eth_simulateV1",
+          success: true,
+          balanceChecked: true,
+          maxSlippage: 0.005,
+          expectedAssets: "520",
+          plannedAssets: "520",
+          shares: [
+            { vault: VAULT_A, token: VAULT_A, before: "500", after: "0" },
+            { vault: VAULT_B, token: VAULT_B, before: "100", after: "590" },
+          ],
+        }
+      );
+
+      expect(entries).toEqual([
+        {
+          vaultAddress: VAULT_A,
+          protocol: "morpho",
+          entryType: "rebalance_out",
+          shares: 500n,
+          assets: 520n,
+        },
+        {
+          vaultAddress: VAULT_B,
+          protocol: "morpho",
+          entryType: "rebalance_in",
+          shares: 490n,
+          assets: 520n,
+        },
+      ]);
+      expect(mockReadContract).not.toHaveBeenCalled();
+    });
+
+    test("converts at the current rate without a balance-checked simulation", async () => {
+      mockReadContract.mockResolvedValue(950n);
+
+      const entries = await buildRebalanceLedgerEntries({
+        currentVault: { address: VAULT_A, shares: "1000", assets: "1010" },
+        targetVault: { address: VAULT_B },
+      });
+
+      expect(entries[1]).toMatchObject({ entryType: "rebalance_in", shares: 950n, assets: 1010n });
+      expect(mockReadContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          address: VAULT_B,
+          functionName: "convertToShares",
+          args: [1010n],
+        })
+      );
+    });
+  });
+
+  describe("opening lots", () => {
+    test("seeds a vault with no ledger history from its live shares", async () => {
+      mockReadContract.mockImplementation(async ({ functionName }: any) =>
+        functionName === "balanceOf" ? 900_000_000n : 950_000_000n
+      );
+
+      await seedOpeningLots({
+        userId: "user-1",
+        walletAddress: USER,
+        vaults: [{ vaultAddress: VAULT_A as `0x${string}`, protocol: "morpho" }],
+      });
+
+      const insert = queries.find((q) => q.text.includes("INSERT INTO position_ledger"))!;
+      expect(insert.values.slice(0, 7)).toEqual([
+        "user-1",
+        USER,
+        VAULT_A,
+        "morpho",
+        "deposit",
+        "900000000",
+        "950000000",
+      ]);
+
+      // The seeded lot is the basis for the first exit, so only growth is yield
+      const [state] = replayLedger([
+        entry("deposit", 900_000_000n, 950_000_000n),
+        entry("rebalance_out", 900_000_000n, 960_000_000n),
+      ]);
+      expect(state.realizedYield).toBe(10_000_000n);
+    });
+
+    test("leaves vaults that already have ledger history alone", async () => {
+      ledgerRows = [{ vault_address: VAULT_A }];
+
+      await seedOpeningLots({
+        walletAddress: USER,
+        vaults: [{ vaultAddress: VAULT_A as `0x${string}`, protocol: "morpho" }],
+      });
+
+      expect(mockReadContract).not.toHaveBeenCalled();
+      expect(queries.some((q) => q.text.includes("INSERT INTO position_ledger"))).toBe(false);
+    });
+  });
+
+  test("values open ERC4626 holdings with convertToAssets and lending markets live", async () => {
+    ledgerRows = [
+      row(entry("deposit", 1_000_000_000n, 1_000_000_000n)),
+      row(entry("withdraw", 400_000_000n, 420_000_000n)),
+      row(entry("deposit", 500_000_000n, 500_000_000n, { vaultAddress: AUSDC, protocol: "aave" })),
+    ];
+    mockReadContract.mockResolvedValue(640_000_000n); // 600 shares now worth 640 USDC
+    mockGetAllPositions.mockResolvedValue([{ vaultAddress: AUSDC, assets: 512_000_000n }]);
+
+    const summary = await getYieldSummary(USER);
+
+    expect(mockReadContract).toHaveBeenCalledWith(
+      expect.objectContaining({ functionName: "convertToAssets", args: [600_000_000n] })
+    );
+    expect(summary.realizedYield).toBe(20_000_000n);
+    expect(summary.unrealizedYield).toBe(40_000_000n + 12_000_000n);
+    expect(summary.totalYield).toBe(72_000_000n);
+    expect(summary.netPrincipal).toBe(1_100_000_000n);
+    expect(summary.currentValue).toBe(1_152_000_000n);
+  });
+
+  test("holds unpriced vaults at principal", async () => {
+    ledgerRows = [row(entry("deposit", 1_000n, 1_000n))];
+    mockReadContract.mockRejectedValue(new Error("rpc down"));
+
+    const summary = await getYieldSummary(USER);
+
+    expect(summary.vaults[0]).toMatchObject({ priced: false, currentAssets: 1_000n });
+    expect(summary.unrealizedYield).toBe(0n);
+  });
+
+  test("excludes legs of failed rebalances and stores lowercased addresses", async () => {
+    await getYieldSummary(USER);
+    const select = queries.find((q) => q.text.includes("FROM position_ledger"))!;
+    expect(select.text).toContain("a.status <> 'failed'");
+
+    await recordLedgerEntries([
+      {
+        walletAddress: "0xABCDEF0000000000000000000000000000000001",
+        vaultAddress: "0xABCDEF0000000000000000000000000000000002",
+        protocol: "morpho",
+        entryType: "deposit",
+        shares: 10n,
+        assets: 11n,
+      },
+    ]);
+    const insert = queries.find((q) => q.text.includes("INSERT INTO position_ledger"))!;
+    expect(insert.values.slice(1, 7)).toEqual([
+      "0xabcdef0000000000000000000000000000000001",
+      "0xabcdef0000000000000000000000000000000002",
+      "morpho",
+      "deposit",
+      "10",
+      "11",
+    ]);
+  });
+});
@@ -45,6 +45,13 @@ export const mockBundlerResponse = {
       userOpHash: params.hash,
     };
   }),
+
+  // Bundler-side simulation (simulateHandleOp) — rejects when the UserOp would revert
+  estimateUserOperationGas: vi.fn().mockImplementation(async () => ({
+    callGasLimit: BigInt(500000),
+    verificationGasLimit: BigInt(200000),
+    preVerificationGas: BigInt(50000),
+  })),
 };
 
 /**
@@ -75,6 +82,7 @@ export function resetBundlerMocks(): void {
   bundlerCalls.length = 0;
   mockBundlerResponse.sendUserOperation.mockClear();
   mockBundlerResponse.waitForUserOperationReceipt.mockClear();
+  mockBundlerResponse.estimateUserOperationGas.mockClear();
 }
 
 /**
@@ -85,6 +93,7 @@ export function createMockBundlerClient(account: any) {
     account,
     sendUserOperation: mockBundlerResponse.sendUserOperation,
     waitForUserOperationReceipt: mockBundlerResponse.waitForUserOperationReceipt,
+    estimateUserOperationGas: mockBundlerResponse.estimateUserOperationGas,
   };
 }
 
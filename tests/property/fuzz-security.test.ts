@@ -261,6 +261,14 @@ describe("Fuzz: Session revocation case-insensitivity", () => {
         },
       }),
     }));
+    const revoked = new Set<string>();
+    vi.doMock("@/lib/security/session-registry", () => ({
+      persistRevocation: async (key: string) => {
+        revoked.add(key.toLowerCase());
+        return true;
+      },
+      isRevokedInRegistry: async (key: string) => revoked.has(key.toLowerCase()),
+    }));
 
     const { revokeSession, isSessionRevoked } = await import("@/lib/security/session-revocation");
     const samples = fc.sample(
@@ -270,7 +278,7 @@ describe("Fuzz: Session revocation case-insensitivity", () => {
 
     for (const addr of samples) {
       store.clear();
-      await revokeSession(addr);
+      await revokeSession(addr, { walletAddress: "0xuser", kind: "agent", revokedBy: "user" });
 
       // All case variants should return true
       expect(await isSessionRevoked(addr.toUpperCase())).toBe(true);
@@ -282,6 +290,7 @@ describe("Fuzz: Session revocation case-insensitivity", () => {
     }
 
     vi.doUnmock("@/lib/redis/client");
+    vi.doUnmock("@/lib/security/session-registry");
   });
 });
 